@@ -1,17 +1,402 @@
 const express = require('express');
+const fs = require('fs/promises');
 const path = require('path');
+const { WebSocketServer } = require('ws');
 
 const app = express();
 const distPath = path.join(__dirname, 'dist');
 const indexHtml = path.join(distPath, 'index.html');
 
+// Workspaces are kept next to the packaged exe, or next to this file in development.
+// Override with DATA_DIR=<path> or --data-dir=<path>.
+const dataDirArg = process.argv.find((arg) => arg.startsWith('--data-dir='));
+const dataDir = path.resolve(
+  (dataDirArg && dataDirArg.slice('--data-dir='.length)) ||
+    process.env.DATA_DIR ||
+    path.join(process.pkg ? path.dirname(process.execPath) : __dirname, 'data')
+);
+
+// Record stores of a workspace (see src/storage/records.ts). Snapshots are
+// large, so each gets its own file instead of living in workspace.json.
+const RECORD_STORES = ['nodes', 'sessions', 'trees', 'templates', 'snapshots', 'meta'];
+const WORKSPACE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const workspaceDir = (id) => path.join(dataDir, id);
+const workspaceFile = (id) => path.join(workspaceDir(id), 'workspace.json');
+const snapshotsDir = (id) => path.join(workspaceDir(id), 'snapshots');
+const snapshotFile = (id, key) => path.join(snapshotsDir(id), `${encodeURIComponent(key)}.json`);
+
+const httpError = (status, message) => Object.assign(new Error(message), { status });
+
+const readJson = async (file, fallback) => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+};
+
+// Write a temp file to rename into place later, so a crash never leaves half a file
+let tempFileCount = 0;
+const stageJson = async (file, value) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.${++tempFileCount}.tmp`;
+  try {
+    await fs.writeFile(tempFile, JSON.stringify(value));
+  } catch (error) {
+    await fs.rm(tempFile, { force: true });
+    throw error;
+  }
+  return tempFile;
+};
+
+const writeJson = async (file, value) => {
+  await fs.rename(await stageJson(file, value), file);
+};
+
+const readWorkspace = async (id) => {
+  const stored = await readJson(workspaceFile(id), {});
+  const records = Object.fromEntries(
+    RECORD_STORES.map((store) => [store, store === 'snapshots' ? {} : stored[store] || {}])
+  );
+
+  let files = [];
+  try {
+    files = await fs.readdir(snapshotsDir(id));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  for (const file of files.filter((name) => name.endsWith('.json'))) {
+    const key = decodeURIComponent(file.slice(0, -'.json'.length));
+    records.snapshots[key] = await readJson(path.join(snapshotsDir(id), file), null);
+  }
+  return { revision: stored.revision || 0, records };
+};
+
+// Every save bumps the revision; one based on an older revision is refused,
+// so a stale tab or client can't write over newer data. A save applies in
+// full or not at all: snapshot files are staged first, and only moved into
+// place once workspace.json - the commit point - has the new revision.
+const applyChanges = async (id, baseRevision, changes) => {
+  const stored = await readJson(workspaceFile(id), {});
+  const revision = stored.revision || 0;
+  if (baseRevision !== revision) {
+    throw httpError(409, 'The workspace was saved elsewhere since it was loaded');
+  }
+
+  const snapshotChanges = [];
+  try {
+    for (const change of changes) {
+      if (change.store === 'snapshots') {
+        const file = snapshotFile(id, change.key);
+        const tempFile =
+          change.type === 'put' ? await stageJson(file, change.value) : null;
+        snapshotChanges.push({ file, tempFile });
+        continue;
+      }
+
+      stored[change.store] = stored[change.store] || {};
+      if (change.type === 'put') {
+        stored[change.store][change.key] = change.value;
+      } else {
+        delete stored[change.store][change.key];
+      }
+    }
+
+    stored.revision = revision + 1;
+    await writeJson(workspaceFile(id), stored);
+  } catch (error) {
+    await Promise.all(
+      snapshotChanges.map(({ tempFile }) => tempFile && fs.rm(tempFile, { force: true }))
+    );
+    throw error;
+  }
+
+  for (const { file, tempFile } of snapshotChanges) {
+    if (tempFile) await fs.rename(tempFile, file);
+    else await fs.rm(file, { force: true });
+  }
+  return stored.revision;
+};
+
+const validateChanges = (body) => {
+  if (!body || !Number.isInteger(body.baseRevision) || !Array.isArray(body.changes)) {
+    throw httpError(400, 'Expected a base revision and an array of changes');
+  }
+  body.changes.forEach((change) => {
+    if (
+      !change ||
+      !RECORD_STORES.includes(change.store) ||
+      typeof change.key !== 'string' ||
+      !change.key ||
+      (change.type !== 'put' && change.type !== 'delete')
+    ) {
+      throw httpError(400, 'Invalid change');
+    }
+  });
+};
+
+// Saves to one workspace run one at a time
+const workspaceQueues = new Map();
+const enqueue = (id, task) => {
+  const previous = workspaceQueues.get(id) || Promise.resolve();
+  const result = previous.then(task, task);
+  workspaceQueues.set(id, result.catch(() => undefined));
+  return result;
+};
+
+const api = express.Router();
+api.use(express.json({ limit: '100mb' }));
+
+api.param('workspaceId', (_req, _res, next, id) => {
+  next(WORKSPACE_ID_PATTERN.test(id) ? undefined : httpError(400, 'Invalid workspace id'));
+});
+
+api.get('/storage', (_req, res) => {
+  res.json({ backend: 'server' });
+});
+
+api.get('/workspaces/:workspaceId/records', async (req, res) => {
+  res.json(await enqueue(req.params.workspaceId, () => readWorkspace(req.params.workspaceId)));
+});
+
+api.post('/workspaces/:workspaceId/changes', async (req, res) => {
+  validateChanges(req.body);
+  const { workspaceId } = req.params;
+  const { baseRevision, changes } = req.body;
+  const revision = await enqueue(workspaceId, () =>
+    applyChanges(workspaceId, baseRevision, changes)
+  );
+  res.json({ revision });
+});
+
+api.use((_req, _res, next) => {
+  next(httpError(404, 'Not found'));
+});
+
+api.use((error, _req, res, _next) => {
+  const status = error.status || error.statusCode || 500;
+  if (status >= 500) console.error('Storage request failed:', error);
+  res.status(status).json({ error: status >= 500 ? 'Storage error' : error.message });
+});
+
+app.use('/api', api);
 app.use(express.static(distPath));
 
 app.get(/^\/.*/, (_req, res) => {
   res.sendFile(indexHtml);
 });
 
-const port = process.env.PORT || 4173;
-app.listen(port, () => {
-  console.log(`Nested List App running at http://localhost:${port}`);
-});
+// Real-time collaboration (see src/collab/client.ts). Clients in a room send
+// node operations; the relay numbers them, keeps them so a client that was
+// offline can catch up, and passes them and everyone's focus to the others.
+// Rooms live in memory while anyone is in them - a restarted relay or a
+// room that emptied is refilled by the clients.
+const COLLAB_PATH = '/collab';
+// A room name, or a room and a tree inside it (see getTreeRoom in
+// src/plugins/collaboration.tsx)
+const COLLAB_ROOM_PATTERN = /^[A-Za-z0-9_-]{1,64}(:[A-Za-z0-9_-]{1,64})?$/;
+// Operations logged since the last compaction before the log is folded into
+// the operations that rebuild the room's current document
+const COLLAB_COMPACT_AFTER = 1000;
+
+// Mirrors isCollabOp and applyOp in src/collab/document.ts: every node field
+// and place is a last-writer-wins register ordered by Lamport stamps, and
+// deletes win
+const COLLAB_LOCAL_FIELDS = ['id', 'parentId', 'childrenIds', 'level', 'isCollapsed'];
+
+const compareStamps = (a, b) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+const isCollabOp = (op) => {
+  if (!op || typeof op !== 'object' || typeof op.id !== 'string' || !op.id) return false;
+  const { stamp } = op;
+  if (!Array.isArray(stamp) || !Number.isInteger(stamp[0]) || typeof stamp[1] !== 'string') {
+    return false;
+  }
+  const hasFields =
+    !!op.fields &&
+    typeof op.fields === 'object' &&
+    !Array.isArray(op.fields) &&
+    Object.keys(op.fields).every((key) => !COLLAB_LOCAL_FIELDS.includes(key));
+  const hasPlace =
+    (op.parentId === null || typeof op.parentId === 'string') &&
+    typeof op.position === 'string' &&
+    op.position.length > 0;
+  switch (op.type) {
+    case 'create':
+      return hasFields && hasPlace;
+    case 'update':
+      return hasFields;
+    case 'move':
+      return hasPlace;
+    case 'delete':
+      return true;
+    default:
+      return false;
+  }
+};
+
+const applyCollabOp = (doc, op) => {
+  if (!doc.has(op.id)) doc.set(op.id, { fields: {}, place: null, deletedAt: null });
+  const state = doc.get(op.id);
+  const isNewer = (register) => !register || compareStamps(op.stamp, register.stamp) > 0;
+
+  if (op.type === 'create' || op.type === 'update') {
+    Object.entries(op.fields).forEach(([key, value]) => {
+      if (isNewer(state.fields[key])) state.fields[key] = { value, stamp: op.stamp };
+    });
+  }
+  if ((op.type === 'create' || op.type === 'move') && isNewer(state.place)) {
+    state.place = { parentId: op.parentId, position: op.position, stamp: op.stamp };
+  }
+  if (op.type === 'delete' && (!state.deletedAt || compareStamps(op.stamp, state.deletedAt) > 0)) {
+    state.deletedAt = op.stamp;
+  }
+};
+
+// The fewest operations that rebuild the document, with their original stamps
+const documentOps = (doc) => {
+  const ops = [];
+  doc.forEach((state, id) => {
+    // Nothing can bring a deleted node back, so its delete is all that's needed
+    if (state.deletedAt) {
+      ops.push({ type: 'delete', id, stamp: state.deletedAt });
+      return;
+    }
+    const byStamp = new Map();
+    Object.entries(state.fields).forEach(([key, { value, stamp }]) => {
+      const stampKey = stamp.join(':');
+      if (!byStamp.has(stampKey)) byStamp.set(stampKey, { type: 'update', id, stamp, fields: {} });
+      byStamp.get(stampKey).fields[key] = value;
+    });
+    ops.push(...byStamp.values());
+    if (state.place) {
+      const { parentId, position, stamp } = state.place;
+      ops.push({ type: 'move', id, stamp, parentId, position });
+    }
+  });
+  return ops;
+};
+
+const attachCollabRelay = (server, { compactAfter = COLLAB_COMPACT_AFTER } = {}) => {
+  const rooms = new Map();
+  let roomCount = 0;
+  const getRoom = (id) => {
+    if (!rooms.has(id)) {
+      rooms.set(id, {
+        // Tells a returning client whether its sequence numbers are from this room
+        epoch: `${Date.now().toString(36)}-${++roomCount}`,
+        seq: 0,
+        log: [],
+        logSize: 0,
+        compactedSize: 0,
+        doc: new Map(),
+        clients: new Set(),
+      });
+    }
+    return rooms.get(id);
+  };
+
+  const compact = (room) => {
+    const ops = documentOps(room.doc);
+    room.log = [{ seq: room.seq, ops }];
+    room.logSize = room.compactedSize = ops.length;
+  };
+
+  const send = (socket, message) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+  const broadcast = (room, sender, message) => {
+    room.clients.forEach((client) => {
+      if (client !== sender) send(client, message);
+    });
+  };
+
+  const relay = new WebSocketServer({ server, path: COLLAB_PATH });
+  relay.on('connection', (socket) => {
+    let roomId = null;
+    let room = null;
+    let peer = null;
+
+    socket.on('message', (data) => {
+      let message;
+      try {
+        message = JSON.parse(String(data));
+      } catch (error) {
+        return;
+      }
+
+      if (message?.type === 'join' && !room) {
+        if (!COLLAB_ROOM_PATTERN.test(message.room) || typeof message.peer?.id !== 'string') {
+          socket.close(1008, 'Invalid join');
+          return;
+        }
+        roomId = message.room;
+        room = getRoom(roomId);
+        peer = { ...message.peer, nodeId: null };
+        const since = Number.isInteger(message.since) ? message.since : 0;
+        // A client that synced with another instance of the room saw a log
+        // that is gone; it gets everything and resends everything
+        const reset = since > 0 && message.epoch !== room.epoch;
+        send(socket, {
+          type: 'sync',
+          epoch: room.epoch,
+          seq: room.seq,
+          reset,
+          ops: room.log.filter((entry) => reset || entry.seq > since).flatMap((entry) => entry.ops),
+          peers: Array.from(room.clients, (client) => client.peer),
+        });
+        socket.peer = peer;
+        room.clients.add(socket);
+        broadcast(room, socket, { type: 'presence', peer });
+        return;
+      }
+      if (!room) return;
+
+      if (message?.type === 'ops' && Array.isArray(message.ops) && message.ops.length > 0) {
+        // Clients ignore malformed operations, so the log doesn't keep them
+        const ops = message.ops.filter(isCollabOp);
+        if (ops.length > 0) {
+          room.seq++;
+          room.log.push({ seq: room.seq, ops });
+          room.logSize += ops.length;
+          ops.forEach((op) => applyCollabOp(room.doc, op));
+          if (room.logSize - room.compactedSize > compactAfter) compact(room);
+          broadcast(room, socket, { type: 'ops', seq: room.seq, ops });
+        }
+        send(socket, { type: 'ack', seq: room.seq });
+      } else if (message?.type === 'presence') {
+        peer.nodeId = typeof message.nodeId === 'string' ? message.nodeId : null;
+        broadcast(room, socket, { type: 'presence', peer });
+      }
+    });
+
+    socket.on('close', () => {
+      if (!room) return;
+      room.clients.delete(socket);
+      broadcast(room, socket, { type: 'leave', peerId: peer.id });
+      if (room.clients.size === 0 && rooms.get(roomId) === room) rooms.delete(roomId);
+    });
+  });
+  return relay;
+};
+
+const startServer = (port = process.env.PORT || 4173, { collabCompactAfter } = {}) =>
+  new Promise((resolve, reject) => {
+    const server = app.listen(port, (error) => {
+      if (error) reject(error);
+      else resolve(server);
+    });
+    attachCollabRelay(server, { compactAfter: collabCompactAfter });
+  });
+
+module.exports = { app, startServer };
+
+if (require.main === module) {
+  startServer().then((server) => {
+    console.log(`Nested List App running at http://localhost:${server.address().port}`);
+    console.log(`Saving workspaces in ${dataDir}`);
+    console.log(`Collaboration relay at ws://localhost:${server.address().port}${COLLAB_PATH}`);
+  });
+}
@@ -1,16 +1,24 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useState } from 'react';
 import { Header } from './components/ui/Header';
 import { Toolbar } from './components/ui/Toolbar';
 import { SearchFilter } from './components/ui/SearchFilter';
+import { BulkActionBar } from './components/ui/BulkActionBar';
 import { ListView } from './components/core/ListView';
 import { CommandPalette } from './components/ui/CommandPalette';
 import { SidePanel } from './components/ui/SidePanel';
+import { NodeDetailPane } from './components/ui/NodeDetailPane';
 import { StatusBadge } from './components/ui/StatusBadge';
 import { ToastContainer } from './components/ui/Toast';
+import { DataImportDialog, ImportFile } from './components/ui/DataImportDialog';
+import { SaveConflictDialog } from './components/ui/SaveConflictDialog';
 import { useStore } from './store/useStore';
 import { useToastStore } from './store/useToastStore';
 import { useAutoSave } from './hooks/useAutoSave';
 import { useKeyboardNav } from './hooks/useKeyboardNav';
+import { useClipboard } from './hooks/useClipboard';
+import { useCollaboration } from './hooks/useCollaboration';
+import { useTimeRules } from './hooks/useTimeRules';
+import { workspaceStorage } from './storage/workspaceStorage';
 import { APP_CONFIG } from './constants/config';
 
 function App() {
@@ -20,118 +28,95 @@ function App() {
   const addToast = useToastStore((state) => state.addToast);
   const toasts = useToastStore((state) => state.toasts);
   const dismissToast = useToastStore((state) => state.dismissToast);
-  const { isSaving, lastSavedAt, hasPendingChanges } = useAutoSave();
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-  // Enable keyboard navigation
-  useKeyboardNav();
+  const { isSaving, lastSavedAt, hasPendingChanges, hasConflict, resolveConflict } =
+    useAutoSave();
+  const [showConflict, setShowConflict] = useState(false);
+  // Files opened by shortcut (no file yet) or dropped on the window
+  const [pendingImport, setPendingImport] = useState<{ file?: ImportFile } | null>(null);
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+
+  // Prompt whenever a save conflict starts; the status badge reopens a dismissed prompt
+  useEffect(() => {
+    setShowConflict(hasConflict);
+  }, [hasConflict]);
 
-  // Load from localStorage on mount
+  // Load the saved workspace on mount
   useEffect(() => {
-    try {
-      const savedData = localStorage.getItem(APP_CONFIG.STORAGE_KEY);
-      if (savedData) {
-        importData(savedData);
-      }
-    } catch (error) {
-      console.error('Failed to load saved data:', error);
-      const message =
-        error instanceof Error && error.message
-          ? error.message
-          : 'Failed to load saved data from storage.';
-      addToast(
-        rtl ? `טעינת נתונים שמורים נכשלה: ${message}` : message,
-        'error'
-      );
-    }
-  }, [addToast, importData, rtl]);
-
-  // File input handler for import
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const data = e.target?.result as string;
-        if (data) {
+    let cancelled = false;
+    let savedData: string | null = null;
+
+    const load = async () => {
+      try {
+        savedData = await workspaceStorage.load();
+        if (savedData && !cancelled) {
+          importData(savedData);
+          workspaceStorage.adopt(useStore.getState());
+        }
+      } catch (error) {
+        console.error('Failed to load saved data:', error);
+        // Keep a copy the next auto-save can't overwrite, e.g. data from a newer version
+        if (savedData) {
           try {
-            importData(data);
-            addToast(
-              rtl ? 'ייבוא הושלם בהצלחה' : 'Import completed successfully',
-              'success'
-            );
-          } catch (error) {
-            console.error('Import failed:', error);
-            const message =
-              error instanceof Error && error.message
-                ? error.message
-                : rtl
-                ? 'ייבוא נכשל'
-                : 'Import failed. Please check the file.';
-            addToast(message, 'error');
+            localStorage.setItem(APP_CONFIG.UNREADABLE_STORAGE_KEY, savedData);
+          } catch (backupError) {
+            console.error('Failed to back up unreadable data:', backupError);
           }
         }
-      };
-      reader.readAsText(file);
-    }
-    // Allow selecting the same file again
-    event.target.value = '';
-  };
-
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const state = useStore.getState();
-
-      // Undo
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-        e.preventDefault();
-        state.undo();
-      }
-
-      // Redo
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && e.shiftKey) {
-        e.preventDefault();
-        state.redo();
+        const message =
+          error instanceof Error && error.message
+            ? error.message
+            : 'Failed to load saved data from storage.';
+        // Read here so switching direction later doesn't reload from storage
+        addToast(
+          useStore.getState().currentSession.rtl
+            ? `טעינת נתונים שמורים נכשלה: ${message}`
+            : message,
+          'error'
+        );
+      } finally {
+        if (!cancelled) setIsWorkspaceLoaded(true);
       }
+    };
+    load();
 
-      // Export
-      if ((e.ctrlKey || e.metaKey) && e.key === 'e') {
-        e.preventDefault();
-        try {
-          const data = state.exportData();
-          const blob = new Blob([data], { type: 'application/json' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `nested-list-${Date.now()}.json`;
-          a.click();
-          URL.revokeObjectURL(url);
-        } catch (error) {
-          console.error('Export failed:', error);
-          addToast(
-            rtl ? 'ייצוא נכשל' : 'Export failed. Please try again.',
-            'error'
-          );
-        }
+    return () => {
+      cancelled = true;
+    };
+  }, [addToast, importData]);
+
+  // Keyboard shortcuts - app-level actions on top of the navigation keymap
+  useKeyboardNav({
+    'export.json': () => {
+      try {
+        const data = useStore.getState().exportData();
+        const blob = new Blob([data], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `nested-list-${Date.now()}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+      } catch (error) {
+        console.error('Export failed:', error);
+        addToast(
+          rtl ? 'ייצוא נכשל' : 'Export failed. Please try again.',
+          'error'
+        );
       }
+    },
+    'import.json': () => {
+      setPendingImport({});
+    },
+  });
 
-      // Import
-      if ((e.ctrlKey || e.metaKey) && e.key === 'i') {
-        e.preventDefault();
-        fileInputRef.current?.click();
-      }
+  // Copy/cut/paste of subtrees
+  useClipboard();
 
-      // Focus mode exit
-      if (e.key === 'Escape' && state.currentSession.focusedNodeId) {
-        e.preventDefault();
-        state.zoomOut();
-      }
-    };
+  // Real-time editing with others, once the saved workspace is in
+  useCollaboration(isWorkspaceLoaded);
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  // Rules that depend on the clock rather than on edits
+  useTimeRules(isWorkspaceLoaded);
 
   // Drag and drop file import
   useEffect(() => {
@@ -143,18 +128,7 @@ function App() {
         reader.onload = (event) => {
           const data = event.target?.result as string;
           if (data) {
-            try {
-              importData(data);
-            } catch (error) {
-              console.error('Import failed:', error);
-              const message =
-                error instanceof Error && error.message
-                  ? error.message
-                  : rtl
-                  ? 'ייבוא נכשל'
-                  : 'Import failed. Please check the file.';
-              addToast(message, 'error');
-            }
+            setPendingImport({ file: { content: data, fileName: file.name } });
           }
         };
         reader.readAsText(file);
@@ -172,7 +146,7 @@ function App() {
       window.removeEventListener('drop', handleDrop);
       window.removeEventListener('dragover', handleDragOver);
     };
-  }, [addToast, importData, rtl]);
+  }, []);
 
   return (
     <div
@@ -192,25 +166,31 @@ function App() {
             isSaving={isSaving}
             hasPendingChanges={hasPendingChanges}
             lastSavedAt={lastSavedAt}
+            hasConflict={hasConflict}
+            onResolveConflict={() => setShowConflict(true)}
           />
         </div>
         <Toolbar />
         <SearchFilter />
+        <BulkActionBar />
         <ListView />
       </div>
 
       <CommandPalette />
       <SidePanel />
+      <NodeDetailPane />
       <ToastContainer toasts={toasts} onDismiss={dismissToast} rtl={rtl} />
 
-      {/* Hidden file input for keyboard shortcut import */}
-      <input
-        type="file"
-        accept="application/json"
-        ref={fileInputRef}
-        onChange={handleFileChange}
-        style={{ display: 'none' }}
-      />
+      {pendingImport && (
+        <DataImportDialog
+          initialFile={pendingImport.file}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {hasConflict && showConflict && (
+        <SaveConflictDialog onResolve={resolveConflict} onClose={() => setShowConflict(false)} />
+      )}
 
       {/* Footer */}
       <footer
@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createRequire } from 'module';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { produce } from 'immer';
+import { CollabClient, CollabPeer, CollabStatus, createCollabClient } from '../client';
+import { CollabTree } from '../document';
+import { ListNode } from '../../types/core';
+
+// Two clients against the relay in server.cjs, on a free local port
+const { startServer } = createRequire(import.meta.url)('../../../server.cjs');
+// Low, so the relay compacts its log during the tests
+const COMPACT_AFTER = 20;
+
+const node = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 1,
+  updatedAt: 1,
+  ...data,
+});
+
+const treeOf = (...nodes: ListNode[]): CollabTree => ({
+  nodes: Object.fromEntries(nodes.map((n) => [n.id, n])),
+  rootNodeIds: nodes.filter((n) => n.parentId === null).map((n) => n.id),
+});
+
+const titles = (tree: CollabTree, ids = tree.rootNodeIds): unknown[] =>
+  ids.map((id) =>
+    tree.nodes[id].childrenIds.length > 0
+      ? [tree.nodes[id].title, titles(tree, tree.nodes[id].childrenIds)]
+      : tree.nodes[id].title
+  );
+
+let server: Server;
+let url: string;
+let roomCount = 0;
+const clients: CollabClient[] = [];
+
+const join = (
+  name: string,
+  room: string,
+  initial: CollabTree = treeOf(),
+  beforeReplace?: () => void,
+  // Stands in for localStorage, shared by the clients given the same one
+  pending?: { ops: unknown[] }
+) => {
+  const member = {
+    tree: initial,
+    status: 'offline' as CollabStatus,
+    peers: [] as CollabPeer[],
+    client: null as unknown as CollabClient,
+    edit: (recipe: (draft: CollabTree) => void) => {
+      member.tree = produce(member.tree, recipe);
+      member.client.commitLocalChanges();
+    },
+  };
+  member.client = createCollabClient({
+    url,
+    room,
+    user: { id: name, name, color: '#888888' },
+    getTree: () => member.tree,
+    setTree: (tree) => {
+      member.tree = tree;
+    },
+    onStatusChange: (status) => {
+      member.status = status;
+    },
+    onPeersChange: (peers) => {
+      member.peers = peers;
+    },
+    beforeReplace,
+    loadPending: pending && (() => pending.ops),
+    savePending:
+      pending &&
+      ((ops) => {
+        pending.ops = ops;
+      }),
+    reconnectDelay: 50,
+  });
+  clients.push(member.client);
+  member.client.connect();
+  return member;
+};
+
+const nextRoom = () => `room-${++roomCount}`;
+
+describe('collaboration against the local relay', () => {
+  beforeAll(async () => {
+    server = await startServer(0, { collabCompactAfter: COMPACT_AFTER });
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/collab`;
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.disconnect());
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('gives a joining client the tree already in the room', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a'), node('b')));
+    await vi.waitFor(() => expect(alice.status).toBe('online'));
+
+    const beforeReplace = vi.fn();
+    const bob = join('bob', room, treeOf(node('mine')), beforeReplace);
+    await vi.waitFor(() => expect(titles(bob.tree)).toEqual(['a', 'b']));
+    expect(beforeReplace).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the local tree without a snapshot when the room has the same one', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a'), node('b')));
+    await vi.waitFor(() => expect(alice.status).toBe('online'));
+
+    const beforeReplace = vi.fn();
+    const mine = treeOf(node('a'), node('b'));
+    const bob = join('bob', room, mine, beforeReplace);
+    await vi.waitFor(() => expect(bob.status).toBe('online'));
+    expect(bob.tree).toBe(mine);
+    expect(beforeReplace).not.toHaveBeenCalled();
+  });
+
+  it('shares edits from both clients as they happen', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a'), node('b')));
+    await vi.waitFor(() => expect(alice.status).toBe('online'));
+    const bob = join('bob', room);
+    await vi.waitFor(() => expect(titles(bob.tree)).toEqual(['a', 'b']));
+
+    alice.edit((draft) => {
+      draft.nodes.a.title = 'A';
+    });
+    bob.edit((draft) => {
+      draft.nodes.c = node('c', { parentId: 'b', level: 1 });
+      draft.nodes.b.childrenIds.push('c');
+    });
+
+    const expected = ['A', ['b', ['c']]];
+    await vi.waitFor(() => {
+      expect(titles(alice.tree)).toEqual(expected);
+      expect(titles(bob.tree)).toEqual(expected);
+      expect(alice.client.getPendingCount()).toBe(0);
+    });
+  });
+
+  it('reconciles edits made offline when the client reconnects', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a'), node('b')));
+    await vi.waitFor(() => expect(alice.status).toBe('online'));
+    const bob = join('bob', room);
+    await vi.waitFor(() => expect(titles(bob.tree)).toEqual(['a', 'b']));
+
+    bob.client.disconnect();
+    bob.edit((draft) => {
+      draft.nodes.a.isDone = true;
+      draft.nodes.offline = node('offline');
+      draft.rootNodeIds.unshift('offline');
+    });
+    alice.edit((draft) => {
+      draft.nodes.b.title = 'B';
+      delete draft.nodes.a;
+      draft.rootNodeIds = ['b'];
+    });
+    expect(bob.client.getPendingCount()).toBe(2);
+
+    bob.client.connect();
+
+    await vi.waitFor(() => {
+      expect(titles(bob.tree)).toEqual(['offline', 'B']);
+      expect(alice.tree).toEqual(bob.tree);
+      expect(bob.client.getPendingCount()).toBe(0);
+    });
+  });
+
+  it('sends the edits an earlier client in the room left unconfirmed', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a'), node('b')));
+    await vi.waitFor(() => expect(alice.status).toBe('online'));
+    const pending = { ops: [] as unknown[] };
+    const bob = join('bob', room, treeOf(), undefined, pending);
+    await vi.waitFor(() => expect(titles(bob.tree)).toEqual(['a', 'b']));
+
+    bob.client.disconnect();
+    bob.edit((draft) => {
+      draft.nodes.a.title = 'A';
+    });
+    expect(pending.ops).toHaveLength(1);
+
+    // A reload: a new client starting from the saved tree and the kept edits
+    const beforeReplace = vi.fn();
+    const reloaded = join('bob', room, bob.tree, beforeReplace, pending);
+
+    await vi.waitFor(() => {
+      expect(titles(alice.tree)).toEqual(['A', 'b']);
+      expect(reloaded.tree).toEqual(alice.tree);
+      expect(pending.ops).toEqual([]);
+    });
+    expect(beforeReplace).not.toHaveBeenCalled();
+  });
+
+  it('refills a room that emptied from the clients that come back', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a'), node('b')));
+    await vi.waitFor(() => {
+      expect(alice.status).toBe('online');
+      expect(alice.client.getPendingCount()).toBe(0);
+    });
+    alice.client.disconnect();
+
+    // The relay dropped the room, so bob starts it over with his own tree
+    const beforeReplace = vi.fn();
+    const bob = join('bob', room, treeOf(node('mine')), beforeReplace);
+    await vi.waitFor(() => expect(bob.status).toBe('online'));
+    expect(beforeReplace).not.toHaveBeenCalled();
+
+    alice.client.connect();
+
+    await vi.waitFor(() => {
+      expect(titles(alice.tree).sort()).toEqual(['a', 'b', 'mine']);
+      expect(alice.tree).toEqual(bob.tree);
+    });
+  });
+
+  it('compacts the log so a late joiner gets the current tree, not every edit', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a')));
+    await vi.waitFor(() => expect(alice.status).toBe('online'));
+    for (let i = 1; i <= COMPACT_AFTER * 3; i++) {
+      alice.edit((draft) => {
+        draft.nodes.a.title = `a${i}`;
+      });
+    }
+    await vi.waitFor(() => expect(alice.client.getPendingCount()).toBe(0));
+
+    const socket = new WebSocket(url);
+    const sync = await new Promise<{ ops: unknown[] }>((resolve) => {
+      socket.onopen = () =>
+        socket.send(JSON.stringify({ type: 'join', room, since: 0, peer: { id: 'raw' } }));
+      socket.onmessage = (event) => resolve(JSON.parse(String(event.data)));
+    });
+    socket.close();
+    expect(sync.ops.length).toBeLessThan(COMPACT_AFTER * 2);
+
+    const bob = join('bob', room);
+    await vi.waitFor(() => expect(titles(bob.tree)).toEqual([`a${COMPACT_AFTER * 3}`]));
+  });
+
+  it('shows who is focused on which node', async () => {
+    const room = nextRoom();
+    const alice = join('alice', room, treeOf(node('a')));
+    await vi.waitFor(() => expect(alice.status).toBe('online'));
+    const bob = join('bob', room);
+    await vi.waitFor(() => expect(bob.status).toBe('online'));
+
+    alice.client.setFocus('a');
+
+    await vi.waitFor(() =>
+      expect(bob.peers).toEqual([expect.objectContaining({ id: 'alice', nodeId: 'a' })])
+    );
+
+    alice.client.disconnect();
+
+    await vi.waitFor(() => expect(bob.peers).toEqual([]));
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest';
+import { produce } from 'immer';
+import {
+  applyOp,
+  CollabOp,
+  CollabTree,
+  createDocument,
+  diffTrees,
+  documentOps,
+  isCollabOp,
+  materialize,
+  nextStamp,
+} from '../document';
+import { keyBetween, keysBetween } from '../positions';
+import { ListNode } from '../../types/core';
+
+const node = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 1,
+  updatedAt: 1,
+  ...data,
+});
+
+// One client: its document and the tree it shows
+const createReplica = (clientId: string) => {
+  const replica = {
+    doc: createDocument(),
+    tree: { nodes: {}, rootNodeIds: [] } as CollabTree,
+    edit: (recipe: (draft: CollabTree) => void): CollabOp[] => {
+      const next = produce(replica.tree, recipe);
+      const ops = diffTrees(replica.doc, replica.tree, next, () =>
+        nextStamp(replica.doc, clientId)
+      );
+      ops.forEach((op) => applyOp(replica.doc, op));
+      replica.tree = next;
+      return ops;
+    },
+    receive: (ops: CollabOp[]) => {
+      ops.forEach((op) => applyOp(replica.doc, op));
+      replica.tree = materialize(replica.doc, replica.tree);
+    },
+  };
+  return replica;
+};
+
+const titles = (tree: CollabTree, ids = tree.rootNodeIds): unknown[] =>
+  ids.map((id) =>
+    tree.nodes[id].childrenIds.length > 0
+      ? [tree.nodes[id].title, titles(tree, tree.nodes[id].childrenIds)]
+      : tree.nodes[id].title
+  );
+
+const addNode = (draft: CollabTree, child: ListNode, index = Infinity) => {
+  draft.nodes[child.id] = child;
+  const siblings = child.parentId
+    ? draft.nodes[child.parentId].childrenIds
+    : draft.rootNodeIds;
+  siblings.splice(index, 0, child.id);
+};
+
+const moveNode = (draft: CollabTree, id: string, parentId: string | null, index = Infinity) => {
+  const moving = draft.nodes[id];
+  const from = moving.parentId ? draft.nodes[moving.parentId].childrenIds : draft.rootNodeIds;
+  from.splice(from.indexOf(id), 1);
+  moving.parentId = parentId;
+  const to = parentId ? draft.nodes[parentId].childrenIds : draft.rootNodeIds;
+  to.splice(index, 0, id);
+};
+
+// Two replicas that start from the same tree
+const setup = () => {
+  const alice = createReplica('alice');
+  const bob = createReplica('bob');
+  bob.receive(
+    alice.edit((draft) => {
+      addNode(draft, node('a'));
+      addNode(draft, node('b'));
+      addNode(draft, node('a1', { parentId: 'a', level: 1 }));
+    })
+  );
+  return { alice, bob };
+};
+
+describe('fractional positions', () => {
+  it('generates keys that sort between their neighbours', () => {
+    const first = keyBetween(null, null);
+    const after = keyBetween(first, null);
+    const before = keyBetween(null, first);
+    const middle = keyBetween(first, after);
+
+    expect([after, middle, before, first].sort()).toEqual([before, first, middle, after]);
+    expect(keyBetween('a', 'a0V')).toMatch(/^a0/);
+    expect(() => keyBetween('b', 'a')).toThrow();
+  });
+
+  it('keeps finding room between adjacent keys', () => {
+    let low = keyBetween(null, null);
+    const high = keyBetween(low, null);
+    for (let i = 0; i < 50; i++) {
+      const key = keyBetween(low, high);
+      expect(key > low && key < high).toBe(true);
+      expect(key.endsWith('0')).toBe(false);
+      low = key;
+    }
+  });
+
+  it('spreads several keys evenly', () => {
+    const keys = keysBetween('a', 'b', 5);
+    expect(keys).toHaveLength(5);
+    expect([...keys].sort()).toEqual(keys);
+    expect(keys.every((key) => key > 'a' && key < 'b')).toBe(true);
+  });
+});
+
+describe('collaborative document', () => {
+  it('expresses local edits as create, update, move and delete operations', () => {
+    const { alice } = setup();
+
+    expect(alice.edit((draft) => addNode(draft, node('c'))).map((op) => op.type)).toEqual([
+      'create',
+    ]);
+    expect(
+      alice.edit((draft) => {
+        draft.nodes.c.title = 'C';
+      })
+    ).toEqual([expect.objectContaining({ type: 'update', id: 'c', fields: { title: 'C' } })]);
+    expect(alice.edit((draft) => moveNode(draft, 'c', null, 0))).toEqual([
+      expect.objectContaining({ type: 'move', id: 'c', parentId: null }),
+    ]);
+    expect(
+      alice.edit((draft) => {
+        delete draft.nodes.c;
+        draft.rootNodeIds.splice(draft.rootNodeIds.indexOf('c'), 1);
+      })
+    ).toEqual([expect.objectContaining({ type: 'delete', id: 'c' })]);
+  });
+
+  it('does not send collapse state, which is per user', () => {
+    const { alice } = setup();
+    expect(
+      alice.edit((draft) => {
+        draft.nodes.a.isCollapsed = true;
+      })
+    ).toEqual([]);
+  });
+
+  it('sends cleared fields as null', () => {
+    const { alice, bob } = setup();
+    bob.receive(
+      alice.edit((draft) => {
+        draft.nodes.a.description = 'notes';
+      })
+    );
+    const ops = alice.edit((draft) => {
+      delete draft.nodes.a.description;
+    });
+    bob.receive(JSON.parse(JSON.stringify(ops)));
+
+    expect(ops[0]).toMatchObject({ type: 'update', fields: { description: null } });
+    expect(bob.tree.nodes.a).not.toHaveProperty('description');
+  });
+
+  it('converges on concurrent edits whatever order they arrive in', () => {
+    const { alice, bob } = setup();
+    const fromAlice = alice.edit((draft) => {
+      draft.nodes.a.title = 'Alice';
+      addNode(draft, node('x', { parentId: 'a', level: 1 }), 0);
+    });
+    const fromBob = bob.edit((draft) => {
+      draft.nodes.a.isDone = true;
+      addNode(draft, node('y', { parentId: 'a', level: 1 }), 0);
+      moveNode(draft, 'b', null, 0);
+    });
+
+    alice.receive(fromBob);
+    bob.receive(fromAlice);
+
+    expect(alice.tree).toEqual(bob.tree);
+    expect(alice.tree.nodes.a).toMatchObject({ title: 'Alice', isDone: true });
+    expect(titles(alice.tree)).toEqual(['b', ['Alice', ['x', 'y', 'a1']]]);
+  });
+
+  it('lets the later write win when both edit the same field', () => {
+    const { alice, bob } = setup();
+    const first = alice.edit((draft) => {
+      draft.nodes.a.title = 'First';
+    });
+    const second = bob.edit((draft) => {
+      draft.nodes.a.title = 'Second';
+    });
+
+    alice.receive(second);
+    bob.receive(first);
+
+    expect(alice.tree.nodes.a.title).toBe(bob.tree.nodes.a.title);
+  });
+
+  it('keeps a node deleted even when someone edits it at the same time', () => {
+    const { alice, bob } = setup();
+    const deletion = alice.edit((draft) => {
+      delete draft.nodes.a1;
+      delete draft.nodes.a;
+      draft.rootNodeIds = ['b'];
+    });
+    const edit = bob.edit((draft) => {
+      draft.nodes.a1.title = 'Edited';
+      addNode(draft, node('a2', { parentId: 'a', level: 1 }));
+    });
+
+    alice.receive(edit);
+    bob.receive(deletion);
+
+    expect(alice.tree).toEqual(bob.tree);
+    expect(Object.keys(bob.tree.nodes)).toEqual(['b']);
+  });
+
+  it('breaks a cycle from concurrent moves by lifting a node to the root', () => {
+    const { alice, bob } = setup();
+    const aUnderB = alice.edit((draft) => moveNode(draft, 'a', 'b'));
+    const bUnderA = bob.edit((draft) => moveNode(draft, 'b', 'a'));
+
+    alice.receive(bUnderA);
+    bob.receive(aUnderB);
+
+    expect(alice.tree).toEqual(bob.tree);
+    expect(Object.keys(alice.tree.nodes).sort()).toEqual(['a', 'a1', 'b']);
+    expect(alice.tree.rootNodeIds).toHaveLength(1);
+  });
+
+  it('flattens nodes that concurrent moves push past the depth limit', () => {
+    const alice = createReplica('alice');
+    alice.edit((draft) => {
+      addNode(draft, node('a'));
+      addNode(draft, node('b', { parentId: 'a', level: 1 }));
+      addNode(draft, node('c'));
+      addNode(draft, node('d', { parentId: 'c', level: 1 }));
+    });
+    const bob = createReplica('bob');
+    bob.receive(documentOps(alice.doc));
+    const cUnderB = alice.edit((draft) => moveNode(draft, 'c', 'b'));
+
+    bob.receive(cUnderB);
+    const tree = materialize(bob.doc, null, 3);
+
+    expect(tree.nodes.d).toMatchObject({ level: 2, parentId: 'b' });
+    expect(tree.nodes.b.childrenIds).toEqual(['c', 'd']);
+  });
+
+  it('keeps unchanged nodes as the same objects', () => {
+    const { alice, bob } = setup();
+    const before = bob.tree;
+    bob.receive(
+      alice.edit((draft) => {
+        draft.nodes.b.title = 'B';
+      })
+    );
+
+    expect(bob.tree.nodes.a).toBe(before.nodes.a);
+    expect(bob.tree.rootNodeIds).toBe(before.rootNodeIds);
+    expect(bob.tree.nodes.b).not.toBe(before.nodes.b);
+  });
+
+  it('only moves the node that changed place when reordering', () => {
+    const { alice } = setup();
+    alice.edit((draft) => {
+      addNode(draft, node('c'));
+      addNode(draft, node('d'));
+    });
+
+    const ops = alice.edit((draft) => moveNode(draft, 'd', null, 1));
+
+    expect(ops).toEqual([expect.objectContaining({ type: 'move', id: 'd' })]);
+  });
+
+  it('rebuilds the same tree from a document snapshot', () => {
+    const { alice } = setup();
+    alice.edit((draft) => {
+      draft.nodes.b.title = 'B';
+      moveNode(draft, 'b', 'a', 0);
+    });
+    const copy = createReplica('carol');
+    copy.receive(documentOps(alice.doc));
+
+    expect(copy.tree).toEqual(materialize(alice.doc));
+    expect(titles(copy.tree)).toEqual([['a', ['B', 'a1']]]);
+  });
+
+  it('rejects malformed operations', () => {
+    expect(isCollabOp({ type: 'delete', id: 'a', stamp: [1, 'x'] })).toBe(true);
+    expect(isCollabOp({ type: 'delete', id: 'a', stamp: 1 })).toBe(false);
+    expect(isCollabOp({ type: 'move', id: 'a', stamp: [1, 'x'], parentId: null })).toBe(false);
+    expect(
+      isCollabOp({ type: 'update', id: 'a', stamp: [1, 'x'], fields: { childrenIds: [] } })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,314 @@
+import { APP_CONFIG } from '../constants/config';
+import { ListNodeId } from '../types/core';
+import {
+  applyOp,
+  CollabOp,
+  CollabTree,
+  createDocument,
+  diffTrees,
+  documentOps,
+  isCollabOp,
+  materialize,
+  nextStamp,
+} from './document';
+
+/**
+ * Collaboration client - keeps the local tree in a room on the relay in
+ * server.cjs. Local edits become operations, sent right away while online and
+ * queued while offline. On reconnect the client first applies what it missed,
+ * then sends its queue; the document merges both sides the same way on every
+ * client.
+ */
+
+export type CollabStatus = 'offline' | 'connecting' | 'online';
+
+export interface CollabUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface CollabPeer extends CollabUser {
+  nodeId: ListNodeId | null;
+}
+
+export interface CollabClientOptions {
+  url: string;
+  room: string;
+  user: CollabUser;
+  getTree: () => CollabTree;
+  // Show a tree built from collaborators' operations
+  setTree: (tree: CollabTree) => void;
+  // Called before the first join to a room replaces the local tree with a
+  // different one
+  beforeReplace?: () => void;
+  // Operations the relay hasn't confirmed, kept for the next client in the
+  // room so edits made offline survive a reload or a session switch
+  loadPending?: () => unknown[];
+  savePending?: (ops: CollabOp[]) => void;
+  onStatusChange?: (status: CollabStatus) => void;
+  onPeersChange?: (peers: CollabPeer[]) => void;
+  reconnectDelay?: number;
+}
+
+export interface CollabClient {
+  connect: () => void;
+  disconnect: () => void;
+  // Turn local edits since the last call into operations
+  commitLocalChanges: () => void;
+  setFocus: (nodeId: ListNodeId | null) => void;
+  // Operations the relay hasn't confirmed yet
+  getPendingCount: () => number;
+}
+
+type RelayMessage =
+  | {
+      type: 'sync';
+      epoch: string;
+      seq: number;
+      reset: boolean;
+      ops: unknown[];
+      peers: CollabPeer[];
+    }
+  | { type: 'ops'; seq: number; ops: unknown[] }
+  | { type: 'ack'; seq: number }
+  | { type: 'presence'; peer: CollabPeer }
+  | { type: 'leave'; peerId: string };
+
+// Materialized trees keep the objects of nodes that didn't change
+const isSameTree = (a: CollabTree, b: CollabTree) =>
+  a.rootNodeIds === b.rootNodeIds &&
+  Object.keys(a.nodes).length === Object.keys(b.nodes).length &&
+  Object.keys(a.nodes).every((id) => a.nodes[id] === b.nodes[id]);
+
+export const createCollabClient = ({
+  url,
+  room,
+  user,
+  getTree,
+  setTree,
+  beforeReplace,
+  loadPending,
+  savePending,
+  onStatusChange,
+  onPeersChange,
+  reconnectDelay = APP_CONFIG.COLLAB_RECONNECT_DELAY,
+}: CollabClientOptions): CollabClient => {
+  const doc = createDocument();
+  // The tree as of the last commit or remote update; null until the first join
+  let base: CollabTree | null = null;
+  // Last relay sequence number applied, so a reconnect only fetches the rest
+  let lastSeq = 0;
+  // Which instance of the room `lastSeq` counts in; the relay drops empty rooms
+  let epoch: string | null = null;
+  let outbox: CollabOp[] = [];
+  // Sent batches waiting for the relay's ack, resent if the connection drops
+  let inFlight: CollabOp[][] = [];
+
+  let socket: WebSocket | null = null;
+  let status: CollabStatus = 'offline';
+  let shouldConnect = false;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let focus: ListNodeId | null = null;
+  let peers = new Map<string, CollabPeer>();
+
+  const setStatus = (next: CollabStatus) => {
+    if (status === next) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const setPeers = (next: Map<string, CollabPeer>) => {
+    peers = next;
+    onPeersChange?.(Array.from(peers.values()));
+  };
+
+  const send = (message: object) => {
+    socket!.send(JSON.stringify(message));
+  };
+
+  const savePendingOps = () => savePending?.([...inFlight.flat(), ...outbox]);
+
+  // Put a tree built from the document on screen, and take it back as the
+  // store keeps it, so checks made on the way in aren't sent as edits
+  const showTree = (tree: CollabTree) => {
+    setTree(tree);
+    base = getTree();
+  };
+
+  const flush = () => {
+    if (status !== 'online' || outbox.length === 0) return;
+    inFlight.push(outbox);
+    send({ type: 'ops', ops: outbox });
+    outbox = [];
+  };
+
+  const commitLocalChanges = () => {
+    if (!base) return;
+    const next = getTree();
+    if (next.nodes === base.nodes && next.rootNodeIds === base.rootNodeIds) return;
+
+    const ops = diffTrees(doc, base, next, () => nextStamp(doc, user.id));
+    ops.forEach((op) => applyOp(doc, op));
+    base = next;
+    outbox.push(...ops);
+    flush();
+    savePendingOps();
+  };
+
+  const applyRemote = (ops: unknown[]) => {
+    const valid = ops.filter(isCollabOp);
+    if (valid.length === 0) return;
+    // Local edits go into the document first, so the rebuilt tree keeps them
+    commitLocalChanges();
+    valid.forEach((op) => applyOp(doc, op));
+    showTree(materialize(doc, base));
+  };
+
+  const handleSync = (message: Extract<RelayMessage, { type: 'sync' }>) => {
+    if (!base) {
+      if (message.ops.length > 0) {
+        // The room's tree, with what an earlier client couldn't send on top
+        const restored = (loadPending?.() ?? []).filter(isCollabOp);
+        [...message.ops.filter(isCollabOp), ...restored].forEach((op) => applyOp(doc, op));
+        outbox = [...restored, ...outbox];
+        const local = getTree();
+        const next = materialize(doc, local);
+        if (isSameTree(next, local)) {
+          base = local;
+        } else {
+          beforeReplace?.();
+          showTree(next);
+        }
+      } else {
+        // An empty room starts out with our tree
+        base = { nodes: {}, rootNodeIds: [] };
+      }
+    } else if (message.reset) {
+      // The room was dropped or the relay restarted: take what others resent,
+      // then resend everything we know
+      applyRemote(message.ops);
+      outbox = documentOps(doc);
+      inFlight = [];
+    } else {
+      applyRemote(message.ops);
+    }
+
+    // Unconfirmed batches may or may not have reached the log; ops are idempotent
+    outbox = [...inFlight.flat(), ...outbox];
+    inFlight = [];
+    lastSeq = message.seq;
+    epoch = message.epoch;
+    setPeers(new Map(message.peers.filter((p) => p.id !== user.id).map((p) => [p.id, p])));
+    attempts = 0;
+    setStatus('online');
+    if (focus) send({ type: 'presence', nodeId: focus });
+    commitLocalChanges();
+    flush();
+    savePendingOps();
+  };
+
+  const handleMessage = (message: RelayMessage) => {
+    switch (message.type) {
+      case 'sync':
+        handleSync(message);
+        break;
+      case 'ops':
+        applyRemote(message.ops);
+        lastSeq = Math.max(lastSeq, message.seq);
+        break;
+      case 'ack':
+        inFlight.shift();
+        lastSeq = Math.max(lastSeq, message.seq);
+        savePendingOps();
+        break;
+      case 'presence':
+        if (message.peer.id !== user.id) {
+          setPeers(new Map(peers).set(message.peer.id, message.peer));
+        }
+        break;
+      case 'leave': {
+        const next = new Map(peers);
+        next.delete(message.peerId);
+        setPeers(next);
+        break;
+      }
+    }
+  };
+
+  const open = () => {
+    retryTimer = null;
+    let current: WebSocket;
+    try {
+      current = new WebSocket(url);
+    } catch (error) {
+      // A malformed URL won't get better by retrying
+      console.error('Cannot connect to the collaboration relay:', error);
+      shouldConnect = false;
+      setStatus('offline');
+      return;
+    }
+    setStatus('connecting');
+    socket = current;
+
+    current.onopen = () => {
+      send({ type: 'join', room, since: lastSeq, epoch, peer: user });
+    };
+    current.onmessage = (event: MessageEvent) => {
+      let message: RelayMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch (error) {
+        console.error('Ignoring malformed collaboration message:', error);
+        return;
+      }
+      handleMessage(message);
+    };
+    current.onclose = () => {
+      if (socket !== current) return;
+      socket = null;
+      setStatus('offline');
+      setPeers(new Map());
+      if (!shouldConnect) return;
+
+      const delay = Math.min(
+        reconnectDelay * 2 ** attempts,
+        APP_CONFIG.COLLAB_MAX_RECONNECT_DELAY
+      );
+      attempts++;
+      retryTimer = setTimeout(open, delay);
+    };
+  };
+
+  return {
+    connect: () => {
+      shouldConnect = true;
+      if (!socket && !retryTimer) open();
+    },
+
+    disconnect: () => {
+      shouldConnect = false;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      const current = socket;
+      socket = null;
+      current?.close();
+      attempts = 0;
+      setStatus('offline');
+      setPeers(new Map());
+    },
+
+    commitLocalChanges,
+
+    setFocus: (nodeId) => {
+      if (focus === nodeId) return;
+      focus = nodeId;
+      if (status === 'online') send({ type: 'presence', nodeId });
+    },
+
+    getPendingCount: () => outbox.length + inFlight.reduce((sum, ops) => sum + ops.length, 0),
+  };
+};
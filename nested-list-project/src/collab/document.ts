@@ -0,0 +1,429 @@
+import { APP_CONFIG } from '../constants/config';
+import { ListNode, ListNodeId } from '../types/core';
+import { fitSubtreeToDepth } from '../utils/importers';
+import { keysBetween } from './positions';
+
+/**
+ * Collaborative document - the tree as a CRDT that every client applies the
+ * same operations to, in whatever order they arrive, and ends up with the
+ * same tree.
+ *
+ * Every node field is a last-writer-wins register, and so is the node's place
+ * (parent and position among its siblings), which makes a move one write.
+ * Writes are ordered by Lamport stamps with the client id breaking ties.
+ * Deletes win: a deleted node stays deleted even if someone edits or moves it
+ * at the same time, and its subtree is hidden with it.
+ */
+
+// Lamport counter and the client that wrote
+export type Stamp = [counter: number, clientId: string];
+
+// Fields every client shares; structure comes from places, collapse state is per user
+export type NodeFields = Omit<
+  ListNode,
+  'id' | 'parentId' | 'childrenIds' | 'level' | 'isCollapsed'
+>;
+
+const LOCAL_FIELDS = new Set(['id', 'parentId', 'childrenIds', 'level', 'isCollapsed']);
+
+export interface Placement {
+  parentId: ListNodeId | null;
+  position: string;
+}
+
+// Cleared fields travel as null, since JSON drops undefined
+export type FieldValues = { [K in keyof NodeFields]?: NodeFields[K] | null };
+
+export type CollabOp =
+  | { type: 'create'; id: ListNodeId; stamp: Stamp; fields: FieldValues } & Placement
+  | { type: 'update'; id: ListNodeId; stamp: Stamp; fields: FieldValues }
+  | { type: 'move'; id: ListNodeId; stamp: Stamp } & Placement
+  | { type: 'delete'; id: ListNodeId; stamp: Stamp };
+
+export interface CollabTree {
+  nodes: Record<ListNodeId, ListNode>;
+  rootNodeIds: ListNodeId[];
+}
+
+interface Register<T> {
+  value: T;
+  stamp: Stamp;
+}
+
+interface NodeState {
+  fields: Record<string, Register<unknown>>;
+  // Null until a create or move for the node arrives
+  place: Register<Placement> | null;
+  deletedAt: Stamp | null;
+}
+
+export interface CollabDocument {
+  nodes: Record<ListNodeId, NodeState>;
+  // Highest counter seen, so local stamps come after everything applied
+  clock: number;
+}
+
+export const createDocument = (): CollabDocument => ({ nodes: {}, clock: 0 });
+
+export const compareStamps = (a: Stamp, b: Stamp) =>
+  a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+export const nextStamp = (doc: CollabDocument, clientId: string): Stamp => [
+  ++doc.clock,
+  clientId,
+];
+
+const isStamp = (value: unknown): value is Stamp =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  Number.isInteger(value[0]) &&
+  typeof value[1] === 'string';
+
+const isPlacement = (value: Record<string, unknown>) =>
+  (value.parentId === null || typeof value.parentId === 'string') &&
+  typeof value.position === 'string' &&
+  value.position.length > 0;
+
+const isFieldValues = (value: unknown) =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.keys(value).every((key) => !LOCAL_FIELDS.has(key));
+
+/**
+ * Shape check for operations received from the network
+ */
+export const isCollabOp = (value: unknown): value is CollabOp => {
+  if (!value || typeof value !== 'object') return false;
+  const op = value as Record<string, unknown>;
+  if (typeof op.id !== 'string' || !op.id || !isStamp(op.stamp)) return false;
+
+  switch (op.type) {
+    case 'create':
+      return isFieldValues(op.fields) && isPlacement(op);
+    case 'update':
+      return isFieldValues(op.fields);
+    case 'move':
+      return isPlacement(op);
+    case 'delete':
+      return true;
+    default:
+      return false;
+  }
+};
+
+const getNodeState = (doc: CollabDocument, id: ListNodeId) => {
+  if (!doc.nodes[id]) {
+    doc.nodes[id] = { fields: {}, place: null, deletedAt: null };
+  }
+  return doc.nodes[id];
+};
+
+const writeFields = (state: NodeState, fields: FieldValues, stamp: Stamp) => {
+  Object.entries(fields).forEach(([key, value]) => {
+    const current = state.fields[key];
+    if (!current || compareStamps(stamp, current.stamp) > 0) {
+      state.fields[key] = { value, stamp };
+    }
+  });
+};
+
+const writePlace = (state: NodeState, placement: Placement, stamp: Stamp) => {
+  if (!state.place || compareStamps(stamp, state.place.stamp) > 0) {
+    state.place = {
+      value: { parentId: placement.parentId, position: placement.position },
+      stamp,
+    };
+  }
+};
+
+/**
+ * Apply an operation. Applying one twice, or several in any order, gives the
+ * same document. Mutates `doc`.
+ */
+export const applyOp = (doc: CollabDocument, op: CollabOp) => {
+  doc.clock = Math.max(doc.clock, op.stamp[0]);
+  const state = getNodeState(doc, op.id);
+
+  switch (op.type) {
+    case 'create':
+      writeFields(state, op.fields, op.stamp);
+      writePlace(state, op, op.stamp);
+      break;
+    case 'update':
+      writeFields(state, op.fields, op.stamp);
+      break;
+    case 'move':
+      writePlace(state, op, op.stamp);
+      break;
+    case 'delete':
+      if (!state.deletedAt || compareStamps(op.stamp, state.deletedAt) > 0) {
+        state.deletedAt = op.stamp;
+      }
+      break;
+  }
+};
+
+/**
+ * Operations that rebuild `doc` from scratch with the original stamps, for a
+ * relay that lost its history
+ */
+export const documentOps = (doc: CollabDocument): CollabOp[] =>
+  Object.entries(doc.nodes).flatMap(([id, state]) => {
+    const ops: CollabOp[] = [];
+    const byStamp = new Map<string, { stamp: Stamp; fields: FieldValues }>();
+    Object.entries(state.fields).forEach(([key, register]) => {
+      const stampKey = register.stamp.join(':');
+      if (!byStamp.has(stampKey)) byStamp.set(stampKey, { stamp: register.stamp, fields: {} });
+      (byStamp.get(stampKey)!.fields as Record<string, unknown>)[key] = register.value;
+    });
+    byStamp.forEach(({ stamp, fields }) => ops.push({ type: 'update', id, stamp, fields }));
+    if (state.place) {
+      ops.push({ type: 'move', id, stamp: state.place.stamp, ...state.place.value });
+    }
+    if (state.deletedAt) ops.push({ type: 'delete', id, stamp: state.deletedAt });
+    return ops;
+  });
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const sameNode = (a: ListNode, b: ListNode) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) =>
+    sameValue(a[key as keyof ListNode], b[key as keyof ListNode])
+  );
+};
+
+const compareSiblings = (doc: CollabDocument) => (a: ListNodeId, b: ListNodeId) => {
+  const positionA = doc.nodes[a].place!.value.position;
+  const positionB = doc.nodes[b].place!.value.position;
+  if (positionA !== positionB) return positionA < positionB ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * The tree the document describes. Nodes under a deleted or missing parent
+ * are hidden; concurrent moves that formed a cycle are broken by moving the
+ * cycle's most recently moved node to the root; anything past the depth limit
+ * is flattened. Nodes that didn't change keep their object from `previous`,
+ * which also supplies the per-user collapse state.
+ */
+export const materialize = (
+  doc: CollabDocument,
+  previous: CollabTree | null = null,
+  maxDepth: number = APP_CONFIG.MAX_DEPTH
+): CollabTree => {
+  const isLive = (id: ListNodeId | null): id is ListNodeId =>
+    id !== null && !!doc.nodes[id]?.place && !doc.nodes[id].deletedAt;
+
+  const parentOf = new Map<ListNodeId, ListNodeId | null>();
+  Object.keys(doc.nodes).forEach((id) => {
+    if (isLive(id)) parentOf.set(id, doc.nodes[id].place!.value.parentId);
+  });
+
+  // Which live nodes connect to the root, following parents up
+  const visible = new Map<ListNodeId, boolean>();
+  parentOf.forEach((_parentId, startId) => {
+    while (!visible.has(startId)) {
+      const path: ListNodeId[] = [];
+      let current: ListNodeId | null = startId;
+      let outcome: boolean | null = null;
+
+      while (outcome === null) {
+        if (current === null) {
+          outcome = true;
+        } else if (visible.has(current)) {
+          outcome = visible.get(current)!;
+        } else if (!isLive(current)) {
+          outcome = false;
+        } else if (path.includes(current)) {
+          // A cycle: lift its latest move to the root and walk again
+          const cycle = path.slice(path.indexOf(current));
+          const latest = cycle.reduce((a, b) =>
+            compareStamps(doc.nodes[a].place!.stamp, doc.nodes[b].place!.stamp) >= 0 ? a : b
+          );
+          parentOf.set(latest, null);
+          break;
+        } else {
+          path.push(current);
+          current = parentOf.get(current)!;
+        }
+      }
+
+      if (outcome !== null) path.forEach((id) => visible.set(id, outcome!));
+    }
+  });
+
+  const nodes: Record<ListNodeId, ListNode> = {};
+  const childrenOf = new Map<ListNodeId | null, ListNodeId[]>();
+  visible.forEach((isVisible, id) => {
+    if (!isVisible) return;
+    const parentId = parentOf.get(id)!;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), id]);
+
+    const node: Record<string, unknown> = { title: '', createdAt: 0, updatedAt: 0 };
+    Object.entries(doc.nodes[id].fields).forEach(([key, register]) => {
+      if (register.value === null || register.value === undefined) {
+        delete node[key];
+      } else {
+        node[key] = register.value;
+      }
+    });
+    nodes[id] = {
+      ...(node as unknown as NodeFields),
+      id,
+      parentId,
+      childrenIds: [],
+      level: 0,
+      isCollapsed: previous?.nodes[id]?.isCollapsed ?? false,
+    };
+  });
+
+  childrenOf.forEach((ids, parentId) => {
+    ids.sort(compareSiblings(doc));
+    if (parentId !== null) nodes[parentId].childrenIds = ids;
+  });
+
+  const rootNodeIds = (childrenOf.get(null) ?? []).flatMap(
+    (id) => fitSubtreeToDepth(id, nodes, 0, maxDepth - 1).ids
+  );
+  rootNodeIds.forEach((id) => {
+    nodes[id].parentId = null;
+  });
+
+  if (previous) {
+    Object.keys(nodes).forEach((id) => {
+      const unchanged = previous.nodes[id];
+      if (unchanged && sameNode(unchanged, nodes[id])) nodes[id] = unchanged;
+    });
+  }
+  return {
+    nodes,
+    rootNodeIds:
+      previous && sameValue(previous.rootNodeIds, rootNodeIds)
+        ? previous.rootNodeIds
+        : rootNodeIds,
+  };
+};
+
+const sharedFields = (node: ListNode): FieldValues =>
+  Object.fromEntries(Object.entries(node).filter(([key]) => !LOCAL_FIELDS.has(key)));
+
+const changedFields = (before: ListNode, after: ListNode): FieldValues => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Object.fromEntries(
+    Array.from(keys)
+      .filter((key) => !LOCAL_FIELDS.has(key))
+      .filter((key) => !sameValue(before[key as keyof ListNode], after[key as keyof ListNode]))
+      .map((key) => [key, after[key as keyof ListNode] ?? null])
+  );
+};
+
+// Indices of the longest run of strictly increasing keys, skipping missing ones
+const longestIncreasing = (keys: (string | undefined)[]): Set<number> => {
+  const tails: number[] = [];
+  const links: number[] = [];
+  keys.forEach((key, index) => {
+    if (key === undefined) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (keys[tails[middle]]! < key) low = middle + 1;
+      else high = middle;
+    }
+    links[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = links[index]) {
+    kept.add(index);
+  }
+  return kept;
+};
+
+/**
+ * New places for the children of `parentId`, keeping as many existing
+ * positions as the new order allows
+ */
+const placeChildren = (
+  doc: CollabDocument,
+  parentId: ListNodeId | null,
+  childIds: ListNodeId[],
+  placements: Map<ListNodeId, Placement>
+) => {
+  const keys = childIds.map((id) => {
+    const place = doc.nodes[id]?.place?.value;
+    return place && place.parentId === parentId ? place.position : undefined;
+  });
+  const kept = longestIncreasing(keys);
+
+  let index = 0;
+  while (index < childIds.length) {
+    if (kept.has(index)) {
+      index++;
+      continue;
+    }
+    const start = index;
+    while (index < childIds.length && !kept.has(index)) index++;
+    const before = start > 0 ? keys[start - 1]! : null;
+    const after = index < childIds.length ? keys[index]! : null;
+    keysBetween(before, after, index - start).forEach((position, offset) => {
+      placements.set(childIds[start + offset], { parentId, position });
+    });
+  }
+};
+
+/**
+ * Operations that turn `base` - the tree last built from `doc` - into `next`,
+ * the tree after local edits. Unchanged nodes are skipped by reference, so
+ * the cost follows the size of the edit.
+ */
+export const diffTrees = (
+  doc: CollabDocument,
+  base: CollabTree,
+  next: CollabTree,
+  stamp: () => Stamp
+): CollabOp[] => {
+  const placements = new Map<ListNodeId, Placement>();
+  if (next.rootNodeIds !== base.rootNodeIds) {
+    placeChildren(doc, null, next.rootNodeIds, placements);
+  }
+  Object.values(next.nodes).forEach((node) => {
+    const before = base.nodes[node.id];
+    if (!before || before.childrenIds !== node.childrenIds) {
+      placeChildren(doc, node.id, node.childrenIds, placements);
+    }
+  });
+
+  const ops: CollabOp[] = [];
+  Object.values(next.nodes).forEach((node) => {
+    const before = base.nodes[node.id];
+    const placement = placements.get(node.id);
+    if (!before) {
+      if (placement) {
+        ops.push({
+          type: 'create',
+          id: node.id,
+          stamp: stamp(),
+          fields: sharedFields(node),
+          ...placement,
+        });
+      }
+      return;
+    }
+    if (before !== node) {
+      const fields = changedFields(before, node);
+      if (Object.keys(fields).length > 0) {
+        ops.push({ type: 'update', id: node.id, stamp: stamp(), fields });
+      }
+    }
+    if (placement) ops.push({ type: 'move', id: node.id, stamp: stamp(), ...placement });
+  });
+
+  Object.keys(base.nodes).forEach((id) => {
+    if (!next.nodes[id]) ops.push({ type: 'delete', id, stamp: stamp() });
+  });
+  return ops;
+};
@@ -0,0 +1,55 @@
+/**
+ * Fractional positions - sibling order as strings that sort between their
+ * neighbours, so inserting or moving a node rewrites only that node's key.
+ * Keys are base-62 fractions in ASCII order and never end in the zero digit,
+ * which keeps a key available between any two of them.
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// `a` of '' is the start of the range, `b` of null its end
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let shared = 0;
+    while ((a[shared] ?? DIGITS[0]) === b[shared]) shared++;
+    if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/**
+ * A key that sorts after `before` and before `after`; null means no
+ * neighbour on that side
+ */
+export const keyBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Invalid position range: ${before} >= ${after}`);
+  }
+  return midpoint(before ?? '', after);
+};
+
+/**
+ * `count` ascending keys between `before` and `after`, spread so none of
+ * them grows longer than it needs to
+ */
+export const keysBetween = (
+  before: string | null,
+  after: string | null,
+  count: number
+): string[] => {
+  if (count <= 0) return [];
+  const middle = Math.floor(count / 2);
+  const key = keyBetween(before, after);
+  return [
+    ...keysBetween(before, key, middle),
+    key,
+    ...keysBetween(key, after, count - middle - 1),
+  ];
+};
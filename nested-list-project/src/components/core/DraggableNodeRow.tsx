@@ -0,0 +1,32 @@
+import React from 'react';
+import { useNodeDragDrop } from '../../hooks/useNodeDragDrop';
+import { DropIndicator } from '../ui/DropIndicator';
+
+type DraggableNodeRowProps = React.HTMLAttributes<HTMLDivElement> & {
+  nodeId: string;
+};
+
+/**
+ * Draggable Node Row - a view's row for one node that can be dragged and
+ * accepts other nodes before, after or inside it
+ */
+export const DraggableNodeRow: React.FC<DraggableNodeRowProps> = ({
+  nodeId,
+  style,
+  children,
+  ...rest
+}) => {
+  const { rowRef, drag, isDragging, dropPosition } = useNodeDragDrop(nodeId);
+  drag(rowRef);
+
+  return (
+    <div
+      ref={rowRef}
+      {...rest}
+      style={{ ...style, position: 'relative', opacity: isDragging ? 0.4 : style?.opacity }}
+    >
+      <DropIndicator position={dropPosition} />
+      {children}
+    </div>
+  );
+};
@@ -1,9 +1,14 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { useDrag, useDrop } from 'react-dnd';
-import { ListNode } from '../../types/core';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useStore } from '../../store/useStore';
-
-const ITEM_TYPE = 'LIST_ITEM';
+import { useNodeDragDrop } from '../../hooks/useNodeDragDrop';
+import { useNodeSelection } from '../../hooks/useNodeSelection';
+import { PluginSlot } from '../ui/PluginSlot';
+import { TagChips } from '../ui/TagChips';
+import { PresenceBadges } from '../ui/PresenceBadges';
+import { DropIndicator } from '../ui/DropIndicator';
+import { collectTags, normalizeTag } from '../../utils/tags';
+import { formatFieldValue, getTypedFieldValue } from '../../utils/customFields';
+import { formatDateKey, isOverdue } from '../../utils/schedule';
 
 interface ListItemProps {
   nodeId: string;
@@ -25,56 +30,25 @@ export const ListItem: React.FC<ListItemProps> = ({
   const toggleDone = useStore((state) => state.toggleDone);
   const duplicateNode = useStore((state) => state.duplicateNode);
   const selectNode = useStore((state) => state.selectNode);
-  const moveNode = useStore((state) => state.moveNode);
+  const selectOnClick = useNodeSelection();
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
+  const plugins = useStore((state) => state.plugins);
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
+  const openNodeDetails = useStore((state) => state.openNodeDetails);
 
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState('');
+  const [isTagging, setIsTagging] = useState(false);
+  const [tagText, setTagText] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
   const divRef = useRef<HTMLDivElement>(null);
 
-  // Drag source
-  const [{ isDragging }, drag] = useDrag({
-    type: ITEM_TYPE,
-    item: () => ({ nodeId, node }),
-    collect: (monitor) => ({
-      isDragging: monitor.isDragging(),
-    }),
-    canDrag: () => !isEditing,
-  });
-
-  // Drop target
-  const [{ isOver, canDrop }, drop] = useDrop({
-    accept: ITEM_TYPE,
-    drop: (item: { nodeId: string; node: ListNode }, monitor) => {
-      if (!monitor.didDrop() && item.nodeId !== nodeId) {
-        // Move the dragged node to be a child of this node
-        moveNode(item.nodeId, nodeId);
-      }
-    },
-    canDrop: (item: { nodeId: string; node: ListNode }) => {
-      // Can't drop on itself or its own descendants
-      if (item.nodeId === nodeId) return false;
-
-      // Check if target is a descendant of source
-      let current: ListNode | null = node;
-      while (current) {
-        if (current.id === item.nodeId) return false;
-        current = current.parentId ? useStore.getState().nodes[current.parentId] : null;
-      }
-
-      // Check depth limit
-      return node.level < 5;
-    },
-    collect: (monitor) => ({
-      isOver: monitor.isOver({ shallow: true }),
-      canDrop: monitor.canDrop(),
-    }),
+  // Drag the whole item; drop zones are measured on its own row
+  const { rowRef, drag, isDragging, dropPosition } = useNodeDragDrop(nodeId, {
+    canDrag: !isEditing,
   });
-
-  // Combine drag and drop refs
-  drag(drop(divRef));
+  drag(divRef);
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -83,6 +57,12 @@ export const ListItem: React.FC<ListItemProps> = ({
     }
   }, [isEditing]);
 
+  // Autocomplete from tags already used elsewhere in the tree
+  const tagSuggestions = useMemo(
+    () => (isTagging ? collectTags(nodes).filter((tag) => !node?.tags?.includes(tag)) : []),
+    [isTagging, nodes, node?.tags]
+  );
+
   useEffect(() => {
     if (!node?.title) {
       setIsEditing(true);
@@ -113,8 +93,8 @@ export const ListItem: React.FC<ListItemProps> = ({
   };
 
   const handleClick = (e: React.MouseEvent) => {
-    if (e.ctrlKey || e.metaKey) {
-      selectNode(nodeId, true);
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      selectOnClick(nodeId, e);
     } else if (!isEditing) {
       selectNode(nodeId, false);
     }
@@ -136,6 +116,30 @@ export const ListItem: React.FC<ListItemProps> = ({
     }
   };
 
+  const handleAddTag = () => {
+    const tag = normalizeTag(tagText);
+    if (tag) {
+      updateNode(nodeId, { tags: [...(node.tags ?? []), tag] });
+    }
+    setTagText('');
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    updateNode(nodeId, { tags: (node.tags ?? []).filter((t) => t !== tag) });
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      handleAddTag();
+    } else if (e.key === 'Escape') {
+      setTagText('');
+      setIsTagging(false);
+    } else if (e.key === 'Backspace' && !tagText && node.tags?.length) {
+      handleRemoveTag(node.tags[node.tags.length - 1]);
+    }
+  };
+
   const handleDelete = () => {
     deleteNode(nodeId);
   };
@@ -144,7 +148,8 @@ export const ListItem: React.FC<ListItemProps> = ({
     duplicateNode(nodeId);
   };
 
-  const levelColor = theme.colors.levelColors[node.level] || theme.colors.primary;
+  const levelColor =
+    theme.colors.levelColors[node.colorSlot ?? node.level] || theme.colors.primary;
   const hasChildren = node.childrenIds.length > 0;
   const canNest = node.level < 5;
   const completedChildren = node.childrenIds.filter((childId) => nodes[childId]?.isDone).length;
@@ -196,6 +201,7 @@ export const ListItem: React.FC<ListItemProps> = ({
       data-node-id={nodeId}
     >
       <div
+        ref={rowRef}
         onClick={handleClick}
         onDoubleClick={handleDoubleClick}
         role="button"
@@ -210,7 +216,7 @@ export const ListItem: React.FC<ListItemProps> = ({
             ? `linear-gradient(135deg, ${levelColor}45, ${levelColor}20)`
             : `${levelColor}12`,
           border: `2px solid ${
-            isOver && canDrop
+            dropPosition === 'inside'
               ? '#4ade80'
               : isSelected
               ? levelColor
@@ -221,10 +227,12 @@ export const ListItem: React.FC<ListItemProps> = ({
           direction: rtl ? 'rtl' : 'ltr',
           boxShadow: isSelected
             ? `0 6px 16px ${levelColor}40`
-            : isOver && canDrop
+            : dropPosition === 'inside'
             ? '0 6px 14px rgba(74, 222, 128, 0.35)'
             : '0 3px 10px rgba(0,0,0,0.08)',
-          transform: isOver && canDrop ? 'translateY(-2px)' : 'translateY(0)',
+          transform: dropPosition === 'inside' ? 'translateY(-2px)' : 'translateY(0)',
+          outline: node.isHighlighted ? '2px dashed #facc15' : 'none',
+          outlineOffset: '2px',
           position: 'relative',
           overflow: 'hidden',
         }}
@@ -242,6 +250,7 @@ export const ListItem: React.FC<ListItemProps> = ({
             filter: 'blur(0.3px)',
           }}
         />
+        <DropIndicator position={dropPosition === 'inside' ? null : dropPosition} />
 
         <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
         {/* Collapse button */}
@@ -349,6 +358,9 @@ export const ListItem: React.FC<ListItemProps> = ({
           </span>
         )}
 
+        {/* Collaborators focused here */}
+        <PresenceBadges nodeId={nodeId} />
+
         </div>
 
         <div
@@ -376,8 +388,73 @@ export const ListItem: React.FC<ListItemProps> = ({
               👶 {rtl ? 'תתי פריטים:' : 'Children:'} {completedChildren}/{node.childrenIds.length}
             </span>
           )}
+          {node.dueDate && (
+            <span
+              style={
+                isOverdue(node)
+                  ? { ...chipStyle, color: '#ef4444', border: '1px solid #ef444460' }
+                  : chipStyle
+              }
+            >
+              {isOverdue(node) ? '⚠️' : '📅'} {formatDateKey(node.dueDate, rtl)}
+            </span>
+          )}
+          <TagChips tags={node.tags} onRemove={handleRemoveTag} />
+          {fieldSchema.map((field) => {
+            const value = getTypedFieldValue(node, field);
+            return value === undefined ? null : (
+              <span key={field.id} style={chipStyle}>
+                {field.name}: {formatFieldValue(field, value, rtl)}
+              </span>
+            );
+          })}
+          {plugins
+            .filter((plugin) => typeof plugin.renderNodeExtras === 'function')
+            .map((plugin) => (
+              <PluginSlot
+                key={plugin.id}
+                plugin={plugin}
+                slot="renderNodeExtras"
+                render={(ctx) => plugin.renderNodeExtras!(node, ctx)}
+              />
+            ))}
         </div>
 
+        {isTagging && (
+          <div onClick={(e) => e.stopPropagation()}>
+            <input
+              type="text"
+              autoFocus
+              value={tagText}
+              list={`tag-suggestions-${nodeId}`}
+              onChange={(e) => setTagText(e.target.value)}
+              onKeyDown={handleTagKeyDown}
+              onBlur={() => {
+                handleAddTag();
+                setIsTagging(false);
+              }}
+              aria-label={rtl ? `הוסף תגית ל${node.title}` : `Add tag to ${node.title}`}
+              placeholder={rtl ? 'הוסף תגית ולחץ Enter...' : 'Add a tag and press Enter...'}
+              style={{
+                width: '100%',
+                padding: '6px 10px',
+                borderRadius: '6px',
+                border: `1px solid ${levelColor}`,
+                background: 'rgba(255,255,255,0.08)',
+                color: theme.colors.text,
+                fontSize: '13px',
+                direction: rtl ? 'rtl' : 'ltr',
+                outline: 'none',
+              }}
+            />
+            <datalist id={`tag-suggestions-${nodeId}`}>
+              {tagSuggestions.map((tag) => (
+                <option key={tag} value={tag} />
+              ))}
+            </datalist>
+          </div>
+        )}
+
         {node.description && !isEditing && (
           <p
             style={{
@@ -414,6 +491,30 @@ export const ListItem: React.FC<ListItemProps> = ({
             ✏️ {rtl ? 'עריכה' : 'Edit'}
           </button>
 
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsTagging(true);
+            }}
+            aria-label={rtl ? `תייג את ${node.title}` : `Tag ${node.title}`}
+            title={rtl ? 'הוסף תגיות' : 'Add tags'}
+            style={{ ...actionButtonBase }}
+          >
+            🏷️ {rtl ? 'תגיות' : 'Tags'}
+          </button>
+
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              openNodeDetails(nodeId);
+            }}
+            aria-label={rtl ? `פרטים של ${node.title}` : `Details of ${node.title}`}
+            title={rtl ? 'פרטים ושדות' : 'Details and fields'}
+            style={{ ...actionButtonBase }}
+          >
+            📝 {rtl ? 'פרטים' : 'Details'}
+          </button>
+
           {canNest && (
             <button
               onClick={(e) => {
@@ -1,7 +1,7 @@
 import React, { useMemo } from 'react';
 import { ListItem } from './ListItem';
 import { useStore } from '../../store/useStore';
-import { ListNode } from '../../types/core';
+import { getFilteredNodeIds } from '../../utils/filters';
 import { BoardView } from '../views/BoardView';
 import { TreeView } from '../views/TreeView';
 import { TimelineView } from '../views/TimelineView';
@@ -16,59 +16,13 @@ export const ListView: React.FC = () => {
   const rtl = useStore((state) => state.currentSession.rtl);
   const theme = useStore((state) => state.currentSession.theme);
   const viewMode = useStore((state) => state.currentSession.viewMode);
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
 
-  // Apply filters
-  const filteredNodeIds = useMemo(() => {
-    const hasFilters =
-      filterConfig.searchText ||
-      (filterConfig.levels && filterConfig.levels.length > 0) ||
-      filterConfig.isDone !== undefined;
-
-    if (!hasFilters) {
-      return null; // No filters, show all
-    }
-
-    const matchesFilter = (node: ListNode): boolean => {
-      // Search text filter
-      if (filterConfig.searchText) {
-        const query = filterConfig.searchText.toLowerCase();
-        const matchesTitle = node.title.toLowerCase().includes(query);
-        const matchesDesc = node.description?.toLowerCase().includes(query);
-        if (!matchesTitle && !matchesDesc) return false;
-      }
-
-      // Level filter
-      if (filterConfig.levels && filterConfig.levels.length > 0) {
-        if (!filterConfig.levels.includes(node.level)) return false;
-      }
-
-      // Done filter
-      if (filterConfig.isDone !== undefined) {
-        if (node.isDone !== filterConfig.isDone) return false;
-      }
-
-      return true;
-    };
-
-    const filtered = new Set<string>();
-    const addNodeAndAncestors = (nodeId: string) => {
-      let current = nodes[nodeId];
-      while (current) {
-        filtered.add(current.id);
-        if (!current.parentId) break;
-        current = nodes[current.parentId];
-      }
-    };
-
-    // Find all matching nodes and add their ancestors
-    Object.values(nodes).forEach((node) => {
-      if (matchesFilter(node)) {
-        addNodeAndAncestors(node.id);
-      }
-    });
-
-    return filtered;
-  }, [nodes, filterConfig]);
+  // Apply filters - null shows everything
+  const filteredNodeIds = useMemo(
+    () => getFilteredNodeIds(nodes, filterConfig),
+    [nodes, filterConfig]
+  );
 
   // If in focus mode, show only focused subtree
   const displayRootIds = focusedNodeId ? [focusedNodeId] : rootNodeIds;
@@ -98,6 +52,25 @@ export const ListView: React.FC = () => {
         : 'Not marked as done'
     );
   }
+  if (filterConfig.tags && filterConfig.tags.length > 0) {
+    const tagList = filterConfig.tags.map((tag) => `#${tag}`).join(', ');
+    activeFilters.push(
+      filterConfig.tagMatch === 'all'
+        ? rtl
+          ? `כל התגיות: ${tagList}`
+          : `All tags: ${tagList}`
+        : rtl
+        ? `תגית כלשהי: ${tagList}`
+        : `Any tag: ${tagList}`
+    );
+  }
+  if (filterConfig.fields && filterConfig.fields.length > 0) {
+    const fieldNames = filterConfig.fields
+      .map((filter) => fieldSchema.find((field) => field.id === filter.fieldId)?.name)
+      .filter(Boolean)
+      .join(', ');
+    activeFilters.push(rtl ? `שדות: ${fieldNames}` : `Fields: ${fieldNames}`);
+  }
   if (focusedNodeId) {
     activeFilters.push(rtl ? 'מצב מיקוד תת-עץ' : 'Focused subtree');
   }
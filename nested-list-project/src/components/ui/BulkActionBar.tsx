@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { getTreeOrder } from '../../utils/nodeHelpers';
+import { isSelectField } from '../../utils/customFields';
+
+// Value of the "move to" select that stands for the top level
+const TOP_LEVEL = '__root__';
+
+/**
+ * Bulk Action Bar - actions on the whole selection, shown once more than one
+ * node is selected. Every action is a single undo step.
+ */
+export const BulkActionBar: React.FC = () => {
+  const nodes = useStore((state) => state.nodes);
+  const rootNodeIds = useStore((state) => state.rootNodeIds);
+  const selectedNodeIds = useStore((state) => state.currentSession.selectedNodeIds);
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const clearSelection = useStore((state) => state.clearSelection);
+  const deleteNodes = useStore((state) => state.deleteNodes);
+  const setNodesDone = useStore((state) => state.setNodesDone);
+  const moveNodes = useStore((state) => state.moveNodes);
+  const indentNodes = useStore((state) => state.indentNodes);
+  const outdentNodes = useStore((state) => state.outdentNodes);
+  const duplicateNodes = useStore((state) => state.duplicateNodes);
+  const tagNodes = useStore((state) => state.tagNodes);
+  const setNodesField = useStore((state) => state.setNodesField);
+
+  const [tagText, setTagText] = useState('');
+  const [fieldId, setFieldId] = useState('');
+  const [fieldValue, setFieldValue] = useState('');
+
+  const selection = useMemo(
+    () => selectedNodeIds.filter((id) => nodes[id]),
+    [selectedNodeIds, nodes]
+  );
+
+  // Move targets in tree order; the selected nodes themselves are left out
+  const moveTargets = useMemo(
+    () => getTreeOrder(rootNodeIds, nodes).filter((id) => !selection.includes(id)),
+    [rootNodeIds, nodes, selection]
+  );
+
+  if (selection.length < 2) return null;
+
+  const field = fieldSchema.find((f) => f.id === fieldId);
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.colors.primary}60`,
+    background: `${theme.colors.primary}20`,
+    color: theme.colors.text,
+    cursor: 'pointer',
+    fontSize: '13px',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.colors.primary}40`,
+    background: theme.colors.background,
+    color: theme.colors.text,
+    fontSize: '13px',
+  };
+
+  const handleMove = (value: string) => {
+    if (!value) return;
+    moveNodes(selection, value === TOP_LEVEL ? null : value);
+  };
+
+  const handleTag = () => {
+    if (!tagText.trim()) return;
+    tagNodes(selection, tagText);
+    setTagText('');
+  };
+
+  const handleSetField = () => {
+    if (!field) return;
+    // An empty value clears the field
+    setNodesField(selection, field.id, fieldValue === '' ? undefined : fieldValue);
+  };
+
+  const renderFieldValueInput = () => {
+    if (!field) return null;
+    if (isSelectField(field) || field.type === 'checkbox') {
+      const options =
+        field.type === 'checkbox'
+          ? [
+              { value: 'true', label: rtl ? 'כן' : 'Yes' },
+              { value: 'false', label: rtl ? 'לא' : 'No' },
+            ]
+          : (field.options ?? []).map((option) => ({ value: option, label: option }));
+      return (
+        <select
+          value={fieldValue}
+          onChange={(e) => setFieldValue(e.target.value)}
+          style={inputStyle}
+        >
+          <option value="">{rtl ? '(ניקוי)' : '(clear)'}</option>
+          {options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type={field.type === 'number' || field.type === 'date' ? field.type : 'text'}
+        value={fieldValue}
+        onChange={(e) => setFieldValue(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSetField()}
+        placeholder={rtl ? 'ערך' : 'Value'}
+        style={{ ...inputStyle, width: '120px' }}
+      />
+    );
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '10px 16px',
+        marginBottom: '16px',
+        borderRadius: '10px',
+        border: `1px solid ${theme.colors.primary}40`,
+        background: `${theme.colors.primary}10`,
+        direction: rtl ? 'rtl' : 'ltr',
+      }}
+    >
+      <strong style={{ fontSize: '13px' }}>
+        {rtl ? `${selection.length} נבחרו` : `${selection.length} selected`}
+      </strong>
+
+      <button onClick={() => setNodesDone(selection, true)} style={buttonStyle}>
+        ✓ {rtl ? 'הושלם' : 'Done'}
+      </button>
+      <button onClick={() => setNodesDone(selection, false)} style={buttonStyle}>
+        ○ {rtl ? 'לא הושלם' : 'Not done'}
+      </button>
+      <button onClick={() => indentNodes(selection)} style={buttonStyle}>
+        ⇥ {rtl ? 'הזחה' : 'Indent'}
+      </button>
+      <button onClick={() => outdentNodes(selection)} style={buttonStyle}>
+        ⇤ {rtl ? 'הוצאה' : 'Outdent'}
+      </button>
+      <button onClick={() => duplicateNodes(selection)} style={buttonStyle}>
+        ⧉ {rtl ? 'שכפול' : 'Duplicate'}
+      </button>
+
+      <select value="" onChange={(e) => handleMove(e.target.value)} style={inputStyle}>
+        <option value="">{rtl ? 'העברה אל...' : 'Move to...'}</option>
+        <option value={TOP_LEVEL}>{rtl ? 'רמה עליונה' : 'Top level'}</option>
+        {moveTargets.map((id) => (
+          <option key={id} value={id}>
+            {'\u00a0'.repeat(nodes[id].level * 2)}
+            {nodes[id].title || (rtl ? 'ללא כותרת' : 'Untitled')}
+          </option>
+        ))}
+      </select>
+
+      <input
+        value={tagText}
+        onChange={(e) => setTagText(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleTag()}
+        placeholder={rtl ? '#תגית' : '#tag'}
+        style={{ ...inputStyle, width: '100px' }}
+      />
+      <button onClick={handleTag} disabled={!tagText.trim()} style={buttonStyle}>
+        🏷️ {rtl ? 'תיוג' : 'Tag'}
+      </button>
+
+      {fieldSchema.length > 0 && (
+        <>
+          <select
+            value={fieldId}
+            onChange={(e) => {
+              setFieldId(e.target.value);
+              setFieldValue('');
+            }}
+            style={inputStyle}
+          >
+            <option value="">{rtl ? 'שדה...' : 'Field...'}</option>
+            {fieldSchema.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+              </option>
+            ))}
+          </select>
+          {renderFieldValueInput()}
+          {field && (
+            <button onClick={handleSetField} style={buttonStyle}>
+              {rtl ? 'הגדרה' : 'Set'}
+            </button>
+          )}
+        </>
+      )}
+
+      <button
+        onClick={() => deleteNodes(selection)}
+        style={{ ...buttonStyle, borderColor: '#ef444480', background: '#ef444420' }}
+      >
+        🗑️ {rtl ? 'מחיקה' : 'Delete'}
+      </button>
+      <button onClick={clearSelection} style={{ ...buttonStyle, marginInlineStart: 'auto' }}>
+        ✕ {rtl ? 'ניקוי בחירה' : 'Clear selection'}
+      </button>
+    </div>
+  );
+};
@@ -139,13 +139,8 @@ export const CommandPalette: React.FC = () => {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isOpen) {
-        if ((e.ctrlKey || e.metaKey) && e.key === 'k') {
-          e.preventDefault();
-          useStore.getState().toggleCommandPalette();
-        }
-        return;
-      }
+      // Opening is bound through the shortcuts profile (`command.palette`)
+      if (!isOpen) return;
 
       if (e.key === 'Escape') {
         closeCommandPalette();
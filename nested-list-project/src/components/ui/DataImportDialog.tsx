@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { useToastStore } from '../../store/useToastStore';
+import { ConflictResolution, ImportMode, MergePreview, NodeChange } from '../../utils/merge';
+import { ListNodeId } from '../../types/core';
+import { Modal } from './Modal';
+
+export interface ImportFile {
+  content: string;
+  fileName: string;
+}
+
+const MODE_LABELS: Record<
+  ImportMode,
+  { en: string; he: string; hintEn: string; hintHe: string }
+> = {
+  merge: {
+    en: 'Merge by id',
+    he: 'מיזוג לפי מזהה',
+    hintEn:
+      'Add new items and update matching ones - nothing is deleted. ' +
+      'Undo keeps the fields, templates and snapshots the file adds',
+    hintHe:
+      'הוספת פריטים חדשים ועדכון פריטים תואמים - דבר לא נמחק. ' +
+      'ביטול משאיר את השדות, התבניות והצילומים שהקובץ מוסיף',
+  },
+  append: {
+    en: 'Append as new roots',
+    he: 'הוספה כשורשים חדשים',
+    hintEn:
+      'Add a copy of the whole file next to the current list. ' +
+      'Undo keeps the fields, templates and snapshots the file adds',
+    hintHe:
+      'הוספת עותק של כל הקובץ לצד הרשימה הנוכחית. ' +
+      'ביטול משאיר את השדות, התבניות והצילומים שהקובץ מוסיף',
+  },
+  replace: {
+    en: 'Replace everything',
+    he: 'החלפת הכל',
+    hintEn: 'Load the file instead of the current data - this clears undo history',
+    hintHe: 'טעינת הקובץ במקום הנתונים הנוכחיים - היסטוריית הביטול תימחק',
+  },
+};
+
+/**
+ * Data Import - load a JSON export by replacing, appending or merging, with a
+ * per-conflict choice before a merge is applied
+ */
+export const DataImportDialog: React.FC<{ initialFile?: ImportFile; onClose: () => void }> = ({
+  initialFile,
+  onClose,
+}) => {
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const importData = useStore((state) => state.importData);
+  const previewImport = useStore((state) => state.previewImport);
+  const appendImport = useStore((state) => state.appendImport);
+  const mergeImport = useStore((state) => state.mergeImport);
+  const addToast = useToastStore((state) => state.addToast);
+
+  const [file, setFile] = useState<ImportFile | null>(initialFile ?? null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<ListNodeId, ConflictResolution>>({});
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    setResolutions({});
+    if (!file) return;
+    try {
+      setPreview(previewImport(file.content));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : rtl ? 'קובץ לא תקין' : 'Invalid file');
+    }
+  }, [file, previewImport, rtl]);
+
+  const fieldStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    borderRadius: '8px',
+    border: `1px solid ${theme.colors.border}`,
+    background: theme.mode === 'dark' ? '#0f172a' : 'white',
+    color: theme.colors.text,
+    fontSize: '13px',
+  };
+  const listStyle: React.CSSProperties = {
+    maxHeight: '180px',
+    overflowY: 'auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px',
+    borderRadius: '8px',
+    border: `1px solid ${theme.colors.border}`,
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setFile({ content: (e.target?.result as string) ?? '', fileName: selected.name });
+    };
+    reader.readAsText(selected);
+    event.target.value = '';
+  };
+
+  const resolveAll = (resolution: ConflictResolution) => {
+    setResolutions(
+      Object.fromEntries((preview?.conflicts ?? []).map((conflict) => [conflict.id, resolution]))
+    );
+  };
+
+  const handleApply = () => {
+    if (!file || !preview) return;
+    try {
+      if (mode === 'replace') {
+        importData(file.content);
+        addToast(rtl ? 'ייבוא הושלם בהצלחה' : 'Import completed successfully', 'success');
+      } else if (mode === 'append') {
+        const count = appendImport(file.content);
+        addToast(rtl ? `יובאו ${count} פריטים` : `Imported ${count} items`, 'success');
+      } else {
+        mergeImport(file.content, resolutions);
+        const updated =
+          preview.changed.length +
+          preview.conflicts.filter((conflict) => resolutions[conflict.id] === 'incoming').length;
+        addToast(
+          rtl
+            ? `מיזוג הושלם: ${preview.added.length} נוספו, ${updated} עודכנו`
+            : `Merge complete: ${preview.added.length} added, ${updated} updated`,
+          'success'
+        );
+      }
+      onClose();
+    } catch (err) {
+      console.error('Import failed:', err);
+      addToast(
+        err instanceof Error && err.message
+          ? err.message
+          : rtl
+          ? 'ייבוא נכשל'
+          : 'Import failed. Please check the file.',
+        'error'
+      );
+    }
+  };
+
+  const describeFields = (change: NodeChange) => change.fields.join(', ');
+  const titleOf = (title: string) => title || (rtl ? 'ללא כותרת' : 'Untitled');
+
+  const renderMergePreview = (mergePreview: MergePreview) => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      <div style={{ fontSize: '14px' }}>
+        {(rtl
+          ? [
+              `${mergePreview.added.length} חדשים`,
+              `${mergePreview.changed.length} מעודכנים בקובץ`,
+              `${mergePreview.conflicts.length} התנגשויות`,
+              `${mergePreview.unchanged} ללא שינוי`,
+            ]
+          : [
+              `${mergePreview.added.length} new`,
+              `${mergePreview.changed.length} newer in file`,
+              `${mergePreview.conflicts.length} conflicts`,
+              `${mergePreview.unchanged} unchanged`,
+            ]
+        ).join(' · ')}
+      </div>
+
+      {mergePreview.added.length > 0 && (
+        <div>
+          <div style={{ fontWeight: 600, marginBottom: '6px' }}>
+            {rtl ? 'יתווספו' : 'Will be added'}
+          </div>
+          <div style={listStyle}>
+            {mergePreview.added.map((node) => (
+              <div key={node.id} style={{ fontSize: '13px' }}>
+                + {titleOf(node.title)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {mergePreview.changed.length > 0 && (
+        <div>
+          <div style={{ fontWeight: 600, marginBottom: '6px' }}>
+            {rtl ? 'יעודכנו לגרסת הקובץ' : 'Will take the newer file version'}
+          </div>
+          <div style={listStyle}>
+            {mergePreview.changed.map((change) => (
+              <div key={change.id} style={{ fontSize: '13px' }}>
+                ~ {titleOf(change.incoming.title)}{' '}
+                <span style={{ opacity: 0.6 }}>({describeFields(change)})</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {mergePreview.conflicts.length > 0 && (
+        <div>
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '8px',
+              marginBottom: '6px',
+            }}
+          >
+            <span style={{ fontWeight: 600 }}>
+              {rtl ? 'התנגשויות - שלנו נערך מאוחר יותר' : 'Conflicts - ours was edited later'}
+            </span>
+            <span style={{ display: 'flex', gap: '6px' }}>
+              <button
+                onClick={() => resolveAll('local')}
+                style={{ ...fieldStyle, cursor: 'pointer' }}
+              >
+                {rtl ? 'השאר הכל' : 'Keep all mine'}
+              </button>
+              <button
+                onClick={() => resolveAll('incoming')}
+                style={{ ...fieldStyle, cursor: 'pointer' }}
+              >
+                {rtl ? 'קח הכל מהקובץ' : 'Take all from file'}
+              </button>
+            </span>
+          </div>
+          <div style={listStyle}>
+            {mergePreview.conflicts.map((conflict) => (
+              <div
+                key={conflict.id}
+                style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div>{titleOf(conflict.local.title)}</div>
+                  <div style={{ opacity: 0.6 }}>
+                    {conflict.incoming.title !== conflict.local.title &&
+                      `${rtl ? 'בקובץ' : 'File'}: ${titleOf(conflict.incoming.title)} · `}
+                    {describeFields(conflict)}
+                  </div>
+                </div>
+                <select
+                  value={resolutions[conflict.id] ?? 'local'}
+                  onChange={(e) =>
+                    setResolutions((prev) => ({
+                      ...prev,
+                      [conflict.id]: e.target.value as ConflictResolution,
+                    }))
+                  }
+                  style={fieldStyle}
+                >
+                  <option value="local">{rtl ? 'השאר שלנו' : 'Keep mine'}</option>
+                  <option value="incoming">{rtl ? 'קח מהקובץ' : 'Use file'}</option>
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  const footer = (
+    <>
+      <button
+        onClick={onClose}
+        style={{
+          padding: '10px 14px',
+          borderRadius: '8px',
+          border: `1px solid ${theme.colors.border}`,
+          background: 'transparent',
+          color: theme.colors.text,
+          cursor: 'pointer',
+        }}
+      >
+        {rtl ? 'ביטול' : 'Cancel'}
+      </button>
+      <button
+        onClick={handleApply}
+        disabled={!preview}
+        style={{
+          padding: '10px 14px',
+          borderRadius: '8px',
+          border: 'none',
+          background: mode === 'replace' ? '#ef4444' : theme.colors.primary,
+          color: mode === 'replace' ? 'white' : '#0b1224',
+          cursor: preview ? 'pointer' : 'not-allowed',
+          opacity: preview ? 1 : 0.5,
+          fontWeight: 700,
+        }}
+      >
+        {rtl ? 'ייבא' : 'Import'}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={rtl ? 'ייבוא נתונים' : 'Import Data'}
+      rtl={rtl}
+      theme={theme}
+      footer={footer}
+    >
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '14px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap' }}>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            style={{ color: theme.colors.text, fontSize: '14px' }}
+          />
+          {file && <span style={{ fontSize: '13px', opacity: 0.7 }}>{file.fileName}</span>}
+        </div>
+
+        {error && (
+          <div style={{ color: '#ef4444', fontSize: '14px' }}>
+            {rtl ? `קובץ לא תקין: ${error}` : `Invalid file: ${error}`}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {(Object.keys(MODE_LABELS) as ImportMode[]).map((option) => (
+            <label key={option} style={{ display: 'flex', gap: '8px', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === option}
+                onChange={() => setMode(option)}
+              />
+              <span>
+                <div style={{ fontWeight: 600 }}>
+                  {rtl ? MODE_LABELS[option].he : MODE_LABELS[option].en}
+                </div>
+                <div style={{ fontSize: '12px', opacity: 0.7 }}>
+                  {rtl ? MODE_LABELS[option].hintHe : MODE_LABELS[option].hintEn}
+                </div>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {preview && mode === 'merge' && renderMergePreview(preview)}
+      </div>
+    </Modal>
+  );
+};
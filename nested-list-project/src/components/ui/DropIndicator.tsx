@@ -0,0 +1,39 @@
+import React from 'react';
+import { useStore } from '../../store/useStore';
+import { DropPosition } from '../../utils/dragDrop';
+
+/**
+ * Drop Indicator - the insertion line (before / after) or outline (inside)
+ * drawn over a row while a node is dragged onto it. The row must be
+ * positioned so the overlay can anchor to it
+ */
+export const DropIndicator: React.FC<{ position: DropPosition | null }> = ({ position }) => {
+  const theme = useStore((state) => state.currentSession.theme);
+
+  if (!position) return null;
+
+  const color = theme.colors.primary;
+  const style: React.CSSProperties =
+    position === 'inside'
+      ? {
+          inset: 0,
+          border: `2px dashed ${color}`,
+          borderRadius: 'inherit',
+          background: `${color}15`,
+        }
+      : {
+          left: 0,
+          right: 0,
+          [position === 'before' ? 'top' : 'bottom']: 0,
+          height: '3px',
+          borderRadius: '2px',
+          background: color,
+        };
+
+  return (
+    <div
+      aria-hidden
+      style={{ position: 'absolute', pointerEvents: 'none', zIndex: 2, ...style }}
+    />
+  );
+};
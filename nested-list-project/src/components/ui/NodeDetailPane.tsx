@@ -0,0 +1,482 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { CustomFieldDefinition, CustomFieldType, ListNode } from '../../types/core';
+import { generateId } from '../../utils/nodeHelpers';
+import { CUSTOM_FIELD_TYPES, getTypedFieldValue, isSelectField } from '../../utils/customFields';
+import { isOverdue } from '../../utils/schedule';
+import { TagChips } from './TagChips';
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, { en: string; he: string }> = {
+  text: { en: 'Text', he: 'טקסט' },
+  number: { en: 'Number', he: 'מספר' },
+  date: { en: 'Date', he: 'תאריך' },
+  'single-select': { en: 'Single select', he: 'בחירה יחידה' },
+  'multi-select': { en: 'Multi select', he: 'בחירה מרובה' },
+  checkbox: { en: 'Checkbox', he: 'תיבת סימון' },
+  url: { en: 'URL', he: 'קישור' },
+};
+
+/**
+ * Text-like inputs keep a local draft and commit on blur or Enter, so
+ * half-typed numbers and URLs aren't validated away mid-edit
+ */
+const DraftInput: React.FC<{
+  type: 'text' | 'number' | 'url';
+  value: string;
+  onCommit: (value: string) => void;
+  style: React.CSSProperties;
+}> = ({ type, value, onCommit, style }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <input
+      type={type}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onCommit(draft)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.currentTarget.blur();
+        } else if (e.key === 'Escape') {
+          setDraft(value);
+        }
+      }}
+      style={style}
+    />
+  );
+};
+
+/**
+ * Node Detail Pane - description, tags, dates and custom field values for one node,
+ * plus the session's field schema
+ */
+export const NodeDetailPane: React.FC = () => {
+  const detailNodeId = useStore((state) => state.detailNodeId);
+  const node = useStore((state) => (detailNodeId ? state.nodes[detailNodeId] : undefined));
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const updateNode = useStore((state) => state.updateNode);
+  const setNodeField = useStore((state) => state.setNodeField);
+  const scheduleNode = useStore((state) => state.scheduleNode);
+  const saveCustomField = useStore((state) => state.saveCustomField);
+  const deleteCustomField = useStore((state) => state.deleteCustomField);
+  const openNodeDetails = useStore((state) => state.openNodeDetails);
+
+  const [isManagingFields, setIsManagingFields] = useState(false);
+  const [newField, setNewField] = useState<{ name: string; type: CustomFieldType; options: string }>(
+    { name: '', type: 'text', options: '' }
+  );
+
+  if (!node) return null;
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 12px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.colors.border}`,
+    background: theme.colors.background,
+    color: theme.colors.text,
+    fontSize: '14px',
+    direction: rtl ? 'rtl' : 'ltr',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    color: theme.colors.text,
+    fontSize: '12px',
+    fontWeight: 600,
+    marginBottom: '4px',
+  };
+
+  const typeLabel = (type: CustomFieldType) =>
+    rtl ? FIELD_TYPE_LABELS[type].he : FIELD_TYPE_LABELS[type].en;
+
+  const parseOptions = (text: string) =>
+    text
+      .split(',')
+      .map((option) => option.trim())
+      .filter(Boolean);
+
+  const handleAddField = () => {
+    if (!newField.name.trim()) return;
+    saveCustomField({
+      id: generateId(),
+      name: newField.name,
+      type: newField.type,
+      options: parseOptions(newField.options),
+    });
+    setNewField({ name: '', type: 'text', options: '' });
+  };
+
+  const renderFieldEditor = (field: CustomFieldDefinition, target: ListNode) => {
+    const value = getTypedFieldValue(target, field);
+
+    switch (field.type) {
+      case 'text':
+      case 'number':
+        return (
+          <DraftInput
+            type={field.type}
+            value={value === undefined ? '' : String(value)}
+            onCommit={(next) => setNodeField(target.id, field.id, next)}
+            style={inputStyle}
+          />
+        );
+      case 'url':
+        return (
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <DraftInput
+              type="url"
+              value={typeof value === 'string' ? value : ''}
+              onCommit={(next) => setNodeField(target.id, field.id, next)}
+              style={inputStyle}
+            />
+            {typeof value === 'string' && (
+              <a
+                href={value}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={rtl ? 'פתח קישור' : 'Open link'}
+                style={{ color: theme.colors.primary, textDecoration: 'none' }}
+              >
+                ↗
+              </a>
+            )}
+          </div>
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setNodeField(target.id, field.id, e.target.value)}
+            style={inputStyle}
+          />
+        );
+      case 'checkbox':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setNodeField(target.id, field.id, e.target.checked)}
+            style={{ width: '18px', height: '18px', accentColor: theme.colors.primary }}
+          />
+        );
+      case 'single-select':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setNodeField(target.id, field.id, e.target.value)}
+            style={inputStyle}
+          >
+            <option value="">—</option>
+            {(field.options ?? []).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'multi-select': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+            {(field.options ?? []).map((option) => {
+              const isSelected = selected.includes(option);
+              return (
+                <button
+                  key={option}
+                  onClick={() =>
+                    setNodeField(
+                      target.id,
+                      field.id,
+                      isSelected ? selected.filter((o) => o !== option) : [...selected, option]
+                    )
+                  }
+                  style={{
+                    padding: '4px 10px',
+                    borderRadius: '999px',
+                    border: isSelected
+                      ? `2px solid ${theme.colors.primary}`
+                      : `1px solid ${theme.colors.border}`,
+                    background: isSelected ? `${theme.colors.primary}30` : 'transparent',
+                    color: theme.colors.text,
+                    fontSize: '12px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        [rtl ? 'right' : 'left']: 0,
+        top: 0,
+        bottom: 0,
+        width: '340px',
+        background: theme.mode === 'dark' ? '#1a1a2e' : '#f5f5f5',
+        borderRight: rtl ? 'none' : `1px solid ${theme.colors.border}`,
+        borderLeft: rtl ? `1px solid ${theme.colors.border}` : 'none',
+        zIndex: 100,
+        display: 'flex',
+        flexDirection: 'column',
+        direction: rtl ? 'rtl' : 'ltr',
+        boxShadow: '4px 0 12px rgba(0,0,0,0.2)',
+      }}
+    >
+      {/* Header */}
+      <div
+        style={{
+          padding: '20px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: '12px',
+        }}
+      >
+        <h2
+          style={{
+            color: theme.colors.text,
+            fontSize: '18px',
+            fontWeight: '600',
+            margin: 0,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          📝 {node.title || (rtl ? 'ללא כותרת' : 'Untitled')}
+        </h2>
+        <button
+          onClick={() => openNodeDetails(null)}
+          aria-label={rtl ? 'סגור פרטים' : 'Close details'}
+          style={{
+            background: 'transparent',
+            border: 'none',
+            color: theme.colors.text,
+            fontSize: '20px',
+            cursor: 'pointer',
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Content */}
+      <div style={{ flex: 1, overflowY: 'auto', padding: '16px' }}>
+        <div style={{ marginBottom: '16px' }}>
+          <label style={labelStyle}>{rtl ? 'תיאור' : 'Description'}</label>
+          <textarea
+            key={`${node.id}:${node.description ?? ''}`}
+            defaultValue={node.description ?? ''}
+            onBlur={(e) => {
+              const description = e.target.value.trim() ? e.target.value : undefined;
+              if (description !== node.description) {
+                updateNode(node.id, { description });
+              }
+            }}
+            rows={3}
+            style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+          />
+        </div>
+
+        {node.tags && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={labelStyle}>{rtl ? 'תגיות' : 'Tags'}</label>
+            <TagChips tags={node.tags} />
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>{rtl ? 'התחלה' : 'Start'}</label>
+            <input
+              type="date"
+              value={node.startDate ?? ''}
+              max={node.dueDate}
+              onChange={(e) =>
+                scheduleNode(node.id, { startDate: e.target.value, dueDate: node.dueDate })
+              }
+              style={inputStyle}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>
+              {rtl ? 'יעד' : 'Due'}
+              {isOverdue(node) && (
+                <span style={{ color: '#ef4444', marginInlineStart: '6px' }}>
+                  ⚠️ {rtl ? 'באיחור' : 'Overdue'}
+                </span>
+              )}
+            </label>
+            <input
+              type="date"
+              value={node.dueDate ?? ''}
+              min={node.startDate}
+              onChange={(e) =>
+                scheduleNode(node.id, { startDate: node.startDate, dueDate: e.target.value })
+              }
+              style={inputStyle}
+            />
+          </div>
+        </div>
+
+        {fieldSchema.length === 0 ? (
+          <div
+            style={{
+              textAlign: 'center',
+              padding: '20px',
+              color: theme.colors.text,
+              opacity: 0.5,
+              fontSize: '13px',
+            }}
+          >
+            {rtl ? 'אין שדות מותאמים ב-Session זה' : 'No custom fields in this session'}
+          </div>
+        ) : (
+          fieldSchema.map((field) => (
+            <div key={field.id} style={{ marginBottom: '14px' }}>
+              <label style={labelStyle}>
+                {field.name}{' '}
+                <span style={{ fontWeight: 400, opacity: 0.5 }}>({typeLabel(field.type)})</span>
+              </label>
+              {renderFieldEditor(field, node)}
+            </div>
+          ))
+        )}
+
+        {/* Field schema */}
+        <button
+          onClick={() => setIsManagingFields(!isManagingFields)}
+          style={{
+            width: '100%',
+            padding: '10px',
+            marginTop: '8px',
+            borderRadius: '8px',
+            border: `2px dashed ${theme.colors.primary}`,
+            background: `${theme.colors.primary}10`,
+            color: theme.colors.primary,
+            fontSize: '13px',
+            fontWeight: '600',
+            cursor: 'pointer',
+          }}
+        >
+          ⚙️ {rtl ? 'ניהול שדות' : 'Manage fields'}
+        </button>
+
+        {isManagingFields && (
+          <div
+            style={{
+              marginTop: '12px',
+              padding: '12px',
+              borderRadius: '8px',
+              border: `1px solid ${theme.colors.border}`,
+              background: 'rgba(255,255,255,0.03)',
+            }}
+          >
+            {fieldSchema.map((field) => (
+              <div
+                key={field.id}
+                style={{
+                  padding: '8px 0',
+                  borderBottom: `1px solid ${theme.colors.border}`,
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <span style={{ flex: 1, color: theme.colors.text, fontSize: '13px' }}>
+                    {field.name}
+                    <span style={{ opacity: 0.5 }}> · {typeLabel(field.type)}</span>
+                  </span>
+                  <button
+                    onClick={() => deleteCustomField(field.id)}
+                    title={rtl ? 'מחק שדה' : 'Delete field'}
+                    style={{
+                      background: 'transparent',
+                      border: 'none',
+                      color: '#ef4444',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    🗑️
+                  </button>
+                </div>
+                {isSelectField(field) && (
+                  <DraftInput
+                    type="text"
+                    value={(field.options ?? []).join(', ')}
+                    onCommit={(text) => saveCustomField({ ...field, options: parseOptions(text) })}
+                    style={{ ...inputStyle, marginTop: '6px', fontSize: '12px' }}
+                  />
+                )}
+              </div>
+            ))}
+
+            <div style={{ display: 'grid', gap: '8px', marginTop: '12px' }}>
+              <input
+                type="text"
+                value={newField.name}
+                onChange={(e) => setNewField({ ...newField, name: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddField()}
+                placeholder={rtl ? 'שם השדה' : 'Field name'}
+                style={inputStyle}
+              />
+              <select
+                value={newField.type}
+                onChange={(e) =>
+                  setNewField({ ...newField, type: e.target.value as CustomFieldType })
+                }
+                style={inputStyle}
+              >
+                {CUSTOM_FIELD_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {typeLabel(type)}
+                  </option>
+                ))}
+              </select>
+              {(newField.type === 'single-select' || newField.type === 'multi-select') && (
+                <input
+                  type="text"
+                  value={newField.options}
+                  onChange={(e) => setNewField({ ...newField, options: e.target.value })}
+                  placeholder={rtl ? 'אפשרויות, מופרדות בפסיקים' : 'Options, comma separated'}
+                  style={inputStyle}
+                />
+              )}
+              <button
+                onClick={handleAddField}
+                disabled={!newField.name.trim()}
+                style={{
+                  padding: '8px 12px',
+                  borderRadius: '6px',
+                  border: 'none',
+                  background: theme.colors.primary,
+                  color: theme.colors.background,
+                  fontWeight: 600,
+                  cursor: newField.name.trim() ? 'pointer' : 'not-allowed',
+                  opacity: newField.name.trim() ? 1 : 0.5,
+                }}
+              >
+                + {rtl ? 'הוסף שדה' : 'Add field'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { useToastStore } from '../../store/useToastStore';
+import { getTreeOrder } from '../../utils/nodeHelpers';
+import {
+  DEPTH_OVERFLOW_MODES,
+  DepthOverflowMode,
+  detectOutlineFormat,
+  OutlineFormat,
+  parseOutline,
+} from '../../utils/importers';
+import { Modal } from './Modal';
+
+const TOP_LEVEL = '__root__';
+
+const OVERFLOW_LABELS: Record<DepthOverflowMode, { en: string; he: string }> = {
+  flatten: { en: 'Flatten to the deepest level', he: 'השטח לרמה העמוקה ביותר' },
+  truncate: { en: 'Drop deeper items', he: 'השמט פריטים עמוקים יותר' },
+  reject: { en: 'Cancel the import', he: 'בטל את הייבוא' },
+};
+
+/**
+ * Outline Import - paste or load a Markdown / OPML / CSV outline under any node
+ */
+export const OutlineImportDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const nodes = useStore((state) => state.nodes);
+  const rootNodeIds = useStore((state) => state.rootNodeIds);
+  const selectedNodeIds = useStore((state) => state.currentSession.selectedNodeIds);
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
+  const importOutline = useStore((state) => state.importOutline);
+  const addToast = useToastStore((state) => state.addToast);
+
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<OutlineFormat>('markdown');
+  const [targetId, setTargetId] = useState<string>(selectedNodeIds[0] ?? TOP_LEVEL);
+  const [overflowMode, setOverflowMode] = useState<DepthOverflowMode>('flatten');
+
+  const targetOptions = useMemo(
+    () => getTreeOrder(rootNodeIds, nodes).map((id) => nodes[id]),
+    [rootNodeIds, nodes]
+  );
+
+  const fieldStyle: React.CSSProperties = {
+    padding: '10px 12px',
+    borderRadius: '8px',
+    border: `1px solid ${theme.colors.border}`,
+    background: theme.mode === 'dark' ? '#0f172a' : 'white',
+    color: theme.colors.text,
+    fontSize: '14px',
+  };
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = (e.target?.result as string) ?? '';
+      setContent(text);
+      setFormat(detectOutlineFormat(text, file.name));
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleContentChange = (text: string) => {
+    setContent(text);
+    setFormat(detectOutlineFormat(text));
+  };
+
+  const handleImport = () => {
+    try {
+      const tree = parseOutline(content, format, fieldSchema);
+      const { imported, overflow } = importOutline(
+        tree,
+        targetId === TOP_LEVEL ? null : targetId,
+        overflowMode
+      );
+      if (imported === 0) {
+        addToast(rtl ? 'לא נמצאו פריטים לייבוא' : 'No items found to import', 'error');
+        return;
+      }
+
+      let message = rtl ? `יובאו ${imported} פריטים` : `Imported ${imported} items`;
+      if (overflow > 0) {
+        const dropped = overflowMode === 'truncate';
+        message += rtl
+          ? ` (${overflow} ${dropped ? 'הושמטו' : 'הושטחו'} בגלל מגבלת העומק)`
+          : ` (${overflow} ${dropped ? 'dropped' : 'flattened'} to fit the depth limit)`;
+      }
+      addToast(message, overflow > 0 ? 'info' : 'success');
+      onClose();
+    } catch (error) {
+      console.error('Outline import failed:', error);
+      addToast(
+        error instanceof Error ? error.message : rtl ? 'ייבוא נכשל' : 'Import failed',
+        'error'
+      );
+    }
+  };
+
+  const footer = (
+    <>
+      <button
+        onClick={onClose}
+        style={{
+          padding: '10px 14px',
+          borderRadius: '8px',
+          border: `1px solid ${theme.colors.border}`,
+          background: 'transparent',
+          color: theme.colors.text,
+          cursor: 'pointer',
+        }}
+      >
+        {rtl ? 'ביטול' : 'Cancel'}
+      </button>
+      <button
+        onClick={handleImport}
+        disabled={!content.trim()}
+        style={{
+          padding: '10px 14px',
+          borderRadius: '8px',
+          border: 'none',
+          background: theme.colors.primary,
+          color: '#0b1224',
+          cursor: content.trim() ? 'pointer' : 'not-allowed',
+          opacity: content.trim() ? 1 : 0.5,
+          fontWeight: 700,
+        }}
+      >
+        {rtl ? 'ייבא' : 'Import'}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={rtl ? 'ייבוא מתאר' : 'Import Outline'}
+      rtl={rtl}
+      theme={theme}
+      footer={footer}
+    >
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+        <input
+          type="file"
+          accept=".md,.markdown,.txt,.opml,.xml,.csv"
+          onChange={handleFileChange}
+          style={{ color: theme.colors.text, fontSize: '14px' }}
+        />
+
+        <textarea
+          value={content}
+          onChange={(e) => handleContentChange(e.target.value)}
+          placeholder={
+            rtl
+              ? 'או הדבק רשימת Markdown (- [x] פריט) או OPML...'
+              : 'Or paste a Markdown list (- [x] item) or OPML...'
+          }
+          rows={8}
+          style={{ ...fieldStyle, resize: 'vertical', fontFamily: 'monospace', direction: 'ltr' }}
+        />
+
+        <label style={labelStyle}>
+          <span style={{ fontWeight: 600 }}>{rtl ? 'פורמט' : 'Format'}</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as OutlineFormat)}
+            style={fieldStyle}
+          >
+            <option value="markdown">Markdown</option>
+            <option value="opml">OPML</option>
+            <option value="csv">CSV</option>
+          </select>
+        </label>
+
+        <label style={labelStyle}>
+          <span style={{ fontWeight: 600 }}>{rtl ? 'ייבא אל' : 'Import into'}</span>
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} style={fieldStyle}>
+            <option value={TOP_LEVEL}>{rtl ? 'רמה עליונה' : 'Top level'}</option>
+            {targetOptions.map((node) => (
+              <option key={node.id} value={node.id}>
+                {'\u00a0'.repeat(node.level * 2)}
+                {node.title || (rtl ? 'ללא כותרת' : 'Untitled')}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={labelStyle}>
+          <span style={{ fontWeight: 600 }}>
+            {rtl ? 'פריטים מעבר לעומק המרבי' : 'Items past the maximum depth'}
+          </span>
+          <select
+            value={overflowMode}
+            onChange={(e) => setOverflowMode(e.target.value as DepthOverflowMode)}
+            style={fieldStyle}
+          >
+            {DEPTH_OVERFLOW_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {rtl ? OVERFLOW_LABELS[mode].he : OVERFLOW_LABELS[mode].en}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </Modal>
+  );
+};
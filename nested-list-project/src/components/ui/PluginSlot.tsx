@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useReducer, useRef } from 'react';
+import { useStore } from '../../store/useStore';
+import { SandboxContext, SandboxPlugin } from '../../types/core';
+import {
+  createPluginContext,
+  createPluginStateReads,
+  hasPluginStateChanged,
+  reportPluginError,
+} from '../../plugins/host';
+
+export type PluginSlotName = 'renderNodeExtras' | 'renderSidebar' | 'renderToolbar';
+
+type PluginErrorBoundaryProps = {
+  plugin: SandboxPlugin;
+  slot: PluginSlotName;
+  children: React.ReactNode;
+};
+
+type PluginErrorBoundaryState = {
+  hasError: boolean;
+};
+
+/**
+ * Error boundary around a single plugin slot - a crashing plugin only
+ * takes down its own slot
+ */
+class PluginErrorBoundary extends React.Component<
+  PluginErrorBoundaryProps,
+  PluginErrorBoundaryState
+> {
+  state: PluginErrorBoundaryState = { hasError: false };
+
+  static getDerivedStateFromError(): PluginErrorBoundaryState {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    const { plugin, slot } = this.props;
+    reportPluginError(plugin, slot, error, useStore.getState().currentSession.rtl);
+  }
+
+  componentDidUpdate(prevProps: PluginErrorBoundaryProps) {
+    // A re-registered plugin gets a fresh chance
+    if (prevProps.plugin !== this.props.plugin && this.state.hasError) {
+      this.setState({ hasError: false });
+    }
+  }
+
+  render() {
+    if (this.state.hasError) {
+      return <PluginSlotFallback plugin={this.props.plugin} />;
+    }
+    return this.props.children;
+  }
+}
+
+const PluginSlotFallback: React.FC<{ plugin: SandboxPlugin }> = ({ plugin }) => {
+  const rtl = useStore((state) => state.currentSession.rtl);
+
+  return (
+    <span
+      role="alert"
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '4px 10px',
+        borderRadius: '6px',
+        background: '#ef444420',
+        border: '1px solid #ef444460',
+        color: '#ef4444',
+        fontSize: '12px',
+      }}
+    >
+      ⚠️ {rtl ? `התוסף ${plugin.name} קרס` : `${plugin.name} crashed`}
+    </span>
+  );
+};
+
+const PluginSlotContent: React.FC<{
+  render: (ctx: SandboxContext) => React.ReactNode;
+}> = ({ render }) => {
+  // Re-render only when what the plugin read last time changes, so an edit
+  // doesn't re-render the slot on every row
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const readsRef = useRef(createPluginStateReads());
+  const ctx = useMemo(() => createPluginContext(useStore.getState, () => readsRef.current), []);
+
+  useEffect(
+    () =>
+      useStore.subscribe((state, prev) => {
+        if (hasPluginStateChanged(readsRef.current, state, prev)) forceRender();
+      }),
+    []
+  );
+
+  readsRef.current = createPluginStateReads();
+  return <>{render(ctx)}</>;
+};
+
+export const PluginSlot: React.FC<{
+  plugin: SandboxPlugin;
+  slot: PluginSlotName;
+  render: (ctx: SandboxContext) => React.ReactNode;
+}> = ({ plugin, slot, render }) => (
+  <PluginErrorBoundary plugin={plugin} slot={slot}>
+    <PluginSlotContent render={render} />
+  </PluginErrorBoundary>
+);
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { useStore } from '../../store/useStore';
 import { SandboxPlugin } from '../../types/core';
+import { getBuiltInPlugin } from '../../plugins';
+import { advancedExportPlugin } from '../../plugins/advancedExport';
+import { statisticsPlugin } from '../../plugins/statistics';
+import { collaborationPlugin } from '../../plugins/collaboration';
 
 /**
  * Plugins Manager UI - Manage plugins
@@ -9,26 +13,33 @@ export const PluginsManager: React.FC<{ onClose: () => void }> = ({ onClose }) =
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
   const plugins = useStore((state) => state.plugins);
+  const registerPlugin = useStore((state) => state.registerPlugin);
+  const unregisterPlugin = useStore((state) => state.unregisterPlugin);
 
   const [selectedPlugin, setSelectedPlugin] = useState<SandboxPlugin | null>(null);
 
-  // Sample available plugins (in real app, these would be loaded dynamically)
+  // Built-ins are installable; the remaining entries are announced only
   const availablePlugins: SandboxPlugin[] = [
     {
-      id: 'plugin-export',
+      ...advancedExportPlugin,
       name: rtl ? 'ייצוא מתקדם' : 'Advanced Export',
-      version: '1.0.0',
       description: rtl
-        ? 'ייצא נתונים לפורמטים שונים (CSV, JSON, Markdown)'
-        : 'Export data to various formats (CSV, JSON, Markdown)',
+        ? 'ייצא נתונים לפורמטים שונים (CSV, Markdown)'
+        : advancedExportPlugin.description,
     },
     {
-      id: 'plugin-stats',
+      ...statisticsPlugin,
       name: rtl ? 'סטטיסטיקות' : 'Statistics',
-      version: '1.0.0',
       description: rtl
         ? 'הצג סטטיסטיקות ותובנות על הנתונים'
-        : 'Display statistics and insights about your data',
+        : statisticsPlugin.description,
+    },
+    {
+      ...collaborationPlugin,
+      name: rtl ? 'שיתוף פעולה' : 'Collaboration',
+      description: rtl
+        ? 'שיתוף פעולה בזמן אמת עם משתמשים אחרים'
+        : collaborationPlugin.description,
     },
     {
       id: 'plugin-sync',
@@ -46,28 +57,20 @@ export const PluginsManager: React.FC<{ onClose: () => void }> = ({ onClose }) =
         ? 'עוזר AI לארגון ואופטימיזציה של המשימות'
         : 'AI assistant for organizing and optimizing tasks',
     },
-    {
-      id: 'plugin-collab',
-      name: rtl ? 'שיתוף פעולה' : 'Collaboration',
-      version: '1.0.0',
-      description: rtl
-        ? 'שיתוף פעולה בזמן אמת עם משתמשים אחרים'
-        : 'Real-time collaboration with other users',
-    },
   ];
 
+  const isAvailable = (pluginId: string) => !!getBuiltInPlugin(pluginId);
+
   const isInstalled = (pluginId: string) => {
     return plugins.some((p) => p.id === pluginId);
   };
 
   const installPlugin = (plugin: SandboxPlugin) => {
-    // In a real app, this would load the plugin code dynamically
-    console.log('Installing plugin:', plugin.id);
-    // For now, just add it to the list
+    registerPlugin(plugin);
   };
 
   const uninstallPlugin = (pluginId: string) => {
-    console.log('Uninstalling plugin:', pluginId);
+    unregisterPlugin(pluginId);
   };
 
   return (
@@ -254,6 +257,7 @@ export const PluginsManager: React.FC<{ onClose: () => void }> = ({ onClose }) =
           <div style={{ display: 'grid', gap: '12px' }}>
             {availablePlugins.map((plugin) => {
               const installed = isInstalled(plugin.id);
+              const disabled = installed || !isAvailable(plugin.id);
 
               return (
                 <div
@@ -261,25 +265,25 @@ export const PluginsManager: React.FC<{ onClose: () => void }> = ({ onClose }) =
                   style={{
                     padding: '16px',
                     borderRadius: '8px',
-                    background: installed
+                    background: disabled
                       ? `${theme.colors.border}20`
                       : `${theme.colors.primary}10`,
                     border: `2px solid ${
-                      installed ? theme.colors.border : `${theme.colors.primary}40`
+                      disabled ? theme.colors.border : `${theme.colors.primary}40`
                     }`,
-                    opacity: installed ? 0.6 : 1,
+                    opacity: disabled ? 0.6 : 1,
                     transition: 'all 0.2s',
-                    cursor: installed ? 'default' : 'pointer',
+                    cursor: disabled ? 'default' : 'pointer',
                   }}
-                  onClick={() => !installed && setSelectedPlugin(plugin)}
+                  onClick={() => !disabled && setSelectedPlugin(plugin)}
                   onMouseEnter={(e) => {
-                    if (!installed) {
+                    if (!disabled) {
                       e.currentTarget.style.background = `${theme.colors.primary}20`;
                       e.currentTarget.style.borderColor = theme.colors.primary;
                     }
                   }}
                   onMouseLeave={(e) => {
-                    if (!installed) {
+                    if (!disabled) {
                       e.currentTarget.style.background = `${theme.colors.primary}10`;
                       e.currentTarget.style.borderColor = `${theme.colors.primary}40`;
                     }
@@ -324,6 +328,20 @@ export const PluginsManager: React.FC<{ onClose: () => void }> = ({ onClose }) =
                             {rtl ? 'מותקן' : 'INSTALLED'}
                           </span>
                         )}
+                        {!isAvailable(plugin.id) && (
+                          <span
+                            style={{
+                              padding: '2px 8px',
+                              borderRadius: '4px',
+                              background: theme.colors.border,
+                              color: theme.colors.text,
+                              fontSize: '10px',
+                              fontWeight: 'bold',
+                            }}
+                          >
+                            {rtl ? 'בקרוב' : 'COMING SOON'}
+                          </span>
+                        )}
                       </div>
                       <div
                         style={{
@@ -347,7 +365,7 @@ export const PluginsManager: React.FC<{ onClose: () => void }> = ({ onClose }) =
                       </p>
                     </div>
 
-                    {!installed && (
+                    {!disabled && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
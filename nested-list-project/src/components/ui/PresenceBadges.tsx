@@ -0,0 +1,48 @@
+import React from 'react';
+import { useStore } from '../../store/useStore';
+import { useCollabStore } from '../../store/useCollabStore';
+import { ListNodeId } from '../../types/core';
+
+/**
+ * Presence Badges - collaborators whose focus is on this node, as initials
+ * in their color
+ */
+export const PresenceBadges: React.FC<{ nodeId: ListNodeId }> = ({ nodeId }) => {
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const peers = useCollabStore((state) => state.peers).filter((peer) => peer.nodeId === nodeId);
+
+  if (peers.length === 0) return null;
+
+  return (
+    <span
+      aria-label={
+        rtl
+          ? `עובדים על הפריט: ${peers.map((peer) => peer.name).join(', ')}`
+          : `Working on this item: ${peers.map((peer) => peer.name).join(', ')}`
+      }
+      style={{ display: 'inline-flex', gap: '2px' }}
+    >
+      {peers.map((peer) => (
+        <span
+          key={peer.id}
+          title={peer.name}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: '22px',
+            height: '22px',
+            borderRadius: '50%',
+            background: peer.color,
+            color: '#0b1224',
+            fontSize: '11px',
+            fontWeight: 700,
+            boxShadow: `0 0 0 2px ${peer.color}40`,
+          }}
+        >
+          {peer.name.trim().charAt(0).toUpperCase() || '?'}
+        </span>
+      ))}
+    </span>
+  );
+};
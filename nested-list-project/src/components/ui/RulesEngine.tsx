@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useStore } from '../../store/useStore';
-import { SandboxRule } from '../../types/core';
+import { BuiltInRuleType, SandboxRule } from '../../types/core';
+import { DEFAULT_RULE_CONFIGS } from '../../constants/rules';
+import { getRuleConfig } from '../../utils/rules';
 
 /**
  * Rules Engine UI - Manage dynamic rules
@@ -9,13 +11,14 @@ export const RulesEngine: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
   const rules = useStore((state) => state.currentSession.rules);
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
   const updateSession = useStore((state) => state.updateSession);
 
   const [editingRule, setEditingRule] = useState<SandboxRule | null>(null);
   const [isCreating, setIsCreating] = useState(false);
 
   // Predefined rule types
-  const ruleTypes = [
+  const ruleTypes: { id: BuiltInRuleType; name: string; description: string }[] = [
     { id: 'auto-collapse', name: rtl ? 'כיווץ אוטומטי' : 'Auto Collapse', description: rtl ? 'כווץ פריטים באופן אוטומטי' : 'Automatically collapse items' },
     { id: 'auto-tag', name: rtl ? 'תיוג אוטומטי' : 'Auto Tag', description: rtl ? 'הוסף תגיות באופן אוטומטי' : 'Automatically add tags' },
     { id: 'color-by-status', name: rtl ? 'צבע לפי סטטוס' : 'Color by Status', description: rtl ? 'שנה צבע לפי סטטוס' : 'Change color by status' },
@@ -23,7 +26,7 @@ export const RulesEngine: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     { id: 'time-based', name: rtl ? 'מבוסס זמן' : 'Time Based', description: rtl ? 'פעולות מבוססות זמן' : 'Time-based actions' },
   ];
 
-  const createNewRule = (typeId: string) => {
+  const createNewRule = (typeId: BuiltInRuleType) => {
     const ruleType = ruleTypes.find((t) => t.id === typeId);
     if (!ruleType) return;
 
@@ -33,7 +36,7 @@ export const RulesEngine: React.FC<{ onClose: () => void }> = ({ onClose }) => {
       name: ruleType.name,
       description: ruleType.description,
       enabled: true,
-      config: {},
+      config: { ...DEFAULT_RULE_CONFIGS[typeId] },
     };
 
     setEditingRule(newRule);
@@ -67,6 +70,219 @@ export const RulesEngine: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     });
   };
 
+  const labelStyle = {
+    display: 'block',
+    color: theme.colors.text,
+    fontSize: '12px',
+    marginBottom: '4px',
+  } as const;
+
+  const fieldStyle = {
+    width: '100%',
+    padding: '8px 12px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.colors.border}`,
+    background: theme.colors.background,
+    color: theme.colors.text,
+    fontSize: '14px',
+  } as const;
+
+  const updateConfig = (updates: Record<string, any>) => {
+    if (!editingRule) return;
+    setEditingRule({ ...editingRule, config: { ...editingRule.config, ...updates } });
+  };
+
+  const colorSlotOptions = theme.colors.levelColors.map((_, index) => (
+    <option key={index} value={index}>
+      {rtl ? `צבע רמה ${index + 1}` : `Level ${index + 1} color`}
+    </option>
+  ));
+
+  // Config editor per built-in rule type
+  const renderConfigEditor = (rule: SandboxRule) => {
+    switch (rule.type) {
+      case 'auto-collapse': {
+        const config = getRuleConfig('auto-collapse', rule.config);
+        return (
+          <div style={{ marginBottom: '12px' }}>
+            <label style={labelStyle}>{rtl ? 'מתי לכווץ' : 'Collapse when'}</label>
+            <select
+              value={config.trigger}
+              onChange={(e) => updateConfig({ trigger: e.target.value })}
+              style={fieldStyle}
+            >
+              <option value="done">{rtl ? 'הפריט סומן כהושלם' : 'The item is marked done'}</option>
+              <option value="all-children-done">
+                {rtl ? 'כל תתי-הפריטים הושלמו' : 'All of its children are done'}
+              </option>
+            </select>
+          </div>
+        );
+      }
+
+      case 'auto-tag': {
+        const config = getRuleConfig('auto-tag', rule.config);
+        return (
+          <>
+            <div style={{ marginBottom: '12px' }}>
+              <label style={labelStyle}>{rtl ? 'מילת מפתח' : 'Keyword'}</label>
+              <input
+                type="text"
+                value={config.keyword}
+                onChange={(e) => updateConfig({ keyword: e.target.value })}
+                style={fieldStyle}
+              />
+            </div>
+            <div style={{ marginBottom: '12px' }}>
+              <label style={labelStyle}>{rtl ? 'תגית להוספה' : 'Tag to add'}</label>
+              <input
+                type="text"
+                value={config.tag}
+                onChange={(e) => updateConfig({ tag: e.target.value })}
+                style={fieldStyle}
+              />
+            </div>
+            <label
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                color: theme.colors.text,
+                fontSize: '12px',
+                marginBottom: '12px',
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={config.matchDescription}
+                onChange={(e) => updateConfig({ matchDescription: e.target.checked })}
+                style={{ accentColor: theme.colors.primary }}
+              />
+              {rtl ? 'חפש גם בתיאור' : 'Also match description'}
+            </label>
+          </>
+        );
+      }
+
+      case 'color-by-status': {
+        const config = getRuleConfig('color-by-status', rule.config);
+        return (
+          <>
+            <div style={{ marginBottom: '12px' }}>
+              <label style={labelStyle}>{rtl ? 'צבע לפריט שהושלם' : 'Color when done'}</label>
+              <select
+                value={config.doneColorSlot}
+                onChange={(e) => updateConfig({ doneColorSlot: Number(e.target.value) })}
+                style={fieldStyle}
+              >
+                {colorSlotOptions}
+              </select>
+            </div>
+            <div style={{ marginBottom: '12px' }}>
+              <label style={labelStyle}>{rtl ? 'צבע לפריט פתוח' : 'Color when pending'}</label>
+              <select
+                value={config.pendingColorSlot ?? ''}
+                onChange={(e) =>
+                  updateConfig({
+                    pendingColorSlot: e.target.value === '' ? null : Number(e.target.value),
+                  })
+                }
+                style={fieldStyle}
+              >
+                <option value="">{rtl ? 'צבע הרמה' : 'Level color'}</option>
+                {colorSlotOptions}
+              </select>
+            </div>
+          </>
+        );
+      }
+
+      case 'auto-sort': {
+        const config = getRuleConfig('auto-sort', rule.config);
+        return (
+          <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>{rtl ? 'מיין לפי' : 'Sort by'}</label>
+              <select
+                value={config.sortBy}
+                onChange={(e) => updateConfig({ sortBy: e.target.value })}
+                style={fieldStyle}
+              >
+                <option value="title">{rtl ? 'כותרת' : 'Title'}</option>
+                <option value="createdAt">{rtl ? 'תאריך יצירה' : 'Created'}</option>
+                <option value="updatedAt">{rtl ? 'תאריך עדכון' : 'Updated'}</option>
+                {fieldSchema.map((field) => (
+                  <option key={field.id} value={`field:${field.id}`}>
+                    {field.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>{rtl ? 'סדר' : 'Order'}</label>
+              <select
+                value={config.order}
+                onChange={(e) => updateConfig({ order: e.target.value })}
+                style={fieldStyle}
+              >
+                <option value="asc">{rtl ? 'עולה' : 'Ascending'}</option>
+                <option value="desc">{rtl ? 'יורד' : 'Descending'}</option>
+              </select>
+            </div>
+          </div>
+        );
+      }
+
+      case 'time-based': {
+        const config = getRuleConfig('time-based', rule.config);
+        return (
+          <>
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+              <div style={{ flex: 1 }}>
+                <label style={labelStyle}>{rtl ? 'לפי' : 'Based on'}</label>
+                <select
+                  value={config.field}
+                  onChange={(e) => updateConfig({ field: e.target.value })}
+                  style={fieldStyle}
+                >
+                  <option value="updatedAt">{rtl ? 'עדכון אחרון' : 'Last update'}</option>
+                  <option value="createdAt">{rtl ? 'יצירה' : 'Creation'}</option>
+                </select>
+              </div>
+              <div style={{ flex: 1 }}>
+                <label style={labelStyle}>{rtl ? 'ישן מ- (ימים)' : 'Older than (days)'}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={config.olderThanDays}
+                  onChange={(e) =>
+                    updateConfig({ olderThanDays: Math.max(0, Number(e.target.value) || 0) })
+                  }
+                  style={fieldStyle}
+                />
+              </div>
+            </div>
+            <div style={{ marginBottom: '12px' }}>
+              <label style={labelStyle}>{rtl ? 'פעולה' : 'Action'}</label>
+              <select
+                value={config.action}
+                onChange={(e) => updateConfig({ action: e.target.value })}
+                style={fieldStyle}
+              >
+                <option value="highlight">{rtl ? 'הדגש' : 'Highlight'}</option>
+                <option value="collapse">{rtl ? 'כווץ' : 'Collapse'}</option>
+                <option value="pin">{rtl ? 'נעץ' : 'Pin'}</option>
+              </select>
+            </div>
+          </>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
   return (
     <div
       style={{
@@ -412,6 +628,8 @@ export const RulesEngine: React.FC<{ onClose: () => void }> = ({ onClose }) => {
               />
             </div>
 
+            {renderConfigEditor(editingRule)}
+
             <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
               <button
                 onClick={() => {
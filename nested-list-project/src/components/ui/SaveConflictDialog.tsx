@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { SaveConflictChoice } from '../../hooks/useAutoSave';
+import { Modal } from './Modal';
+
+/**
+ * Save Conflict - another tab saved while this one had unsaved edits. Saving
+ * is paused until the user takes the newer version or merges into it.
+ */
+export const SaveConflictDialog: React.FC<{
+  onResolve: (choice: SaveConflictChoice) => Promise<void>;
+  onClose: () => void;
+}> = ({ onResolve, onClose }) => {
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleResolve = async (choice: SaveConflictChoice) => {
+    setIsResolving(true);
+    try {
+      await onResolve(choice);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const footer = (
+    <>
+      <button
+        onClick={() => handleResolve('reload')}
+        disabled={isResolving}
+        style={{
+          padding: '10px 14px',
+          borderRadius: '8px',
+          border: `1px solid ${theme.colors.border}`,
+          background: 'transparent',
+          color: theme.colors.text,
+          cursor: isResolving ? 'not-allowed' : 'pointer',
+        }}
+      >
+        {rtl ? 'טען מחדש ובטל את השינויים שלי' : 'Reload and discard my changes'}
+      </button>
+      <button
+        onClick={() => handleResolve('merge')}
+        disabled={isResolving}
+        style={{
+          padding: '10px 14px',
+          borderRadius: '8px',
+          border: 'none',
+          background: theme.colors.primary,
+          color: '#0b1224',
+          cursor: isResolving ? 'not-allowed' : 'pointer',
+          opacity: isResolving ? 0.5 : 1,
+          fontWeight: 700,
+        }}
+      >
+        {rtl ? 'מזג את השינויים שלי' : 'Merge my changes'}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={rtl ? 'הרשימה שונתה בלשונית אחרת' : 'Changed in another tab'}
+      rtl={rtl}
+      theme={theme}
+      footer={footer}
+    >
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', fontSize: '14px' }}>
+        <div>
+          {rtl
+            ? 'לשונית אחרת שמרה גרסה חדשה יותר בזמן שהיו כאן שינויים שלא נשמרו. השמירה האוטומטית מושהית כדי לא לדרוס את העבודה שלה.'
+            : 'Another tab saved a newer version while this one had unsaved changes. Auto-save is paused so neither version is lost.'}
+        </div>
+        <div style={{ opacity: 0.7 }}>
+          {rtl
+            ? 'מיזוג מוסיף ומעדכן פריטים מהשינויים שלך על גבי הגרסה החדשה - העריכה המאוחרת יותר גוברת ושום דבר לא נמחק. אפשר לבטל את המיזוג עם Undo.'
+            : 'Merging adds and updates items from your changes on top of the newer version - the later edit wins and nothing is deleted. The merge can be undone.'}
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,5 +1,13 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useStore } from '../../store/useStore';
+import { collectTags, TagMatchMode } from '../../utils/tags';
+import { CustomFieldDefinition, FieldFilter } from '../../types/core';
+
+const isFieldFilterSet = (filter: FieldFilter) =>
+  (filter.values && filter.values.length > 0) ||
+  !!filter.text ||
+  filter.min !== undefined ||
+  filter.max !== undefined;
 
 export const SearchFilter: React.FC = () => {
   const filterConfig = useStore((state) => state.filterConfig);
@@ -7,6 +15,8 @@ export const SearchFilter: React.FC = () => {
   const clearFilter = useStore((state) => state.clearFilter);
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
+  const nodes = useStore((state) => state.nodes);
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
 
   const [isExpanded, setIsExpanded] = useState(false);
   const [searchText, setSearchText] = useState(filterConfig.searchText || '');
@@ -16,12 +26,31 @@ export const SearchFilter: React.FC = () => {
   const [showDoneFilter, setShowDoneFilter] = useState<boolean | undefined>(
     filterConfig.isDone
   );
+  const [selectedTags, setSelectedTags] = useState<string[]>(filterConfig.tags || []);
+  const [tagMatch, setTagMatch] = useState<TagMatchMode>(filterConfig.tagMatch || 'any');
+  const [fieldFilters, setFieldFilters] = useState<Record<string, FieldFilter>>(() =>
+    Object.fromEntries((filterConfig.fields || []).map((filter) => [filter.fieldId, filter]))
+  );
+
+  // Keep selected tags listed even if no node carries them anymore
+  const availableTags = useMemo(
+    () => Array.from(new Set([...collectTags(nodes), ...selectedTags])),
+    [nodes, selectedTags]
+  );
+
+  // Only filters for fields still in the schema are applied
+  const activeFieldFilters = fieldSchema
+    .map((field) => fieldFilters[field.id])
+    .filter((filter): filter is FieldFilter => !!filter && !!isFieldFilterSet(filter));
 
   const handleApplyFilter = () => {
     setFilter({
       searchText: searchText || undefined,
       levels: selectedLevels.length > 0 ? selectedLevels : undefined,
       isDone: showDoneFilter,
+      tags: selectedTags.length > 0 ? selectedTags : undefined,
+      tagMatch: selectedTags.length > 0 ? tagMatch : undefined,
+      fields: activeFieldFilters.length > 0 ? activeFieldFilters : undefined,
     });
   };
 
@@ -29,6 +58,9 @@ export const SearchFilter: React.FC = () => {
     setSearchText('');
     setSelectedLevels([]);
     setShowDoneFilter(undefined);
+    setSelectedTags([]);
+    setTagMatch('any');
+    setFieldFilters({});
     clearFilter();
   };
 
@@ -40,8 +72,111 @@ export const SearchFilter: React.FC = () => {
     );
   };
 
+  const toggleTag = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+  };
+
   const hasActiveFilter =
-    searchText || selectedLevels.length > 0 || showDoneFilter !== undefined;
+    searchText ||
+    selectedLevels.length > 0 ||
+    showDoneFilter !== undefined ||
+    selectedTags.length > 0 ||
+    activeFieldFilters.length > 0;
+
+  const updateFieldFilter = (fieldId: string, updates: Partial<FieldFilter>) => {
+    setFieldFilters((prev) => ({
+      ...prev,
+      [fieldId]: { ...prev[fieldId], ...updates, fieldId },
+    }));
+  };
+
+  const toggleFieldValue = (fieldId: string, value: string | boolean) => {
+    const values = fieldFilters[fieldId]?.values || [];
+    updateFieldFilter(fieldId, {
+      values: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+    });
+  };
+
+  const fieldInputStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '6px 10px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.colors.border}`,
+    background: 'rgba(255,255,255,0.1)',
+    color: theme.colors.text,
+    fontSize: '13px',
+  };
+
+  const renderChoice = (fieldId: string, value: string | boolean, label: string) => {
+    const isActive = !!fieldFilters[fieldId]?.values?.includes(value);
+    return (
+      <button
+        key={String(value)}
+        onClick={() => toggleFieldValue(fieldId, value)}
+        style={{
+          padding: '6px 14px',
+          borderRadius: '6px',
+          border: isActive ? `2px solid ${theme.colors.primary}` : `1px solid ${theme.colors.border}`,
+          background: isActive ? `${theme.colors.primary}30` : 'rgba(255,255,255,0.1)',
+          color: theme.colors.text,
+          fontSize: '13px',
+          cursor: 'pointer',
+          fontWeight: isActive ? '600' : '400',
+        }}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  const renderFieldFilter = (field: CustomFieldDefinition) => {
+    const filter = fieldFilters[field.id];
+
+    switch (field.type) {
+      case 'single-select':
+      case 'multi-select':
+        return (field.options || []).map((option) => renderChoice(field.id, option, option));
+      case 'checkbox':
+        return [
+          renderChoice(field.id, true, rtl ? 'כן' : 'Yes'),
+          renderChoice(field.id, false, rtl ? 'לא' : 'No'),
+        ];
+      case 'number':
+      case 'date':
+        return (
+          <>
+            <input
+              type={field.type}
+              value={filter?.min ?? ''}
+              onChange={(e) => updateFieldFilter(field.id, { min: e.target.value || undefined })}
+              placeholder={rtl ? 'מ-' : 'From'}
+              aria-label={rtl ? `${field.name} מינימום` : `${field.name} minimum`}
+              style={fieldInputStyle}
+            />
+            <input
+              type={field.type}
+              value={filter?.max ?? ''}
+              onChange={(e) => updateFieldFilter(field.id, { max: e.target.value || undefined })}
+              placeholder={rtl ? 'עד' : 'To'}
+              aria-label={rtl ? `${field.name} מקסימום` : `${field.name} maximum`}
+              style={fieldInputStyle}
+            />
+          </>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={filter?.text ?? ''}
+            onChange={(e) => updateFieldFilter(field.id, { text: e.target.value || undefined })}
+            placeholder={rtl ? 'מכיל...' : 'Contains...'}
+            style={fieldInputStyle}
+          />
+        );
+    }
+  };
 
   return (
     <div
@@ -246,6 +381,110 @@ export const SearchFilter: React.FC = () => {
               </button>
             </div>
           </div>
+
+          {/* Tag Filter */}
+          <div style={{ marginTop: '16px' }}>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: '8px',
+              }}
+            >
+              <label
+                style={{
+                  color: theme.colors.text,
+                  fontSize: '14px',
+                  fontWeight: '500',
+                }}
+              >
+                {rtl ? 'סנן לפי תגיות:' : 'Filter by Tags:'}
+              </label>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {(['any', 'all'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setTagMatch(mode)}
+                    style={{
+                      padding: '4px 10px',
+                      borderRadius: '6px',
+                      border:
+                        tagMatch === mode
+                          ? `2px solid ${theme.colors.primary}`
+                          : `1px solid ${theme.colors.border}`,
+                      background:
+                        tagMatch === mode
+                          ? `${theme.colors.primary}30`
+                          : 'rgba(255,255,255,0.1)',
+                      color: theme.colors.text,
+                      fontSize: '12px',
+                      cursor: 'pointer',
+                      fontWeight: tagMatch === mode ? '600' : '400',
+                    }}
+                  >
+                    {mode === 'any'
+                      ? rtl
+                        ? 'לפחות אחת'
+                        : 'Match any'
+                      : rtl
+                      ? 'את כולן'
+                      : 'Match all'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {availableTags.length === 0 ? (
+              <div style={{ color: theme.colors.text, opacity: 0.5, fontSize: '13px' }}>
+                {rtl ? 'אין עדיין תגיות' : 'No tags yet'}
+              </div>
+            ) : (
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                {availableTags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    style={{
+                      padding: '6px 14px',
+                      borderRadius: '999px',
+                      border: selectedTags.includes(tag)
+                        ? `2px solid ${theme.colors.primary}`
+                        : `1px solid ${theme.colors.border}`,
+                      background: selectedTags.includes(tag)
+                        ? `${theme.colors.primary}30`
+                        : 'rgba(255,255,255,0.1)',
+                      color: theme.colors.text,
+                      fontSize: '13px',
+                      cursor: 'pointer',
+                      fontWeight: selectedTags.includes(tag) ? '600' : '400',
+                    }}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Custom Field Filters */}
+          {fieldSchema.map((field) => (
+            <div key={field.id} style={{ marginTop: '16px' }}>
+              <label
+                style={{
+                  display: 'block',
+                  marginBottom: '8px',
+                  color: theme.colors.text,
+                  fontSize: '14px',
+                  fontWeight: '500',
+                }}
+              >
+                {field.name}:
+              </label>
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                {renderFieldFilter(field)}
+              </div>
+            </div>
+          ))}
         </div>
       )}
     </div>
@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { SandboxShortcutsProfile } from '../../types/core';
+import { DEFAULT_SHORTCUTS, SHORTCUTS_PROFILES } from '../../constants/shortcuts';
+import { APP_CONFIG } from '../../constants/config';
+import { eventToStroke, findConflicts, formatSequence, KeyStroke } from '../../utils/keymap';
+
+/**
+ * Shortcuts Editor UI - Switch shortcut profiles and record custom bindings
+ */
+export const ShortcutsEditor: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const profile = useStore((state) => state.currentSession.shortcutsProfile);
+  const customProfiles = useStore((state) => state.currentSession.customShortcutsProfiles);
+  const updateSession = useStore((state) => state.updateSession);
+
+  const [recordingAction, setRecordingAction] = useState<string | null>(null);
+  const [recordedStrokes, setRecordedStrokes] = useState<KeyStroke[]>([]);
+  const recordedRef = useRef<KeyStroke[]>([]);
+
+  const isBuiltIn = !!SHORTCUTS_PROFILES[profile.id];
+  const conflicts = useMemo(() => findConflicts(profile), [profile]);
+  const actionIds = useMemo(
+    () =>
+      Array.from(
+        new Set([...Object.keys(DEFAULT_SHORTCUTS.shortcuts), ...Object.keys(profile.shortcuts)])
+      ),
+    [profile]
+  );
+  const availableProfiles = [
+    ...Object.values(SHORTCUTS_PROFILES),
+    ...Object.values(customProfiles),
+  ];
+
+  const saveCustomProfile = (customProfile: SandboxShortcutsProfile) => {
+    updateSession({
+      shortcutsProfile: customProfile,
+      customShortcutsProfiles: { ...customProfiles, [customProfile.id]: customProfile },
+    });
+  };
+
+  // Built-in profiles are read-only - the first edit forks a custom copy
+  const setBinding = (action: string, binding: string | null) => {
+    const shortcuts = { ...profile.shortcuts };
+    if (binding) {
+      shortcuts[action] = binding;
+    } else {
+      delete shortcuts[action];
+    }
+
+    saveCustomProfile(
+      isBuiltIn
+        ? {
+            id: `custom-${Date.now()}`,
+            name: rtl ? `${profile.name} (מותאם)` : `${profile.name} (custom)`,
+            shortcuts,
+          }
+        : { ...profile, shortcuts }
+    );
+  };
+
+  const setBindingRef = useRef(setBinding);
+  setBindingRef.current = setBinding;
+
+  const deleteCustomProfile = (id: string) => {
+    const { [id]: _removed, ...rest } = customProfiles;
+    updateSession({
+      customShortcutsProfiles: rest,
+      ...(profile.id === id ? { shortcutsProfile: DEFAULT_SHORTCUTS } : {}),
+    });
+  };
+
+  // Capture keys ahead of the global keymap; the chord ends after a pause
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    recordedRef.current = [];
+    setRecordedStrokes([]);
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const stroke = eventToStroke(e);
+      if (!stroke) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      recordedRef.current = [...recordedRef.current, stroke];
+      setRecordedStrokes(recordedRef.current);
+
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        setBindingRef.current(recordingAction, formatSequence(recordedRef.current));
+        setRecordingAction(null);
+      }, APP_CONFIG.CHORD_TIMEOUT);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [recordingAction]);
+
+  const conflictCount = Object.keys(conflicts).length;
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.colors.border}`,
+    background: 'transparent',
+    color: theme.colors.text,
+    fontSize: '12px',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        direction: rtl ? 'rtl' : 'ltr',
+      }}
+      onClick={onClose}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: theme.colors.background,
+          borderRadius: '16px',
+          padding: '24px',
+          maxWidth: '700px',
+          width: '90%',
+          maxHeight: '80vh',
+          overflowY: 'auto',
+          border: `2px solid ${theme.colors.border}`,
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: '24px',
+          }}
+        >
+          <h2
+            style={{
+              color: theme.colors.text,
+              fontSize: '24px',
+              fontWeight: 'bold',
+              margin: 0,
+            }}
+          >
+            {rtl ? '⌨️ קיצורי מקלדת' : '⌨️ Keyboard Shortcuts'}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: theme.colors.text,
+              fontSize: '24px',
+              cursor: 'pointer',
+              padding: '4px 8px',
+            }}
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Profiles */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '16px' }}>
+          {availableProfiles.map((p) => (
+            <div
+              key={p.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '6px 12px',
+                borderRadius: '8px',
+                border: `2px solid ${
+                  p.id === profile.id ? theme.colors.primary : theme.colors.border
+                }`,
+                background: p.id === profile.id ? `${theme.colors.primary}20` : 'transparent',
+              }}
+            >
+              <button
+                onClick={() => updateSession({ shortcutsProfile: p })}
+                style={{
+                  background: 'transparent',
+                  border: 'none',
+                  color: theme.colors.text,
+                  fontSize: '14px',
+                  fontWeight: p.id === profile.id ? 'bold' : 'normal',
+                  cursor: 'pointer',
+                }}
+              >
+                {p.name}
+              </button>
+              {!SHORTCUTS_PROFILES[p.id] && (
+                <button
+                  onClick={() => deleteCustomProfile(p.id)}
+                  title={rtl ? 'מחק פרופיל' : 'Delete profile'}
+                  style={{
+                    background: 'transparent',
+                    border: 'none',
+                    color: '#ef4444',
+                    cursor: 'pointer',
+                  }}
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!isBuiltIn && (
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => saveCustomProfile({ ...profile, name: e.target.value })}
+            style={{
+              width: '100%',
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: `1px solid ${theme.colors.border}`,
+              background: theme.colors.background,
+              color: theme.colors.text,
+              fontSize: '14px',
+              marginBottom: '16px',
+            }}
+          />
+        )}
+
+        <div
+          style={{
+            color: conflictCount > 0 ? '#f59e0b' : theme.colors.text,
+            fontSize: '13px',
+            opacity: conflictCount > 0 ? 1 : 0.6,
+            marginBottom: '12px',
+          }}
+        >
+          {conflictCount > 0
+            ? rtl
+              ? `⚠️ ${conflictCount} פעולות עם קיצורים מתנגשים`
+              : `⚠️ ${conflictCount} actions have conflicting bindings`
+            : isBuiltIn
+            ? rtl
+              ? 'עריכת קיצור תיצור פרופיל מותאם אישית'
+              : 'Editing a binding creates a custom profile'
+            : rtl
+            ? 'אין התנגשויות'
+            : 'No conflicts'}
+        </div>
+
+        {/* Bindings */}
+        <div style={{ display: 'grid', gap: '6px' }}>
+          {actionIds.map((action) => {
+            const isRecording = recordingAction === action;
+            const actionConflicts = conflicts[action];
+
+            return (
+              <div
+                key={action}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '8px 12px',
+                  borderRadius: '8px',
+                  background: actionConflicts ? '#f59e0b15' : `${theme.colors.border}20`,
+                  border: `1px solid ${actionConflicts ? '#f59e0b60' : 'transparent'}`,
+                }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div
+                    style={{
+                      color: theme.colors.text,
+                      fontSize: '13px',
+                      fontFamily: 'monospace',
+                    }}
+                  >
+                    {action}
+                  </div>
+                  {actionConflicts && (
+                    <div style={{ color: '#f59e0b', fontSize: '11px' }}>
+                      {rtl ? 'מתנגש עם' : 'Conflicts with'} {actionConflicts.join(', ')}
+                    </div>
+                  )}
+                </div>
+
+                <kbd
+                  style={{
+                    padding: '4px 8px',
+                    borderRadius: '4px',
+                    background: isRecording ? `${theme.colors.primary}30` : 'rgba(255,255,255,0.1)',
+                    border: `1px solid ${isRecording ? theme.colors.primary : theme.colors.border}`,
+                    color: theme.colors.text,
+                    fontSize: '12px',
+                    minWidth: '80px',
+                    textAlign: 'center',
+                  }}
+                >
+                  {isRecording
+                    ? recordedStrokes.length > 0
+                      ? formatSequence(recordedStrokes)
+                      : rtl
+                      ? 'הקש צירוף...'
+                      : 'Press keys...'
+                    : profile.shortcuts[action] || '—'}
+                </kbd>
+
+                {isRecording ? (
+                  <button onClick={() => setRecordingAction(null)} style={buttonStyle}>
+                    {rtl ? 'ביטול' : 'Cancel'}
+                  </button>
+                ) : (
+                  <button onClick={() => setRecordingAction(action)} style={buttonStyle}>
+                    {rtl ? 'הקלט' : 'Record'}
+                  </button>
+                )}
+                {!isRecording && profile.shortcuts[action] && (
+                  <button
+                    onClick={() => setBinding(action, null)}
+                    title={rtl ? 'נקה קיצור' : 'Clear binding'}
+                    style={buttonStyle}
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,8 +2,16 @@ import React, { useMemo, useState } from 'react';
 import { useStore } from '../../store/useStore';
 import { useToastStore } from '../../store/useToastStore';
 import { Modal } from './Modal';
+import { PluginSlot } from './PluginSlot';
+import { getOrderedSessions, getSessionTreeKey, isInTree } from '../../utils/sessions';
 
-type PanelView = 'snapshots' | 'templates' | 'sessions' | 'themes';
+type PanelView =
+  | 'snapshots'
+  | 'templates'
+  | 'sessions'
+  | 'themes'
+  | 'history'
+  | `plugin:${string}`;
 
 export const SidePanel: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
@@ -15,18 +23,35 @@ export const SidePanel: React.FC = () => {
     | 'createTemplate'
     | 'deleteTemplate'
     | 'createSession'
+    | 'renameSession'
+    | 'deleteSession'
     | null
   >(null);
   const [modalTargetId, setModalTargetId] = useState<string | null>(null);
   const [formState, setFormState] = useState({ name: '', description: '' });
+  const [ownsTree, setOwnsTree] = useState(false);
 
-  const snapshots = useStore((state) => Object.values(state.snapshots));
-  const templates = useStore((state) => Object.values(state.templates));
-  const sessions = useStore((state) => Object.values(state.sessions));
-  const currentSessionId = useStore((state) => state.currentSession.id);
+  const storedSnapshots = useStore((state) => state.snapshots);
+  const storedTemplates = useStore((state) => state.templates);
+  const storedSessions = useStore((state) => state.sessions);
+  const currentSession = useStore((state) => state.currentSession);
+  // Only what was saved from the tree on screen
+  const treeKey = getSessionTreeKey(currentSession);
+  const snapshots = useMemo(
+    () => Object.values(storedSnapshots).filter((snapshot) => isInTree(snapshot, treeKey)),
+    [storedSnapshots, treeKey]
+  );
+  const templates = useMemo(
+    () => Object.values(storedTemplates).filter((template) => isInTree(template, treeKey)),
+    [storedTemplates, treeKey]
+  );
+  const currentSessionId = currentSession.id;
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
   const selectedNodeIds = useStore((state) => state.currentSession.selectedNodeIds);
+  const plugins = useStore((state) => state.plugins);
+  const history = useStore((state) => state.history);
+  const historyEnabled = useStore((state) => state.currentSession.historyEnabled);
   const addToast = useToastStore((state) => state.addToast);
 
   const createSnapshot = useStore((state) => state.createSnapshot);
@@ -37,6 +62,36 @@ export const SidePanel: React.FC = () => {
   const deleteTemplate = useStore((state) => state.deleteTemplate);
   const switchSession = useStore((state) => state.switchSession);
   const createSession = useStore((state) => state.createSession);
+  const renameSession = useStore((state) => state.renameSession);
+  const deleteSession = useStore((state) => state.deleteSession);
+  const duplicateSession = useStore((state) => state.duplicateSession);
+  const moveSession = useStore((state) => state.moveSession);
+  const jumpToHistory = useStore((state) => state.jumpToHistory);
+
+  const sidebarPlugins = plugins.filter(
+    (plugin) => typeof plugin.renderSidebar === 'function'
+  );
+  const activePlugin = currentView.startsWith('plugin:')
+    ? sidebarPlugins.find((plugin) => `plugin:${plugin.id}` === currentView)
+    : undefined;
+  // Fall back to the first tab if the active plugin was uninstalled
+  const activeView: PanelView =
+    currentView.startsWith('plugin:') && !activePlugin ? 'snapshots' : currentView;
+
+  // Oldest first; the future stack is stored with the next redo last
+  const historyTimeline = useMemo(
+    () => [
+      ...history.past.map((entry) => ({ entry, isUndone: false })),
+      ...[...history.future].reverse().map((entry) => ({ entry, isUndone: true })),
+    ],
+    [history]
+  );
+  const sessions = useMemo(
+    () => getOrderedSessions(storedSessions, currentSession),
+    [storedSessions, currentSession]
+  );
+
+  const currentHistoryId = history.past[history.past.length - 1]?.id ?? null;
 
   const isTemplateActionDisabled = useMemo(
     () => selectedNodeIds.length === 0,
@@ -47,6 +102,7 @@ export const SidePanel: React.FC = () => {
     setModalType(null);
     setModalTargetId(null);
     setFormState({ name: '', description: '' });
+    setOwnsTree(false);
   };
 
   const formatDate = (timestamp: number) => {
@@ -82,8 +138,17 @@ export const SidePanel: React.FC = () => {
   };
 
   const handleApplyTemplate = (id: string) => {
-    applyTemplate(id, null); // Apply to root
-    addToast(rtl ? 'תבנית הוחלה בהצלחה' : 'Template applied successfully', 'success');
+    // Apply to root
+    if (applyTemplate(id, null)) {
+      addToast(rtl ? 'תבנית הוחלה בהצלחה' : 'Template applied successfully', 'success');
+    } else {
+      addToast(
+        rtl
+          ? 'הפריט שממנו נשמרה התבנית כבר לא קיים'
+          : 'The item this template was saved from is gone',
+        'error'
+      );
+    }
   };
 
   const handleDeleteTemplate = (id: string) => {
@@ -96,6 +161,24 @@ export const SidePanel: React.FC = () => {
     setModalType('createSession');
   };
 
+  const handleRenameSession = (id: string) => {
+    const session = sessions.find((s) => s.id === id);
+    if (!session) return;
+    setFormState({ name: session.name, description: session.description ?? '' });
+    setModalType('renameSession');
+    setModalTargetId(id);
+  };
+
+  const handleDeleteSession = (id: string) => {
+    setModalType('deleteSession');
+    setModalTargetId(id);
+  };
+
+  const handleDuplicateSession = (id: string) => {
+    duplicateSession(id);
+    addToast(rtl ? 'Session שוכפל' : 'Session duplicated', 'success');
+  };
+
   const submitForm = () => {
     if (!formState.name.trim()) {
       addToast(rtl ? 'שם הוא שדה חובה' : 'Name is required', 'error');
@@ -116,9 +199,18 @@ export const SidePanel: React.FC = () => {
         }
         break;
       case 'createSession':
-        createSession(formState.name.trim(), formState.description.trim() || undefined);
+        createSession(formState.name.trim(), formState.description.trim() || undefined, ownsTree);
         addToast(rtl ? 'Session נוצר' : 'Session created', 'success');
         break;
+      case 'renameSession':
+        if (modalTargetId) {
+          renameSession(
+            modalTargetId,
+            formState.name.trim(),
+            formState.description.trim() || undefined
+          );
+        }
+        break;
       default:
         break;
     }
@@ -147,13 +239,19 @@ export const SidePanel: React.FC = () => {
       addToast(rtl ? 'Template נמחקה' : 'Template deleted', 'success');
     }
 
+    if (modalType === 'deleteSession') {
+      deleteSession(modalTargetId);
+      addToast(rtl ? 'Session נמחק' : 'Session deleted', 'success');
+    }
+
     resetModal();
   };
 
   const isFormModal =
     modalType === 'createSnapshot' ||
     modalType === 'createTemplate' ||
-    modalType === 'createSession';
+    modalType === 'createSession' ||
+    modalType === 'renameSession';
 
   const modalTitle = (() => {
     switch (modalType) {
@@ -169,6 +267,10 @@ export const SidePanel: React.FC = () => {
         return rtl ? 'למחוק Template?' : 'Delete Template?';
       case 'createSession':
         return rtl ? 'צור Session חדש' : 'Create Session';
+      case 'renameSession':
+        return rtl ? 'שנה שם Session' : 'Rename Session';
+      case 'deleteSession':
+        return rtl ? 'למחוק Session?' : 'Delete Session?';
       default:
         return '';
     }
@@ -221,6 +323,27 @@ export const SidePanel: React.FC = () => {
               }}
             />
           </label>
+
+          {modalType === 'createSession' && (
+            <label
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                color: theme.colors.text,
+                fontSize: '14px',
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={ownsTree}
+                onChange={(e) => setOwnsTree(e.target.checked)}
+              />
+              {rtl
+                ? 'רשימה נפרדת משלו (במקום הרשימה המשותפת)'
+                : 'Its own separate list (instead of the shared one)'}
+            </label>
+          )}
         </div>
       );
     }
@@ -255,6 +378,21 @@ export const SidePanel: React.FC = () => {
       );
     }
 
+    if (modalType === 'deleteSession') {
+      const session = sessions.find((s) => s.id === modalTargetId);
+      return (
+        <p style={{ margin: 0, color: theme.colors.text, lineHeight: 1.6 }}>
+          {session?.ownsTree
+            ? rtl
+              ? 'האם למחוק את ה-Session יחד עם הרשימה שלו?'
+              : 'Delete this session together with its own list?'
+            : rtl
+              ? 'האם למחוק את ה-Session? הרשימה המשותפת נשארת.'
+              : 'Delete this session? The shared list stays.'}
+        </p>
+      );
+    }
+
     return null;
   })();
 
@@ -389,7 +527,14 @@ export const SidePanel: React.FC = () => {
           background: 'rgba(255,255,255,0.03)',
         }}
       >
-        {(['snapshots', 'templates', 'sessions', 'themes'] as PanelView[]).map((view) => (
+        {([
+          'snapshots',
+          'templates',
+          'sessions',
+          'themes',
+          'history',
+          ...sidebarPlugins.map((plugin) => `plugin:${plugin.id}`),
+        ] as PanelView[]).map((view) => (
           <button
             key={view}
             onClick={() => setCurrentView(view)}
@@ -397,12 +542,12 @@ export const SidePanel: React.FC = () => {
               flex: 1,
               padding: '12px 8px',
               border: 'none',
-              background: currentView === view ? `${theme.colors.primary}30` : 'transparent',
+              background: activeView === view ? `${theme.colors.primary}30` : 'transparent',
               borderBottom:
-                currentView === view ? `2px solid ${theme.colors.primary}` : '2px solid transparent',
-              color: currentView === view ? theme.colors.primary : theme.colors.text,
+                activeView === view ? `2px solid ${theme.colors.primary}` : '2px solid transparent',
+              color: activeView === view ? theme.colors.primary : theme.colors.text,
               fontSize: '13px',
-              fontWeight: currentView === view ? '600' : '400',
+              fontWeight: activeView === view ? '600' : '400',
               cursor: 'pointer',
               transition: 'all 0.2s',
             }}
@@ -411,6 +556,9 @@ export const SidePanel: React.FC = () => {
             {view === 'templates' && (rtl ? '📋 תבניות' : '📋 Templates')}
             {view === 'sessions' && (rtl ? '💼 סשנים' : '💼 Sessions')}
             {view === 'themes' && (rtl ? '🎨 ערכות' : '🎨 Themes')}
+            {view === 'history' && (rtl ? '🕘 היסטוריה' : '🕘 History')}
+            {view.startsWith('plugin:') &&
+              `🧩 ${sidebarPlugins.find((plugin) => `plugin:${plugin.id}` === view)?.name}`}
           </button>
         ))}
       </div>
@@ -418,7 +566,7 @@ export const SidePanel: React.FC = () => {
       {/* Content */}
       <div style={{ flex: 1, overflowY: 'auto', padding: '16px' }}>
         {/* Snapshots View */}
-        {currentView === 'snapshots' && (
+        {activeView === 'snapshots' && (
           <div>
             <button
               onClick={handleCreateSnapshot}
@@ -536,7 +684,7 @@ export const SidePanel: React.FC = () => {
         )}
 
         {/* Templates View */}
-        {currentView === 'templates' && (
+        {activeView === 'templates' && (
           <div>
             <button
               onClick={handleSaveAsTemplate}
@@ -656,7 +804,7 @@ export const SidePanel: React.FC = () => {
         )}
 
         {/* Sessions View */}
-        {currentView === 'sessions' && (
+        {activeView === 'sessions' && (
           <div>
             <button
               onClick={handleCreateSession}
@@ -676,87 +824,152 @@ export const SidePanel: React.FC = () => {
               + {rtl ? 'צור Session חדש' : 'Create New Session'}
             </button>
 
-            {sessions.length === 0 ? (
-              <div
-                style={{
-                  textAlign: 'center',
-                  padding: '40px 20px',
-                  color: theme.colors.text,
-                  opacity: 0.5,
-                  fontSize: '14px',
-                }}
-              >
-                {rtl ? 'אין Sessions נוספים' : 'No additional sessions'}
-              </div>
-            ) : (
-              sessions
-                .sort((a, b) => b.createdAt - a.createdAt)
-                .map((session) => (
+            {sessions.map((session, index) => {
+              const isCurrent = session.id === currentSessionId;
+              const iconButtonStyle = (disabled = false): React.CSSProperties => ({
+                padding: '6px 8px',
+                borderRadius: '6px',
+                border: `1px solid ${theme.colors.border}`,
+                background: 'transparent',
+                color: theme.colors.text,
+                fontSize: '12px',
+                cursor: disabled ? 'not-allowed' : 'pointer',
+                opacity: disabled ? 0.4 : 1,
+              });
+
+              return (
+                <div
+                  key={session.id}
+                  style={{
+                    padding: '12px',
+                    marginBottom: '12px',
+                    borderRadius: '8px',
+                    background: isCurrent
+                      ? `${theme.colors.primary}30`
+                      : 'rgba(255,255,255,0.05)',
+                    border: isCurrent
+                      ? `2px solid ${theme.colors.primary}`
+                      : `1px solid ${theme.colors.border}`,
+                  }}
+                >
                   <div
-                    key={session.id}
                     style={{
-                      padding: '12px',
-                      marginBottom: '12px',
-                      borderRadius: '8px',
-                      background:
-                        session.id === currentSessionId
-                          ? `${theme.colors.primary}30`
-                          : 'rgba(255,255,255,0.05)',
-                      border:
-                        session.id === currentSessionId
-                          ? `2px solid ${theme.colors.primary}`
-                          : `1px solid ${theme.colors.border}`,
+                      color: theme.colors.text,
+                      fontSize: '14px',
+                      fontWeight: '600',
+                      marginBottom: '4px',
                     }}
                   >
+                    {session.name}
+                    {isCurrent && ' ⚡'}
+                  </div>
+                  <div
+                    style={{
+                      color: theme.colors.text,
+                      opacity: 0.5,
+                      fontSize: '11px',
+                      marginBottom: '8px',
+                    }}
+                  >
+                    {session.ownsTree
+                      ? rtl
+                        ? 'רשימה משלו'
+                        : 'Own list'
+                      : rtl
+                        ? 'רשימה משותפת'
+                        : 'Shared list'}
+                  </div>
+                  {session.description && (
                     <div
                       style={{
                         color: theme.colors.text,
-                        fontSize: '14px',
-                        fontWeight: '600',
-                        marginBottom: '4px',
+                        opacity: 0.7,
+                        fontSize: '12px',
+                        marginBottom: '8px',
                       }}
                     >
-                      {session.name}
-                      {session.id === currentSessionId && ' ⚡'}
+                      {session.description}
                     </div>
-                    {session.description && (
-                      <div
-                        style={{
-                          color: theme.colors.text,
-                          opacity: 0.7,
-                          fontSize: '12px',
-                          marginBottom: '8px',
-                        }}
-                      >
-                        {session.description}
-                      </div>
-                    )}
-                    {session.id !== currentSessionId && (
-                      <button
-                        onClick={() => switchSession(session.id)}
-                        style={{
-                          width: '100%',
-                          padding: '6px 12px',
-                          borderRadius: '6px',
-                          border: 'none',
-                          background: '#3b82f6',
-                          color: 'white',
-                          fontSize: '12px',
-                          fontWeight: '600',
-                          cursor: 'pointer',
-                        }}
-                      >
-                        {rtl ? 'עבור ל-Session זה' : 'Switch to this Session'}
-                      </button>
-                    )}
+                  )}
+                  {!isCurrent && (
+                    <button
+                      onClick={() => switchSession(session.id)}
+                      style={{
+                        width: '100%',
+                        padding: '6px 12px',
+                        marginBottom: '8px',
+                        borderRadius: '6px',
+                        border: 'none',
+                        background: '#3b82f6',
+                        color: 'white',
+                        fontSize: '12px',
+                        fontWeight: '600',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {rtl ? 'עבור ל-Session זה' : 'Switch to this Session'}
+                    </button>
+                  )}
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <button
+                      onClick={() => moveSession(session.id, index - 1)}
+                      disabled={index === 0}
+                      title={rtl ? 'הזז למעלה' : 'Move up'}
+                      aria-label={rtl ? 'הזז למעלה' : 'Move up'}
+                      style={iconButtonStyle(index === 0)}
+                    >
+                      ▲
+                    </button>
+                    <button
+                      onClick={() => moveSession(session.id, index + 1)}
+                      disabled={index === sessions.length - 1}
+                      title={rtl ? 'הזז למטה' : 'Move down'}
+                      aria-label={rtl ? 'הזז למטה' : 'Move down'}
+                      style={iconButtonStyle(index === sessions.length - 1)}
+                    >
+                      ▼
+                    </button>
+                    <button
+                      onClick={() => handleRenameSession(session.id)}
+                      style={{ ...iconButtonStyle(), flex: 1 }}
+                    >
+                      {rtl ? 'שנה שם' : 'Rename'}
+                    </button>
+                    <button
+                      onClick={() => handleDuplicateSession(session.id)}
+                      style={{ ...iconButtonStyle(), flex: 1 }}
+                    >
+                      {rtl ? 'שכפל' : 'Duplicate'}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSession(session.id)}
+                      disabled={sessions.length === 1}
+                      title={
+                        sessions.length === 1
+                          ? rtl
+                            ? 'ה-Session האחרון לא ניתן למחיקה'
+                            : 'The last session cannot be deleted'
+                          : undefined
+                      }
+                      style={{
+                        ...iconButtonStyle(sessions.length === 1),
+                        border: 'none',
+                        background: '#ef4444',
+                        color: 'white',
+                        fontWeight: '600',
+                      }}
+                    >
+                      {rtl ? 'מחק' : 'Delete'}
+                    </button>
                   </div>
-                ))
-            )}
+                </div>
+              );
+            })}
           </div>
         )}
 
         {/* Themes View */}
-        {currentView === 'themes' && (
+        {activeView === 'themes' && (
           <div
             style={{
               textAlign: 'center',
@@ -769,6 +982,97 @@ export const SidePanel: React.FC = () => {
             {rtl ? 'מתכנן להוסיף עוד ערכות נושא...' : 'Theme switcher coming soon...'}
           </div>
         )}
+
+        {/* History View */}
+        {activeView === 'history' && (
+          <div>
+            {!historyEnabled && (
+              <div
+                style={{
+                  padding: '8px 12px',
+                  marginBottom: '12px',
+                  borderRadius: '8px',
+                  background: '#f59e0b15',
+                  border: '1px solid #f59e0b60',
+                  color: '#f59e0b',
+                  fontSize: '12px',
+                }}
+              >
+                {rtl ? 'ההיסטוריה כבויה ב-Session זה' : 'History is disabled for this session'}
+              </div>
+            )}
+
+            {[{ entry: null, isUndone: false }, ...historyTimeline].map(({ entry, isUndone }) => {
+              const isCurrent = (entry?.id ?? null) === currentHistoryId;
+
+              return (
+                <button
+                  key={entry?.id ?? 'initial'}
+                  onClick={() => jumpToHistory(entry?.id ?? null)}
+                  disabled={isCurrent}
+                  title={
+                    isCurrent
+                      ? rtl
+                        ? 'המצב הנוכחי'
+                        : 'Current state'
+                      : rtl
+                      ? 'קפוץ למצב זה'
+                      : 'Jump to this state'
+                  }
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    textAlign: rtl ? 'right' : 'left',
+                    padding: '10px 12px',
+                    marginBottom: '8px',
+                    borderRadius: '8px',
+                    background: isCurrent ? `${theme.colors.primary}30` : 'rgba(255,255,255,0.05)',
+                    border: isCurrent
+                      ? `2px solid ${theme.colors.primary}`
+                      : `1px solid ${theme.colors.border}`,
+                    color: theme.colors.text,
+                    opacity: isUndone ? 0.5 : 1,
+                    cursor: isCurrent ? 'default' : 'pointer',
+                  }}
+                >
+                  <div
+                    style={{
+                      fontSize: '13px',
+                      fontWeight: isCurrent ? '600' : '400',
+                      textDecoration: isUndone ? 'line-through' : 'none',
+                    }}
+                  >
+                    {entry
+                      ? entry.label
+                      : history.isTrimmed
+                      ? rtl
+                        ? 'המצב המוקדם ביותר שנשמר'
+                        : 'Earliest available'
+                      : rtl
+                      ? 'מצב התחלתי'
+                      : 'Initial state'}
+                    {isCurrent && ' ⚡'}
+                  </div>
+                  {entry && (
+                    <div style={{ fontSize: '11px', opacity: 0.5, marginTop: '2px' }}>
+                      {formatDate(entry.timestamp)}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Plugin Views */}
+        {activePlugin && (
+          <PluginSlot
+            key={activePlugin.id}
+            plugin={activePlugin}
+            slot="renderSidebar"
+            render={(ctx) => activePlugin.renderSidebar!(ctx)}
+          />
+        )}
       </div>
     </div>
 
@@ -5,6 +5,9 @@ type StatusBadgeProps = {
   isSaving: boolean;
   hasPendingChanges: boolean;
   lastSavedAt: number | null;
+  // Another tab saved first; clicking the badge reopens the conflict prompt
+  hasConflict?: boolean;
+  onResolveConflict?: () => void;
 };
 
 const formatTime = (timestamp: number, rtl: boolean) => {
@@ -27,11 +30,16 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
   isSaving,
   hasPendingChanges,
   lastSavedAt,
+  hasConflict = false,
+  onResolveConflict,
 }) => {
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
 
   const statusText = (() => {
+    if (hasConflict) {
+      return rtl ? 'לא נשמר - שונה בלשונית אחרת' : 'Not saved - changed in another tab';
+    }
     if (isSaving) {
       return rtl ? 'שומר…' : 'Saving…';
     }
@@ -46,13 +54,17 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
 
   return (
     <div
+      onClick={hasConflict ? onResolveConflict : undefined}
+      role={hasConflict ? 'button' : undefined}
       style={{
         display: 'inline-flex',
         alignItems: 'center',
         gap: '10px',
         padding: '10px 14px',
         borderRadius: '999px',
-        background: isSaving
+        background: hasConflict
+          ? 'rgba(239, 68, 68, 0.15)'
+          : isSaving
           ? `${theme.colors.primary}25`
           : hasPendingChanges
           ? 'rgba(255, 199, 96, 0.18)'
@@ -64,6 +76,7 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
         minWidth: '210px',
         justifyContent: 'center',
         direction: rtl ? 'rtl' : 'ltr',
+        cursor: hasConflict ? 'pointer' : undefined,
       }}
     >
       <span
@@ -72,7 +85,9 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
           width: '12px',
           height: '12px',
           borderRadius: '50%',
-          background: isSaving
+          background: hasConflict
+            ? '#ef4444'
+            : isSaving
             ? theme.colors.primary
             : hasPendingChanges
             ? '#f59e0b'
@@ -0,0 +1,63 @@
+import React from 'react';
+import { useStore } from '../../store/useStore';
+
+type TagChipsProps = {
+  tags?: string[];
+  size?: 'small' | 'normal';
+  onRemove?: (tag: string) => void;
+};
+
+/**
+ * Tag Chips - a node's tags as pills, shared by every view
+ */
+export const TagChips: React.FC<TagChipsProps> = ({ tags, size = 'normal', onRemove }) => {
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <span style={{ display: 'inline-flex', flexWrap: 'wrap', gap: '4px' }}>
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: size === 'small' ? '1px 6px' : '3px 8px',
+            borderRadius: '999px',
+            background: `${theme.colors.primary}20`,
+            border: `1px solid ${theme.colors.primary}50`,
+            color: theme.colors.text,
+            fontSize: size === 'small' ? '10px' : '12px',
+            fontFamily: 'inherit',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          #{tag}
+          {onRemove && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(tag);
+              }}
+              aria-label={rtl ? `הסר תגית ${tag}` : `Remove tag ${tag}`}
+              style={{
+                background: 'transparent',
+                border: 'none',
+                padding: 0,
+                color: theme.colors.text,
+                opacity: 0.6,
+                fontSize: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useRef, useState } from 'react';
+import React, { useState } from 'react';
 import { useStore } from '../../store/useStore';
 import { useToastStore } from '../../store/useToastStore';
 import { VIEW_MODE_LABELS } from '../../constants/config';
@@ -6,6 +6,10 @@ import { ViewMode } from '../../types/core';
 import { RulesEngine } from './RulesEngine';
 import { PluginsManager } from './PluginsManager';
 import { ThemeSwitcher } from './ThemeSwitcher';
+import { ShortcutsEditor } from './ShortcutsEditor';
+import { OutlineImportDialog } from './OutlineImportDialog';
+import { DataImportDialog } from './DataImportDialog';
+import { PluginSlot } from './PluginSlot';
 
 export const Toolbar: React.FC = () => {
   const createNode = useStore((state) => state.createNode);
@@ -16,7 +20,6 @@ export const Toolbar: React.FC = () => {
   const undo = useStore((state) => state.undo);
   const redo = useStore((state) => state.redo);
   const exportData = useStore((state) => state.exportData);
-  const importData = useStore((state) => state.importData);
   const createSnapshot = useStore((state) => state.createSnapshot);
   const toggleCommandPalette = useStore((state) => state.toggleCommandPalette);
 
@@ -25,12 +28,15 @@ export const Toolbar: React.FC = () => {
   const theme = useStore((state) => state.currentSession.theme);
   const historyPast = useStore((state) => state.history.past);
   const historyFuture = useStore((state) => state.history.future);
+  const plugins = useStore((state) => state.plugins);
   const addToast = useToastStore((state) => state.addToast);
 
   const [showRulesEngine, setShowRulesEngine] = useState(false);
   const [showPluginsManager, setShowPluginsManager] = useState(false);
   const [showThemeSwitcher, setShowThemeSwitcher] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [showShortcutsEditor, setShowShortcutsEditor] = useState(false);
+  const [showOutlineImport, setShowOutlineImport] = useState(false);
+  const [showDataImport, setShowDataImport] = useState(false);
 
   const handleAddRoot = () => {
     createNode(null);
@@ -65,34 +71,6 @@ export const Toolbar: React.FC = () => {
     }
   };
 
-  const handleImportClick = () => {
-    fileInputRef.current?.click();
-  };
-
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const data = e.target?.result as string;
-        if (data) {
-          try {
-            importData(data);
-            addToast(rtl ? 'ייבוא הושלם בהצלחה' : 'Import completed successfully', 'success');
-          } catch (error) {
-            console.error('Import failed:', error);
-            addToast(rtl ? 'ייבוא נכשל' : 'Import failed. Please check the file.', 'error');
-          }
-        }
-      };
-      reader.readAsText(file);
-    }
-
-    // Allow selecting the same file again
-    event.target.value = '';
-  };
-
   return (
     <div
       style={{
@@ -215,7 +193,11 @@ export const Toolbar: React.FC = () => {
           cursor: historyPast.length === 0 ? 'not-allowed' : 'pointer',
           opacity: historyPast.length === 0 ? 0.5 : 1,
         }}
-        title="Ctrl+Z"
+        title={
+          historyPast.length > 0
+            ? `${rtl ? 'בטל' : 'Undo'}: ${historyPast[historyPast.length - 1].label}`
+            : 'Ctrl+Z'
+        }
       >
         ↶ {rtl ? 'בטל' : 'Undo'}
       </button>
@@ -233,7 +215,11 @@ export const Toolbar: React.FC = () => {
           cursor: historyFuture.length === 0 ? 'not-allowed' : 'pointer',
           opacity: historyFuture.length === 0 ? 0.5 : 1,
         }}
-        title="Ctrl+Shift+Z"
+        title={
+          historyFuture.length > 0
+            ? `${rtl ? 'חזור' : 'Redo'}: ${historyFuture[historyFuture.length - 1].label}`
+            : 'Ctrl+Shift+Z'
+        }
       >
         ↷ {rtl ? 'חזור' : 'Redo'}
       </button>
@@ -274,7 +260,7 @@ export const Toolbar: React.FC = () => {
 
       {/* Import */}
       <button
-        onClick={handleImportClick}
+        onClick={() => setShowDataImport(true)}
         style={{
           padding: '10px 16px',
           borderRadius: '8px',
@@ -288,13 +274,22 @@ export const Toolbar: React.FC = () => {
         📂 {rtl ? 'ייבוא' : 'Import'}
       </button>
 
-      <input
-        type="file"
-        accept="application/json"
-        ref={fileInputRef}
-        onChange={handleFileChange}
-        style={{ display: 'none' }}
-      />
+      {/* Outline Import */}
+      <button
+        onClick={() => setShowOutlineImport(true)}
+        style={{
+          padding: '10px 16px',
+          borderRadius: '8px',
+          border: `1px solid ${theme.colors.border}`,
+          background: 'rgba(255,255,255,0.1)',
+          color: theme.colors.text,
+          fontSize: '14px',
+          cursor: 'pointer',
+        }}
+        title={rtl ? 'ייבוא Markdown, OPML או CSV' : 'Import Markdown, OPML or CSV'}
+      >
+        📝 {rtl ? 'ייבוא מתאר' : 'Import Outline'}
+      </button>
 
       {/* Snapshot */}
       <button
@@ -338,6 +333,23 @@ export const Toolbar: React.FC = () => {
         🎨 {rtl ? 'ערכת נושא' : 'Theme'}
       </button>
 
+      {/* Shortcuts Editor */}
+      <button
+        onClick={() => setShowShortcutsEditor(true)}
+        style={{
+          padding: '10px 16px',
+          borderRadius: '8px',
+          border: `1px solid ${theme.colors.border}`,
+          background: 'rgba(255,255,255,0.1)',
+          color: theme.colors.text,
+          fontSize: '14px',
+          cursor: 'pointer',
+        }}
+        title={rtl ? 'ערוך קיצורי מקלדת' : 'Edit keyboard shortcuts'}
+      >
+        ⌨️ {rtl ? 'קיצורים' : 'Shortcuts'}
+      </button>
+
       {/* Rules Engine */}
       <button
         onClick={() => setShowRulesEngine(true)}
@@ -372,10 +384,26 @@ export const Toolbar: React.FC = () => {
         🧩 {rtl ? 'תוספים' : 'Plugins'}
       </button>
 
+      {/* Plugin toolbar slots */}
+      {plugins
+        .filter((plugin) => typeof plugin.renderToolbar === 'function')
+        .map((plugin) => (
+          <div key={plugin.id} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <PluginSlot
+              plugin={plugin}
+              slot="renderToolbar"
+              render={(ctx) => plugin.renderToolbar!(ctx)}
+            />
+          </div>
+        ))}
+
       {/* Modals */}
       {showRulesEngine && <RulesEngine onClose={() => setShowRulesEngine(false)} />}
       {showPluginsManager && <PluginsManager onClose={() => setShowPluginsManager(false)} />}
       {showThemeSwitcher && <ThemeSwitcher onClose={() => setShowThemeSwitcher(false)} />}
+      {showShortcutsEditor && <ShortcutsEditor onClose={() => setShowShortcutsEditor(false)} />}
+      {showOutlineImport && <OutlineImportDialog onClose={() => setShowOutlineImport(false)} />}
+      {showDataImport && <DataImportDialog onClose={() => setShowDataImport(false)} />}
     </div>
   );
 };
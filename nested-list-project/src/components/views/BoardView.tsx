@@ -1,245 +1,649 @@
 import React from 'react';
+import { useDrag, useDrop } from 'react-dnd';
 import { useStore } from '../../store/useStore';
-import { ListNode } from '../../types/core';
+import { useNodeSelection } from '../../hooks/useNodeSelection';
+import {
+  BoardColumnSettings,
+  BoardGroupBy,
+  CustomFieldValue,
+  ListNode,
+  ListNodeId,
+} from '../../types/core';
+import { TagChips } from '../ui/TagChips';
+import { DropIndicator } from '../ui/DropIndicator';
+import { useNodeDragDrop } from '../../hooks/useNodeDragDrop';
+import { FIELD_VALUES_KEY } from '../../utils/customFields';
+import { collectTags } from '../../utils/tags';
+import {
+  getCardColumns,
+  getColumnMoveUpdate,
+  getRootId,
+  moveColumn,
+  NO_VALUE_COLUMN,
+  orderColumns,
+  valueColumn,
+} from '../../utils/board';
+
+const CARD_TYPE = 'BOARD_CARD';
+const ALL_LANE = 'all';
+const COLUMN_WIDTH = 300;
+
+interface BoardCardItem {
+  id: ListNodeId;
+  column: string;
+  lane: string;
+}
+
+interface BoardColumn {
+  key: string;
+  title: string;
+  color: string;
+  // What a card added to this column starts with
+  newCard: { parentId: ListNodeId | null; data?: Partial<ListNode> } | null;
+}
 
 /**
- * Board View - Kanban-style board with columns per level
+ * Cards change column by attribute; on a level board, where the column is
+ * the tree depth, they are dropped before / after another card instead
  */
-export const BoardView: React.FC = () => {
-  const nodes = useStore((state) => state.nodes);
+const BoardCard: React.FC<{
+  node: ListNode;
+  column: string;
+  lane: string;
+  byAttribute: boolean;
+}> = ({ node, column, lane, byAttribute }) => {
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
-  const selectNode = useStore((state) => state.selectNode);
+  const selectOnClick = useNodeSelection();
   const updateNode = useStore((state) => state.updateNode);
-  const createNode = useStore((state) => state.createNode);
   const selectedNodeIds = useStore((state) => state.currentSession.selectedNodeIds);
 
-  // Group nodes by level
-  const nodesByLevel: Record<number, ListNode[]> = {};
-  Object.values(nodes).forEach((node) => {
-    if (!nodesByLevel[node.level]) {
-      nodesByLevel[node.level] = [];
-    }
-    nodesByLevel[node.level].push(node);
+  const [{ isDragging }, drag] = useDrag({
+    type: CARD_TYPE,
+    item: (): BoardCardItem => ({ id: node.id, column, lane }),
+    canDrag: () => byAttribute,
+    collect: (monitor) => ({
+      isDragging: monitor.isDragging(),
+    }),
   });
+  const nodeDrag = useNodeDragDrop(node.id, {
+    canDrag: !byAttribute,
+    canDrop: !byAttribute,
+    allowInside: false,
+  });
+  if (byAttribute) {
+    drag(nodeDrag.rowRef);
+  } else {
+    nodeDrag.drag(nodeDrag.rowRef);
+  }
 
-  const levels = Object.keys(nodesByLevel)
-    .map(Number)
-    .sort((a, b) => a - b);
-
-  const renderCard = (node: ListNode) => {
-    const levelColor = theme.colors.levelColors[node.level] || theme.colors.primary;
-    const isSelected = selectedNodeIds.includes(node.id);
+  const levelColor = theme.colors.levelColors[node.level] || theme.colors.primary;
+  const isSelected = selectedNodeIds.includes(node.id);
 
-    return (
+  return (
+    <div
+      ref={nodeDrag.rowRef}
+      onClick={(e) => selectOnClick(node.id, e)}
+      style={{
+        opacity: isDragging || nodeDrag.isDragging ? 0.4 : 1,
+        padding: '12px',
+        marginBottom: '8px',
+        borderRadius: '8px',
+        background: isSelected
+          ? `linear-gradient(135deg, ${levelColor}40, ${levelColor}20)`
+          : `${levelColor}15`,
+        border: `2px solid ${isSelected ? levelColor : levelColor + '40'}`,
+        position: 'relative',
+        cursor: 'grab',
+        transition: 'all 0.2s ease',
+        boxShadow: isSelected
+          ? `0 4px 12px ${levelColor}40`
+          : '0 2px 6px rgba(0,0,0,0.1)',
+      }}
+    >
+      <DropIndicator position={nodeDrag.dropPosition} />
       <div
-        key={node.id}
-        onClick={() => selectNode(node.id, false)}
         style={{
-          padding: '12px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
           marginBottom: '8px',
-          borderRadius: '8px',
-          background: isSelected
-            ? `linear-gradient(135deg, ${levelColor}40, ${levelColor}20)`
-            : `${levelColor}15`,
-          border: `2px solid ${isSelected ? levelColor : levelColor + '40'}`,
-          cursor: 'pointer',
-          transition: 'all 0.2s ease',
-          boxShadow: isSelected
-            ? `0 4px 12px ${levelColor}40`
-            : '0 2px 6px rgba(0,0,0,0.1)',
+          direction: rtl ? 'rtl' : 'ltr',
         }}
       >
-        <div
-          style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: '8px',
-            marginBottom: '8px',
-            direction: rtl ? 'rtl' : 'ltr',
-          }}
-        >
-          {node.isDone !== undefined && (
-            <input
-              type="checkbox"
-              checked={node.isDone}
-              onChange={(e) => {
-                e.stopPropagation();
-                updateNode(node.id, { isDone: !node.isDone });
-              }}
-              style={{
-                width: '16px',
-                height: '16px',
-                cursor: 'pointer',
-                accentColor: levelColor,
-              }}
-            />
-          )}
-          {node.icon && (
-            <span style={{ fontSize: '18px' }} role="img">
-              {node.icon}
-            </span>
-          )}
-          {node.isPinned && <span style={{ fontSize: '12px' }}>📌</span>}
-        </div>
+        {node.isDone !== undefined && (
+          <input
+            type="checkbox"
+            checked={node.isDone}
+            onChange={(e) => {
+              e.stopPropagation();
+              updateNode(node.id, { isDone: !node.isDone });
+            }}
+            style={{
+              width: '16px',
+              height: '16px',
+              cursor: 'pointer',
+              accentColor: levelColor,
+            }}
+          />
+        )}
+        {node.icon && (
+          <span style={{ fontSize: '18px' }} role="img">
+            {node.icon}
+          </span>
+        )}
+        {node.isPinned && <span style={{ fontSize: '12px' }}>📌</span>}
+      </div>
 
+      <div
+        style={{
+          color: theme.colors.text,
+          fontSize: '14px',
+          fontWeight: node.level === 0 ? '600' : '400',
+          textDecoration: node.isDone ? 'line-through' : 'none',
+          opacity: node.isDone ? 0.6 : 1,
+          marginBottom: '4px',
+          direction: rtl ? 'rtl' : 'ltr',
+        }}
+      >
+        {node.title}
+      </div>
+
+      {node.description && (
         <div
           style={{
             color: theme.colors.text,
-            fontSize: '14px',
-            fontWeight: node.level === 0 ? '600' : '400',
-            textDecoration: node.isDone ? 'line-through' : 'none',
-            opacity: node.isDone ? 0.6 : 1,
-            marginBottom: '4px',
+            fontSize: '12px',
+            opacity: 0.7,
+            marginTop: '4px',
             direction: rtl ? 'rtl' : 'ltr',
           }}
         >
-          {node.title}
+          {node.description}
         </div>
+      )}
 
-        {node.description && (
-          <div
-            style={{
-              color: theme.colors.text,
-              fontSize: '12px',
-              opacity: 0.7,
-              marginTop: '4px',
-              direction: rtl ? 'rtl' : 'ltr',
-            }}
-          >
-            {node.description}
-          </div>
+      {node.tags && (
+        <div style={{ marginTop: '8px', direction: rtl ? 'rtl' : 'ltr' }}>
+          <TagChips tags={node.tags} size="small" />
+        </div>
+      )}
+
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginTop: '8px',
+          fontSize: '11px',
+          color: theme.colors.text,
+          opacity: 0.5,
+        }}
+      >
+        <span>{rtl ? `רמה ${node.level}` : `Level ${node.level}`}</span>
+        {node.childrenIds.length > 0 && (
+          <span>
+            {rtl
+              ? `${node.childrenIds.length} תת-פריטים`
+              : `${node.childrenIds.length} children`}
+          </span>
         )}
+      </div>
+    </div>
+  );
+};
 
-        <div
+const BoardCell: React.FC<{
+  column: BoardColumn;
+  lane: string;
+  isOverLimit: boolean;
+  onDropCard: (item: BoardCardItem, column: string) => void;
+  canDropCards: boolean;
+  children: React.ReactNode;
+}> = ({ column, lane, isOverLimit, onDropCard, canDropCards, children }) => {
+  const [{ isOver, canDrop }, drop] = useDrop({
+    accept: CARD_TYPE,
+    // Lanes follow the tree, so cards only change column within their lane
+    canDrop: (item: BoardCardItem) =>
+      canDropCards && item.lane === lane && item.column !== column.key,
+    drop: (item: BoardCardItem) => onDropCard(item, column.key),
+    collect: (monitor) => ({
+      isOver: monitor.isOver(),
+      canDrop: monitor.canDrop(),
+    }),
+  });
+
+  const active = isOver && canDrop;
+
+  return (
+    <div
+      ref={drop}
+      style={{
+        width: COLUMN_WIDTH,
+        flexShrink: 0,
+        minHeight: '60px',
+        padding: '12px',
+        boxSizing: 'border-box',
+        borderRadius: '12px',
+        background: active ? `${column.color}30` : `${column.color}10`,
+        border: `2px ${active ? 'dashed' : 'solid'} ${
+          isOverLimit ? '#ef4444' : active ? column.color : `${column.color}30`
+        }`,
+        transition: 'all 0.2s',
+      }}
+    >
+      {children}
+    </div>
+  );
+};
+
+/**
+ * Board View - Kanban-style board grouped by level, done state, tag or a
+ * select / checkbox custom field, with optional swimlanes per root node
+ */
+export const BoardView: React.FC = () => {
+  const nodes = useStore((state) => state.nodes);
+  const rootNodeIds = useStore((state) => state.rootNodeIds);
+  const theme = useStore((state) => state.currentSession.theme);
+  const rtl = useStore((state) => state.currentSession.rtl);
+  const updateNode = useStore((state) => state.updateNode);
+  const createNode = useStore((state) => state.createNode);
+  const fieldSchema = useStore((state) => state.currentSession.fieldSchema);
+  const boardGroupBy = useStore((state) => state.currentSession.boardGroupBy);
+  const boardColumns = useStore((state) => state.currentSession.boardColumns);
+  const swimlanes = useStore((state) => state.currentSession.boardSwimlanes ?? false);
+  const updateSession = useStore((state) => state.updateSession);
+
+  const groupableFields = fieldSchema.filter(
+    (field) =>
+      field.type === 'single-select' || field.type === 'multi-select' || field.type === 'checkbox'
+  );
+  const groupField = groupableFields.find((field) => `field:${field.id}` === boardGroupBy);
+  // A grouping by a field that was deleted or retyped falls back to levels
+  const groupBy: BoardGroupBy =
+    boardGroupBy && (!boardGroupBy.startsWith('field:') || groupField) ? boardGroupBy : 'level';
+  const settings: BoardColumnSettings = boardColumns?.[groupBy] ?? { order: [], wipLimits: {} };
+  const allNodes = Object.values(nodes);
+
+  const colorAt = (index: number) =>
+    theme.colors.levelColors[index % theme.colors.levelColors.length] || theme.colors.primary;
+
+  const noValueColumn = (title: string): BoardColumn => ({
+    key: NO_VALUE_COLUMN,
+    title,
+    color: theme.colors.border,
+    newCard: { parentId: null },
+  });
+
+  const buildLevelColumns = (): BoardColumn[] => {
+    const levels = Array.from(new Set(allNodes.map((node) => node.level))).sort((a, b) => a - b);
+    return levels.map((level) => ({
+      key: valueColumn(level),
+      title: rtl ? `רמה ${level}` : `Level ${level}`,
+      color: theme.colors.levelColors[level] || theme.colors.primary,
+      newCard:
+        level < 5
+          ? { parentId: allNodes.find((node) => node.level === level)?.parentId || null }
+          : null,
+    }));
+  };
+
+  const buildDoneColumns = (): BoardColumn[] => [
+    {
+      key: valueColumn('open'),
+      title: rtl ? 'לביצוע' : 'To do',
+      color: colorAt(0),
+      newCard: { parentId: null, data: { isDone: false } },
+    },
+    {
+      key: valueColumn('done'),
+      title: rtl ? 'הושלם' : 'Done',
+      color: colorAt(1),
+      newCard: { parentId: null, data: { isDone: true } },
+    },
+  ];
+
+  const buildTagColumns = (): BoardColumn[] => [
+    ...collectTags(nodes).map((tag, index) => ({
+      key: valueColumn(tag),
+      title: `#${tag}`,
+      color: colorAt(index),
+      newCard: { parentId: null, data: { tags: [tag] } },
+    })),
+    noValueColumn(rtl ? 'ללא תגית' : 'No tag'),
+  ];
+
+  const buildFieldColumns = (): BoardColumn[] => {
+    if (!groupField) return [];
+
+    const choices: { value: CustomFieldValue; title: string }[] =
+      groupField.type === 'checkbox'
+        ? [
+            { value: true, title: rtl ? 'כן' : 'Yes' },
+            { value: false, title: rtl ? 'לא' : 'No' },
+          ]
+        : (groupField.options ?? []).map((option) => ({
+            value: groupField.type === 'multi-select' ? [option] : option,
+            title: option,
+          }));
+
+    const columns: BoardColumn[] = choices.map((choice, index) => ({
+      key: valueColumn(Array.isArray(choice.value) ? choice.value[0] : choice.value),
+      title: choice.title,
+      color: colorAt(index),
+      newCard: {
+        parentId: null,
+        data: { sandboxProps: { [FIELD_VALUES_KEY]: { [groupField.id]: choice.value } } },
+      },
+    }));
+
+    if (groupField.type !== 'checkbox') {
+      columns.push(noValueColumn(rtl ? 'ללא ערך' : 'No value'));
+    }
+    return columns;
+  };
+
+  const columns = orderColumns(
+    groupBy === 'done'
+      ? buildDoneColumns()
+      : groupBy === 'tag'
+      ? buildTagColumns()
+      : groupField
+      ? buildFieldColumns()
+      : buildLevelColumns(),
+    settings.order
+  );
+
+  // Cards per lane and column; tags and multi-selects can place a card twice
+  const lanes = swimlanes ? rootNodeIds.filter((id) => nodes[id]) : [ALL_LANE];
+  const cards: Record<string, Record<string, ListNode[]>> = {};
+  const columnCounts: Record<string, number> = {};
+  allNodes.forEach((node) => {
+    const lane = swimlanes ? getRootId(nodes, node.id) : ALL_LANE;
+    getCardColumns(node, groupBy, groupField).forEach((key) => {
+      cards[lane] = cards[lane] ?? {};
+      cards[lane][key] = [...(cards[lane][key] ?? []), node];
+      columnCounts[key] = (columnCounts[key] ?? 0) + 1;
+    });
+  });
+
+  const saveSettings = (next: BoardColumnSettings) => {
+    updateSession({ boardColumns: { ...boardColumns, [groupBy]: next } });
+  };
+
+  const handleMoveColumn = (key: string, offset: -1 | 1) => {
+    saveSettings({
+      ...settings,
+      order: moveColumn(
+        columns.map((column) => column.key),
+        key,
+        offset
+      ),
+    });
+  };
+
+  const handleWipLimit = (column: BoardColumn) => {
+    const current = settings.wipLimits[column.key];
+    const input = prompt(
+      rtl
+        ? `מגבלת WIP עבור ${column.title} (ריק לביטול):`
+        : `WIP limit for ${column.title} (empty for none):`,
+      current ? String(current) : ''
+    );
+    if (input === null) return;
+
+    const { [column.key]: _previous, ...wipLimits } = settings.wipLimits;
+    const limit = parseInt(input, 10);
+    saveSettings({
+      ...settings,
+      wipLimits: limit > 0 ? { ...wipLimits, [column.key]: limit } : wipLimits,
+    });
+  };
+
+  const handleDropCard = (item: BoardCardItem, to: string) => {
+    const node = useStore.getState().nodes[item.id];
+    if (!node) return;
+    const updates = getColumnMoveUpdate(node, groupBy, item.column, to, groupField);
+    if (updates) updateNode(node.id, updates);
+  };
+
+  const laneTitle = (laneId: string) => {
+    const root = nodes[laneId];
+    return root?.title || (rtl ? 'ללא כותרת' : 'Untitled');
+  };
+
+  const controlStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.colors.border}`,
+    background: theme.colors.background,
+    color: theme.colors.text,
+  };
+
+  const arrowStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: 'none',
+    color: theme.colors.text,
+    cursor: 'pointer',
+    padding: '0 4px',
+    fontSize: '12px',
+  };
+
+  const renderColumnHeader = (column: BoardColumn, index: number) => {
+    const count = columnCounts[column.key] ?? 0;
+    const limit = settings.wipLimits[column.key];
+    const isOverLimit = limit !== undefined && count > limit;
+
+    return (
+      <div
+        key={column.key}
+        style={{
+          width: COLUMN_WIDTH,
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '8px 12px',
+          boxSizing: 'border-box',
+        }}
+      >
+        <button
+          onClick={() => handleMoveColumn(column.key, -1)}
+          disabled={index === 0}
+          title={rtl ? 'הזז עמודה אחורה' : 'Move column earlier'}
+          style={{ ...arrowStyle, opacity: index === 0 ? 0.2 : 0.6 }}
+        >
+          {rtl ? '▶' : '◀'}
+        </button>
+        <h3
           style={{
-            display: 'flex',
-            justifyContent: 'space-between',
-            alignItems: 'center',
-            marginTop: '8px',
-            fontSize: '11px',
-            color: theme.colors.text,
-            opacity: 0.5,
+            margin: 0,
+            flex: 1,
+            color: column.color === theme.colors.border ? theme.colors.text : column.color,
+            fontSize: '16px',
+            fontWeight: 'bold',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
           }}
         >
-          <span>{rtl ? `רמה ${node.level}` : `Level ${node.level}`}</span>
-          {node.childrenIds.length > 0 && (
-            <span>
-              {rtl
-                ? `${node.childrenIds.length} תת-פריטים`
-                : `${node.childrenIds.length} children`}
-            </span>
-          )}
-        </div>
+          {column.title}
+        </h3>
+        <button
+          onClick={() => handleWipLimit(column)}
+          title={rtl ? 'הגדר מגבלת WIP' : 'Set WIP limit'}
+          style={{
+            background: isOverLimit ? '#ef4444' : column.color,
+            color: theme.colors.background,
+            padding: '2px 8px',
+            borderRadius: '12px',
+            border: 'none',
+            fontSize: '12px',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+          }}
+        >
+          {limit !== undefined ? `${count}/${limit}` : count}
+        </button>
+        <button
+          onClick={() => handleMoveColumn(column.key, 1)}
+          disabled={index === columns.length - 1}
+          title={rtl ? 'הזז עמודה קדימה' : 'Move column later'}
+          style={{ ...arrowStyle, opacity: index === columns.length - 1 ? 0.2 : 0.6 }}
+        >
+          {rtl ? '◀' : '▶'}
+        </button>
       </div>
     );
   };
 
-  return (
-    <div
-      style={{
-        display: 'flex',
-        gap: '16px',
-        overflowX: 'auto',
-        padding: '16px',
-        height: '100%',
-        direction: rtl ? 'rtl' : 'ltr',
-      }}
-    >
-      {levels.map((level) => {
-        const levelNodes = nodesByLevel[level];
-        const levelColor = theme.colors.levelColors[level] || theme.colors.primary;
+  const renderCell = (column: BoardColumn, lane: string) => {
+    const limit = settings.wipLimits[column.key];
+    const columnCards = cards[lane]?.[column.key] ?? [];
+    // In a swimlane new cards go under the lane's root; level columns depend
+    // on tree depth, so they only offer "add" without lanes
+    const newCard =
+      lane === ALL_LANE
+        ? column.newCard
+        : column.newCard && groupBy !== 'level'
+        ? { ...column.newCard, parentId: lane }
+        : null;
+
+    return (
+      <BoardCell
+        key={column.key}
+        column={column}
+        lane={lane}
+        isOverLimit={limit !== undefined && (columnCounts[column.key] ?? 0) > limit}
+        canDropCards={groupBy !== 'level'}
+        onDropCard={handleDropCard}
+      >
+        <div style={{ maxHeight: swimlanes ? 'none' : 'calc(100vh - 260px)', overflowY: 'auto' }}>
+          {columnCards.map((node) => (
+            <BoardCard
+              key={node.id}
+              node={node}
+              column={column.key}
+              lane={lane}
+              byAttribute={groupBy !== 'level'}
+            />
+          ))}
+        </div>
 
-        return (
-          <div
-            key={level}
+        {newCard && (
+          <button
+            onClick={() => {
+              createNode(newCard.parentId, newCard.data);
+            }}
             style={{
-              minWidth: '280px',
-              maxWidth: '320px',
-              background: `${levelColor}10`,
-              borderRadius: '12px',
-              padding: '16px',
-              border: `2px solid ${levelColor}30`,
+              width: '100%',
+              padding: '8px',
+              marginTop: '8px',
+              background: 'transparent',
+              border: `2px dashed ${column.color}40`,
+              borderRadius: '8px',
+              color: column.color === theme.colors.border ? theme.colors.text : column.color,
+              cursor: 'pointer',
+              fontSize: '14px',
+              transition: 'all 0.2s',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.background = `${column.color}20`;
+              e.currentTarget.style.borderColor = column.color;
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.background = 'transparent';
+              e.currentTarget.style.borderColor = `${column.color}40`;
             }}
           >
-            <div
-              style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
-                marginBottom: '16px',
-              }}
-            >
-              <h3
-                style={{
-                  margin: 0,
-                  color: levelColor,
-                  fontSize: '16px',
-                  fontWeight: 'bold',
-                }}
-              >
-                {rtl ? `רמה ${level}` : `Level ${level}`}
-              </h3>
-              <span
-                style={{
-                  background: levelColor,
-                  color: theme.colors.background,
-                  padding: '2px 8px',
-                  borderRadius: '12px',
-                  fontSize: '12px',
-                  fontWeight: 'bold',
-                }}
-              >
-                {levelNodes.length}
-              </span>
-            </div>
+            {rtl ? '+ הוסף כרטיס' : '+ Add card'}
+          </button>
+        )}
+      </BoardCell>
+    );
+  };
 
-            <div style={{ maxHeight: 'calc(100vh - 200px)', overflowY: 'auto' }}>
-              {levelNodes.map(renderCard)}
-            </div>
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '0 16px',
+          direction: rtl ? 'rtl' : 'ltr',
+          color: theme.colors.text,
+          fontSize: '13px',
+        }}
+      >
+        <label htmlFor="board-group-by">{rtl ? 'קבץ לפי:' : 'Group by:'}</label>
+        <select
+          id="board-group-by"
+          value={groupBy}
+          onChange={(e) => updateSession({ boardGroupBy: e.target.value as BoardGroupBy })}
+          style={controlStyle}
+        >
+          <option value="level">{rtl ? 'רמה' : 'Level'}</option>
+          <option value="done">{rtl ? 'סטטוס' : 'Status'}</option>
+          <option value="tag">{rtl ? 'תגית' : 'Tag'}</option>
+          {groupableFields.map((field) => (
+            <option key={field.id} value={`field:${field.id}`}>
+              {field.name}
+            </option>
+          ))}
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={swimlanes}
+            onChange={(e) => updateSession({ boardSwimlanes: e.target.checked })}
+          />
+          {rtl ? 'נתיבים לפי שורש' : 'Swimlanes by root'}
+        </label>
+      </div>
+
+      {allNodes.length > 0 ? (
+        <div
+          style={{
+            flex: 1,
+            overflow: 'auto',
+            padding: '16px',
+            direction: rtl ? 'rtl' : 'ltr',
+          }}
+        >
+          <div style={{ display: 'flex', gap: '16px' }}>{columns.map(renderColumnHeader)}</div>
 
-            {level < 5 && (
-              <button
-                onClick={() => {
-                  const parent = levelNodes[0]?.parentId;
-                  createNode(parent || null);
-                }}
-                style={{
-                  width: '100%',
-                  padding: '8px',
-                  marginTop: '8px',
-                  background: 'transparent',
-                  border: `2px dashed ${levelColor}40`,
-                  borderRadius: '8px',
-                  color: levelColor,
-                  cursor: 'pointer',
-                  fontSize: '14px',
-                  transition: 'all 0.2s',
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.background = `${levelColor}20`;
-                  e.currentTarget.style.borderColor = levelColor;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.background = 'transparent';
-                  e.currentTarget.style.borderColor = `${levelColor}40`;
-                }}
-              >
-                {rtl ? '+ הוסף כרטיס' : '+ Add card'}
-              </button>
-            )}
-          </div>
-        );
-      })}
-
-      {levels.length === 0 && (
+          {lanes.map((lane) => (
+            <div key={lane} style={{ marginTop: '8px' }}>
+              {lane !== ALL_LANE && (
+                <div
+                  style={{
+                    padding: '8px 4px',
+                    color: theme.colors.text,
+                    fontWeight: 'bold',
+                    fontSize: '14px',
+                    borderBottom: `1px solid ${theme.colors.border}`,
+                    marginBottom: '8px',
+                  }}
+                >
+                  {nodes[lane]?.icon && `${nodes[lane].icon} `}
+                  {laneTitle(lane)}
+                </div>
+              )}
+              <div style={{ display: 'flex', gap: '16px' }}>
+                {columns.map((column) => renderCell(column, lane))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
         <div
           style={{
             display: 'flex',
             flexDirection: 'column',
             alignItems: 'center',
             justifyContent: 'center',
-            width: '100%',
+            flex: 1,
             color: theme.colors.text,
             opacity: 0.5,
           }}
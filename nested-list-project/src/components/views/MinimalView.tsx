@@ -1,5 +1,8 @@
 import React from 'react';
 import { useStore } from '../../store/useStore';
+import { useNodeSelection } from '../../hooks/useNodeSelection';
+import { TagChips } from '../ui/TagChips';
+import { DraggableNodeRow } from '../core/DraggableNodeRow';
 
 /**
  * Minimal View - Ultra-clean, distraction-free view
@@ -9,7 +12,7 @@ export const MinimalView: React.FC = () => {
   const rootNodeIds = useStore((state) => state.rootNodeIds);
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
-  const selectNode = useStore((state) => state.selectNode);
+  const selectOnClick = useNodeSelection();
   const toggleDone = useStore((state) => state.toggleDone);
   const selectedNodeIds = useStore((state) => state.currentSession.selectedNodeIds);
 
@@ -22,8 +25,9 @@ export const MinimalView: React.FC = () => {
 
     return (
       <div key={nodeId}>
-        <div
-          onClick={() => selectNode(nodeId, false)}
+        <DraggableNodeRow
+          nodeId={nodeId}
+          onClick={(e) => selectOnClick(nodeId, e)}
           style={{
             display: 'flex',
             alignItems: 'center',
@@ -102,6 +106,7 @@ export const MinimalView: React.FC = () => {
               transition: 'opacity 0.2s',
             }}
           >
+            <TagChips tags={node.tags} size="small" />
             {node.isPinned && (
               <span style={{ fontSize: '12px', opacity: 0.6 }}>📌</span>
             )}
@@ -117,7 +122,7 @@ export const MinimalView: React.FC = () => {
               </span>
             )}
           </div>
-        </div>
+        </DraggableNodeRow>
 
         {/* Children - always visible in minimal view */}
         {hasChildren && (
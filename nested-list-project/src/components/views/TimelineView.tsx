@@ -1,17 +1,106 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useStore } from '../../store/useStore';
-import { ListNode } from '../../types/core';
+import { TagChips } from '../ui/TagChips';
+import { ListNode, ListNodeId, TimelineZoom } from '../../types/core';
+import { TIMELINE_DAY_WIDTH } from '../../constants/config';
+import {
+  addDays,
+  computeScheduleSpans,
+  diffDays,
+  formatDateKey,
+  getAxisTicks,
+  isOverdue,
+  ScheduleDragMode,
+  shiftSchedule,
+  todayKey,
+} from '../../utils/schedule';
+
+type TimelineMode = 'schedule' | 'activity';
+
+interface DragState {
+  id: ListNodeId;
+  mode: ScheduleDragMode;
+  originX: number;
+  days: number;
+}
+
+const LABEL_WIDTH = 220;
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 32;
+
+// Empty days kept on either side of the scheduled range
+const RANGE_PADDING: Record<TimelineZoom, number> = {
+  day: 2,
+  week: 7,
+  month: 30,
+};
+
+const ZOOM_LABELS: Record<TimelineZoom, { en: string; he: string }> = {
+  day: { en: 'Day', he: 'יום' },
+  week: { en: 'Week', he: 'שבוע' },
+  month: { en: 'Month', he: 'חודש' },
+};
 
 /**
- * Timeline View - Chronological view based on creation/update time
+ * Timeline View - nodes as bars on a zoomable date axis, with drag to
+ * reschedule / resize; the activity mode is the chronological creation log
  */
 export const TimelineView: React.FC = () => {
   const nodes = useStore((state) => state.nodes);
+  const rootNodeIds = useStore((state) => state.rootNodeIds);
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
+  const zoom = useStore((state) => state.currentSession.timelineZoom ?? 'week');
   const selectNode = useStore((state) => state.selectNode);
+  const scheduleNode = useStore((state) => state.scheduleNode);
+  const openNodeDetails = useStore((state) => state.openNodeDetails);
+  const updateSession = useStore((state) => state.updateSession);
   const selectedNodeIds = useStore((state) => state.currentSession.selectedNodeIds);
 
+  const [mode, setMode] = useState<TimelineMode>('schedule');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Mirrors `drag` so the window listeners read the latest value
+  const dragRef = useRef<DragState | null>(null);
+  const dayWidth = TIMELINE_DAY_WIDTH[zoom];
+  const isDragging = drag !== null;
+
+  const updateDrag = (next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const days = Math.round((e.clientX - current.originX) / dayWidth);
+      if (days !== current.days) updateDrag({ ...current, days });
+    };
+
+    const handleUp = () => {
+      const current = dragRef.current;
+      updateDrag(null);
+      const node = current && useStore.getState().nodes[current.id];
+      if (!current || !node) return;
+
+      // A drag that never left its day is a click
+      if (current.days === 0) {
+        selectNode(node.id, false);
+      } else {
+        scheduleNode(node.id, shiftSchedule(node, current.mode, current.days));
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [isDragging, dayWidth, selectNode, scheduleNode]);
+
   // Sort nodes by creation time (most recent first)
   const sortedNodes = Object.values(nodes).sort(
     (a, b) => b.createdAt - a.createdAt
@@ -41,7 +130,7 @@ export const TimelineView: React.FC = () => {
     });
   };
 
-  const renderNode = (node: ListNode) => {
+  const renderActivityNode = (node: ListNode) => {
     const isSelected = selectedNodeIds.includes(node.id);
     const levelColor = theme.colors.levelColors[node.level] || theme.colors.primary;
 
@@ -139,6 +228,7 @@ export const TimelineView: React.FC = () => {
               {node.title}
             </span>
             {node.isPinned && <span style={{ fontSize: '14px' }}>📌</span>}
+            <TagChips tags={node.tags} size="small" />
           </div>
 
           {node.description && (
@@ -195,13 +285,14 @@ export const TimelineView: React.FC = () => {
     );
   };
 
-  return (
+  const renderActivity = () => (
     <div
       style={{
         padding: '24px',
         maxWidth: '800px',
+        width: '100%',
         margin: '0 auto',
-        height: '100%',
+        flex: 1,
         overflowY: 'auto',
       }}
     >
@@ -221,7 +312,7 @@ export const TimelineView: React.FC = () => {
             >
               {date}
             </h3>
-            {dateNodes.map((node) => renderNode(node))}
+            {dateNodes.map((node) => renderActivityNode(node))}
           </div>
         ))
       ) : (
@@ -242,4 +333,359 @@ export const TimelineView: React.FC = () => {
       )}
     </div>
   );
+
+  // Rows follow tree order and honour collapsed branches
+  const orderedIds: ListNodeId[] = [];
+  const collectVisible = (ids: ListNodeId[]) => {
+    ids.forEach((id) => {
+      const node = nodes[id];
+      if (!node) return;
+      orderedIds.push(id);
+      if (!node.isCollapsed) collectVisible(node.childrenIds);
+    });
+  };
+  collectVisible(rootNodeIds);
+
+  // While dragging, spans (and parent roll-ups) follow the pointer
+  const dragNode = drag ? nodes[drag.id] : undefined;
+  const previewNodes =
+    drag && dragNode
+      ? { ...nodes, [drag.id]: { ...dragNode, ...shiftSchedule(dragNode, drag.mode, drag.days) } }
+      : nodes;
+  const spans = computeScheduleSpans(previewNodes, rootNodeIds);
+  const scheduledIds = orderedIds.filter((id) => spans[id]);
+  const unscheduled = Object.values(nodes).filter((node) => !spans[node.id]);
+
+  const today = todayKey();
+  const bounds = scheduledIds.reduce(
+    (range, id) => ({
+      start: spans[id].start < range.start ? spans[id].start : range.start,
+      end: spans[id].end > range.end ? spans[id].end : range.end,
+    }),
+    { start: today, end: today }
+  );
+  const rangeStart = addDays(bounds.start, -RANGE_PADDING[zoom]);
+  const rangeEnd = addDays(bounds.end, RANGE_PADDING[zoom]);
+  const chartWidth = (diffDays(rangeStart, rangeEnd) + 1) * dayWidth;
+  const ticks = getAxisTicks(rangeStart, rangeEnd, zoom);
+  const offsetOf = (key: string) => diffDays(rangeStart, key) * dayWidth;
+
+  const tickLabel = (key: string, index: number) => {
+    if (zoom === 'month') return formatDateKey(key, rtl, { month: 'short', year: 'numeric' });
+    if (zoom === 'week') return formatDateKey(key, rtl, { month: 'short', day: 'numeric' });
+    return key.endsWith('-01') || index === 0
+      ? formatDateKey(key, rtl, { month: 'short', day: 'numeric' })
+      : formatDateKey(key, rtl, { day: 'numeric' });
+  };
+
+  const startDrag = (e: React.PointerEvent, node: ListNode, dragMode: ScheduleDragMode) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    updateDrag({ id: node.id, mode: dragMode, originX: e.clientX, days: 0 });
+  };
+
+  const buttonStyle = (active: boolean): React.CSSProperties => ({
+    padding: '6px 12px',
+    borderRadius: '6px',
+    border: `1px solid ${active ? theme.colors.primary : theme.colors.border}`,
+    background: active ? `${theme.colors.primary}30` : 'transparent',
+    color: theme.colors.text,
+    cursor: 'pointer',
+    fontSize: '13px',
+  });
+
+  const renderBar = (node: ListNode) => {
+    const span = spans[node.id];
+    const levelColor = theme.colors.levelColors[node.level] || theme.colors.primary;
+    const overdue = isOverdue(previewNodes[node.id], today);
+    const isSelected = selectedNodeIds.includes(node.id);
+    const left = offsetOf(span.start);
+    const width = (diffDays(span.start, span.end) + 1) * dayWidth;
+    const range =
+      span.start === span.end
+        ? formatDateKey(span.start, rtl)
+        : `${formatDateKey(span.start, rtl)} – ${formatDateKey(span.end, rtl)}`;
+
+    // Roll-ups are derived from the children, so they can't be dragged
+    if (span.rolledUp) {
+      return (
+        <div
+          title={`${node.title} · ${range}${rtl ? ' (מחושב מתתי-פריטים)' : ' (from children)'}`}
+          onClick={() => selectNode(node.id, false)}
+          onDoubleClick={() => openNodeDetails(node.id)}
+          style={{
+            position: 'absolute',
+            left,
+            width,
+            top: ROW_HEIGHT / 2 - 4,
+            height: '8px',
+            background: levelColor,
+            opacity: node.isDone ? 0.4 : 0.8,
+            borderRadius: '2px',
+            borderLeft: `3px solid ${theme.colors.text}`,
+            borderRight: `3px solid ${theme.colors.text}`,
+            outline: overdue ? '2px solid #ef4444' : 'none',
+            cursor: 'pointer',
+          }}
+        />
+      );
+    }
+
+    const handleStyle = (side: 'left' | 'right'): React.CSSProperties => ({
+      position: 'absolute',
+      top: 0,
+      bottom: 0,
+      [side]: 0,
+      width: '6px',
+      cursor: 'ew-resize',
+    });
+
+    return (
+      <div
+        title={`${node.title} · ${range}`}
+        onPointerDown={(e) => startDrag(e, node, 'move')}
+        onDoubleClick={() => openNodeDetails(node.id)}
+        style={{
+          position: 'absolute',
+          left,
+          width,
+          top: 6,
+          height: ROW_HEIGHT - 12,
+          background: `${levelColor}${isSelected ? 'ff' : 'bb'}`,
+          opacity: node.isDone ? 0.5 : 1,
+          borderRadius: '6px',
+          border: overdue ? '2px solid #ef4444' : `1px solid ${levelColor}`,
+          boxShadow: isSelected ? `0 0 8px ${levelColor}` : 'none',
+          boxSizing: 'border-box',
+          cursor: drag?.id === node.id ? 'grabbing' : 'grab',
+          touchAction: 'none',
+          userSelect: 'none',
+        }}
+      >
+        <div onPointerDown={(e) => startDrag(e, node, 'start')} style={handleStyle('left')} />
+        <div onPointerDown={(e) => startDrag(e, node, 'end')} style={handleStyle('right')} />
+      </div>
+    );
+  };
+
+  const renderSchedule = () => (
+    <div style={{ flex: 1, overflow: 'auto' }}>
+      {/* The axis always runs left to right; only the labels follow the session direction */}
+      <div
+        style={{
+          position: 'relative',
+          width: LABEL_WIDTH + chartWidth,
+          minHeight: HEADER_HEIGHT + scheduledIds.length * ROW_HEIGHT,
+          direction: 'ltr',
+        }}
+      >
+        {/* Gridlines and today marker */}
+        {ticks.map((key) => (
+          <div
+            key={key}
+            style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: LABEL_WIDTH + offsetOf(key),
+              borderLeft: `1px solid ${theme.colors.border}`,
+              opacity: 0.5,
+              pointerEvents: 'none',
+            }}
+          />
+        ))}
+        <div
+          title={rtl ? 'היום' : 'Today'}
+          style={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: LABEL_WIDTH + offsetOf(today) + dayWidth / 2,
+            borderLeft: `2px solid ${theme.colors.primary}`,
+            pointerEvents: 'none',
+            zIndex: 1,
+          }}
+        />
+
+        {/* Axis header */}
+        <div
+          style={{
+            position: 'sticky',
+            top: 0,
+            height: HEADER_HEIGHT,
+            display: 'flex',
+            background: theme.colors.background,
+            borderBottom: `1px solid ${theme.colors.border}`,
+            zIndex: 3,
+          }}
+        >
+          <div
+            style={{
+              position: 'sticky',
+              left: 0,
+              width: LABEL_WIDTH,
+              flexShrink: 0,
+              background: theme.colors.background,
+              zIndex: 1,
+            }}
+          />
+          <div style={{ position: 'relative', width: chartWidth }}>
+            {ticks.map((key, index) => (
+              <span
+                key={key}
+                style={{
+                  position: 'absolute',
+                  left: offsetOf(key) + 4,
+                  top: 8,
+                  fontSize: '11px',
+                  color: key === today ? theme.colors.primary : theme.colors.text,
+                  opacity: 0.8,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {tickLabel(key, index)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {scheduledIds.map((id) => {
+          const node = nodes[id];
+          const overdue = isOverdue(node, today);
+
+          return (
+            <div key={id} style={{ display: 'flex', height: ROW_HEIGHT }}>
+              <div
+                onClick={() => selectNode(id, false)}
+                onDoubleClick={() => openNodeDetails(id)}
+                style={{
+                  position: 'sticky',
+                  left: 0,
+                  width: LABEL_WIDTH,
+                  flexShrink: 0,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  padding: '0 8px',
+                  paddingInlineStart: `${8 + node.level * 12}px`,
+                  boxSizing: 'border-box',
+                  background: selectedNodeIds.includes(id)
+                    ? `${theme.colors.primary}30`
+                    : theme.colors.background,
+                  borderBottom: `1px solid ${theme.colors.border}40`,
+                  color: theme.colors.text,
+                  fontSize: '13px',
+                  direction: rtl ? 'rtl' : 'ltr',
+                  cursor: 'pointer',
+                  zIndex: 2,
+                }}
+              >
+                {node.icon && <span role="img">{node.icon}</span>}
+                <span
+                  style={{
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    textDecoration: node.isDone ? 'line-through' : 'none',
+                    opacity: node.isDone ? 0.6 : 1,
+                    fontWeight: spans[id].rolledUp ? 600 : 400,
+                  }}
+                >
+                  {node.title || (rtl ? 'ללא כותרת' : 'Untitled')}
+                </span>
+                {overdue && (
+                  <span title={rtl ? 'באיחור' : 'Overdue'} style={{ color: '#ef4444' }}>
+                    ⚠️
+                  </span>
+                )}
+              </div>
+              <div
+                style={{
+                  position: 'relative',
+                  width: chartWidth,
+                  borderBottom: `1px solid ${theme.colors.border}40`,
+                }}
+              >
+                {renderBar(node)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {unscheduled.length > 0 && (
+        <div style={{ padding: '16px', direction: rtl ? 'rtl' : 'ltr' }}>
+          <h4 style={{ margin: '0 0 8px', color: theme.colors.text, opacity: 0.7 }}>
+            {rtl ? `לא מתוזמן (${unscheduled.length})` : `Unscheduled (${unscheduled.length})`}
+          </h4>
+          {unscheduled.map((node) => (
+            <div
+              key={node.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '4px 0',
+                color: theme.colors.text,
+                fontSize: '13px',
+              }}
+            >
+              <span
+                onClick={() => selectNode(node.id, false)}
+                style={{ flex: 1, cursor: 'pointer', opacity: node.isDone ? 0.6 : 1 }}
+              >
+                {node.icon && `${node.icon} `}
+                {node.title || (rtl ? 'ללא כותרת' : 'Untitled')}
+              </span>
+              <button
+                onClick={() => scheduleNode(node.id, { startDate: today, dueDate: today })}
+                style={buttonStyle(false)}
+              >
+                📅 {rtl ? 'היום' : 'Today'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '12px 16px',
+          direction: rtl ? 'rtl' : 'ltr',
+          flexWrap: 'wrap',
+        }}
+      >
+        <button onClick={() => setMode('schedule')} style={buttonStyle(mode === 'schedule')}>
+          📆 {rtl ? 'לוח זמנים' : 'Schedule'}
+        </button>
+        <button onClick={() => setMode('activity')} style={buttonStyle(mode === 'activity')}>
+          🕘 {rtl ? 'פעילות' : 'Activity'}
+        </button>
+        {mode === 'schedule' && (
+          <>
+            <span style={{ flex: 1 }} />
+            {(Object.keys(ZOOM_LABELS) as TimelineZoom[]).map((level) => (
+              <button
+                key={level}
+                onClick={() => updateSession({ timelineZoom: level })}
+                style={buttonStyle(zoom === level)}
+              >
+                {rtl ? ZOOM_LABELS[level].he : ZOOM_LABELS[level].en}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+
+      {mode === 'activity' || Object.keys(nodes).length === 0 ? renderActivity() : renderSchedule()}
+    </div>
+  );
 };
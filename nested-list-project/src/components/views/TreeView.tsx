@@ -1,5 +1,8 @@
 import React from 'react';
 import { useStore } from '../../store/useStore';
+import { useNodeSelection } from '../../hooks/useNodeSelection';
+import { TagChips } from '../ui/TagChips';
+import { DraggableNodeRow } from '../core/DraggableNodeRow';
 
 /**
  * Tree View - Classic tree structure with branches
@@ -9,7 +12,7 @@ export const TreeView: React.FC = () => {
   const rootNodeIds = useStore((state) => state.rootNodeIds);
   const theme = useStore((state) => state.currentSession.theme);
   const rtl = useStore((state) => state.currentSession.rtl);
-  const selectNode = useStore((state) => state.selectNode);
+  const selectOnClick = useNodeSelection();
   const toggleCollapse = useStore((state) => state.toggleCollapse);
   const selectedNodeIds = useStore((state) => state.currentSession.selectedNodeIds);
 
@@ -31,8 +34,9 @@ export const TreeView: React.FC = () => {
 
     return (
       <div key={nodeId}>
-        <div
-          onClick={() => selectNode(nodeId, false)}
+        <DraggableNodeRow
+          nodeId={nodeId}
+          onClick={(e) => selectOnClick(nodeId, e)}
           style={{
             display: 'flex',
             alignItems: 'center',
@@ -130,6 +134,18 @@ export const TreeView: React.FC = () => {
             </span>
           )}
 
+          {/* Tags */}
+          {node.tags && (
+            <span
+              style={{
+                marginLeft: rtl ? '0' : '8px',
+                marginRight: rtl ? '8px' : '0',
+              }}
+            >
+              <TagChips tags={node.tags} size="small" />
+            </span>
+          )}
+
           {/* Children count */}
           {hasChildren && (
             <span
@@ -144,7 +160,7 @@ export const TreeView: React.FC = () => {
               ({node.childrenIds.length})
             </span>
           )}
-        </div>
+        </DraggableNodeRow>
 
         {/* Children */}
         {hasChildren && !node.isCollapsed && (
@@ -1,3 +1,5 @@
+import { TimelineZoom } from '../types/core';
+
 /**
  * App configuration constants
  */
@@ -8,18 +10,34 @@ export const APP_CONFIG = {
   MIN_DEPTH: 0,
 
   // Storage
-  STORAGE_KEY: 'nested-list-sandbox-state',
+  DATABASE_NAME: 'nested-list-sandbox', // IndexedDB database, when there is no server
+  STORAGE_KEY: 'nested-list-sandbox-state', // legacy localStorage blob, moved to the backend on load
+  STORAGE_API_URL: '/api', // served by server.cjs, which keeps workspaces on disk
+  DEFAULT_WORKSPACE_ID: 'default',
+  SYNC_CHANNEL: 'nested-list-sandbox-sync', // BroadcastChannel tabs announce their saves on
+  UNREADABLE_STORAGE_KEY: 'nested-list-sandbox-state-unreadable', // saved data that failed to load
+  SCHEMA_VERSION: 1, // of exported JSON - add a migration in utils/migrations when bumping
   AUTO_SAVE_INTERVAL: 5000, // 5 seconds
+  TIME_RULES_INTERVAL: 60 * 1000, // time-based rules re-check the whole tree every minute
+
+  // Collaboration
+  COLLAB_PATH: '/collab', // WebSocket relay in server.cjs
+  COLLAB_RECONNECT_DELAY: 1000, // doubles after each failed attempt
+  COLLAB_MAX_RECONNECT_DELAY: 30000,
+  COLLAB_PENDING_KEY: 'nested-list-sandbox-collab-pending', // + room: edits the relay hasn't confirmed
 
   // UI
   ANIMATION_DURATION: 300, // milliseconds
   DEBOUNCE_DELAY: 300,
+  CHORD_TIMEOUT: 1000, // max pause between keys of a chord like `dd`
 
   // Limits
   MAX_TITLE_LENGTH: 500,
   MAX_DESCRIPTION_LENGTH: 2000,
   MAX_SNAPSHOTS: 50,
   MAX_HISTORY_ITEMS: 100,
+  MAX_HISTORY_PATCHES: 5000, // total across entries, keeps memory flat for big trees
+  HISTORY_COALESCE_WINDOW: 1000, // ms between title keystrokes merged into one undo step
 
   // Default values
   DEFAULT_VIEW_MODE: 'outline' as const,
@@ -35,3 +53,10 @@ export const VIEW_MODE_LABELS: Record<string, string> = {
   timeline: 'ציר זמן',
   minimal: 'תצוגה מינימלית',
 };
+
+// Pixels per day on the timeline axis at each zoom level
+export const TIMELINE_DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 40,
+  week: 16,
+  month: 4,
+};
@@ -0,0 +1,31 @@
+import { RuleConfigMap } from '../types/core';
+
+/**
+ * Default config for each built-in rule type
+ */
+
+export const DEFAULT_RULE_CONFIGS: RuleConfigMap = {
+  'auto-collapse': {
+    trigger: 'done',
+  },
+  'auto-tag': {
+    keyword: '',
+    tag: '',
+    matchDescription: false,
+  },
+  'color-by-status': {
+    doneColorSlot: 5,
+    pendingColorSlot: null,
+  },
+  'auto-sort': {
+    sortBy: 'title',
+    order: 'asc',
+  },
+  'time-based': {
+    field: 'updatedAt',
+    olderThanDays: 7,
+    action: 'highlight',
+  },
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
@@ -2,6 +2,10 @@ import { SandboxShortcutsProfile } from '../types/core';
 
 /**
  * Default keyboard shortcuts profiles
+ *
+ * Bindings are `+`-joined strokes (`Control+Shift+z`). A chord is a
+ * space-separated sequence of strokes, or a run of plain characters (`dd`).
+ * Alternatives are separated by ` | `.
  */
 
 export const DEFAULT_SHORTCUTS: SandboxShortcutsProfile = {
@@ -18,8 +22,8 @@ export const DEFAULT_SHORTCUTS: SandboxShortcutsProfile = {
 
     // Actions
     'node.create': 'Enter',
-    'node.createSibling': 'Shift+Enter',
-    'node.delete': 'Control+Backspace',
+    'node.createChild': 'Shift+Enter',
+    'node.delete': 'Delete | Backspace',
     'node.duplicate': 'Control+d',
     'node.edit': 'F2',
     'node.toggleCollapse': 'Space',
@@ -38,7 +42,7 @@ export const DEFAULT_SHORTCUTS: SandboxShortcutsProfile = {
 
     // System
     'command.palette': 'Control+k',
-    'search.open': 'Control+Shift+f',
+    'search.open': 'Control+f',
     'undo': 'Control+z',
     'redo': 'Control+Shift+z',
 
@@ -57,10 +61,14 @@ export const VIM_SHORTCUTS: SandboxShortcutsProfile = {
     'navigate.left': 'h',
     'navigate.right': 'l',
     'node.create': 'o',
-    'node.createSibling': 'O',
+    'node.createChild': 'O',
     'node.delete': 'dd',
+    'node.duplicate': 'yy',
     'node.edit': 'i',
     'node.toggleCollapse': 'za',
+    'node.indent': '>>',
+    'node.outdent': '<<',
+    'view.zoomOut': 'Escape',
     'command.palette': ':',
     'view.focusMode': 'zz',
     'undo': 'u',
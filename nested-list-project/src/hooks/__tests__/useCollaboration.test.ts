@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { createRequire } from 'module';
+import { act, renderHook } from '@testing-library/react';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { useCollaboration } from '../useCollaboration';
+import { useStore } from '../../store/useStore';
+import { useCollabStore } from '../../store/useCollabStore';
+import { createCollabClient } from '../../collab/client';
+import { CollabTree } from '../../collab/document';
+import { COLLABORATION_PLUGIN_ID, collaborationPlugin } from '../../plugins/collaboration';
+
+// The hook against the relay in server.cjs, on a free local port
+const { startServer } = createRequire(import.meta.url)('../../../server.cjs');
+
+let server: Server;
+let url: string;
+
+const titles = () => {
+  const { nodes, rootNodeIds } = useStore.getState();
+  return rootNodeIds.map((id) => nodes[id].title);
+};
+
+const waitUntilOnline = () =>
+  vi.waitFor(() => expect(useCollabStore.getState().status).toBe('online'));
+
+describe('useCollaboration', () => {
+  beforeAll(async () => {
+    server = await startServer(0);
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/collab`;
+  });
+
+  beforeEach(() => {
+    act(() => {
+      useStore.getState().reset();
+      useCollabStore.getState().reset();
+    });
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('keeps a session with its own tree out of the shared tree room', async () => {
+    const store = useStore.getState();
+    const sharedSessionId = store.currentSession.id;
+    act(() => {
+      store.createNode(null, { title: 'Shared' });
+      store.createSession('Own', undefined, true);
+    });
+    const ownSession = Object.values(useStore.getState().sessions).find((s) => s.ownsTree)!;
+    act(() => {
+      store.switchSession(ownSession.id);
+      useStore.getState().createNode(null, { title: 'Own' });
+      useStore.getState().switchSession(sharedSessionId);
+      store.registerPlugin(collaborationPlugin);
+      store.updatePluginSettings(COLLABORATION_PLUGIN_ID, {
+        connected: true,
+        room: 'sessions',
+        userName: 'alice',
+        serverUrl: url,
+      });
+    });
+
+    const { unmount } = renderHook(() => useCollaboration(true));
+    await waitUntilOnline();
+
+    // Someone else stays in the room, so it keeps the shared tree
+    let peerTree: CollabTree = { nodes: {}, rootNodeIds: [] };
+    const peer = createCollabClient({
+      url,
+      room: 'sessions',
+      user: { id: 'bob', name: 'bob', color: '#888888' },
+      getTree: () => peerTree,
+      setTree: (tree) => {
+        peerTree = tree;
+      },
+    });
+    peer.connect();
+    await vi.waitFor(() => expect(Object.keys(peerTree.nodes)).toHaveLength(1));
+
+    act(() => useStore.getState().switchSession(ownSession.id));
+    await waitUntilOnline();
+    expect(titles()).toEqual(['Own']);
+
+    act(() => useStore.getState().switchSession(sharedSessionId));
+    await waitUntilOnline();
+    expect(titles()).toEqual(['Shared']);
+
+    unmount();
+    peer.disconnect();
+  });
+});
@@ -3,6 +3,8 @@ import { act, renderHook } from '@testing-library/react';
 import { useKeyboardNav } from '../useKeyboardNav';
 import { useStore } from '../../store/useStore';
 import { ListNode } from '../../types/core';
+import { VIM_SHORTCUTS } from '../../constants/shortcuts';
+import { APP_CONFIG } from '../../constants/config';
 
 describe('useKeyboardNav', () => {
   let root1: ListNode;
@@ -425,6 +427,22 @@ describe('useKeyboardNav', () => {
       expect(useStore.getState().nodes[child2.id]).toBeUndefined();
     });
 
+    it('should delete the whole multi-selection as one undo step', () => {
+      renderHook(() => useKeyboardNav());
+
+      act(() => {
+        useStore.getState().selectNode(grandchild1.id, false);
+        useStore.getState().selectNode(child2.id, true);
+      });
+      const historyLength = useStore.getState().history.past.length;
+
+      dispatchKeyEvent('Delete');
+
+      expect(useStore.getState().nodes[grandchild1.id]).toBeUndefined();
+      expect(useStore.getState().nodes[child2.id]).toBeUndefined();
+      expect(useStore.getState().history.past).toHaveLength(historyLength + 1);
+    });
+
     it('should delete selected node with Backspace key', () => {
       renderHook(() => useKeyboardNav());
 
@@ -595,4 +613,66 @@ describe('useKeyboardNav', () => {
       expect(selectedIds.length).toBe(allNodeIds.length);
     });
   });
+
+  describe('shortcuts profile', () => {
+    it('should dispatch bindings from the active profile', () => {
+      renderHook(() => useKeyboardNav());
+
+      act(() => {
+        useStore.getState().updateSession({ shortcutsProfile: VIM_SHORTCUTS });
+      });
+
+      dispatchKeyEvent('j');
+      expect(useStore.getState().currentSession.selectedNodeIds).toEqual([root1.id]);
+
+      // Default bindings no longer apply
+      dispatchKeyEvent('ArrowDown');
+      expect(useStore.getState().currentSession.selectedNodeIds).toEqual([root1.id]);
+    });
+
+    it('should resolve multi-key chords', () => {
+      renderHook(() => useKeyboardNav());
+
+      act(() => {
+        useStore.getState().updateSession({ shortcutsProfile: VIM_SHORTCUTS });
+        useStore.getState().selectNode(child1.id, false);
+      });
+
+      dispatchKeyEvent('z');
+      expect(useStore.getState().nodes[child1.id].isCollapsed).toBe(false);
+      dispatchKeyEvent('a');
+      expect(useStore.getState().nodes[child1.id].isCollapsed).toBe(true);
+
+      dispatchKeyEvent('d');
+      dispatchKeyEvent('d');
+      expect(useStore.getState().nodes[child1.id]).toBeUndefined();
+    });
+
+    it('should drop an unfinished chord after the timeout', () => {
+      vi.useFakeTimers();
+      renderHook(() => useKeyboardNav());
+
+      act(() => {
+        useStore.getState().updateSession({ shortcutsProfile: VIM_SHORTCUTS });
+        useStore.getState().selectNode(child2.id, false);
+      });
+
+      dispatchKeyEvent('d');
+      vi.advanceTimersByTime(APP_CONFIG.CHORD_TIMEOUT + 1);
+      dispatchKeyEvent('d');
+
+      expect(useStore.getState().nodes[child2.id]).toBeDefined();
+      vi.useRealTimers();
+    });
+
+    it('should route app-level actions to the provided handlers', () => {
+      const exportHandler = vi.fn();
+      renderHook(() => useKeyboardNav({ 'export.json': exportHandler }));
+
+      const event = dispatchKeyEvent('e', { ctrlKey: true });
+
+      expect(exportHandler).toHaveBeenCalledTimes(1);
+      expect(event.defaultPrevented).toBe(true);
+    });
+  });
 });
@@ -1,30 +1,61 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { APP_CONFIG } from '../constants/config';
 import { useStore } from '../store/useStore';
 import { useToastStore } from '../store/useToastStore';
+import { workspaceStorage, WorkspaceStorage } from '../storage/workspaceStorage';
+import { recordsToPayload, toWorkspaceRecords } from '../storage/records';
 
-export const useAutoSave = () => {
+// How to settle a save conflict with another tab: take its version, or take
+// it and merge our unsaved work on top (newer edits win, nothing is deleted)
+export type SaveConflictChoice = 'reload' | 'merge';
+
+const reloadWorkspace = async (storage: WorkspaceStorage) => {
+  const data = await storage.load();
+  if (!data) return;
+  useStore.getState().importData(data);
+  storage.adopt(useStore.getState());
+};
+
+export const useAutoSave = (storage: WorkspaceStorage = workspaceStorage) => {
   const [isSaving, setIsSaving] = useState(false);
   const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
   const [hasPendingChanges, setHasPendingChanges] = useState(false);
+  const [hasConflict, setHasConflict] = useState(false);
   const addToast = useToastStore((state) => state.addToast);
   const rtl = useStore((state) => state.currentSession.rtl);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped on every store change, so a save doesn't clear edits made while it ran
+  const changeCountRef = useRef(0);
+  // Saving stops until the user settles a conflict
+  const conflictRef = useRef(false);
+
+  const setConflict = useCallback((conflict: boolean) => {
+    conflictRef.current = conflict;
+    setHasConflict(conflict);
+  }, []);
 
   useEffect(() => {
     const scheduleSave = () => {
+      changeCountRef.current++;
       setHasPendingChanges(true);
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current);
       }
+      if (conflictRef.current) return;
 
-      timeoutRef.current = setTimeout(() => {
+      timeoutRef.current = setTimeout(async () => {
+        const savedChangeCount = changeCountRef.current;
         setIsSaving(true);
         try {
-          const data = useStore.getState().exportData();
-          localStorage.setItem(APP_CONFIG.STORAGE_KEY, data);
+          const { stale } = await storage.save(useStore.getState());
+          if (stale) {
+            setConflict(true);
+            return;
+          }
           setLastSavedAt(Date.now());
-          setHasPendingChanges(false);
+          if (changeCountRef.current === savedChangeCount) {
+            setHasPendingChanges(false);
+          }
         } catch (error) {
           console.error('Auto-save failed:', error);
           addToast(
@@ -37,15 +68,64 @@ export const useAutoSave = () => {
       }, APP_CONFIG.AUTO_SAVE_INTERVAL);
     };
 
+    // Another tab saved: follow along, unless that would drop our own edits
+    const handleRemoteSave = async () => {
+      if (conflictRef.current) return;
+      if (storage.hasUnsavedChanges(useStore.getState())) {
+        setConflict(true);
+        return;
+      }
+      try {
+        await reloadWorkspace(storage);
+      } catch (error) {
+        console.error('Failed to load changes from another tab:', error);
+      }
+    };
+
     const unsubscribe = useStore.subscribe(scheduleSave);
+    const unsubscribeRemote = storage.onRemoteSave(handleRemoteSave);
 
     return () => {
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current);
       }
       unsubscribe();
+      unsubscribeRemote();
     };
-  }, [addToast, rtl]);
+  }, [addToast, rtl, setConflict, storage]);
+
+  const resolveConflict = useCallback(
+    async (choice: SaveConflictChoice) => {
+      // Every session and tree, not just the one on screen
+      const unsaved =
+        choice === 'merge'
+          ? JSON.stringify(recordsToPayload(toWorkspaceRecords(useStore.getState())))
+          : null;
+      try {
+        await reloadWorkspace(storage);
+        setConflict(false);
+        if (unsaved) {
+          // One undo step, and the next auto-save writes the merged result
+          useStore.getState().mergeWorkspace(unsaved);
+          addToast(
+            rtl
+              ? 'השינויים שלך מוזגו עם הגרסה מהלשונית האחרת'
+              : 'Your changes were merged with the version from the other tab',
+            'success'
+          );
+        } else {
+          setHasPendingChanges(false);
+        }
+      } catch (error) {
+        console.error('Failed to resolve save conflict:', error);
+        addToast(
+          rtl ? 'טעינת הגרסה העדכנית נכשלה' : 'Failed to load the latest version.',
+          'error'
+        );
+      }
+    },
+    [addToast, rtl, setConflict, storage]
+  );
 
-  return { isSaving, lastSavedAt, hasPendingChanges };
+  return { isSaving, lastSavedAt, hasPendingChanges, hasConflict, resolveConflict };
 };
@@ -0,0 +1,84 @@
+import { useEffect } from 'react';
+import { useStore } from '../store/useStore';
+import { useToastStore } from '../store/useToastStore';
+import {
+  buildClipboardPayload,
+  CLIPBOARD_MIME,
+  parseClipboardPayload,
+  payloadToText,
+} from '../utils/clipboard';
+import { parseMarkdownOutline } from '../utils/importers';
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+// Text fields and selected text keep the browser's own copy behaviour
+const isNativeCopy = (e: ClipboardEvent) =>
+  isEditableTarget(e.target) || !!window.getSelection()?.toString();
+
+/**
+ * Hook for copy/cut/paste of subtrees. Copying writes the internal payload
+ * and a Markdown outline; pasting rebuilds nodes inside the selected node
+ * (or the focused node, or at the top level), parsing indented text from
+ * other apps when there is no payload.
+ */
+export const useClipboard = () => {
+  useEffect(() => {
+    const copySelection = (e: ClipboardEvent) => {
+      const { nodes, rootNodeIds, currentSession } = useStore.getState();
+      const payload = buildClipboardPayload(currentSession.selectedNodeIds, rootNodeIds, nodes);
+      if (!e.clipboardData || payload.rootIds.length === 0) return null;
+
+      e.preventDefault();
+      e.clipboardData.setData(CLIPBOARD_MIME, JSON.stringify(payload));
+      e.clipboardData.setData('text/plain', payloadToText(payload));
+      return payload;
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isNativeCopy(e)) return;
+      const payload = copySelection(e);
+      if (!payload) return;
+
+      const { rtl } = useStore.getState().currentSession;
+      const count = Object.keys(payload.nodes).length;
+      useToastStore
+        .getState()
+        .addToast(rtl ? `${count} פריטים הועתקו` : `Copied ${count} items`, 'info');
+    };
+
+    const handleCut = (e: ClipboardEvent) => {
+      if (isNativeCopy(e)) return;
+      const payload = copySelection(e);
+      if (payload) {
+        useStore.getState().deleteNodes(payload.rootIds);
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || !e.clipboardData) return;
+
+      const internal = e.clipboardData.getData(CLIPBOARD_MIME);
+      const payload =
+        (internal && parseClipboardPayload(internal)) ||
+        parseMarkdownOutline(e.clipboardData.getData('text/plain'));
+      if (payload.rootIds.length === 0) return;
+
+      e.preventDefault();
+      const state = useStore.getState();
+      const { selectedNodeIds, focusedNodeId } = state.currentSession;
+      const targetId = selectedNodeIds[0] ?? focusedNodeId ?? null;
+      state.pasteNodes(payload, targetId && state.nodes[targetId] ? targetId : null);
+    };
+
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCut);
+    window.addEventListener('paste', handlePaste);
+
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCut);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+};
@@ -0,0 +1,101 @@
+import { useEffect, useRef } from 'react';
+import { APP_CONFIG } from '../constants/config';
+import { createCollabClient } from '../collab/client';
+import { useStore } from '../store/useStore';
+import { useCollabStore } from '../store/useCollabStore';
+import { generateId } from '../utils/nodeHelpers';
+import { getSessionTreeKey } from '../utils/sessions';
+import {
+  COLLABORATION_PLUGIN_ID,
+  getCollaborationSettings,
+  getPeerColor,
+  getRelayUrl,
+  getTreeRoom,
+  isValidRoomName,
+} from '../plugins/collaboration';
+
+/**
+ * Keeps the tree in the collaboration room while the Collaboration plugin is
+ * installed and connected. Waits for `isReady` - the saved workspace being
+ * loaded - so loading doesn't count as an edit that overwrites the room.
+ * Each tree has its own room, and switching to a session with another tree
+ * rejoins, rather than sending the swap as deleting everything. Edits the
+ * relay hasn't confirmed are kept in localStorage for the next join.
+ */
+export const useCollaboration = (isReady: boolean) => {
+  const isInstalled = useStore((state) =>
+    state.plugins.some((plugin) => plugin.id === COLLABORATION_PLUGIN_ID)
+  );
+  const storedSettings = useStore((state) => state.pluginSettings[COLLABORATION_PLUGIN_ID]);
+  const settings = getCollaborationSettings(storedSettings ?? {});
+  const url = getRelayUrl(settings);
+  const { connected, room, userName } = settings;
+  const treeKey = useStore((state) => getSessionTreeKey(state.currentSession));
+  const shouldConnect =
+    isReady && isInstalled && connected && isValidRoomName(room) && !!userName;
+  // One id per page, so two tabs of the same person are two peers
+  const clientIdRef = useRef(generateId());
+
+  useEffect(() => {
+    if (!shouldConnect) return;
+
+    const { setStatus, setPeers, reset } = useCollabStore.getState();
+    const treeRoom = getTreeRoom(room, treeKey);
+    const pendingKey = `${APP_CONFIG.COLLAB_PENDING_KEY}:${treeRoom}`;
+    const client = createCollabClient({
+      url,
+      room: treeRoom,
+      user: { id: clientIdRef.current, name: userName, color: getPeerColor(userName) },
+      getTree: () => {
+        const { nodes, rootNodeIds } = useStore.getState();
+        return { nodes, rootNodeIds };
+      },
+      setTree: (tree) => useStore.getState().applyRemoteTree(tree),
+      beforeReplace: () => {
+        const { createSnapshot, currentSession } = useStore.getState();
+        createSnapshot(
+          currentSession.rtl ? `לפני הצטרפות לחדר ${room}` : `Before joining room ${room}`
+        );
+      },
+      loadPending: () => {
+        try {
+          const ops = JSON.parse(localStorage.getItem(pendingKey) ?? '[]');
+          return Array.isArray(ops) ? ops : [];
+        } catch (error) {
+          console.error('Ignoring unreadable collaboration edits:', error);
+          return [];
+        }
+      },
+      savePending: (ops) => {
+        try {
+          if (ops.length > 0) localStorage.setItem(pendingKey, JSON.stringify(ops));
+          else localStorage.removeItem(pendingKey);
+        } catch (error) {
+          console.error('Failed to keep unsent collaboration edits:', error);
+        }
+      },
+      onStatusChange: setStatus,
+      onPeersChange: setPeers,
+    });
+
+    const focusOf = (state: ReturnType<typeof useStore.getState>) =>
+      state.currentSession.selectedNodeIds[0] ?? null;
+    client.setFocus(focusOf(useStore.getState()));
+    client.connect();
+
+    const unsubscribe = useStore.subscribe((state, previous) => {
+      // Switching to another tree isn't an edit; this client is about to go
+      if (getSessionTreeKey(state.currentSession) !== treeKey) return;
+      if (state.nodes !== previous.nodes || state.rootNodeIds !== previous.rootNodeIds) {
+        client.commitLocalChanges();
+      }
+      client.setFocus(focusOf(state));
+    });
+
+    return () => {
+      unsubscribe();
+      client.disconnect();
+      reset();
+    };
+  }, [room, shouldConnect, treeKey, url, userName]);
+};
@@ -1,217 +1,295 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useStore } from '../store/useStore';
+import { APP_CONFIG } from '../constants/config';
+import { compileKeymap, eventToStroke, KeyStroke, matchKeySequence } from '../utils/keymap';
 
 /**
- * Hook for advanced keyboard navigation
+ * Handler for a keymap action - return false to let the key through
  */
-export const useKeyboardNav = () => {
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const state = useStore.getState();
-      const {
-        nodes,
-        rootNodeIds,
-        currentSession: { selectedNodeIds, focusedNodeId },
-        selectNode,
-        createNode,
-        deleteNode,
-        toggleCollapse,
-        moveNode,
-        clearSelection,
-      } = state;
-
-      // Don't handle if user is typing in an input
-      if (
-        e.target instanceof HTMLInputElement ||
-        e.target instanceof HTMLTextAreaElement
-      ) {
-        return;
-      }
+export type KeymapHandler = () => boolean | void;
+export type KeymapHandlers = Record<string, KeymapHandler>;
 
-      const selectedId = selectedNodeIds[0];
-      const currentNode = selectedId ? nodes[selectedId] : null;
+type StoreState = ReturnType<typeof useStore.getState>;
 
-      // Arrow navigation
-      if (e.key === 'ArrowDown') {
-        e.preventDefault();
-        navigateDown();
-      } else if (e.key === 'ArrowUp') {
-        e.preventDefault();
-        navigateUp();
-      } else if (e.key === 'ArrowRight') {
-        e.preventDefault();
-        if (currentNode && !currentNode.isCollapsed && currentNode.childrenIds.length > 0) {
-          // Move to first child
-          selectNode(currentNode.childrenIds[0], false);
-        }
-      } else if (e.key === 'ArrowLeft') {
-        e.preventDefault();
-        if (currentNode?.parentId) {
-          // Move to parent
-          selectNode(currentNode.parentId, false);
-        }
-      }
+// Still dispatched while typing in a field, as long as the stroke has a modifier
+const GLOBAL_ACTIONS = new Set(['undo', 'redo', 'command.palette', 'export.json', 'import.json']);
 
-      // Space to toggle collapse
-      else if (e.key === ' ' && currentNode) {
-        e.preventDefault();
-        toggleCollapse(currentNode.id);
-      }
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
 
-      // Enter to create sibling
-      else if (e.key === 'Enter' && !e.shiftKey && currentNode) {
-        e.preventDefault();
-        const newNode = createNode(currentNode.parentId);
-        if (newNode) {
-          selectNode(newNode.id, false);
-        }
-      }
+const getCurrentNode = (state: StoreState) => {
+  const selectedId = state.currentSession.selectedNodeIds[0];
+  return selectedId ? state.nodes[selectedId] ?? null : null;
+};
 
-      // Shift+Enter to create child
-      else if (e.key === 'Enter' && e.shiftKey && currentNode) {
-        e.preventDefault();
-        if (currentNode.level < 5) {
-          const newNode = createNode(currentNode.id);
-          if (newNode) {
-            selectNode(newNode.id, false);
-          }
-        }
-      }
+/**
+ * The selection when several nodes are selected - bulk actions apply to it
+ */
+const getMultiSelection = (state: StoreState) => {
+  const { selectedNodeIds } = state.currentSession;
+  return selectedNodeIds.length > 1 ? selectedNodeIds : null;
+};
 
-      // Delete/Backspace to delete
-      else if ((e.key === 'Delete' || e.key === 'Backspace') && currentNode && !e.ctrlKey) {
-        e.preventDefault();
-        const parent = currentNode.parentId ? nodes[currentNode.parentId] : null;
-        const siblings = parent
-          ? parent.childrenIds
-          : rootNodeIds;
-        const currentIndex = siblings.indexOf(currentNode.id);
-
-        deleteNode(currentNode.id);
-
-        // Select next/previous sibling or parent
-        if (siblings.length > 1) {
-          if (currentIndex < siblings.length - 1) {
-            selectNode(siblings[currentIndex + 1], false);
-          } else if (currentIndex > 0) {
-            selectNode(siblings[currentIndex - 1], false);
-          }
-        } else if (parent) {
-          selectNode(parent.id, false);
-        }
-      }
+const getSiblings = (state: StoreState, parentId: string | null) =>
+  parentId ? state.nodes[parentId]?.childrenIds ?? [] : state.rootNodeIds;
 
-      // Tab to indent (increase level)
-      else if (e.key === 'Tab' && !e.shiftKey && currentNode) {
-        e.preventDefault();
-        const parent = currentNode.parentId ? nodes[currentNode.parentId] : null;
-        const siblings = parent ? parent.childrenIds : rootNodeIds;
-        const currentIndex = siblings.indexOf(currentNode.id);
-
-        // Try to make it a child of the previous sibling
-        if (currentIndex > 0) {
-          const prevSiblingId = siblings[currentIndex - 1];
-          moveNode(currentNode.id, prevSiblingId);
-        }
-      }
+const navigateDown = (state: StoreState) => {
+  const { nodes, rootNodeIds, selectNode } = state;
+  const currentNode = getCurrentNode(state);
 
-      // Shift+Tab to outdent (decrease level)
-      else if (e.key === 'Tab' && e.shiftKey && currentNode && currentNode.parentId) {
-        e.preventDefault();
-        const parent = nodes[currentNode.parentId];
-        if (parent) {
-          moveNode(currentNode.id, parent.parentId);
-        }
+  if (!currentNode) {
+    // Select first root
+    if (rootNodeIds.length > 0) {
+      selectNode(rootNodeIds[0], false);
+    }
+    return;
+  }
+
+  // If has children and expanded, go to first child
+  if (!currentNode.isCollapsed && currentNode.childrenIds.length > 0) {
+    selectNode(currentNode.childrenIds[0], false);
+    return;
+  }
+
+  // Otherwise, go to next sibling
+  const parent = currentNode.parentId ? nodes[currentNode.parentId] : null;
+  const siblings = parent ? parent.childrenIds : rootNodeIds;
+  const currentIndex = siblings.indexOf(currentNode.id);
+
+  if (currentIndex < siblings.length - 1) {
+    selectNode(siblings[currentIndex + 1], false);
+    return;
+  }
+
+  // If no next sibling, go to parent's next sibling
+  let ancestor = parent;
+  while (ancestor) {
+    const ancestorParent = ancestor.parentId ? nodes[ancestor.parentId] : null;
+    const ancestorSiblings = ancestorParent ? ancestorParent.childrenIds : rootNodeIds;
+    const ancestorIndex = ancestorSiblings.indexOf(ancestor.id);
+
+    if (ancestorIndex < ancestorSiblings.length - 1) {
+      selectNode(ancestorSiblings[ancestorIndex + 1], false);
+      return;
+    }
+
+    ancestor = ancestorParent;
+  }
+};
+
+const navigateUp = (state: StoreState) => {
+  const { nodes, rootNodeIds, selectNode } = state;
+  const currentNode = getCurrentNode(state);
+  if (!currentNode) return;
+
+  const parent = currentNode.parentId ? nodes[currentNode.parentId] : null;
+  const siblings = parent ? parent.childrenIds : rootNodeIds;
+  const currentIndex = siblings.indexOf(currentNode.id);
+
+  if (currentIndex > 0) {
+    // Go to previous sibling's last visible descendant
+    let prevId = siblings[currentIndex - 1];
+    let prevNode = nodes[prevId];
+
+    while (prevNode && !prevNode.isCollapsed && prevNode.childrenIds.length > 0) {
+      prevId = prevNode.childrenIds[prevNode.childrenIds.length - 1];
+      prevNode = nodes[prevId];
+    }
+
+    selectNode(prevId, false);
+  } else if (parent) {
+    // Go to parent
+    selectNode(parent.id, false);
+  }
+};
+
+/**
+ * Jump to the previous/next sibling, skipping over expanded children
+ */
+const navigateSibling = (state: StoreState, offset: number) => {
+  const currentNode = getCurrentNode(state);
+  if (!currentNode) return;
+
+  const siblings = getSiblings(state, currentNode.parentId);
+  const targetId = siblings[siblings.indexOf(currentNode.id) + offset];
+  if (targetId) {
+    state.selectNode(targetId, false);
+  }
+};
+
+/**
+ * Store-backed handlers for the built-in action ids; each reads fresh state
+ */
+const NAV_HANDLERS: Record<string, (state: StoreState) => boolean | void> = {
+  'navigate.up': navigateUp,
+  'navigate.down': navigateDown,
+  'navigate.left': (state) => {
+    const currentNode = getCurrentNode(state);
+    if (currentNode?.parentId) {
+      // Move to parent
+      state.selectNode(currentNode.parentId, false);
+    }
+  },
+  'navigate.right': (state) => {
+    const currentNode = getCurrentNode(state);
+    if (currentNode && !currentNode.isCollapsed && currentNode.childrenIds.length > 0) {
+      // Move to first child
+      state.selectNode(currentNode.childrenIds[0], false);
+    }
+  },
+  'navigate.levelUp': (state) => navigateSibling(state, -1),
+  'navigate.levelDown': (state) => navigateSibling(state, 1),
+
+  'node.create': (state) => {
+    const currentNode = getCurrentNode(state);
+    if (!currentNode) return false;
+    const newNode = state.createNode(currentNode.parentId);
+    if (newNode) {
+      state.selectNode(newNode.id, false);
+    }
+  },
+  'node.createChild': (state) => {
+    const currentNode = getCurrentNode(state);
+    if (!currentNode) return false;
+    if (currentNode.level < APP_CONFIG.MAX_DEPTH - 1) {
+      const newNode = state.createNode(currentNode.id);
+      if (newNode) {
+        state.selectNode(newNode.id, false);
       }
+    }
+  },
+  'node.delete': (state) => {
+    const selection = getMultiSelection(state);
+    if (selection) return state.deleteNodes(selection);
 
-      // F2 to edit (handled by ListItem component)
-      // Escape to clear selection or exit focus mode
-      else if (e.key === 'Escape') {
-        e.preventDefault();
-        if (focusedNodeId) {
-          state.zoomOut();
-        } else {
-          clearSelection();
-        }
+    const currentNode = getCurrentNode(state);
+    if (!currentNode) return false;
+
+    const parent = currentNode.parentId ? state.nodes[currentNode.parentId] : null;
+    const siblings = getSiblings(state, currentNode.parentId);
+    const currentIndex = siblings.indexOf(currentNode.id);
+
+    state.deleteNode(currentNode.id);
+
+    // Select next/previous sibling or parent
+    if (siblings.length > 1) {
+      if (currentIndex < siblings.length - 1) {
+        state.selectNode(siblings[currentIndex + 1], false);
+      } else if (currentIndex > 0) {
+        state.selectNode(siblings[currentIndex - 1], false);
       }
+    } else if (parent) {
+      state.selectNode(parent.id, false);
+    }
+  },
+  'node.duplicate': (state) => {
+    const selection = getMultiSelection(state);
+    if (selection) return state.duplicateNodes(selection);
 
-      // Ctrl+A to select all
-      else if ((e.ctrlKey || e.metaKey) && e.key === 'a') {
-        e.preventDefault();
-        state.selectAll();
+    const currentNode = getCurrentNode(state);
+    if (!currentNode) return false;
+    state.duplicateNode(currentNode.id);
+  },
+  'node.toggleCollapse': (state) => {
+    const currentNode = getCurrentNode(state);
+    if (!currentNode) return false;
+    state.toggleCollapse(currentNode.id);
+  },
+  'node.indent': (state) => {
+    const selection = getMultiSelection(state);
+    if (selection) return state.indentNodes(selection);
+
+    const currentNode = getCurrentNode(state);
+    if (!currentNode) return false;
+
+    // Try to make it a child of the previous sibling
+    const siblings = getSiblings(state, currentNode.parentId);
+    const currentIndex = siblings.indexOf(currentNode.id);
+    if (currentIndex > 0) {
+      state.moveNode(currentNode.id, siblings[currentIndex - 1]);
+    }
+  },
+  'node.outdent': (state) => {
+    const selection = getMultiSelection(state);
+    if (selection) return state.outdentNodes(selection);
+
+    const currentNode = getCurrentNode(state);
+    if (!currentNode?.parentId) return false;
+    const parent = state.nodes[currentNode.parentId];
+    if (parent) {
+      state.moveNode(currentNode.id, parent.parentId);
+    }
+  },
+
+  'select.all': (state) => state.selectAll(),
+
+  'view.focusMode': (state) => {
+    const currentNode = getCurrentNode(state);
+    if (!currentNode) return false;
+    state.zoomIn(currentNode.id);
+  },
+  // Escape clears selection or exits focus mode
+  'view.zoomOut': (state) => {
+    if (state.currentSession.focusedNodeId) {
+      state.zoomOut();
+    } else {
+      state.clearSelection();
+    }
+  },
+
+  'command.palette': (state) => state.toggleCommandPalette(),
+  undo: (state) => state.undo(),
+  redo: (state) => state.redo(),
+};
+
+/**
+ * Hook for keyboard navigation - dispatches keys through the active session's
+ * shortcuts profile. `handlers` adds or overrides actions (e.g. `export.json`).
+ */
+export const useKeyboardNav = (handlers: KeymapHandlers = {}) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    let pending: KeyStroke[] = [];
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const state = useStore.getState();
+
+      // The palette handles its own keys while open
+      if (state.commandPaletteOpen && !(e.ctrlKey || e.metaKey)) return;
+
+      const stroke = eventToStroke(e);
+      if (!stroke) return;
+
+      const isEditing = isEditableTarget(e.target);
+      const isModified = e.ctrlKey || e.metaKey || e.altKey;
+      // Don't handle plain keys while the user is typing in an input
+      if (isEditing && !isModified) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > APP_CONFIG.CHORD_TIMEOUT) {
+        pending = [];
       }
+      lastKeyAt = now;
+
+      const keymap = compileKeymap(state.currentSession.shortcutsProfile);
+      const match = matchKeySequence(keymap, pending, stroke);
+      pending = match.pending;
 
-      function navigateDown() {
-        if (!currentNode) {
-          // Select first root
-          if (rootNodeIds.length > 0) {
-            selectNode(rootNodeIds[0], false);
-          }
-          return;
-        }
-
-        // If has children and expanded, go to first child
-        if (!currentNode.isCollapsed && currentNode.childrenIds.length > 0) {
-          selectNode(currentNode.childrenIds[0], false);
-          return;
-        }
-
-        // Otherwise, go to next sibling
-        const parent = currentNode.parentId ? nodes[currentNode.parentId] : null;
-        const siblings = parent ? parent.childrenIds : rootNodeIds;
-        const currentIndex = siblings.indexOf(currentNode.id);
-
-        if (currentIndex < siblings.length - 1) {
-          selectNode(siblings[currentIndex + 1], false);
-          return;
-        }
-
-        // If no next sibling, go to parent's next sibling
-        let ancestor = parent;
-        while (ancestor) {
-          const ancestorParent = ancestor.parentId
-            ? nodes[ancestor.parentId]
-            : null;
-          const ancestorSiblings = ancestorParent
-            ? ancestorParent.childrenIds
-            : rootNodeIds;
-          const ancestorIndex = ancestorSiblings.indexOf(ancestor.id);
-
-          if (ancestorIndex < ancestorSiblings.length - 1) {
-            selectNode(ancestorSiblings[ancestorIndex + 1], false);
-            return;
-          }
-
-          ancestor = ancestorParent;
-        }
+      if (!match.action) {
+        // Swallow keys that are part of an unfinished chord
+        if (pending.length > 0 && !isEditing) e.preventDefault();
+        return;
       }
+      if (isEditing && !GLOBAL_ACTIONS.has(match.action)) return;
 
-      function navigateUp() {
-        if (!currentNode) return;
-
-        const parent = currentNode.parentId ? nodes[currentNode.parentId] : null;
-        const siblings = parent ? parent.childrenIds : rootNodeIds;
-        const currentIndex = siblings.indexOf(currentNode.id);
-
-        if (currentIndex > 0) {
-          // Go to previous sibling's last visible descendant
-          let prevId = siblings[currentIndex - 1];
-          let prevNode = nodes[prevId];
-
-          while (
-            prevNode &&
-            !prevNode.isCollapsed &&
-            prevNode.childrenIds.length > 0
-          ) {
-            prevId = prevNode.childrenIds[prevNode.childrenIds.length - 1];
-            prevNode = nodes[prevId];
-          }
-
-          selectNode(prevId, false);
-        } else if (parent) {
-          // Go to parent
-          selectNode(parent.id, false);
-        }
+      const custom = handlersRef.current[match.action];
+      const builtIn = NAV_HANDLERS[match.action];
+      const handled = custom ? custom() : builtIn ? builtIn(state) : false;
+      if (handled !== false) {
+        e.preventDefault();
       }
     };
 
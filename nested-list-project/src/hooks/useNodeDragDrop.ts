@@ -0,0 +1,94 @@
+import { useRef, useState } from 'react';
+import { DropTargetMonitor, useDrag, useDrop } from 'react-dnd';
+import { useStore } from '../store/useStore';
+import { APP_CONFIG } from '../constants/config';
+import { ListNodeId } from '../types/core';
+import { DropPosition, DropTarget, getDropPosition, resolveDropTarget } from '../utils/dragDrop';
+
+export const NODE_DRAG_TYPE = 'LIST_ITEM';
+
+interface NodeDragItem {
+  nodeId: ListNodeId;
+}
+
+interface NodeDragDropOptions {
+  canDrag?: boolean;
+  canDrop?: boolean;
+  // Rows that can't take children (e.g. board cards) only insert before/after
+  allowInside?: boolean;
+}
+
+/**
+ * Drag a node by its row and drop other nodes before, after or inside it.
+ * Attach `rowRef` to the row itself - not its children - so the drop zones
+ * are measured against the row's own height
+ */
+export const useNodeDragDrop = (
+  nodeId: ListNodeId,
+  { canDrag = true, canDrop = true, allowInside = true }: NodeDragDropOptions = {}
+) => {
+  const moveNode = useStore((state) => state.moveNode);
+  const rowRef = useRef<HTMLDivElement>(null);
+  const [hoverPosition, setHoverPosition] = useState<DropPosition | null>(null);
+
+  const findTarget = (
+    item: NodeDragItem,
+    monitor: DropTargetMonitor
+  ): { position: DropPosition; target: DropTarget } | null => {
+    const offset = monitor.getClientOffset();
+    const rect = rowRef.current?.getBoundingClientRect();
+    if (!offset || !rect) return null;
+
+    const { nodes, rootNodeIds } = useStore.getState();
+    const resolve = (position: DropPosition) => {
+      const target = resolveDropTarget(
+        nodes,
+        rootNodeIds,
+        item.nodeId,
+        nodeId,
+        position,
+        APP_CONFIG.MAX_DEPTH
+      );
+      return target && { position, target };
+    };
+
+    const position = getDropPosition(rect, offset.y, allowInside);
+    // A row that can't take the node as a child still accepts it alongside
+    return (
+      resolve(position) ??
+      (position === 'inside' ? resolve(getDropPosition(rect, offset.y, false)) : null)
+    );
+  };
+
+  const [{ isDragging }, drag] = useDrag({
+    type: NODE_DRAG_TYPE,
+    item: (): NodeDragItem => ({ nodeId }),
+    canDrag: () => canDrag,
+    collect: (monitor) => ({
+      isDragging: monitor.isDragging(),
+    }),
+  });
+
+  const [{ isOver }, drop] = useDrop({
+    accept: NODE_DRAG_TYPE,
+    canDrop: () => canDrop,
+    hover: (item: NodeDragItem, monitor) => {
+      if (!monitor.isOver({ shallow: true }) || !monitor.canDrop()) return;
+      setHoverPosition(findTarget(item, monitor)?.position ?? null);
+    },
+    drop: (item: NodeDragItem, monitor) => {
+      if (monitor.didDrop()) return;
+      const found = findTarget(item, monitor);
+      if (found) {
+        moveNode(item.nodeId, found.target.parentId, found.target.index);
+      }
+    },
+    collect: (monitor) => ({
+      isOver: monitor.isOver({ shallow: true }) && monitor.canDrop(),
+    }),
+  });
+
+  drop(rowRef);
+
+  return { rowRef, drag, isDragging, dropPosition: isOver ? hoverPosition : null };
+};
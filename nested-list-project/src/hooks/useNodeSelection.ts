@@ -0,0 +1,25 @@
+import { MouseEvent, useCallback } from 'react';
+import { useStore } from '../store/useStore';
+import { ListNodeId } from '../types/core';
+
+type SelectionClick = Pick<MouseEvent, 'shiftKey' | 'ctrlKey' | 'metaKey'>;
+
+/**
+ * Click-to-select for node rows: Shift+Click selects the visible range from
+ * the anchor, Control/Cmd+Click adds to the selection
+ */
+export const useNodeSelection = () => {
+  const selectNode = useStore((state) => state.selectNode);
+  const selectRange = useStore((state) => state.selectRange);
+
+  return useCallback(
+    (nodeId: ListNodeId, e: SelectionClick) => {
+      if (e.shiftKey) {
+        selectRange(nodeId);
+      } else {
+        selectNode(nodeId, e.ctrlKey || e.metaKey);
+      }
+    },
+    [selectNode, selectRange]
+  );
+};
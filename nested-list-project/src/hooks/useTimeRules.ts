@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useStore } from '../store/useStore';
+import { APP_CONFIG } from '../constants/config';
+
+/**
+ * Runs the session's time-based rules over the whole tree once the saved
+ * workspace is loaded, whenever the rules change, and then on a timer
+ */
+export const useTimeRules = (isReady: boolean) => {
+  const rules = useStore((state) => state.currentSession.rules);
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    const run = () => useStore.getState().runTimeRules();
+    run();
+    const timer = setInterval(run, APP_CONFIG.TIME_RULES_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isReady, rules]);
+};
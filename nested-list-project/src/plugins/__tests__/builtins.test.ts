@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act } from '@testing-library/react';
+import { useStore } from '../../store/useStore';
+import { DAY_MS } from '../../constants/rules';
+import { computeTreeStats, statisticsPlugin, STATISTICS_PLUGIN_ID } from '../statistics';
+import { advancedExportPlugin } from '../advancedExport';
+
+describe('built-in plugins', () => {
+  beforeEach(() => {
+    act(() => {
+      useStore.getState().reset();
+    });
+  });
+
+  it('should compute per-level counts, completion and stale nodes', () => {
+    const now = 100 * DAY_MS;
+
+    act(() => {
+      const root = useStore.getState().createNode(null, { title: 'Root' });
+      useStore.getState().createNode(root.id, { title: 'Done', isDone: true });
+      useStore.getState().createNode(root.id, { title: 'Open' });
+    });
+
+    const nodes = { ...useStore.getState().nodes };
+    Object.values(nodes).forEach((node) => {
+      nodes[node.id] = { ...node, updatedAt: node.title === 'Root' ? now : now - 30 * DAY_MS };
+    });
+
+    const stats = computeTreeStats(nodes, 14, now);
+
+    expect(stats.total).toBe(3);
+    expect(stats.done).toBe(1);
+    expect(stats.completionRate).toBeCloseTo(1 / 3);
+    expect(stats.levels[0]).toEqual({ level: 0, total: 1, done: 0 });
+    expect(stats.levels[1]).toEqual({ level: 1, total: 2, done: 1 });
+    // Done items are never stale
+    expect(stats.staleNodes.map((node) => node.title)).toEqual(['Open']);
+  });
+
+  it('should persist installed built-ins and settings through export/import', () => {
+    act(() => {
+      useStore.getState().registerPlugin(advancedExportPlugin);
+      useStore.getState().registerPlugin(statisticsPlugin);
+      useStore.getState().updatePluginSettings(STATISTICS_PLUGIN_ID, { staleAfterDays: 3 });
+    });
+
+    const data = useStore.getState().exportData();
+
+    act(() => {
+      useStore.getState().reset();
+    });
+    expect(useStore.getState().plugins).toHaveLength(0);
+
+    act(() => {
+      useStore.getState().importData(data);
+    });
+
+    const state = useStore.getState();
+    expect(state.plugins.map((plugin) => plugin.id)).toEqual([
+      advancedExportPlugin.id,
+      STATISTICS_PLUGIN_ID,
+    ]);
+    expect(typeof state.plugins[1].renderSidebar).toBe('function');
+    expect(state.pluginSettings[STATISTICS_PLUGIN_ID]).toEqual({ staleAfterDays: 3 });
+  });
+
+  it('should skip unknown plugin ids on import', () => {
+    act(() => {
+      useStore.getState().importData(
+        JSON.stringify({
+          nodes: {},
+          rootNodeIds: [],
+          plugins: { installed: ['plugin-unknown', STATISTICS_PLUGIN_ID], settings: [] },
+        })
+      );
+    });
+
+    expect(useStore.getState().plugins.map((plugin) => plugin.id)).toEqual([
+      STATISTICS_PLUGIN_ID,
+    ]);
+    expect(useStore.getState().pluginSettings).toEqual({});
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act } from '@testing-library/react';
+import { useStore } from '../../store/useStore';
+import { useToastStore } from '../../store/useToastStore';
+import { SandboxPlugin } from '../../types/core';
+import {
+  createPluginContext,
+  createPluginStateReads,
+  hasPluginStateChanged,
+} from '../host';
+import { buildClipboardPayload } from '../../utils/clipboard';
+
+const createSpyPlugin = () =>
+  ({
+    id: 'spy',
+    name: 'Spy',
+    version: '1.0.0',
+    onNodeCreate: vi.fn(),
+    onNodeUpdate: vi.fn(),
+    onNodeDelete: vi.fn(),
+  }) satisfies SandboxPlugin;
+
+describe('plugin host', () => {
+  beforeEach(() => {
+    act(() => {
+      useStore.getState().reset();
+      useToastStore.getState().clear();
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register and unregister plugins by id', () => {
+    const plugin: SandboxPlugin = { id: 'p1', name: 'P1', version: '1.0.0' };
+
+    act(() => {
+      useStore.getState().registerPlugin(plugin);
+      useStore.getState().registerPlugin({ ...plugin, version: '1.1.0' });
+    });
+
+    expect(useStore.getState().plugins).toHaveLength(1);
+    expect(useStore.getState().plugins[0].version).toBe('1.1.0');
+
+    act(() => {
+      useStore.getState().unregisterPlugin('p1');
+    });
+
+    expect(useStore.getState().plugins).toHaveLength(0);
+  });
+
+  it('should call lifecycle hooks from the matching store actions', () => {
+    const plugin: SandboxPlugin = {
+      id: 'spy',
+      name: 'Spy',
+      version: '1.0.0',
+      onNodeCreate: vi.fn(),
+      onNodeUpdate: vi.fn(),
+      onNodeDelete: vi.fn(),
+      onSessionChange: vi.fn(),
+    };
+
+    act(() => {
+      useStore.getState().registerPlugin(plugin);
+    });
+
+    let rootId = '';
+    act(() => {
+      const root = useStore.getState().createNode(null, { title: 'Root' });
+      rootId = root.id;
+      useStore.getState().createNode(root.id, { title: 'Child' });
+      useStore.getState().updateNode(root.id, { title: 'Renamed' });
+      useStore.getState().setViewMode('board');
+      useStore.getState().deleteNode(root.id);
+    });
+
+    expect(plugin.onNodeCreate).toHaveBeenCalledTimes(2);
+    expect(plugin.onNodeUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ id: rootId, title: 'Root' }),
+      expect.objectContaining({ id: rootId, title: 'Renamed' }),
+      expect.anything()
+    );
+    expect(plugin.onSessionChange).toHaveBeenCalledWith(
+      expect.objectContaining({ viewMode: 'board' }),
+      expect.anything()
+    );
+    // Root and its child
+    expect(plugin.onNodeDelete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should call hooks for every node a paste or duplicate creates', () => {
+    const plugin = createSpyPlugin();
+    let rootId = '';
+    act(() => {
+      const root = useStore.getState().createNode(null, { title: 'Root' });
+      rootId = root.id;
+      useStore.getState().createNode(root.id, { title: 'Child' });
+      useStore.getState().registerPlugin(plugin);
+    });
+
+    act(() => {
+      useStore.getState().duplicateNode(rootId);
+    });
+    expect(plugin.onNodeCreate).toHaveBeenCalledTimes(2);
+    expect(plugin.onNodeCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Child' }),
+      expect.anything()
+    );
+
+    const { nodes, rootNodeIds } = useStore.getState();
+    act(() => {
+      useStore
+        .getState()
+        .pasteNodes(buildClipboardPayload([rootId], rootNodeIds, nodes), rootNodeIds[1]);
+    });
+    expect(plugin.onNodeCreate).toHaveBeenCalledTimes(4);
+    // The paste target gained children
+    expect(plugin.onNodeUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ id: rootNodeIds[1] }),
+      expect.objectContaining({ id: rootNodeIds[1] }),
+      expect.anything()
+    );
+    expect(plugin.onNodeDelete).not.toHaveBeenCalled();
+  });
+
+  it('should call hooks for nodes changed by a merge or by collaborators', () => {
+    const plugin = createSpyPlugin();
+    act(() => {
+      useStore.getState().importData(
+        JSON.stringify({
+          nodes: { a: { title: 'A' }, b: { title: 'B' } },
+          rootNodeIds: ['a', 'b'],
+        })
+      );
+      useStore.getState().registerPlugin(plugin);
+    });
+
+    act(() => {
+      useStore.getState().mergeImport(
+        JSON.stringify({
+          nodes: { a: { title: 'A2' }, c: { title: 'C' } },
+          rootNodeIds: ['a', 'c'],
+        }),
+        { a: 'incoming' }
+      );
+    });
+    expect(plugin.onNodeUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'A' }),
+      expect.objectContaining({ title: 'A2' }),
+      expect.anything()
+    );
+    expect(plugin.onNodeCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'c' }),
+      expect.anything()
+    );
+
+    const { nodes, rootNodeIds } = useStore.getState();
+    const { b: _removed, ...rest } = nodes;
+    act(() => {
+      useStore.getState().applyRemoteTree({
+        nodes: rest,
+        rootNodeIds: rootNodeIds.filter((id) => id !== 'b'),
+      });
+    });
+    expect(plugin.onNodeDelete).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'b' }),
+      expect.anything()
+    );
+  });
+
+  it('should expose a live context with actions and queries', () => {
+    const seen: string[][] = [];
+    const plugin: SandboxPlugin = {
+      id: 'ctx',
+      name: 'Ctx',
+      version: '1.0.0',
+      onNodeCreate: (node, ctx) => {
+        if (node.parentId) {
+          seen.push(ctx.getPath(node.id).map((n) => n.title));
+          ctx.updateNode(node.id, { icon: '⭐' });
+          seen.push([ctx.getNode(node.id)!.icon!]);
+          seen.push(ctx.getChildren(node.parentId).map((n) => n.title));
+          seen.push([ctx.getParent(node.id)!.title]);
+        }
+      },
+    };
+
+    act(() => {
+      useStore.getState().registerPlugin(plugin);
+      const root = useStore.getState().createNode(null, { title: 'Root' });
+      useStore.getState().createNode(root.id, { title: 'Child' });
+    });
+
+    expect(seen).toEqual([['Root', 'Child'], ['⭐'], ['Child'], ['Root']]);
+  });
+
+  it('should track what a plugin reads, so slots only re-render for that', () => {
+    let rootId = '';
+    let otherId = '';
+    act(() => {
+      const root = useStore.getState().createNode(null, { title: 'Root' });
+      rootId = root.id;
+      useStore.getState().createNode(root.id, { title: 'Child' });
+      otherId = useStore.getState().createNode(null, { title: 'Other' }).id;
+    });
+
+    const reads = createPluginStateReads();
+    const ctx = createPluginContext(useStore.getState, () => reads);
+    ctx.getChildren(rootId);
+    ctx.getPluginSettings('spy');
+    expect(reads.keys).toEqual(new Set(['pluginSettings']));
+
+    const before = useStore.getState();
+    act(() => {
+      useStore.getState().updateNode(otherId, { title: 'Other 2' });
+    });
+    expect(hasPluginStateChanged(reads, useStore.getState(), before)).toBe(false);
+
+    const [childId] = useStore.getState().nodes[rootId].childrenIds;
+    const beforeChild = useStore.getState();
+    act(() => {
+      useStore.getState().updateNode(childId, { title: 'Child 2' });
+    });
+    expect(hasPluginStateChanged(reads, useStore.getState(), beforeChild)).toBe(true);
+  });
+
+  it('should isolate exceptions thrown by a faulty plugin', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const healthy = vi.fn();
+
+    act(() => {
+      useStore.getState().registerPlugin({
+        id: 'broken',
+        name: 'Broken',
+        version: '1.0.0',
+        onNodeCreate: () => {
+          throw new Error('boom');
+        },
+      });
+      useStore.getState().registerPlugin({
+        id: 'healthy',
+        name: 'Healthy',
+        version: '1.0.0',
+        onNodeCreate: healthy,
+      });
+    });
+
+    act(() => {
+      useStore.getState().createNode(null, { title: 'One' });
+      useStore.getState().createNode(null, { title: 'Two' });
+    });
+
+    expect(useStore.getState().rootNodeIds).toHaveLength(2);
+    expect(healthy).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalled();
+    // The failure is surfaced once, not on every call
+    expect(useToastStore.getState().toasts).toHaveLength(1);
+  });
+
+  it('should not re-dispatch hooks triggered by plugin actions', () => {
+    const onNodeUpdate = vi.fn();
+
+    act(() => {
+      useStore.getState().registerPlugin({
+        id: 'writer',
+        name: 'Writer',
+        version: '1.0.0',
+        onNodeUpdate: (_prev, next, ctx) => {
+          onNodeUpdate();
+          ctx.updateNode(next.id, { description: 'touched' });
+        },
+      });
+    });
+
+    act(() => {
+      const node = useStore.getState().createNode(null, { title: 'Node' });
+      useStore.getState().updateNode(node.id, { title: 'Changed' });
+    });
+
+    expect(onNodeUpdate).toHaveBeenCalledTimes(1);
+  });
+});
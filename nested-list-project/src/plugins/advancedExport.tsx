@@ -0,0 +1,134 @@
+import React from 'react';
+import { SandboxContext, SandboxPlugin } from '../types/core';
+import {
+  downloadFile,
+  exportToCSV,
+  exportToMarkdown,
+  exportToOPML,
+  getExportScope,
+} from '../utils/exporters';
+import { useToastStore } from '../store/useToastStore';
+
+/**
+ * Advanced Export - CSV / Markdown / OPML export of what's on screen: the
+ * focused subtree, narrowed by the active filter
+ */
+
+export type AdvancedExportFormat = 'csv' | 'markdown' | 'opml';
+
+const EXPORT_FORMATS: Record<AdvancedExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  opml: { extension: 'opml', mimeType: 'text/x-opml' },
+};
+
+export interface AdvancedExportSettings {
+  format: AdvancedExportFormat;
+  includeDescriptions: boolean;
+}
+
+export const ADVANCED_EXPORT_PLUGIN_ID = 'plugin-export';
+
+const DEFAULT_SETTINGS: AdvancedExportSettings = {
+  format: 'markdown',
+  includeDescriptions: true,
+};
+
+export const getAdvancedExportSettings = (ctx: SandboxContext): AdvancedExportSettings => {
+  const stored = ctx.getPluginSettings(ADVANCED_EXPORT_PLUGIN_ID);
+  return {
+    format:
+      typeof stored.format === 'string' && stored.format in EXPORT_FORMATS
+        ? (stored.format as AdvancedExportFormat)
+        : DEFAULT_SETTINGS.format,
+    includeDescriptions:
+      typeof stored.includeDescriptions === 'boolean'
+        ? stored.includeDescriptions
+        : DEFAULT_SETTINGS.includeDescriptions,
+  };
+};
+
+const AdvancedExportToolbar: React.FC<{ ctx: SandboxContext }> = ({ ctx }) => {
+  const { theme, rtl } = ctx.session;
+  const settings = getAdvancedExportSettings(ctx);
+
+  const controlStyle: React.CSSProperties = {
+    padding: '10px 12px',
+    borderRadius: '8px',
+    border: `1px solid ${theme.colors.border}`,
+    background: 'rgba(255,255,255,0.1)',
+    color: theme.colors.text,
+    fontSize: '14px',
+    cursor: 'pointer',
+  };
+
+  const handleExport = () => {
+    const { rootNodeIds, includeIds } = getExportScope(
+      ctx.nodes,
+      ctx.rootNodeIds,
+      ctx.session.focusedNodeId,
+      ctx.filterConfig
+    );
+    const options = { includeDescriptions: settings.includeDescriptions, includeIds };
+    const content =
+      settings.format === 'csv'
+        ? exportToCSV(ctx.nodes, rootNodeIds, { ...options, fieldSchema: ctx.session.fieldSchema })
+        : settings.format === 'opml'
+        ? exportToOPML(ctx.nodes, rootNodeIds, { ...options, title: ctx.session.name })
+        : exportToMarkdown(ctx.nodes, rootNodeIds, options);
+
+    const { extension, mimeType } = EXPORT_FORMATS[settings.format];
+    downloadFile(content, `nested-list-${Date.now()}.${extension}`, mimeType);
+    useToastStore
+      .getState()
+      .addToast(rtl ? 'ייצוא הושלם בהצלחה' : 'Export completed successfully', 'success');
+  };
+
+  return (
+    <>
+      <select
+        value={settings.format}
+        onChange={(e) =>
+          ctx.updatePluginSettings(ADVANCED_EXPORT_PLUGIN_ID, { format: e.target.value })
+        }
+        style={controlStyle}
+        title={rtl ? 'פורמט ייצוא' : 'Export format'}
+      >
+        <option value="markdown">Markdown</option>
+        <option value="csv">CSV</option>
+        <option value="opml">OPML</option>
+      </select>
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          color: theme.colors.text,
+          fontSize: '13px',
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={settings.includeDescriptions}
+          onChange={(e) =>
+            ctx.updatePluginSettings(ADVANCED_EXPORT_PLUGIN_ID, {
+              includeDescriptions: e.target.checked,
+            })
+          }
+        />
+        {rtl ? 'כולל תיאורים' : 'Descriptions'}
+      </label>
+      <button onClick={handleExport} style={controlStyle}>
+        {rtl ? '📤 ייצוא מתקדם' : '📤 Export'}
+      </button>
+    </>
+  );
+};
+
+export const advancedExportPlugin: SandboxPlugin = {
+  id: ADVANCED_EXPORT_PLUGIN_ID,
+  name: 'Advanced Export',
+  version: '1.0.0',
+  description: 'Export data to various formats (CSV, Markdown, OPML)',
+  renderToolbar: (ctx) => <AdvancedExportToolbar ctx={ctx} />,
+};
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { PluginSettings, SandboxContext, SandboxPlugin } from '../types/core';
+import { APP_CONFIG } from '../constants/config';
+import { useCollabStore } from '../store/useCollabStore';
+import { CollabStatus } from '../collab/client';
+import { SHARED_TREE_KEY } from '../utils/sessions';
+
+/**
+ * Collaboration - edit the list together with everyone in the same room on
+ * the relay built into server.cjs. The connection itself lives in
+ * useCollaboration; this is its toolbar.
+ */
+
+export interface CollaborationSettings {
+  connected: boolean;
+  room: string;
+  userName: string;
+  // Empty for the relay of the server that serves the page
+  serverUrl: string;
+}
+
+export const COLLABORATION_PLUGIN_ID = 'plugin-collab';
+
+// Same rule as workspace ids on the server
+const ROOM_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const PEER_COLORS = [
+  '#f97316',
+  '#22c55e',
+  '#3b82f6',
+  '#e879f9',
+  '#facc15',
+  '#2dd4bf',
+  '#f87171',
+];
+
+const DEFAULT_SETTINGS: CollaborationSettings = {
+  connected: false,
+  room: 'default',
+  userName: '',
+  serverUrl: '',
+};
+
+export const isValidRoomName = (room: string) => ROOM_NAME_PATTERN.test(room);
+
+/**
+ * Relay room for a tree: the shared tree uses the room as named, a session
+ * with its own tree gets a room of its own inside it
+ */
+export const getTreeRoom = (room: string, treeKey: string) =>
+  treeKey === SHARED_TREE_KEY ? room : `${room}:${treeKey}`;
+
+export const getCollaborationSettings = (stored: PluginSettings): CollaborationSettings => ({
+  connected: stored.connected === true,
+  room: typeof stored.room === 'string' ? stored.room : DEFAULT_SETTINGS.room,
+  userName: typeof stored.userName === 'string' ? stored.userName : DEFAULT_SETTINGS.userName,
+  serverUrl:
+    typeof stored.serverUrl === 'string' ? stored.serverUrl : DEFAULT_SETTINGS.serverUrl,
+});
+
+export const getRelayUrl = (settings: CollaborationSettings) => {
+  if (settings.serverUrl.trim()) return settings.serverUrl.trim();
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${APP_CONFIG.COLLAB_PATH}`;
+};
+
+// Stable per name, so collaborators see the same color for someone every time
+export const getPeerColor = (name: string) => {
+  const hash = Array.from(name).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) | 0, 0);
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+const STATUS_COLORS: Record<CollabStatus, string> = {
+  online: '#22c55e',
+  connecting: '#facc15',
+  offline: '#94a3b8',
+};
+
+const CollaborationToolbar: React.FC<{ ctx: SandboxContext }> = ({ ctx }) => {
+  const { theme, rtl } = ctx.session;
+  const settings = getCollaborationSettings(ctx.getPluginSettings(COLLABORATION_PLUGIN_ID));
+  const status = useCollabStore((state) => state.status);
+  const peers = useCollabStore((state) => state.peers);
+  const [room, setRoom] = useState(settings.room);
+  const [userName, setUserName] = useState(settings.userName);
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+
+  const controlStyle: React.CSSProperties = {
+    padding: '10px 12px',
+    borderRadius: '8px',
+    border: `1px solid ${theme.colors.border}`,
+    background: 'rgba(255,255,255,0.1)',
+    color: theme.colors.text,
+    fontSize: '14px',
+  };
+
+  const statusLabel = {
+    online: rtl ? 'מחובר' : 'Online',
+    connecting: rtl ? 'מתחבר...' : 'Connecting...',
+    offline: rtl ? 'לא מחובר - שינויים ממתינים' : 'Offline - changes queued',
+  }[status];
+
+  if (settings.connected) {
+    return (
+      <>
+        <span
+          title={statusLabel}
+          style={{ display: 'flex', alignItems: 'center', gap: '6px', color: theme.colors.text }}
+        >
+          <span
+            style={{
+              width: '10px',
+              height: '10px',
+              borderRadius: '50%',
+              background: STATUS_COLORS[status],
+            }}
+          />
+          <span style={{ fontSize: '13px' }}>
+            {rtl ? `חדר ${settings.room}` : `Room ${settings.room}`}
+            {status === 'online' &&
+              (rtl ? ` · ${peers.length + 1} מחוברים` : ` · ${peers.length + 1} here`)}
+          </span>
+        </span>
+        <button
+          onClick={() =>
+            ctx.updatePluginSettings(COLLABORATION_PLUGIN_ID, { connected: false })
+          }
+          style={{ ...controlStyle, cursor: 'pointer' }}
+        >
+          {rtl ? 'התנתק' : 'Leave'}
+        </button>
+      </>
+    );
+  }
+
+  const canConnect = isValidRoomName(room) && userName.trim().length > 0;
+
+  return (
+    <>
+      <input
+        type="text"
+        value={userName}
+        onChange={(e) => setUserName(e.target.value)}
+        placeholder={rtl ? 'השם שלך' : 'Your name'}
+        aria-label={rtl ? 'השם שלך' : 'Your name'}
+        style={{ ...controlStyle, width: '110px' }}
+      />
+      <input
+        type="text"
+        value={room}
+        onChange={(e) => setRoom(e.target.value)}
+        placeholder={rtl ? 'חדר' : 'Room'}
+        aria-label={rtl ? 'חדר' : 'Room'}
+        title={rtl ? 'אותיות לטיניות, ספרות, - ו-_' : 'Letters, digits, - and _'}
+        style={{ ...controlStyle, width: '100px' }}
+      />
+      <input
+        type="text"
+        value={serverUrl}
+        onChange={(e) => setServerUrl(e.target.value)}
+        placeholder={rtl ? 'שרת (ברירת מחדל: שרת זה)' : 'Server (default: this one)'}
+        aria-label={rtl ? 'כתובת השרת' : 'Server address'}
+        dir="ltr"
+        style={{ ...controlStyle, width: '170px' }}
+      />
+      <button
+        onClick={() =>
+          ctx.updatePluginSettings(COLLABORATION_PLUGIN_ID, {
+            connected: true,
+            room,
+            userName: userName.trim(),
+            serverUrl: serverUrl.trim(),
+          })
+        }
+        disabled={!canConnect}
+        title={
+          rtl
+            ? 'הצטרפות לחדר שיש בו כבר רשימה מחליפה את הרשימה שלך (נשמרת גרסה לפני כן)'
+            : 'Joining a room that already has a list replaces yours (a snapshot is saved first)'
+        }
+        style={{
+          ...controlStyle,
+          cursor: canConnect ? 'pointer' : 'not-allowed',
+          opacity: canConnect ? 1 : 0.5,
+        }}
+      >
+        👥 {rtl ? 'שתף פעולה' : 'Collaborate'}
+      </button>
+    </>
+  );
+};
+
+export const collaborationPlugin: SandboxPlugin = {
+  id: COLLABORATION_PLUGIN_ID,
+  name: 'Collaboration',
+  version: '1.0.0',
+  description: 'Real-time collaboration with other users',
+  renderToolbar: (ctx) => <CollaborationToolbar ctx={ctx} />,
+};
@@ -0,0 +1,179 @@
+import {
+  AppState,
+  ListNode,
+  ListNodeId,
+  SandboxContext,
+  SandboxPlugin,
+} from '../types/core';
+import { getPath } from '../utils/nodeHelpers';
+import { useToastStore } from '../store/useToastStore';
+
+/**
+ * Plugin host - builds SandboxContext from the store and invokes plugin
+ * lifecycle hooks with per-plugin error isolation.
+ */
+
+export type PluginHookName =
+  | 'onNodeCreate'
+  | 'onNodeUpdate'
+  | 'onNodeDelete'
+  | 'onSessionChange';
+
+export type PluginHostState = Pick<
+  AppState,
+  'nodes' | 'rootNodeIds' | 'currentSession' | 'filterConfig' | 'plugins' | 'pluginSettings'
+> &
+  Pick<
+    SandboxContext,
+    'updateNode' | 'deleteNode' | 'createNode' | 'updateSession' | 'updatePluginSettings'
+  >;
+
+// Failures already surfaced to the user, keyed by plugin + hook
+const reportedFailures = new Set<string>();
+
+// Hooks triggered by a plugin's own ctx actions are not re-dispatched,
+// so plugins can't trigger each other in a loop
+let isDispatching = false;
+
+export const reportPluginError = (
+  plugin: Pick<SandboxPlugin, 'id' | 'name'>,
+  hook: string,
+  error: unknown,
+  rtl: boolean
+) => {
+  console.error(`Plugin "${plugin.id}" failed in ${hook}:`, error);
+
+  const key = `${plugin.id}:${hook}`;
+  if (reportedFailures.has(key)) return;
+  reportedFailures.add(key);
+
+  useToastStore.getState().addToast(
+    rtl ? `התוסף ${plugin.name} נכשל` : `Plugin "${plugin.name}" failed`,
+    'error'
+  );
+};
+
+type TrackedStateKey =
+  | 'nodes'
+  | 'rootNodeIds'
+  | 'currentSession'
+  | 'filterConfig'
+  | 'pluginSettings';
+
+/**
+ * What a plugin read through its context: whole parts of the state, or single
+ * nodes through the query helpers
+ */
+export interface PluginStateReads {
+  keys: Set<TrackedStateKey>;
+  nodeIds: Set<ListNodeId>;
+}
+
+export const createPluginStateReads = (): PluginStateReads => ({
+  keys: new Set(),
+  nodeIds: new Set(),
+});
+
+export const hasPluginStateChanged = (
+  reads: PluginStateReads,
+  state: PluginHostState,
+  prev: PluginHostState
+) =>
+  Array.from(reads.keys).some((key) => state[key] !== prev[key]) ||
+  Array.from(reads.nodeIds).some((id) => state.nodes[id] !== prev.nodes[id]);
+
+export const createPluginContext = (
+  getState: () => PluginHostState,
+  // Records each read, for slots that re-render only when what they read changes
+  getReads?: () => PluginStateReads
+): SandboxContext => {
+  const readKey = (key: TrackedStateKey) => {
+    getReads?.().keys.add(key);
+  };
+  const readNodes = (ids: (ListNodeId | null | undefined)[]) => {
+    const reads = getReads?.();
+    ids.forEach((id) => {
+      if (id) reads?.nodeIds.add(id);
+    });
+  };
+
+  return {
+    // State is read lazily so every plugin sees the latest tree
+    get nodes() {
+      readKey('nodes');
+      return getState().nodes;
+    },
+    get rootNodeIds() {
+      readKey('rootNodeIds');
+      return getState().rootNodeIds;
+    },
+    get session() {
+      readKey('currentSession');
+      return getState().currentSession;
+    },
+    get filterConfig() {
+      readKey('filterConfig');
+      return getState().filterConfig;
+    },
+
+    updateNode: (id, updates) => getState().updateNode(id, updates),
+    deleteNode: (id) => getState().deleteNode(id),
+    createNode: (parentId, data) => getState().createNode(parentId, data),
+    updateSession: (updates) => getState().updateSession(updates),
+
+    getPluginSettings: (pluginId) => {
+      readKey('pluginSettings');
+      return getState().pluginSettings[pluginId] ?? {};
+    },
+    updatePluginSettings: (pluginId, updates) =>
+      getState().updatePluginSettings(pluginId, updates),
+
+    getNode: (id) => {
+      readNodes([id]);
+      return getState().nodes[id];
+    },
+    getChildren: (id) => {
+      const { nodes } = getState();
+      const node = nodes[id];
+      readNodes([id, ...(node?.childrenIds ?? [])]);
+      return node
+        ? node.childrenIds.map((cid) => nodes[cid]).filter((n): n is ListNode => !!n)
+        : [];
+    },
+    getParent: (id) => {
+      const { nodes } = getState();
+      const parentId = nodes[id]?.parentId;
+      readNodes([id, parentId]);
+      return parentId ? nodes[parentId] : undefined;
+    },
+    getPath: (id) => {
+      const path = getPath(id, getState().nodes);
+      readNodes([id, ...path.map((node) => node.id)]);
+      return path;
+    },
+  };
+};
+
+export const invokePluginHook = (
+  getState: () => PluginHostState,
+  hook: PluginHookName,
+  invoke: (plugin: SandboxPlugin, ctx: SandboxContext) => void
+) => {
+  const { plugins } = getState();
+  if (isDispatching || plugins.length === 0) return;
+
+  const ctx = createPluginContext(getState);
+  isDispatching = true;
+  try {
+    plugins.forEach((plugin) => {
+      if (typeof plugin[hook] !== 'function') return;
+      try {
+        invoke(plugin, ctx);
+      } catch (error) {
+        reportPluginError(plugin, hook, error, getState().currentSession.rtl);
+      }
+    });
+  } finally {
+    isDispatching = false;
+  }
+};
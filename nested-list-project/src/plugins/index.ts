@@ -0,0 +1,17 @@
+import { SandboxPlugin } from '../types/core';
+import { advancedExportPlugin } from './advancedExport';
+import { collaborationPlugin } from './collaboration';
+import { statisticsPlugin } from './statistics';
+
+/**
+ * Built-in plugins - installable from the Plugins Manager and restored by id
+ * on import, since plugin code itself can't be serialized
+ */
+export const BUILT_IN_PLUGINS: SandboxPlugin[] = [
+  advancedExportPlugin,
+  statisticsPlugin,
+  collaborationPlugin,
+];
+
+export const getBuiltInPlugin = (id: string) =>
+  BUILT_IN_PLUGINS.find((plugin) => plugin.id === id);
@@ -0,0 +1,241 @@
+import React from 'react';
+import { ListNode, ListNodeId, SandboxContext, SandboxPlugin } from '../types/core';
+import { APP_CONFIG } from '../constants/config';
+import { DAY_MS } from '../constants/rules';
+
+/**
+ * Statistics - sidebar with counts per level, completion rates and stale nodes
+ */
+
+export interface StatisticsSettings {
+  staleAfterDays: number;
+}
+
+export interface LevelStats {
+  level: number;
+  total: number;
+  done: number;
+}
+
+export interface TreeStats {
+  total: number;
+  done: number;
+  completionRate: number;
+  levels: LevelStats[];
+  staleNodes: ListNode[];
+}
+
+export const STATISTICS_PLUGIN_ID = 'plugin-stats';
+
+const DEFAULT_SETTINGS: StatisticsSettings = {
+  staleAfterDays: 14,
+};
+
+const MAX_STALE_NODES = 10;
+
+export const getStatisticsSettings = (ctx: SandboxContext): StatisticsSettings => {
+  const stored = ctx.getPluginSettings(STATISTICS_PLUGIN_ID);
+  return {
+    staleAfterDays:
+      typeof stored.staleAfterDays === 'number' && stored.staleAfterDays > 0
+        ? stored.staleAfterDays
+        : DEFAULT_SETTINGS.staleAfterDays,
+  };
+};
+
+/**
+ * Stale nodes are open items not touched for `staleAfterDays`, oldest first
+ */
+export const computeTreeStats = (
+  nodes: Record<ListNodeId, ListNode>,
+  staleAfterDays: number,
+  now = Date.now()
+): TreeStats => {
+  const levels: LevelStats[] = Array.from({ length: APP_CONFIG.MAX_DEPTH }, (_, level) => ({
+    level,
+    total: 0,
+    done: 0,
+  }));
+  const cutoff = now - staleAfterDays * DAY_MS;
+  const staleNodes: ListNode[] = [];
+  let done = 0;
+
+  const allNodes = Object.values(nodes);
+  allNodes.forEach((node) => {
+    const levelStats = levels[node.level];
+    if (levelStats) {
+      levelStats.total++;
+      if (node.isDone) levelStats.done++;
+    }
+    if (node.isDone) {
+      done++;
+    } else if (node.updatedAt < cutoff) {
+      staleNodes.push(node);
+    }
+  });
+
+  staleNodes.sort((a, b) => a.updatedAt - b.updatedAt);
+
+  return {
+    total: allNodes.length,
+    done,
+    completionRate: allNodes.length > 0 ? done / allNodes.length : 0,
+    levels,
+    staleNodes: staleNodes.slice(0, MAX_STALE_NODES),
+  };
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const StatisticsSidebar: React.FC<{ ctx: SandboxContext }> = ({ ctx }) => {
+  const { theme, rtl } = ctx.session;
+  const settings = getStatisticsSettings(ctx);
+  const stats = computeTreeStats(ctx.nodes, settings.staleAfterDays);
+
+  const sectionTitleStyle: React.CSSProperties = {
+    color: theme.colors.text,
+    fontSize: '14px',
+    fontWeight: 'bold',
+    margin: '0 0 8px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
+      {/* Overview */}
+      <div
+        style={{
+          padding: '12px',
+          borderRadius: '8px',
+          background: `${theme.colors.primary}15`,
+          border: `1px solid ${theme.colors.border}`,
+          color: theme.colors.text,
+        }}
+      >
+        <div style={{ fontSize: '24px', fontWeight: 'bold' }}>
+          {formatPercent(stats.completionRate)}
+        </div>
+        <div style={{ fontSize: '12px', opacity: 0.7 }}>
+          {rtl
+            ? `${stats.done} מתוך ${stats.total} פריטים הושלמו`
+            : `${stats.done} of ${stats.total} items done`}
+        </div>
+      </div>
+
+      {/* Per level */}
+      <div>
+        <h4 style={sectionTitleStyle}>{rtl ? 'לפי רמה' : 'By Level'}</h4>
+        {stats.levels
+          .filter((level) => level.total > 0)
+          .map((level) => (
+            <div key={level.level} style={{ marginBottom: '8px' }}>
+              <div
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  color: theme.colors.text,
+                  fontSize: '12px',
+                  marginBottom: '4px',
+                }}
+              >
+                <span>
+                  {rtl ? 'רמה' : 'Level'} {level.level + 1}
+                </span>
+                <span>
+                  {level.done}/{level.total} · {formatPercent(level.done / level.total)}
+                </span>
+              </div>
+              <div
+                style={{
+                  height: '6px',
+                  borderRadius: '3px',
+                  background: `${theme.colors.border}40`,
+                  overflow: 'hidden',
+                }}
+              >
+                <div
+                  style={{
+                    width: formatPercent(level.done / level.total),
+                    height: '100%',
+                    background: theme.colors.levelColors[level.level] ?? theme.colors.primary,
+                  }}
+                />
+              </div>
+            </div>
+          ))}
+      </div>
+
+      {/* Stale nodes */}
+      <div>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: '8px',
+          }}
+        >
+          <h4 style={{ ...sectionTitleStyle, margin: 0 }}>
+            {rtl ? 'פריטים רדומים' : 'Stale Items'}
+          </h4>
+          <label style={{ color: theme.colors.text, fontSize: '12px', opacity: 0.8 }}>
+            {rtl ? 'ימים:' : 'Days:'}{' '}
+            <input
+              type="number"
+              min={1}
+              value={settings.staleAfterDays}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value > 0) {
+                  ctx.updatePluginSettings(STATISTICS_PLUGIN_ID, { staleAfterDays: value });
+                }
+              }}
+              style={{
+                width: '52px',
+                padding: '2px 6px',
+                borderRadius: '4px',
+                border: `1px solid ${theme.colors.border}`,
+                background: 'transparent',
+                color: theme.colors.text,
+              }}
+            />
+          </label>
+        </div>
+        {stats.staleNodes.length === 0 ? (
+          <div style={{ color: theme.colors.text, fontSize: '12px', opacity: 0.5 }}>
+            {rtl ? 'אין פריטים רדומים' : 'Nothing stale'}
+          </div>
+        ) : (
+          stats.staleNodes.map((node) => (
+            <div
+              key={node.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '8px',
+                padding: '6px 0',
+                borderBottom: `1px solid ${theme.colors.border}40`,
+                color: theme.colors.text,
+                fontSize: '12px',
+              }}
+            >
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {node.title || (rtl ? 'ללא כותרת' : 'Untitled')}
+              </span>
+              <span style={{ opacity: 0.6, whiteSpace: 'nowrap' }}>
+                {new Date(node.updatedAt).toLocaleDateString(rtl ? 'he-IL' : 'en-US')}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const statisticsPlugin: SandboxPlugin = {
+  id: STATISTICS_PLUGIN_ID,
+  name: 'Statistics',
+  version: '1.0.0',
+  description: 'Display statistics and insights about your data',
+  renderSidebar: (ctx) => <StatisticsSidebar ctx={ctx} />,
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { createIndexedDbBackend } from '../indexedDb';
+import { RECORD_STORES } from '../records';
+import { APP_CONFIG } from '../../constants/config';
+
+// The IndexedDB backend on fake-indexeddb, a fresh browser profile per test
+const openAt = (version: number, onUpgrade?: (db: IDBDatabase) => void) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(APP_CONFIG.DATABASE_NAME, version);
+    request.onupgradeneeded = () => onUpgrade?.(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// A profile saved by version 1, from before the trees store
+const createVersion1 = async () => {
+  const db = await openAt(1, (upgrading) => {
+    RECORD_STORES.filter((store) => store !== 'trees').forEach((store) =>
+      upgrading.createObjectStore(store)
+    );
+  });
+  const transaction = db.transaction(['nodes', 'meta'], 'readwrite');
+  transaction.objectStore('nodes').put({ id: 'a', title: 'A' }, 'a');
+  transaction.objectStore('meta').put(3, '__revision');
+  await new Promise((resolve) => {
+    transaction.oncomplete = resolve;
+  });
+  return db;
+};
+
+describe('IndexedDB storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('upgrades a version 1 database, keeping its records', async () => {
+    (await createVersion1()).close();
+
+    const backend = await createIndexedDbBackend();
+    const { records, revision } = await backend.read();
+    expect(revision).toBe(3);
+    expect(records.nodes).toEqual({ a: { id: 'a', title: 'A' } });
+
+    const tree = { nodes: {}, rootNodeIds: [] };
+    expect(await backend.write([{ store: 'trees', key: 's1', type: 'put', value: tree }], 3)).toBe(
+      4
+    );
+    expect((await backend.read()).records.trees).toEqual({ s1: tree });
+  });
+
+  it('fails to open while another tab holds an older version open', async () => {
+    const otherTab = await createVersion1();
+
+    await expect(createIndexedDbBackend()).rejects.toThrow('Close the app in other tabs');
+
+    otherTab.close();
+    const backend = await createIndexedDbBackend();
+    expect((await backend.read()).revision).toBe(3);
+  });
+
+  it('closes so a newer version in another tab can upgrade', async () => {
+    await createIndexedDbBackend();
+
+    const newer = await openAt(3);
+    expect(newer.version).toBe(3);
+    newer.close();
+  });
+});
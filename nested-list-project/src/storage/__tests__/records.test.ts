@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createEmptyRecords,
+  diffWorkspaceRecords,
+  RecordChange,
+  recordsToPayload,
+  toWorkspaceRecords,
+} from '../records';
+import { useStore } from '../../store/useStore';
+
+const putKeys = (changes: RecordChange[]) =>
+  changes
+    .filter((change) => change.type === 'put')
+    .map((change) => `${change.store}/${change.key}`);
+
+describe('workspace records', () => {
+  beforeEach(() => {
+    useStore.getState().reset();
+  });
+
+  it('writes every record on the first save', () => {
+    const node = useStore.getState().createNode(null, { title: 'A' });
+    const state = useStore.getState();
+
+    const changes = diffWorkspaceRecords(createEmptyRecords(), toWorkspaceRecords(state));
+
+    expect(putKeys(changes)).toEqual(
+      expect.arrayContaining([
+        `nodes/${node.id}`,
+        `sessions/${state.currentSession.id}`,
+        'meta/rootNodeIds',
+        'meta/schemaVersion',
+      ])
+    );
+    expect(changes.every((change) => change.type === 'put')).toBe(true);
+  });
+
+  it('only writes the records an edit touched', () => {
+    const { createNode, createSnapshot, updateNode } = useStore.getState();
+    const a = createNode(null, { title: 'A' });
+    createNode(null, { title: 'B' });
+    createSnapshot('Before');
+    const saved = toWorkspaceRecords(useStore.getState());
+
+    updateNode(a.id, { title: 'A2' });
+
+    expect(diffWorkspaceRecords(saved, toWorkspaceRecords(useStore.getState()))).toEqual([
+      { store: 'nodes', key: a.id, type: 'put', value: useStore.getState().nodes[a.id] },
+    ]);
+  });
+
+  it('deletes removed nodes and keeps untouched ones', () => {
+    const a = useStore.getState().createNode(null, { title: 'A' });
+    const child = useStore.getState().createNode(a.id, { title: 'Child' });
+    useStore.getState().createNode(null, { title: 'B' });
+    const saved = toWorkspaceRecords(useStore.getState());
+
+    useStore.getState().deleteNode(a.id);
+    const changes = diffWorkspaceRecords(saved, toWorkspaceRecords(useStore.getState()));
+
+    expect(changes.filter((change) => change.type === 'delete').map((change) => change.key))
+      .toEqual(expect.arrayContaining([a.id, child.id]));
+    expect(putKeys(changes)).toContain('meta/rootNodeIds');
+    expect(putKeys(changes).some((key) => key.startsWith('nodes/'))).toBe(false);
+  });
+
+  it('reloads through importData with every session restored', () => {
+    const { createNode, createSession } = useStore.getState();
+    createNode(null, { title: 'Saved' });
+    createSession('Second');
+    const state = useStore.getState();
+    const records = toWorkspaceRecords(state);
+
+    useStore.getState().reset();
+    useStore.getState().importData(JSON.stringify(recordsToPayload(records)));
+
+    const loaded = useStore.getState();
+    expect(Object.values(loaded.nodes).map((node) => node.title)).toEqual(['Saved']);
+    expect(loaded.currentSession.id).toBe(state.currentSession.id);
+    expect(Object.values(loaded.sessions).map((session) => session.name)).toEqual(
+      expect.arrayContaining(['Second', state.currentSession.name])
+    );
+  });
+});
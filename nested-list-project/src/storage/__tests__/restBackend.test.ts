@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createRequire } from 'module';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createRestBackend } from '../restBackend';
+import { RecordChange } from '../records';
+
+// The REST backend against the storage API in server.cjs, on a free local
+// port and a throwaway data directory
+let server: Server;
+let dataDir: string;
+let baseUrl: string;
+let workspaceCount = 0;
+
+const nextBackend = () => createRestBackend(`workspace-${++workspaceCount}`, baseUrl);
+
+const put = (store: RecordChange['store'], key: string, value: unknown): RecordChange => ({
+  store,
+  key,
+  type: 'put',
+  value,
+});
+
+describe('server storage', () => {
+  beforeAll(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'nested-list-data-'));
+    process.env.DATA_DIR = dataDir;
+    const { startServer } = createRequire(import.meta.url)('../../../server.cjs');
+    server = await startServer(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    delete process.env.DATA_DIR;
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('reads an empty workspace at revision 0', async () => {
+    const { records, revision } = await nextBackend().read();
+
+    expect(revision).toBe(0);
+    expect(records.nodes).toEqual({});
+    expect(records.trees).toEqual({});
+  });
+
+  it('writes changes, bumps the revision and reads them back', async () => {
+    const backend = nextBackend();
+
+    expect(
+      await backend.write(
+        [put('nodes', 'a', { id: 'a', title: 'A' }), put('snapshots', 's1', { id: 's1' })],
+        0
+      )
+    ).toBe(1);
+    expect(await backend.write([{ store: 'snapshots', key: 's1', type: 'delete' }], 1)).toBe(2);
+
+    const { records, revision } = await backend.read();
+    expect(revision).toBe(2);
+    expect(records.nodes).toEqual({ a: { id: 'a', title: 'A' } });
+    expect(records.snapshots).toEqual({});
+  });
+
+  it('refuses a save based on a stale revision', async () => {
+    const backend = nextBackend();
+    await backend.write([put('nodes', 'a', { id: 'a', title: 'Mine' })], 0);
+
+    expect(await backend.write([put('nodes', 'a', { id: 'a', title: 'Stale' })], 0)).toBeNull();
+
+    const { records, revision } = await backend.read();
+    expect(revision).toBe(1);
+    expect(records.nodes.a.title).toBe('Mine');
+  });
+
+  it('leaves nothing changed when part of a save fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const backend = nextBackend();
+    await backend.write([put('nodes', 'a', { id: 'a', title: 'A' })], 0);
+
+    // A key too long for a file name fails after the first snapshot is written
+    await expect(
+      backend.write(
+        [
+          put('snapshots', 'kept-out', { id: 'kept-out' }),
+          put('nodes', 'b', { id: 'b', title: 'B' }),
+          put('snapshots', 'x'.repeat(300), { id: 'too-long' }),
+        ],
+        1
+      )
+    ).rejects.toThrow('Server storage failed');
+
+    const { records, revision } = await backend.read();
+    expect(revision).toBe(1);
+    expect(Object.keys(records.nodes)).toEqual(['a']);
+    expect(records.snapshots).toEqual({});
+    expect(await readdir(path.join(dataDir, `workspace-${workspaceCount}`, 'snapshots'))).toEqual(
+      []
+    );
+    vi.restoreAllMocks();
+  });
+});
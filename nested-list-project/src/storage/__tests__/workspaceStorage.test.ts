@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createWorkspaceStorage, StorageBackend } from '../workspaceStorage';
+import { createRestBackend, isServerStorageAvailable } from '../restBackend';
+import { createEmptyRecords, RecordChange, WorkspaceRecords } from '../records';
+import { useStore } from '../../store/useStore';
+import { APP_CONFIG } from '../../constants/config';
+
+// Keeps records in memory and logs every write
+const createMemoryBackend = (records: WorkspaceRecords = createEmptyRecords()) => {
+  const writes: RecordChange[][] = [];
+  const state = { revision: 0 };
+  const backend: StorageBackend = {
+    kind: 'browser',
+    read: async () => ({ records: structuredClone(records), revision: state.revision }),
+    write: async (changes, baseRevision) => {
+      if (baseRevision !== state.revision) return null;
+      writes.push(changes);
+      changes.forEach((change) => {
+        const store: Record<string, unknown> = records[change.store];
+        if (change.type === 'put') store[change.key] = structuredClone(change.value);
+        else delete store[change.key];
+      });
+      return ++state.revision;
+    },
+  };
+  return { backend, records, writes, state };
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('workspace storage', () => {
+  beforeEach(() => {
+    useStore.getState().reset();
+    localStorage.clear();
+  });
+
+  it('saves everything once, then only what changed', async () => {
+    const { backend, writes } = createMemoryBackend();
+    const storage = createWorkspaceStorage(async () => backend, null);
+    const node = useStore.getState().createNode(null, { title: 'A' });
+    useStore.getState().createNode(null, { title: 'B' });
+
+    await storage.save(useStore.getState());
+    useStore.getState().updateNode(node.id, { title: 'A2' });
+    const result = await storage.save(useStore.getState());
+
+    expect(writes).toHaveLength(2);
+    expect(result).toEqual({ written: 1, stale: false });
+    expect(writes[1][0]).toMatchObject({ store: 'nodes', key: node.id, type: 'put' });
+    expect(await storage.save(useStore.getState())).toEqual({ written: 0, stale: false });
+    expect(writes).toHaveLength(2);
+  });
+
+  it('loads saved records and deletes ones the loaded state dropped', async () => {
+    const { backend, records } = createMemoryBackend();
+    const node = useStore.getState().createNode(null, { title: 'Saved' });
+    await createWorkspaceStorage(async () => backend, null).save(useStore.getState());
+    // Sanitizing drops a template without a root node
+    (records.templates as Record<string, unknown>).broken = { id: 'broken' };
+
+    useStore.getState().reset();
+    const storage = createWorkspaceStorage(async () => backend, null);
+    useStore.getState().importData((await storage.load())!);
+    storage.adopt(useStore.getState());
+
+    expect(useStore.getState().nodes[node.id].title).toBe('Saved');
+    await storage.save(useStore.getState());
+    expect(records.templates).toEqual({});
+    expect(Object.keys(records.nodes)).toEqual([node.id]);
+  });
+
+  it('moves the legacy localStorage blob into the backend', async () => {
+    useStore.getState().createNode(null, { title: 'Legacy' });
+    localStorage.setItem(APP_CONFIG.STORAGE_KEY, useStore.getState().exportData());
+    useStore.getState().reset();
+    const { backend, records } = createMemoryBackend();
+    const storage = createWorkspaceStorage(async () => backend, null);
+
+    useStore.getState().importData((await storage.load())!);
+    storage.adopt(useStore.getState());
+    expect(localStorage.getItem(APP_CONFIG.STORAGE_KEY)).not.toBeNull();
+
+    await storage.save(useStore.getState());
+    expect(Object.values(records.nodes).map((node) => node.title)).toEqual(['Legacy']);
+    expect(localStorage.getItem(APP_CONFIG.STORAGE_KEY)).toBeNull();
+  });
+
+  it('keeps unsaved changes for the next save when a write fails', async () => {
+    const { backend, writes } = createMemoryBackend();
+    const failingBackend: StorageBackend = {
+      ...backend,
+      write: vi
+        .fn<StorageBackend['write']>()
+        .mockRejectedValueOnce(new Error('Disk full'))
+        .mockImplementation(backend.write),
+    };
+    const storage = createWorkspaceStorage(async () => failingBackend, null);
+    useStore.getState().createNode(null, { title: 'A' });
+
+    await expect(storage.save(useStore.getState())).rejects.toThrow('Disk full');
+    const { written } = await storage.save(useStore.getState());
+
+    expect(written).toBeGreaterThan(0);
+    expect(writes).toHaveLength(1);
+  });
+
+  it('refuses to save over a newer revision from another tab', async () => {
+    const { backend, writes } = createMemoryBackend();
+    const first = createWorkspaceStorage(async () => backend, null);
+    const second = createWorkspaceStorage(async () => backend, null);
+    useStore.getState().createNode(null, { title: 'Shared' });
+    await first.save(useStore.getState());
+    useStore.getState().importData((await second.load())!);
+    second.adopt(useStore.getState());
+
+    useStore.getState().createNode(null, { title: 'From the first tab' });
+    await first.save(useStore.getState());
+    useStore.getState().createNode(null, { title: 'From the second tab' });
+
+    expect(second.hasUnsavedChanges(useStore.getState())).toBe(true);
+    expect(await second.save(useStore.getState())).toEqual({ written: 0, stale: true });
+    expect(writes).toHaveLength(2);
+
+    // Reloading catches up with the newer revision
+    useStore.getState().importData((await second.load())!);
+    second.adopt(useStore.getState());
+    expect(second.hasUnsavedChanges(useStore.getState())).toBe(false);
+    useStore.getState().createNode(null, { title: 'After reload' });
+    expect((await second.save(useStore.getState())).stale).toBe(false);
+  });
+
+  it('tells other tabs about newer saves', async () => {
+    const { backend } = createMemoryBackend();
+    const channelName = `sync-test-${Date.now()}`;
+    const saving = createWorkspaceStorage(async () => backend, channelName);
+    const listening = createWorkspaceStorage(async () => backend, channelName);
+    const received = new Promise<number>((resolve) => {
+      const unsubscribe = listening.onRemoteSave((revision) => {
+        unsubscribe();
+        resolve(revision);
+      });
+    });
+
+    useStore.getState().createNode(null, { title: 'A' });
+    await saving.save(useStore.getState());
+
+    expect(await received).toBe(1);
+  });
+});
+
+describe('REST backend', () => {
+  it('detects the bundled server only from a JSON answer', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(jsonResponse({ backend: 'server' }))
+      .mockResolvedValueOnce(
+        new Response('<!doctype html>', { headers: { 'Content-Type': 'text/html' } })
+      )
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    expect(await isServerStorageAvailable()).toBe(true);
+    expect(await isServerStorageAvailable()).toBe(false);
+    expect(await isServerStorageAvailable()).toBe(false);
+    expect(fetchMock).toHaveBeenCalledWith(`${APP_CONFIG.STORAGE_API_URL}/storage`);
+    fetchMock.mockRestore();
+  });
+
+  it('reads records and posts changes against a base revision', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(
+        jsonResponse({ revision: 3, records: { nodes: { a: { id: 'a' } } } })
+      )
+      .mockResolvedValueOnce(jsonResponse({ revision: 4 }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Saved elsewhere' }, 409))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Invalid change' }, 400));
+    const backend = createRestBackend('work', '/api');
+    const changes: RecordChange[] = [
+      { store: 'meta', key: 'rootNodeIds', type: 'put', value: [] },
+    ];
+
+    expect(await backend.read()).toEqual({
+      records: { ...createEmptyRecords(), nodes: { a: { id: 'a' } } },
+      revision: 3,
+    });
+    expect(await backend.write(changes, 3)).toBe(4);
+    expect(fetchMock).toHaveBeenLastCalledWith('/api/workspaces/work/changes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ baseRevision: 3, changes }),
+    });
+    expect(await backend.write(changes, 3)).toBeNull();
+    await expect(backend.write(changes, 4)).rejects.toThrow(
+      'Server storage failed: Invalid change'
+    );
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,126 @@
+import { APP_CONFIG } from '../constants/config';
+import { createEmptyRecords, RECORD_STORES, RecordChange } from './records';
+import type { StorageBackend, StoredWorkspace } from './workspaceStorage';
+
+/**
+ * IndexedDB backend - keeps the workspace in the browser profile, one object
+ * store per record type
+ */
+
+// Version 2 added the trees store
+const DATABASE_VERSION = 2;
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Save was aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  const request = indexedDB.open(APP_CONFIG.DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    RECORD_STORES.forEach((store) => {
+      if (!request.result.objectStoreNames.contains(store)) {
+        request.result.createObjectStore(store);
+      }
+    });
+  };
+  return new Promise((resolve, reject) => {
+    let isBlocked = false;
+    // A tab still open on an older version holds the upgrade back
+    request.onblocked = () => {
+      isBlocked = true;
+      reject(new Error('Close the app in other tabs to finish updating its storage'));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Opening is retried on the next load or save, with a connection of its own
+      if (isBlocked) {
+        db.close();
+        return;
+      }
+      // Let a newer version in another tab upgrade; saves here fail from then on
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Kept in the meta store next to the records, but not one of them
+const REVISION_KEY = '__revision';
+
+const readWorkspace = async (db: IDBDatabase): Promise<StoredWorkspace> => {
+  const transaction = db.transaction([...RECORD_STORES], 'readonly');
+  const records = createEmptyRecords();
+  await Promise.all(
+    RECORD_STORES.map(async (store) => {
+      const objectStore = transaction.objectStore(store);
+      // Both come back in key order
+      const [keys, values] = await Promise.all([
+        requestResult(objectStore.getAllKeys()),
+        requestResult(objectStore.getAll()),
+      ]);
+      const target: Record<string, unknown> = records[store];
+      keys.forEach((key, index) => {
+        target[String(key)] = values[index];
+      });
+    })
+  );
+
+  const revision = records.meta[REVISION_KEY];
+  delete records.meta[REVISION_KEY];
+  return { records, revision: typeof revision === 'number' ? revision : 0 };
+};
+
+// The revision check and the writes share one transaction, which other tabs
+// can't interleave with
+const writeChanges = async (
+  db: IDBDatabase,
+  changes: RecordChange[],
+  baseRevision: number
+): Promise<number | null> => {
+  const transaction = db.transaction([...RECORD_STORES], 'readwrite');
+  const meta = transaction.objectStore('meta');
+  let revision: number | null = null;
+
+  const current = meta.get(REVISION_KEY);
+  current.onsuccess = () => {
+    const currentRevision = typeof current.result === 'number' ? current.result : 0;
+    if (currentRevision !== baseRevision) return;
+
+    revision = currentRevision + 1;
+    meta.put(revision, REVISION_KEY);
+    changes.forEach((change) => {
+      const objectStore = transaction.objectStore(change.store);
+      if (change.type === 'put') {
+        objectStore.put(change.value, change.key);
+      } else {
+        objectStore.delete(change.key);
+      }
+    });
+  };
+
+  await transactionDone(transaction);
+  return revision;
+};
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+  return {
+    kind: 'browser',
+    read: () => readWorkspace(db),
+    write: (changes, baseRevision) => writeChanges(db, changes, baseRevision),
+  };
+};
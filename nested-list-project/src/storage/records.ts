@@ -0,0 +1,135 @@
+import { APP_CONFIG } from '../constants/config';
+import {
+  AppState,
+  ListNode,
+  ListNodeId,
+  SandboxSession,
+  SessionTree,
+  Snapshot,
+  Template,
+} from '../types/core';
+
+/**
+ * Workspace records - the state split into one record per node, session,
+ * parked session tree, template and snapshot, so a save only writes the records that changed
+ */
+
+export const RECORD_STORES = [
+  'nodes',
+  'sessions',
+  'trees',
+  'templates',
+  'snapshots',
+  'meta',
+] as const;
+
+export type RecordStoreName = (typeof RECORD_STORES)[number];
+
+export interface WorkspaceRecords {
+  nodes: Record<ListNodeId, ListNode>;
+  sessions: Record<string, SandboxSession>;
+  trees: Record<string, SessionTree>;
+  templates: Record<string, Template>;
+  snapshots: Record<string, Snapshot>;
+  // schemaVersion, rootNodeIds, currentSessionId, installedPlugins, pluginSettings
+  meta: Record<string, unknown>;
+}
+
+export interface RecordChange {
+  store: RecordStoreName;
+  key: string;
+  type: 'put' | 'delete';
+  value?: unknown;
+}
+
+export type PersistedState = Pick<
+  AppState,
+  | 'nodes'
+  | 'rootNodeIds'
+  | 'currentSession'
+  | 'sessions'
+  | 'sessionTrees'
+  | 'templates'
+  | 'snapshots'
+  | 'plugins'
+  | 'pluginSettings'
+>;
+
+export const createEmptyRecords = (): WorkspaceRecords => ({
+  nodes: {},
+  sessions: {},
+  trees: {},
+  templates: {},
+  snapshots: {},
+  meta: {},
+});
+
+/**
+ * Records share references with the state, so with immer's structural
+ * sharing an untouched node is the very same object after an edit elsewhere
+ */
+export const toWorkspaceRecords = (state: PersistedState): WorkspaceRecords => ({
+  nodes: state.nodes,
+  sessions: { ...state.sessions, [state.currentSession.id]: state.currentSession },
+  trees: state.sessionTrees,
+  templates: state.templates,
+  snapshots: state.snapshots,
+  meta: {
+    schemaVersion: APP_CONFIG.SCHEMA_VERSION,
+    rootNodeIds: state.rootNodeIds,
+    currentSessionId: state.currentSession.id,
+    installedPlugins: state.plugins.map((plugin) => plugin.id),
+    pluginSettings: state.pluginSettings,
+  },
+});
+
+// Reference equality, except for lists of ids rebuilt on every call
+const isSameRecord = (a: unknown, b: unknown) =>
+  a === b ||
+  (Array.isArray(a) &&
+    Array.isArray(b) &&
+    a.length === b.length &&
+    a.every((item, index) => typeof item !== 'object' && item === b[index]));
+
+/**
+ * Puts for new and changed records, deletes for records that are gone
+ */
+export const diffWorkspaceRecords = (
+  previous: WorkspaceRecords,
+  next: WorkspaceRecords
+): RecordChange[] => {
+  const changes: RecordChange[] = [];
+  RECORD_STORES.forEach((store) => {
+    const before: Record<string, unknown> = previous[store];
+    const after: Record<string, unknown> = next[store];
+    Object.entries(after).forEach(([key, value]) => {
+      if (!(key in before) || !isSameRecord(before[key], value)) {
+        changes.push({ store, key, type: 'put', value });
+      }
+    });
+    Object.keys(before).forEach((key) => {
+      if (!(key in after)) changes.push({ store, key, type: 'delete' });
+    });
+  });
+  return changes;
+};
+
+/**
+ * Reassemble the records in the export format, plus every session, so they
+ * load through the same migration and sanitizing as an imported file
+ */
+export const recordsToPayload = (records: WorkspaceRecords): Record<string, unknown> => {
+  const { meta } = records;
+  const currentSessionId = meta.currentSessionId as string | undefined;
+  return {
+    schemaVersion: meta.schemaVersion,
+    nodes: records.nodes,
+    rootNodeIds: meta.rootNodeIds,
+    session: currentSessionId ? records.sessions[currentSessionId] : undefined,
+    sessions: records.sessions,
+    sessionTrees: records.trees,
+    templates: records.templates,
+    snapshots: records.snapshots,
+    plugins: { installed: meta.installedPlugins, settings: meta.pluginSettings },
+  };
+};
@@ -0,0 +1,71 @@
+import { APP_CONFIG } from '../constants/config';
+import { createEmptyRecords } from './records';
+import type { StorageBackend } from './workspaceStorage';
+
+/**
+ * REST backend - the bundled server (server.cjs) keeps each workspace as JSON
+ * files in its data directory
+ */
+
+/**
+ * True when the page is served by the bundled server. Dev servers answer
+ * unknown paths with index.html, so anything but JSON counts as no server.
+ */
+export const isServerStorageAvailable = async (
+  baseUrl: string = APP_CONFIG.STORAGE_API_URL
+): Promise<boolean> => {
+  if (typeof fetch === 'undefined') return false;
+  try {
+    const response = await fetch(`${baseUrl}/storage`);
+    if (!response.ok || !response.headers.get('content-type')?.includes('application/json')) {
+      return false;
+    }
+    const info = await response.json();
+    return info?.backend === 'server';
+  } catch (error) {
+    return false;
+  }
+};
+
+export const createRestBackend = (
+  workspaceId: string = APP_CONFIG.DEFAULT_WORKSPACE_ID,
+  baseUrl: string = APP_CONFIG.STORAGE_API_URL
+): StorageBackend => {
+  const workspaceUrl = `${baseUrl}/workspaces/${encodeURIComponent(workspaceId)}`;
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${workspaceUrl}${path}`, init);
+    // Another tab or client saved since our base revision
+    if (response.status === 409) return null;
+    if (!response.ok) {
+      let message = `${response.status} ${response.statusText}`.trim();
+      try {
+        const body = await response.json();
+        if (typeof body?.error === 'string') message = body.error;
+      } catch (error) {
+        // Keep the status line
+      }
+      throw new Error(`Server storage failed: ${message}`);
+    }
+    return response.json();
+  };
+
+  return {
+    kind: 'server',
+    read: async () => {
+      const body = await request('/records');
+      return {
+        records: { ...createEmptyRecords(), ...body?.records },
+        revision: typeof body?.revision === 'number' ? body.revision : 0,
+      };
+    },
+    write: async (changes, baseRevision) => {
+      const body = await request('/changes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseRevision, changes }),
+      });
+      return typeof body?.revision === 'number' ? body.revision : null;
+    },
+  };
+};
@@ -0,0 +1,187 @@
+import { APP_CONFIG } from '../constants/config';
+import {
+  createEmptyRecords,
+  diffWorkspaceRecords,
+  PersistedState,
+  RECORD_STORES,
+  RecordChange,
+  recordsToPayload,
+  RecordStoreName,
+  toWorkspaceRecords,
+  WorkspaceRecords,
+} from './records';
+import { createIndexedDbBackend } from './indexedDb';
+import { createRestBackend, isServerStorageAvailable } from './restBackend';
+
+/**
+ * Workspace storage - loads the saved workspace and writes incremental saves
+ * through whichever backend holds the data. Data saved by older versions in a
+ * single localStorage key is moved to the backend on first load.
+ *
+ * Every save bumps the backend's revision. A save based on an older revision
+ * than the backend holds is refused as stale, so a tab never silently writes
+ * over another tab's work, and other tabs hear about each save.
+ */
+
+export type StorageBackendKind = 'browser' | 'server';
+
+export interface StoredWorkspace {
+  records: WorkspaceRecords;
+  // 0 when nothing is saved yet
+  revision: number;
+}
+
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  read: () => Promise<StoredWorkspace>;
+  // Apply all the changes or none; resolves with the new revision, or null
+  // without writing when the backend is no longer at `baseRevision`
+  write: (changes: RecordChange[], baseRevision: number) => Promise<number | null>;
+}
+
+export interface SaveResult {
+  written: number;
+  // Another tab saved first; nothing was written
+  stale: boolean;
+}
+
+export interface WorkspaceStorage {
+  // The saved workspace as export JSON, or null when nothing is saved yet
+  load: () => Promise<string | null>;
+  // Mark the state built from load() as saved, so only later edits are written
+  adopt: (state: PersistedState) => void;
+  // Write what changed since the last save
+  save: (state: PersistedState) => Promise<SaveResult>;
+  hasUnsavedChanges: (state: PersistedState) => boolean;
+  // Called when another tab saves a newer revision
+  onRemoteSave: (listener: (revision: number) => void) => () => void;
+}
+
+export const createWorkspaceStorage = (
+  resolveBackend: () => Promise<StorageBackend>,
+  channelName: string | null = APP_CONFIG.SYNC_CHANNEL
+): WorkspaceStorage => {
+  let backend: Promise<StorageBackend> | null = null;
+  const getBackend = () => {
+    if (!backend) {
+      // A backend that failed to open is retried on the next call
+      backend = resolveBackend().catch((error) => {
+        backend = null;
+        throw error;
+      });
+    }
+    return backend;
+  };
+
+  // What the backend holds as of the last save, and its revision
+  let saved = createEmptyRecords();
+  let revision = 0;
+  // Keys found by load(), deleted on the next save if the loaded state dropped them
+  let loadedKeys: Record<RecordStoreName, string[]> | null = null;
+  // The legacy localStorage blob is removed once its data is written to the backend
+  let migratingLegacyData = false;
+  // Saves run one at a time, each diffing against the one before
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Tabs announce their saves; the channel is open while anyone listens
+  const listeners = new Set<(revision: number) => void>();
+  let channel: BroadcastChannel | null = null;
+  const canBroadcast = !!channelName && typeof BroadcastChannel !== 'undefined';
+
+  const announce = (savedRevision: number) => {
+    if (!canBroadcast) return;
+    const sender = channel ?? new BroadcastChannel(channelName!);
+    sender.postMessage({ revision: savedRevision });
+    if (sender !== channel) sender.close();
+  };
+
+  return {
+    load: async () => {
+      const stored = await (await getBackend()).read();
+      revision = stored.revision;
+      const { records } = stored;
+      if (Object.keys(records.meta).length > 0) {
+        loadedKeys = Object.fromEntries(
+          RECORD_STORES.map((store) => [store, Object.keys(records[store])])
+        ) as Record<RecordStoreName, string[]>;
+        return JSON.stringify(recordsToPayload(records));
+      }
+
+      const legacyData = localStorage.getItem(APP_CONFIG.STORAGE_KEY);
+      migratingLegacyData = legacyData !== null;
+      return legacyData;
+    },
+
+    adopt: (state) => {
+      // Migrated data has never been written to the backend, so the first save writes it all
+      if (!loadedKeys) return;
+
+      const current = toWorkspaceRecords(state);
+      saved = createEmptyRecords();
+      RECORD_STORES.forEach((store) => {
+        const target: Record<string, unknown> = saved[store];
+        loadedKeys![store].forEach((key) => {
+          target[key] = null;
+        });
+        Object.assign(target, current[store]);
+      });
+      loadedKeys = null;
+    },
+
+    save: (state) => {
+      const run = async (): Promise<SaveResult> => {
+        const next = toWorkspaceRecords(state);
+        const changes = diffWorkspaceRecords(saved, next);
+        if (changes.length === 0) return { written: 0, stale: false };
+
+        const newRevision = await (await getBackend()).write(changes, revision);
+        if (newRevision === null) return { written: 0, stale: true };
+        saved = next;
+        revision = newRevision;
+        announce(newRevision);
+
+        if (migratingLegacyData) {
+          localStorage.removeItem(APP_CONFIG.STORAGE_KEY);
+          migratingLegacyData = false;
+        }
+        return { written: changes.length, stale: false };
+      };
+
+      const result = queue.then(run, run);
+      queue = result.catch(() => undefined);
+      return result;
+    },
+
+    hasUnsavedChanges: (state) =>
+      diffWorkspaceRecords(saved, toWorkspaceRecords(state)).length > 0,
+
+    onRemoteSave: (listener) => {
+      listeners.add(listener);
+      if (canBroadcast && !channel) {
+        channel = new BroadcastChannel(channelName!);
+        channel.onmessage = (event: MessageEvent<{ revision?: unknown }>) => {
+          const remoteRevision = event.data?.revision;
+          if (typeof remoteRevision !== 'number' || remoteRevision <= revision) return;
+          listeners.forEach((notify) => notify(remoteRevision));
+        };
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && channel) {
+          channel.close();
+          channel = null;
+        }
+      };
+    },
+  };
+};
+
+/**
+ * Files on disk when the app is served by the bundled server, the browser's
+ * IndexedDB otherwise (e.g. the Vite dev server)
+ */
+export const resolveStorageBackend = async (): Promise<StorageBackend> =>
+  (await isServerStorageAvailable()) ? createRestBackend() : createIndexedDbBackend();
+
+export const workspaceStorage = createWorkspaceStorage(resolveStorageBackend);
@@ -3,8 +3,13 @@ import { act, renderHook } from '@testing-library/react';
 import { useStore } from '../useStore';
 import { useToastStore } from '../useToastStore';
 import { APP_CONFIG } from '../../constants/config';
+import { DEFAULT_SHORTCUTS } from '../../constants/shortcuts';
 import { useAutoSave } from '../../hooks/useAutoSave';
 import { ListNode } from '../../types/core';
+import { buildClipboardPayload } from '../../utils/clipboard';
+import { parseMarkdownOutline } from '../../utils/importers';
+import { getOrderedSessions } from '../../utils/sessions';
+import { recordsToPayload, toWorkspaceRecords } from '../../storage/records';
 
 const resetStores = () => {
   act(() => {
@@ -77,6 +82,268 @@ describe('useStore integration', () => {
     });
   });
 
+  describe('bulk operations', () => {
+    // root
+    //   ├─ a
+    //   │   └─ a1
+    //   ├─ b
+    //   └─ c
+    let root!: ListNode;
+    let a!: ListNode;
+    let a1!: ListNode;
+    let b!: ListNode;
+    let c!: ListNode;
+
+    beforeEach(() => {
+      act(() => {
+        useStore.getState().setRTL(false);
+        root = useStore.getState().createNode(null, { title: 'Root' });
+        a = useStore.getState().createNode(root.id, { title: 'A' });
+        a1 = useStore.getState().createNode(a.id, { title: 'A1' });
+        b = useStore.getState().createNode(root.id, { title: 'B' });
+        c = useStore.getState().createNode(root.id, { title: 'C' });
+      });
+    });
+
+    const historyLength = () => useStore.getState().history.past.length;
+
+    it('selects the visible range from the anchor on Shift+Click', () => {
+      act(() => {
+        useStore.getState().selectNode(c.id);
+        useStore.getState().selectRange(a.id);
+      });
+      expect(useStore.getState().currentSession.selectedNodeIds).toEqual([
+        c.id,
+        b.id,
+        a1.id,
+        a.id,
+      ]);
+
+      // Collapsed children are skipped
+      act(() => {
+        useStore.getState().toggleCollapse(a.id);
+        useStore.getState().selectNode(a.id);
+        useStore.getState().selectRange(c.id);
+      });
+      expect(useStore.getState().currentSession.selectedNodeIds).toEqual([a.id, b.id, c.id]);
+    });
+
+    it('deletes the selection, descendants included, as one undo step', () => {
+      const before = historyLength();
+      act(() => {
+        useStore.getState().deleteNodes([a.id, a1.id, c.id]);
+      });
+
+      const state = useStore.getState();
+      expect(state.nodes[root.id].childrenIds).toEqual([b.id]);
+      expect(state.nodes[a1.id]).toBeUndefined();
+      expect(historyLength()).toBe(before + 1);
+      expect(state.history.past[state.history.past.length - 1].label).toBe('Delete 2 items');
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes[root.id].childrenIds).toEqual([a.id, b.id, c.id]);
+      expect(useStore.getState().nodes[a1.id]).toBeDefined();
+    });
+
+    it('marks, tags and sets fields on every selected node in one step each', () => {
+      act(() => {
+        useStore.getState().saveCustomField({ id: 'prio', name: 'Priority', type: 'number' });
+      });
+      const before = historyLength();
+
+      act(() => {
+        useStore.getState().setNodesDone([a.id, b.id], true);
+        useStore.getState().tagNodes([a.id, b.id], '#urgent');
+        useStore.getState().setNodesField([a.id, b.id], 'prio', '3');
+      });
+
+      const { nodes } = useStore.getState();
+      [a.id, b.id].forEach((id) => {
+        expect(nodes[id].isDone).toBe(true);
+        expect(nodes[id].tags).toEqual(['urgent']);
+        expect(nodes[id].sandboxProps?.fields).toEqual({ prio: 3 });
+      });
+      expect(historyLength()).toBe(before + 3);
+
+      // Nodes that already carry the tag are left alone
+      act(() => {
+        useStore.getState().tagNodes([a.id, b.id], 'Urgent');
+      });
+      expect(historyLength()).toBe(before + 3);
+    });
+
+    it('moves, indents and outdents the selection in display order', () => {
+      act(() => {
+        useStore.getState().moveNodes([b.id, c.id], a.id);
+      });
+      expect(useStore.getState().nodes[a.id].childrenIds).toEqual([a1.id, b.id, c.id]);
+      expect(useStore.getState().nodes[c.id].level).toBe(2);
+
+      act(() => {
+        useStore.getState().outdentNodes([c.id, b.id]);
+      });
+      expect(useStore.getState().nodes[root.id].childrenIds).toEqual([a.id, b.id, c.id]);
+
+      // Consecutive siblings indent under the same previous sibling
+      const before = historyLength();
+      act(() => {
+        useStore.getState().indentNodes([b.id, c.id]);
+      });
+      expect(useStore.getState().nodes[a.id].childrenIds).toEqual([a1.id, b.id, c.id]);
+      expect(historyLength()).toBe(before + 1);
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes[root.id].childrenIds).toEqual([a.id, b.id, c.id]);
+    });
+
+    it('refuses to move a node into its own subtree', () => {
+      act(() => {
+        useStore.getState().moveNodes([a.id, b.id], a1.id);
+      });
+
+      expect(useStore.getState().nodes[a.id].parentId).toBe(root.id);
+      expect(useStore.getState().nodes[a1.id].childrenIds).toEqual([b.id]);
+      expect(useToastStore.getState().toasts).toHaveLength(1);
+    });
+
+    it('duplicates each selected subtree right after its original', () => {
+      act(() => {
+        useStore.getState().duplicateNodes([a.id, a1.id, c.id]);
+      });
+
+      const { nodes } = useStore.getState();
+      const children = nodes[root.id].childrenIds;
+      expect(children).toHaveLength(5);
+      expect(children[0]).toBe(a.id);
+      expect(nodes[children[1]].title).toBe('A');
+      expect(nodes[children[1]].childrenIds).toHaveLength(1);
+      expect(children[2]).toBe(b.id);
+      expect(children[3]).toBe(c.id);
+      expect(nodes[children[4]].title).toBe('C');
+    });
+  });
+
+  describe('clipboard', () => {
+    it('pastes copied subtrees as fresh nodes in one undo step', () => {
+      let source!: ListNode;
+      let target!: ListNode;
+      act(() => {
+        useStore.getState().setRTL(false);
+        source = useStore.getState().createNode(null, { title: 'Source' });
+        useStore.getState().createNode(source.id, { title: 'Leaf' });
+        target = useStore.getState().createNode(null, { title: 'Target' });
+      });
+      const { nodes, rootNodeIds } = useStore.getState();
+      const payload = buildClipboardPayload([source.id], rootNodeIds, nodes);
+      const before = useStore.getState().history.past.length;
+
+      let pasted: string[] = [];
+      act(() => {
+        pasted = useStore.getState().pasteNodes(payload, target.id);
+      });
+
+      const state = useStore.getState();
+      expect(state.nodes[target.id].childrenIds).toEqual(pasted);
+      const copy = state.nodes[pasted[0]];
+      expect(copy.id).not.toBe(source.id);
+      expect(copy).toMatchObject({ title: 'Source', parentId: target.id, level: 1 });
+      expect(state.nodes[copy.childrenIds[0]]).toMatchObject({ title: 'Leaf', level: 2 });
+      expect(state.currentSession.selectedNodeIds).toEqual(pasted);
+      expect(state.history.past).toHaveLength(before + 1);
+      expect(state.history.past[before].label).toBe('Paste 2 items');
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes[target.id].childrenIds).toEqual([]);
+      expect(useStore.getState().nodes[pasted[0]]).toBeUndefined();
+    });
+
+    it('keeps pasted outlines within the maximum depth', () => {
+      let deepest!: ListNode;
+      act(() => {
+        let parentId: string | null = null;
+        for (let level = 0; level < APP_CONFIG.MAX_DEPTH - 1; level++) {
+          deepest = useStore.getState().createNode(parentId, { title: `L${level}` });
+          parentId = deepest.id;
+        }
+      });
+
+      act(() => {
+        useStore.getState().pasteNodes(parseMarkdownOutline('One\n  Two\n    Three'), deepest.id);
+      });
+
+      const { nodes } = useStore.getState();
+      const pasted = nodes[deepest.id].childrenIds.map((id) => nodes[id]);
+      expect(pasted.map((node) => node.title)).toEqual(['One', 'Two', 'Three']);
+      pasted.forEach((node) => expect(node.level).toBe(APP_CONFIG.MAX_DEPTH - 1));
+      expect(useToastStore.getState().toasts).toHaveLength(1);
+
+      // Nothing fits under a node already at the deepest level
+      act(() => {
+        useStore.getState().pasteNodes(parseMarkdownOutline('Four'), pasted[0].id);
+      });
+      expect(useStore.getState().nodes[pasted[0].id].childrenIds).toEqual([]);
+    });
+
+    it('imports an outline under a chosen node as one undo step', () => {
+      let target!: ListNode;
+      act(() => {
+        useStore.getState().setRTL(false);
+        target = useStore.getState().createNode(null, { title: 'Target' });
+      });
+      const before = useStore.getState().history.past.length;
+
+      act(() => {
+        const result = useStore
+          .getState()
+          .importOutline(parseMarkdownOutline('- [x] A\n  - B\n- C'), target.id, 'flatten');
+        expect(result).toEqual({ imported: 3, overflow: 0 });
+      });
+
+      const state = useStore.getState();
+      const imported = state.nodes[target.id].childrenIds.map((id) => state.nodes[id]);
+      expect(imported.map((node) => node.title)).toEqual(['A', 'C']);
+      expect(imported[0]).toMatchObject({ isDone: true, level: 1, parentId: target.id });
+      expect(state.nodes[imported[0].childrenIds[0]]).toMatchObject({ title: 'B', level: 2 });
+      expect(state.history.past).toHaveLength(before + 1);
+      expect(state.history.past[before].label).toBe('Import 3 items');
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes[target.id].childrenIds).toEqual([]);
+    });
+
+    it('reports, truncates or rejects outlines deeper than the maximum depth', () => {
+      let deepest!: ListNode;
+      act(() => {
+        let parentId: string | null = null;
+        for (let level = 0; level < APP_CONFIG.MAX_DEPTH - 1; level++) {
+          deepest = useStore.getState().createNode(parentId, { title: `L${level}` });
+          parentId = deepest.id;
+        }
+      });
+      const outline = parseMarkdownOutline('- One\n  - Two\n    - Three');
+
+      expect(() => useStore.getState().importOutline(outline, deepest.id, 'reject')).toThrow();
+      expect(useStore.getState().nodes[deepest.id].childrenIds).toEqual([]);
+
+      act(() => {
+        const result = useStore.getState().importOutline(outline, deepest.id, 'truncate');
+        expect(result).toEqual({ imported: 1, overflow: 2 });
+      });
+      const [one] = useStore.getState().nodes[deepest.id].childrenIds;
+      expect(useStore.getState().nodes[one]).toMatchObject({ title: 'One', childrenIds: [] });
+
+      expect(() => useStore.getState().importOutline(outline, one, 'flatten')).toThrow();
+    });
+  });
+
   describe('history undo/redo', () => {
     it('tracks past and future stacks across actions', () => {
       const { result } = renderHook(() => useStore());
@@ -121,6 +388,334 @@ describe('useStore integration', () => {
     });
   });
 
+  describe('patch-based history', () => {
+    it('records labelled entries holding only the changed paths', () => {
+      let root!: ListNode;
+      let target!: ListNode;
+      let moved!: ListNode;
+      act(() => {
+        useStore.getState().setRTL(false);
+        root = useStore.getState().createNode(null, { title: 'Inbox' });
+        target = useStore.getState().createNode(null, { title: 'Project' });
+        moved = useStore.getState().createNode(root.id, { title: 'Task' });
+        useStore.getState().moveNode(moved.id, target.id);
+      });
+
+      const { past } = useStore.getState().history;
+      expect(past.map((entry) => entry.label)).toEqual([
+        "Create 'Inbox'",
+        "Create 'Project'",
+        "Create 'Task'",
+        "Move 'Task' under 'Project'",
+      ]);
+      // No entry carries a copy of the whole node map
+      past.forEach((entry) => {
+        entry.patches.forEach((patch) => expect(patch.path.length).toBeGreaterThan(1));
+      });
+
+      act(() => {
+        useStore.getState().undo();
+      });
+
+      expect(useStore.getState().nodes[moved.id].parentId).toBe(root.id);
+      expect(useStore.getState().nodes[root.id].childrenIds).toEqual([moved.id]);
+      expect(useStore.getState().nodes[target.id].childrenIds).toEqual([]);
+
+      act(() => {
+        useStore.getState().redo();
+      });
+
+      expect(useStore.getState().nodes[moved.id].parentId).toBe(target.id);
+    });
+
+    it('keeps history bounded by total patch count', () => {
+      const originalLimit = APP_CONFIG.MAX_HISTORY_PATCHES;
+      APP_CONFIG.MAX_HISTORY_PATCHES = 10;
+
+      try {
+        act(() => {
+          useStore.getState().createNode(null, { title: 'Node 0' });
+        });
+        expect(useStore.getState().history.isTrimmed).toBe(false);
+
+        act(() => {
+          for (let i = 1; i < 20; i++) {
+            useStore.getState().createNode(null, { title: `Node ${i}` });
+          }
+        });
+
+        const { past, isTrimmed } = useStore.getState().history;
+        const patchCount = past.reduce((sum, entry) => sum + entry.patches.length, 0);
+        expect(patchCount).toBeLessThanOrEqual(10);
+        expect(past[past.length - 1].label).toContain('Node 19');
+        // Rewinding no longer reaches the initial state
+        expect(isTrimmed).toBe(true);
+      } finally {
+        APP_CONFIG.MAX_HISTORY_PATCHES = originalLimit;
+      }
+    });
+
+    it('jumps backwards and forwards to any entry in the timeline', () => {
+      let nodes!: ListNode[];
+      act(() => {
+        nodes = ['A', 'B', 'C'].map((title) => useStore.getState().createNode(null, { title }));
+      });
+      const [first, second] = useStore.getState().history.past;
+
+      act(() => {
+        useStore.getState().jumpToHistory(first.id);
+      });
+
+      expect(useStore.getState().rootNodeIds).toEqual([nodes[0].id]);
+      expect(useStore.getState().history.past.map((entry) => entry.id)).toEqual([first.id]);
+      expect(useStore.getState().history.future).toHaveLength(2);
+
+      act(() => {
+        useStore.getState().jumpToHistory(second.id);
+      });
+
+      expect(useStore.getState().rootNodeIds).toEqual([nodes[0].id, nodes[1].id]);
+      expect(useStore.getState().history.future).toHaveLength(1);
+
+      act(() => {
+        useStore.getState().jumpToHistory(null);
+      });
+
+      expect(useStore.getState().rootNodeIds).toEqual([]);
+      expect(useStore.getState().history.past).toEqual([]);
+
+      // A normal redo continues from the jumped-to position
+      act(() => {
+        useStore.getState().redo();
+      });
+
+      expect(useStore.getState().history.past.map((entry) => entry.id)).toEqual([first.id]);
+      expect(useStore.getState().rootNodeIds).toEqual([nodes[0].id]);
+    });
+
+    it('undoes a freshly created node on the first undo', () => {
+      act(() => {
+        useStore.getState().createNode(null, { title: 'Only' });
+        useStore.getState().undo();
+      });
+
+      expect(useStore.getState().rootNodeIds).toHaveLength(0);
+      expect(useStore.getState().nodes).toEqual({});
+    });
+
+    it('makes toggles and collapse actions undoable', () => {
+      let root!: ListNode;
+      act(() => {
+        root = useStore.getState().createNode(null, { title: 'Root' });
+        useStore.getState().createNode(root.id, { title: 'Child' });
+        useStore.getState().toggleDone(root.id);
+        useStore.getState().togglePin(root.id);
+        useStore.getState().collapseAll();
+      });
+
+      expect(useStore.getState().nodes[root.id]).toMatchObject({
+        isDone: true,
+        isPinned: true,
+        isCollapsed: true,
+      });
+
+      act(() => {
+        useStore.getState().undo();
+        useStore.getState().undo();
+        useStore.getState().undo();
+      });
+
+      expect(useStore.getState().nodes[root.id].isDone).toBeFalsy();
+      expect(useStore.getState().nodes[root.id].isPinned).toBeFalsy();
+      expect(useStore.getState().nodes[root.id].isCollapsed).toBe(false);
+    });
+
+    it('coalesces rapid title edits on the same node', () => {
+      vi.useFakeTimers();
+
+      try {
+        let node!: ListNode;
+        act(() => {
+          node = useStore.getState().createNode(null, { title: 'T' });
+          useStore.getState().updateNode(node.id, { title: 'Ti' });
+          vi.advanceTimersByTime(APP_CONFIG.HISTORY_COALESCE_WINDOW - 1);
+          useStore.getState().updateNode(node.id, { title: 'Tit' });
+          useStore.getState().updateNode(node.id, { title: 'Title' });
+        });
+
+        // create + one merged rename
+        expect(useStore.getState().history.past).toHaveLength(2);
+
+        act(() => {
+          vi.advanceTimersByTime(APP_CONFIG.HISTORY_COALESCE_WINDOW + 1);
+          useStore.getState().updateNode(node.id, { title: 'Title!' });
+        });
+
+        expect(useStore.getState().history.past).toHaveLength(3);
+
+        act(() => {
+          useStore.getState().undo();
+          useStore.getState().undo();
+        });
+
+        expect(useStore.getState().nodes[node.id].title).toBe('T');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('starts a fresh timeline on import', () => {
+      act(() => {
+        useStore.getState().createNode(null, { title: 'Before import' });
+      });
+      const json = useStore.getState().exportData();
+
+      act(() => {
+        useStore.getState().importData(json);
+      });
+
+      expect(useStore.getState().history.past).toHaveLength(0);
+      expect(Object.values(useStore.getState().nodes)[0].title).toBe('Before import');
+    });
+
+    it('keeps the undo steps collaborators did not touch', () => {
+      let a!: ListNode;
+      let b!: ListNode;
+      act(() => {
+        a = useStore.getState().createNode(null, { title: 'A' });
+        b = useStore.getState().createNode(null, { title: 'B' });
+        useStore.getState().updateNode(a.id, { title: 'A2' });
+        useStore.getState().updateNode(b.id, { title: 'B2' });
+        useStore.getState().selectNode(a.id);
+      });
+
+      const { nodes, rootNodeIds } = useStore.getState();
+      act(() => {
+        useStore.getState().applyRemoteTree({
+          nodes: { ...nodes, [a.id]: { ...nodes[a.id], description: 'From a collaborator' } },
+          rootNodeIds,
+        });
+      });
+
+      expect(useStore.getState().history.past).toHaveLength(1);
+      expect(useStore.getState().history.isTrimmed).toBe(true);
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes[b.id].title).toBe('B');
+      expect(useStore.getState().nodes[a.id]).toMatchObject({
+        title: 'A2',
+        description: 'From a collaborator',
+      });
+
+      const { [a.id]: _removed, ...rest } = useStore.getState().nodes;
+      act(() => {
+        useStore.getState().applyRemoteTree({ nodes: rest, rootNodeIds: [b.id] });
+      });
+
+      expect(useStore.getState().currentSession.selectedNodeIds).toEqual([]);
+      // Redoing B's rename is still safe
+      act(() => {
+        useStore.getState().redo();
+      });
+      expect(useStore.getState().nodes[b.id].title).toBe('B2');
+    });
+
+    it('checks the values collaborators send', () => {
+      let a!: ListNode;
+      act(() => {
+        a = useStore.getState().createNode(null, { title: 'A' });
+      });
+
+      const { nodes, rootNodeIds } = useStore.getState();
+      const invalid = { ...nodes[a.id], title: 42, tags: 'urgent', isDone: 'yes' } as any;
+      act(() => {
+        useStore.getState().applyRemoteTree({ nodes: { [a.id]: invalid }, rootNodeIds });
+      });
+
+      const node = useStore.getState().nodes[a.id];
+      expect(node.title).toBe('');
+      expect(node.tags).toBeUndefined();
+      expect(node.isDone).toBeUndefined();
+    });
+  });
+
+  describe('rules runtime', () => {
+    it('applies enabled rules to created and toggled nodes', () => {
+      const { result } = renderHook(() => useStore());
+
+      act(() => {
+        result.current.updateSession({
+          rules: [
+            {
+              id: 'tag',
+              type: 'auto-tag',
+              name: 'Tag bugs',
+              enabled: true,
+              config: { keyword: 'bug', tag: 'bug', matchDescription: false },
+            },
+            {
+              id: 'collapse',
+              type: 'auto-collapse',
+              name: 'Collapse done',
+              enabled: true,
+              config: { trigger: 'all-children-done' },
+            },
+          ],
+        });
+      });
+
+      let root!: ListNode;
+      let child!: ListNode;
+      act(() => {
+        root = result.current.createNode(null, { title: 'Release' });
+        child = result.current.createNode(root.id, { title: 'Fix bug in export' });
+      });
+
+      expect(result.current.nodes[child.id].tags).toEqual(['bug']);
+      expect(result.current.history.past.length).toBe(2);
+
+      act(() => {
+        result.current.toggleDone(child.id);
+      });
+
+      expect(result.current.nodes[root.id].isCollapsed).toBe(true);
+    });
+
+    it('runs time-based rules over the whole tree outside history', () => {
+      act(() => {
+        useStore.getState().importData(
+          JSON.stringify({
+            nodes: { old: { title: 'Old', updatedAt: 1 }, fresh: { title: 'Fresh' } },
+            rootNodeIds: ['old', 'fresh'],
+          })
+        );
+        useStore.getState().updateSession({
+          rules: [
+            {
+              id: 'stale',
+              type: 'time-based',
+              name: 'Highlight stale',
+              enabled: true,
+              config: { field: 'updatedAt', olderThanDays: 7, action: 'highlight' },
+            },
+          ],
+        });
+        useStore.getState().runTimeRules();
+      });
+
+      const { nodes, history } = useStore.getState();
+      expect(nodes.old.isHighlighted).toBe(true);
+      expect(nodes.fresh.isHighlighted).toBeUndefined();
+      expect(history.past).toHaveLength(0);
+
+      act(() => {
+        useStore.getState().updateNode('old', { title: 'Edited' });
+      });
+      expect(useStore.getState().nodes.old.isHighlighted).toBe(false);
+    });
+  });
+
   describe('templates', () => {
     it('applies templates with nested children and records history', () => {
       const { result } = renderHook(() => useStore());
@@ -178,6 +773,267 @@ describe('useStore integration', () => {
       expect(result.current.history.past.length).toBe(pastBefore + 1);
       expect(result.current.history.future).toHaveLength(0);
     });
+
+    it('records only the nodes a restore changes', () => {
+      act(() => {
+        for (let i = 0; i < 20; i++) useStore.getState().createNode(null, { title: `Item ${i}` });
+        useStore.getState().createSnapshot('Before');
+      });
+      const [first, second] = useStore.getState().rootNodeIds;
+      act(() => {
+        useStore.getState().updateNode(first, { title: 'Changed' });
+        useStore.getState().deleteNode(second);
+        useStore.getState().restoreSnapshot(Object.keys(useStore.getState().snapshots)[0]);
+      });
+
+      const { nodes, history } = useStore.getState();
+      expect(nodes[first].title).toBe('Item 0');
+      expect(nodes[second]).toBeDefined();
+      // The changed node, the deleted one and the root order - not the whole map
+      expect(history.past.at(-1)!.patches).toHaveLength(3);
+    });
+  });
+
+  describe('sessions', () => {
+    const store = () => useStore.getState();
+    const sessionNamed = (name: string) =>
+      getOrderedSessions(store().sessions, store().currentSession).find((s) => s.name === name)!;
+    const rootTitles = () => store().rootNodeIds.map((id) => store().nodes[id].title);
+
+    it('keeps edits to the session it switches away from', () => {
+      const mainId = store().currentSession.id;
+      act(() => {
+        store().createSession('Other');
+        store().updateSession({ viewMode: 'board' });
+        store().switchSession(sessionNamed('Other').id);
+      });
+      expect(store().currentSession.name).toBe('Other');
+
+      act(() => {
+        store().switchSession(mainId);
+      });
+      expect(store().currentSession.viewMode).toBe('board');
+    });
+
+    it('gives a session its own tree and swaps trees on switch', () => {
+      const mainId = store().currentSession.id;
+      act(() => {
+        store().createNode(null, { title: 'Shared' });
+        store().createSession('Own', undefined, true);
+        store().createSession('Also shared');
+        store().switchSession(sessionNamed('Own').id);
+      });
+      expect(rootTitles()).toEqual([]);
+      expect(store().history.past).toHaveLength(0);
+
+      act(() => {
+        store().createNode(null, { title: 'Private' });
+        store().switchSession(sessionNamed('Also shared').id);
+      });
+      expect(rootTitles()).toEqual(['Shared']);
+
+      act(() => {
+        store().switchSession(mainId);
+        store().switchSession(sessionNamed('Own').id);
+      });
+      expect(rootTitles()).toEqual(['Private']);
+    });
+
+    it('saves and loads parked trees with the workspace', () => {
+      act(() => {
+        store().createNode(null, { title: 'Shared' });
+        store().createSession('Own', undefined, true);
+        store().switchSession(sessionNamed('Own').id);
+        store().createNode(null, { title: 'Private' });
+      });
+      const json = JSON.stringify(recordsToPayload(toWorkspaceRecords(store())));
+      resetStores();
+
+      act(() => {
+        store().importData(json);
+      });
+      expect(store().currentSession.name).toBe('Own');
+      expect(rootTitles()).toEqual(['Private']);
+
+      act(() => {
+        store().switchSession(sessionNamed('Main Session').id);
+      });
+      expect(rootTitles()).toEqual(['Shared']);
+    });
+
+    it('keeps templates and snapshots to the tree they were saved from', () => {
+      const mainId = store().currentSession.id;
+      act(() => {
+        const shared = store().createNode(null, { title: 'Shared' });
+        store().createTemplate(shared.id, 'From shared');
+        store().createSnapshot('Of shared');
+        store().createSession('Own', undefined, true);
+        store().switchSession(sessionNamed('Own').id);
+        store().createNode(null, { title: 'Private' });
+      });
+      const [templateId] = Object.keys(store().templates);
+      const [snapshotId] = Object.keys(store().snapshots);
+
+      let applied = true;
+      act(() => {
+        applied = store().applyTemplate(templateId, null);
+        store().restoreSnapshot(snapshotId);
+      });
+      expect(applied).toBe(false);
+      expect(rootTitles()).toEqual(['Private']);
+
+      // Deleting a session with its own tree drops what was saved from it
+      act(() => {
+        store().createSnapshot('Of own');
+        store().switchSession(mainId);
+        store().deleteSession(sessionNamed('Own').id);
+      });
+      expect(Object.values(store().snapshots).map((s) => s.name)).toEqual(['Of shared']);
+      expect(store().applyTemplate(templateId, null)).toBe(true);
+    });
+
+    it('renames, duplicates and reorders sessions', () => {
+      const mainId = store().currentSession.id;
+      act(() => {
+        store().createNode(null, { title: 'Item' });
+        store().createSession('Own', undefined, true);
+        store().renameSession(mainId, 'Main', 'Renamed');
+        store().setRTL(false);
+        store().duplicateSession(mainId);
+      });
+      const names = () =>
+        getOrderedSessions(store().sessions, store().currentSession).map((s) => s.name);
+      expect(store().currentSession).toMatchObject({ name: 'Main', description: 'Renamed' });
+      expect(names()).toEqual(['Main', 'Main (copy)', 'Own']);
+
+      act(() => {
+        store().moveSession(sessionNamed('Own').id, 0);
+      });
+      expect(names()).toEqual(['Own', 'Main', 'Main (copy)']);
+    });
+
+    it('copies an owned tree when duplicating', () => {
+      act(() => {
+        store().createSession('Own', undefined, true);
+        store().switchSession(sessionNamed('Own').id);
+        store().setRTL(false);
+        store().createNode(null, { title: 'Private' });
+        store().duplicateSession(store().currentSession.id);
+        store().createNode(null, { title: 'Only in the original' });
+        store().switchSession(sessionNamed('Own (copy)').id);
+      });
+      expect(rootTitles()).toEqual(['Private']);
+    });
+
+    it('switches away before deleting the current session and keeps the last one', () => {
+      const mainId = store().currentSession.id;
+      act(() => {
+        store().createSession('Own', undefined, true);
+        store().switchSession(sessionNamed('Own').id);
+        store().createNode(null, { title: 'Private' });
+        store().deleteSession(store().currentSession.id);
+      });
+      expect(store().currentSession.id).toBe(mainId);
+      expect(store().sessionTrees).toEqual({});
+      expect(getOrderedSessions(store().sessions, store().currentSession)).toHaveLength(1);
+
+      act(() => {
+        store().deleteSession(mainId);
+      });
+      expect(store().currentSession.id).toBe(mainId);
+    });
+  });
+
+  describe('merge and append import', () => {
+    const setup = () => {
+      let root!: ListNode;
+      let child!: ListNode;
+      act(() => {
+        useStore.getState().setRTL(false);
+        root = useStore.getState().createNode(null, { title: 'Root' });
+        child = useStore.getState().createNode(root.id, { title: 'Child' });
+      });
+      const exported = JSON.parse(useStore.getState().exportData());
+
+      // A colleague renamed both nodes and added one; we renamed the child later
+      const later = Date.now() + 60_000;
+      exported.nodes[root.id] = { ...exported.nodes[root.id], title: 'Root v2', updatedAt: later };
+      exported.nodes[child.id] = { ...exported.nodes[child.id], title: 'Their child' };
+      exported.nodes.extra = { id: 'extra', title: 'Extra', parentId: root.id, level: 1 };
+      exported.nodes[root.id].childrenIds.push('extra');
+      exported.session.fieldSchema = [{ id: 'owner', name: 'Owner', type: 'text' }];
+      exported.templates = { t1: { id: 't1', name: 'Shared', nodes: {}, rootNodeId: 'x' } };
+      act(() => {
+        useStore.getState().updateNode(child.id, { title: 'Our child' });
+      });
+
+      return { root, child, json: JSON.stringify(exported) };
+    };
+
+    it('previews and merges by id as one undo step', () => {
+      const { root, child, json } = setup();
+
+      const preview = useStore.getState().previewImport(json);
+      expect(preview.added.map((node) => node.id)).toEqual(['extra']);
+      expect(preview.changed.map((change) => change.id)).toEqual([root.id]);
+      expect(preview.conflicts.map((change) => change.id)).toEqual([child.id]);
+
+      const before = useStore.getState().history.past.length;
+      act(() => {
+        useStore.getState().mergeImport(json, { [child.id]: 'local' });
+      });
+
+      const state = useStore.getState();
+      expect(state.nodes[root.id].title).toBe('Root v2');
+      expect(state.nodes[child.id].title).toBe('Our child');
+      expect(state.nodes[root.id].childrenIds).toEqual([child.id, 'extra']);
+      expect(state.nodes.extra).toMatchObject({ parentId: root.id, level: 1 });
+      expect(state.currentSession.fieldSchema.map((field) => field.id)).toContain('owner');
+      expect(state.templates.t1).toBeDefined();
+      expect(state.history.past).toHaveLength(before + 1);
+      expect(state.history.past[before].label).toBe('Merge import: 1 added, 1 updated');
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes[root.id].title).toBe('Root');
+      expect(useStore.getState().nodes.extra).toBeUndefined();
+      // As the import dialog says, the file's fields and templates stay
+      const undone = useStore.getState();
+      expect(undone.currentSession.fieldSchema.map((field) => field.id)).toContain('owner');
+      expect(undone.templates.t1).toBeDefined();
+    });
+
+    it('takes the file version of a conflict when resolved that way', () => {
+      const { child, json } = setup();
+
+      act(() => {
+        useStore.getState().mergeImport(json, { [child.id]: 'incoming' });
+      });
+      expect(useStore.getState().nodes[child.id].title).toBe('Their child');
+    });
+
+    it('appends the file as new roots with fresh ids', () => {
+      const { root, json } = setup();
+
+      let count = 0;
+      act(() => {
+        count = useStore.getState().appendImport(json);
+      });
+
+      const state = useStore.getState();
+      expect(count).toBe(3);
+      expect(state.rootNodeIds).toHaveLength(2);
+      const copy = state.nodes[state.rootNodeIds[1]];
+      expect(copy.id).not.toBe(root.id);
+      expect(copy.title).toBe('Root v2');
+      expect(state.nodes[root.id].title).toBe('Root');
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().rootNodeIds).toEqual([root.id]);
+    });
   });
 
   describe('export and auto-save safeguards', () => {
@@ -201,39 +1057,209 @@ describe('useStore integration', () => {
       expect(parsed).toHaveProperty('session');
       expect(parsed).toHaveProperty('templates');
       expect(parsed).toHaveProperty('snapshots');
+      expect(parsed.schemaVersion).toBe(APP_CONFIG.SCHEMA_VERSION);
+    });
+
+    it('refuses files from a newer schema version without touching the tree', () => {
+      let node!: ListNode;
+      act(() => {
+        node = useStore.getState().createNode(null, { title: 'Keep me' });
+      });
+      const json = JSON.stringify({
+        schemaVersion: APP_CONFIG.SCHEMA_VERSION + 1,
+        nodes: {},
+        rootNodeIds: [],
+      });
+
+      expect(() => useStore.getState().importData(json)).toThrow(/newer version/);
+      expect(() => useStore.getState().previewImport(json)).toThrow(/newer version/);
+      expect(useStore.getState().rootNodeIds).toEqual([node.id]);
+    });
+
+    it('sanitizes tags and migrates legacy auto-tag output', () => {
+      const json = JSON.stringify({
+        nodes: {
+          a: {
+            title: 'Legacy',
+            tags: ['work', 7, ' #work '],
+            sandboxProps: { tags: ['bug'], estimate: 3 },
+          },
+        },
+        rootNodeIds: ['a'],
+      });
+
+      act(() => {
+        useStore.getState().importData(json);
+      });
+
+      const node = useStore.getState().nodes.a;
+      expect(node.tags).toEqual(['work', 'bug']);
+      expect(node.sandboxProps).toEqual({ estimate: 3 });
+
+      act(() => {
+        useStore.getState().updateNode('a', { tags: ['#home', 'home', ''] });
+      });
+      expect(useStore.getState().nodes.a.tags).toEqual(['home']);
+
+      act(() => {
+        useStore.getState().updateNode('a', { tags: [] });
+      });
+      expect(useStore.getState().nodes.a.tags).toBeUndefined();
     });
 
-    it('debounces auto-save and writes to localStorage once', () => {
+    it('validates custom field values against the schema', () => {
+      const json = JSON.stringify({
+        nodes: {
+          a: {
+            title: 'Task',
+            sandboxProps: { fields: { status: 'blocked', estimate: '3', gone: 'x' } },
+          },
+        },
+        rootNodeIds: ['a'],
+        session: {
+          fieldSchema: [
+            { id: 'status', name: 'Status', type: 'single-select', options: ['todo', 'done'] },
+            { id: 'estimate', name: 'Estimate', type: 'number' },
+          ],
+          boardGroupBy: 'field:status',
+        },
+      });
+
+      act(() => {
+        useStore.getState().importData(json);
+      });
+      expect(useStore.getState().nodes.a.sandboxProps).toEqual({ fields: { estimate: 3 } });
+
+      act(() => {
+        useStore.getState().setNodeField('a', 'status', 'done');
+      });
+      expect(useStore.getState().nodes.a.sandboxProps?.fields.status).toBe('done');
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes.a.sandboxProps?.fields.status).toBeUndefined();
+
+      act(() => {
+        useStore.getState().deleteCustomField('status');
+      });
+      const session = useStore.getState().currentSession;
+      expect(session.fieldSchema.map((field) => field.id)).toEqual(['estimate']);
+      expect(session.boardGroupBy).toBeUndefined();
+    });
+
+    it('schedules nodes with validated, ordered dates', () => {
+      const json = JSON.stringify({
+        nodes: { a: { title: 'Plan', startDate: '2024-02-31', dueDate: '2024-03-04' } },
+        rootNodeIds: ['a'],
+      });
+
+      act(() => {
+        useStore.getState().importData(json);
+      });
+      expect(useStore.getState().nodes.a.startDate).toBeUndefined();
+      expect(useStore.getState().nodes.a.dueDate).toBe('2024-03-04');
+
+      act(() => {
+        useStore.getState().setRTL(false);
+        useStore.getState().scheduleNode('a', { startDate: '2024-03-10', dueDate: '2024-03-04' });
+      });
+      expect(useStore.getState().nodes.a).toMatchObject({
+        startDate: '2024-03-04',
+        dueDate: '2024-03-10',
+      });
+      expect(useStore.getState().history.past.at(-1)?.label).toBe("Schedule 'Plan'");
+
+      act(() => {
+        useStore.getState().undo();
+      });
+      expect(useStore.getState().nodes.a.startDate).toBeUndefined();
+    });
+
+    it('keeps board layout settings that are well formed', () => {
+      const json = JSON.stringify({
+        nodes: {},
+        rootNodeIds: [],
+        session: {
+          boardGroupBy: 'done',
+          boardSwimlanes: true,
+          boardColumns: {
+            done: { order: ['value:done', 7], wipLimits: { 'value:open': 3, 'value:done': -1 } },
+            bogus: { order: ['x'], wipLimits: {} },
+          },
+        },
+      });
+
+      act(() => {
+        useStore.getState().importData(json);
+      });
+
+      const session = useStore.getState().currentSession;
+      expect(session.boardGroupBy).toBe('done');
+      expect(session.boardSwimlanes).toBe(true);
+      expect(session.boardColumns).toEqual({
+        done: { order: ['value:done'], wipLimits: { 'value:open': 3 } },
+      });
+    });
+
+    it('round-trips custom shortcut profiles with the session', () => {
+      const custom = {
+        id: 'custom-1',
+        name: 'Mine',
+        shortcuts: { ...DEFAULT_SHORTCUTS.shortcuts, undo: 'Alt+u' },
+      };
+
+      act(() => {
+        useStore.getState().updateSession({
+          shortcutsProfile: custom,
+          customShortcutsProfiles: { [custom.id]: custom, default: DEFAULT_SHORTCUTS },
+        });
+      });
+
+      const json = useStore.getState().exportData();
+      resetStores();
+      act(() => {
+        useStore.getState().importData(json);
+      });
+
+      const session = useStore.getState().currentSession;
+      expect(session.shortcutsProfile).toEqual(custom);
+      // Built-in ids are never stored as custom profiles
+      expect(Object.keys(session.customShortcutsProfiles)).toEqual([custom.id]);
+    });
+
+    it('debounces auto-save and saves once', async () => {
       vi.useFakeTimers();
-      const setItemSpy = vi.spyOn(window.localStorage, 'setItem');
-      const { result } = renderHook(() => useAutoSave());
+      const storage = {
+        load: vi.fn(async () => null),
+        adopt: vi.fn(),
+        save: vi.fn(async () => ({ written: 1, stale: false })),
+        hasUnsavedChanges: vi.fn(() => false),
+        onRemoteSave: vi.fn(() => () => {}),
+      };
+      const { result } = renderHook(() => useAutoSave(storage));
 
       act(() => {
         useStore.getState().createNode(null, { title: 'Auto Save' });
       });
 
       expect(result.current.hasPendingChanges).toBe(true);
-      expect(setItemSpy).not.toHaveBeenCalled();
+      expect(storage.save).not.toHaveBeenCalled();
 
       act(() => {
         vi.advanceTimersByTime(APP_CONFIG.AUTO_SAVE_INTERVAL - 1);
       });
 
-      expect(setItemSpy).not.toHaveBeenCalled();
+      expect(storage.save).not.toHaveBeenCalled();
 
-      act(() => {
-        vi.advanceTimersByTime(1);
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(1);
       });
 
-      expect(setItemSpy).toHaveBeenCalledTimes(1);
-      expect(setItemSpy).toHaveBeenCalledWith(
-        APP_CONFIG.STORAGE_KEY,
-        expect.any(String)
-      );
+      expect(storage.save).toHaveBeenCalledTimes(1);
+      expect(storage.save).toHaveBeenCalledWith(useStore.getState());
       expect(result.current.hasPendingChanges).toBe(false);
       expect(result.current.lastSavedAt).not.toBeNull();
-
-      setItemSpy.mockRestore();
     });
   });
 });
@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+import { CollabPeer, CollabStatus } from '../collab/client';
+
+// Connection state of the collaboration client, kept out of the persisted store
+type CollabState = {
+  status: CollabStatus;
+  peers: CollabPeer[];
+  setStatus: (status: CollabStatus) => void;
+  setPeers: (peers: CollabPeer[]) => void;
+  reset: () => void;
+};
+
+export const useCollabStore = create<CollabState>((set) => ({
+  status: 'offline',
+  peers: [],
+  setStatus: (status) => set({ status }),
+  setPeers: (peers) => set({ peers }),
+  reset: () => set({ status: 'offline', peers: [] }),
+}));
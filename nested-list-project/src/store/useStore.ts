@@ -1,14 +1,20 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import { applyPatches, enablePatches, Patch, produce, produceWithPatches } from 'immer';
 import {
   AppState,
   ListNode,
   ListNodeId,
   SandboxSession,
+  SessionTree,
   ViewMode,
   FilterConfig,
   Template,
   Snapshot,
+  SandboxPlugin,
+  PluginSettings,
+  HistoryEntry,
+  CustomFieldDefinition,
 } from '../types/core';
 import {
   createNode,
@@ -16,12 +22,48 @@ import {
   getAllChildren,
   cloneSubtree,
   canMoveNode,
+  getTreeOrder,
+  getTopmostIds,
 } from '../utils/nodeHelpers';
+import { applyRules, applyTimeRules } from '../utils/rules';
+import { normalizeTag, sanitizeTags } from '../utils/tags';
+import { sanitizeDateKey } from '../utils/schedule';
+import { isBoardGroupBy } from '../utils/board';
+import { ClipboardPayload } from '../utils/clipboard';
+import {
+  DepthOverflowMode,
+  fitSubtreeToDepth,
+  getTreeDepth,
+  ImportedTree,
+  OutlineImportResult,
+} from '../utils/importers';
+import {
+  ConflictResolution,
+  isSameNode,
+  mergeFieldSchemas,
+  MergePreview,
+  mergeTrees,
+  previewMerge,
+} from '../utils/merge';
+import {
+  FIELD_VALUES_KEY,
+  sanitizeFieldSchema,
+  sanitizeFieldValue,
+  sanitizeFieldValues,
+  withFieldValue,
+} from '../utils/customFields';
+import { migratePayload } from '../utils/migrations';
+import { getOrderedSessions, getSessionTreeKey, isInTree } from '../utils/sessions';
+import type { CollabTree } from '../collab/document';
+import { invokePluginHook, PluginHostState } from '../plugins/host';
+import { getBuiltInPlugin } from '../plugins';
 import { DEFAULT_DARK_THEME } from '../constants/themes';
-import { DEFAULT_SHORTCUTS } from '../constants/shortcuts';
+import { DEFAULT_SHORTCUTS, SHORTCUTS_PROFILES } from '../constants/shortcuts';
 import { APP_CONFIG } from '../constants/config';
 import { useToastStore } from './useToastStore';
 
+enablePatches();
+
 /**
  * Initial state
  */
@@ -35,6 +77,8 @@ const createInitialSession = (): SandboxSession => ({
   selectedNodeIds: [],
   theme: DEFAULT_DARK_THEME,
   shortcutsProfile: DEFAULT_SHORTCUTS,
+  customShortcutsProfiles: {},
+  fieldSchema: [],
   historyEnabled: true,
   createdAt: Date.now(),
   updatedAt: Date.now(),
@@ -45,17 +89,270 @@ const initialState: AppState = {
   rootNodeIds: [],
   currentSession: createInitialSession(),
   sessions: {},
+  sessionTrees: {},
   templates: {},
   snapshots: {},
   plugins: [],
+  pluginSettings: {},
   filterConfig: {},
   commandPaletteOpen: false,
+  detailNodeId: null,
   history: {
     past: [],
     future: [],
+    isTrimmed: false,
   },
 };
 
+/**
+ * Evaluate the session's enabled rules inside the current draft, so their
+ * effects land in the same history entry as the triggering mutation.
+ */
+const runRules = (draft: AppState, affectedIds: (ListNodeId | null)[]) => {
+  applyRules(
+    draft.currentSession.rules,
+    draft,
+    affectedIds.filter((id): id is ListNodeId => !!id)
+  );
+};
+
+/**
+ * History - each undoable action is recorded as the Immer patches it made to
+ * the tree, so memory grows with the size of the change, not of the tree
+ */
+const isTreePatch = (patch: Patch) => patch.path[0] === 'nodes' || patch.path[0] === 'rootNodeIds';
+
+const pushHistoryEntry = (history: AppState['history'], entry: HistoryEntry) => {
+  history.past.push(entry);
+  history.future = [];
+
+  // Bound by entry count and by total patch count
+  let patchCount = history.past.reduce((sum, e) => sum + e.patches.length, 0);
+  while (
+    history.past.length > 1 &&
+    (history.past.length > APP_CONFIG.MAX_HISTORY_ITEMS ||
+      patchCount > APP_CONFIG.MAX_HISTORY_PATCHES)
+  ) {
+    patchCount -= history.past.shift()!.patches.length;
+    history.isTrimmed = true;
+  }
+};
+
+/**
+ * After collaborators changed `changedIds` (and the root order, when
+ * `rootsChanged`), steps touching the same records can't be replayed. Undo
+ * and redo each keep the steps up to the first such one in replay order.
+ */
+const dropConflictingHistory = (
+  history: AppState['history'],
+  changedIds: Set<ListNodeId>,
+  rootsChanged: boolean
+) => {
+  const touches = (patch: Patch) =>
+    patch.path[0] === 'rootNodeIds'
+      ? rootsChanged
+      : patch.path.length < 2 || changedIds.has(String(patch.path[1]));
+  const conflicts = (entry: HistoryEntry) =>
+    entry.patches.some(touches) || entry.inversePatches.some(touches);
+  const replayable = (entries: HistoryEntry[]) => {
+    let index = entries.length - 1;
+    while (index >= 0 && !conflicts(entries[index])) index--;
+    return index === -1 ? entries : entries.slice(index + 1);
+  };
+
+  const past = replayable(history.past);
+  if (past.length < history.past.length) history.isTrimmed = true;
+  history.past = past;
+  history.future = replayable(history.future);
+};
+
+/**
+ * Replace-only patch lists collapse to the last write per path
+ */
+const compactPatches = (patches: Patch[]): Patch[] => {
+  if (patches.some((patch) => patch.op !== 'replace')) return patches;
+  const byPath = new Map<string, Patch>();
+  patches.forEach((patch) => {
+    const key = JSON.stringify(patch.path);
+    byPath.delete(key);
+    byPath.set(key, patch);
+  });
+  return Array.from(byPath.values());
+};
+
+const mergeHistoryEntries = (earlier: HistoryEntry, later: HistoryEntry): HistoryEntry => ({
+  ...later,
+  id: earlier.id,
+  patches: compactPatches([...earlier.patches, ...later.patches]),
+  inversePatches: compactPatches([...later.inversePatches, ...earlier.inversePatches]),
+});
+
+/**
+ * Apply a mutation and record its tree changes as one undo step. Entries
+ * sharing a `coalesceKey` within HISTORY_COALESCE_WINDOW merge into one.
+ */
+const commitWithHistory = (
+  set: (partial: Partial<AppState>) => void,
+  get: () => AppState,
+  label: string,
+  recipe: (draft: AppState) => void,
+  coalesceKey?: string
+) => {
+  const state = get();
+  const [next, patches, inversePatches] = produceWithPatches(state, recipe);
+  const treePatches = patches.filter(isTreePatch);
+
+  if (treePatches.length === 0 || !state.currentSession.historyEnabled) {
+    set(next);
+    return;
+  }
+
+  const entry: HistoryEntry = {
+    id: generateId(),
+    label,
+    timestamp: Date.now(),
+    patches: treePatches,
+    inversePatches: inversePatches.filter(isTreePatch),
+    coalesceKey,
+  };
+
+  const { past, future } = state.history;
+  const last = past[past.length - 1];
+  const shouldCoalesce =
+    !!coalesceKey &&
+    future.length === 0 &&
+    last?.coalesceKey === coalesceKey &&
+    entry.timestamp - last.timestamp <= APP_CONFIG.HISTORY_COALESCE_WINDOW;
+
+  set(
+    produce(next, (draft) => {
+      if (shouldCoalesce) {
+        draft.history.past[draft.history.past.length - 1] = mergeHistoryEntries(last, entry);
+      } else {
+        pushHistoryEntry(draft.history, entry);
+      }
+    })
+  );
+};
+
+const quoteTitle = (node: ListNode | undefined, rtl: boolean) =>
+  node?.title ? `'${node.title}'` : rtl ? 'פריט ללא כותרת' : 'untitled item';
+
+/**
+ * Plugin notifications, dispatched after the store has been updated
+ */
+const notifyNodeUpdate = (get: () => PluginHostState, prev: ListNode | undefined) => {
+  if (!prev) return;
+  const next = get().nodes[prev.id];
+  if (!next || next === prev) return;
+  invokePluginHook(get, 'onNodeUpdate', (plugin, ctx) =>
+    plugin.onNodeUpdate!(prev, next, ctx)
+  );
+};
+
+/**
+ * Hooks for every node an action created, updated or deleted, found by
+ * comparing the tree before it with the tree after - for actions that add or
+ * replace many nodes at once
+ */
+const notifyNodeChanges = (
+  get: () => PluginHostState,
+  before: Record<ListNodeId, ListNode>
+) => {
+  const after = get().nodes;
+  if (after === before) return;
+
+  Object.values(after).forEach((node) => {
+    const prev = before[node.id];
+    if (!prev) {
+      invokePluginHook(get, 'onNodeCreate', (plugin, ctx) => plugin.onNodeCreate!(node, ctx));
+    } else if (prev !== node) {
+      invokePluginHook(get, 'onNodeUpdate', (plugin, ctx) =>
+        plugin.onNodeUpdate!(prev, node, ctx)
+      );
+    }
+  });
+  Object.values(before).forEach((node) => {
+    if (after[node.id]) return;
+    invokePluginHook(get, 'onNodeDelete', (plugin, ctx) => plugin.onNodeDelete!(node, ctx));
+  });
+};
+
+const notifySessionChange = (get: () => PluginHostState) => {
+  invokePluginHook(get, 'onSessionChange', (plugin, ctx) =>
+    plugin.onSessionChange!(get().currentSession, ctx)
+  );
+};
+
+/**
+ * Tree edits on a draft, shared by the single-node and bulk actions
+ */
+const detachNode = (draft: AppState, id: ListNodeId) => {
+  const parentId = draft.nodes[id]?.parentId;
+  if (parentId && draft.nodes[parentId]) {
+    const parent = draft.nodes[parentId];
+    parent.childrenIds = parent.childrenIds.filter((cid) => cid !== id);
+  } else {
+    draft.rootNodeIds = draft.rootNodeIds.filter((rid) => rid !== id);
+  }
+};
+
+const relocateNode = (
+  draft: AppState,
+  id: ListNodeId,
+  newParentId: ListNodeId | null,
+  position?: number
+) => {
+  detachNode(draft, id);
+
+  // Update the node's parent and the levels of its whole subtree
+  const updateLevels = (nid: ListNodeId, level: number) => {
+    const n = draft.nodes[nid];
+    if (!n) return;
+    n.level = level;
+    n.childrenIds.forEach((cid) => updateLevels(cid, level + 1));
+  };
+  draft.nodes[id].parentId = newParentId;
+  draft.nodes[id].updatedAt = Date.now();
+  updateLevels(id, newParentId ? draft.nodes[newParentId].level + 1 : 0);
+
+  const siblings =
+    newParentId && draft.nodes[newParentId]
+      ? draft.nodes[newParentId].childrenIds
+      : draft.rootNodeIds;
+  if (position !== undefined) {
+    siblings.splice(position, 0, id);
+  } else {
+    siblings.push(id);
+  }
+};
+
+/**
+ * Remove a node with its descendants, dropping them from selection and focus;
+ * returns the removed ids
+ */
+const removeSubtree = (draft: AppState, id: ListNodeId): ListNodeId[] => {
+  const removed = [id, ...getAllChildren(id, draft.nodes).map((n) => n.id)];
+  detachNode(draft, id);
+  removed.forEach((nid) => {
+    delete draft.nodes[nid];
+  });
+
+  draft.currentSession.selectedNodeIds = draft.currentSession.selectedNodeIds.filter(
+    (sid) => !removed.includes(sid)
+  );
+  if (
+    draft.currentSession.focusedNodeId &&
+    removed.includes(draft.currentSession.focusedNodeId)
+  ) {
+    draft.currentSession.focusedNodeId = undefined;
+  }
+  return removed;
+};
+
+const countLabel = (count: number, rtl: boolean) =>
+  rtl ? `${count} פריטים` : `${count} items`;
+
 const clampLevel = (level: number): number => {
   if (!Number.isFinite(level)) return 0;
   return Math.min(APP_CONFIG.MAX_DEPTH - 1, Math.max(0, Math.trunc(level)));
@@ -89,21 +386,55 @@ const sanitizeTheme = (value: unknown) => {
   return DEFAULT_DARK_THEME;
 };
 
+const isShortcutsProfile = (value: unknown): value is SandboxSession['shortcutsProfile'] =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as any).id === 'string' &&
+  typeof (value as any).name === 'string' &&
+  !!(value as any).shortcuts &&
+  typeof (value as any).shortcuts === 'object';
+
 const sanitizeShortcuts = (value: unknown) => {
-  if (
-    value &&
-    typeof value === 'object' &&
-    typeof (value as any).id === 'string' &&
-    typeof (value as any).name === 'string' &&
-    (value as any).shortcuts &&
-    typeof (value as any).shortcuts === 'object'
-  ) {
-    return value as SandboxSession['shortcutsProfile'];
+  if (isShortcutsProfile(value)) {
+    // Built-in profiles always come from code, so saved copies pick up new bindings
+    return SHORTCUTS_PROFILES[value.id] ?? value;
   }
   return DEFAULT_SHORTCUTS;
 };
 
-const sanitizeNode = (raw: any): ListNode => {
+const sanitizeCustomShortcuts = (value: unknown) => {
+  const profiles: SandboxSession['customShortcutsProfiles'] = {};
+  if (!value || typeof value !== 'object') return profiles;
+
+  Object.values(value as Record<string, unknown>).forEach((profile) => {
+    if (isShortcutsProfile(profile) && !SHORTCUTS_PROFILES[profile.id]) {
+      profiles[profile.id] = profile;
+    }
+  });
+  return profiles;
+};
+
+const sanitizeBoardColumns = (value: unknown): SandboxSession['boardColumns'] => {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const columns: NonNullable<SandboxSession['boardColumns']> = {};
+  Object.entries(value as Record<string, any>).forEach(([groupBy, settings]) => {
+    if (!isBoardGroupBy(groupBy) || !settings || typeof settings !== 'object') return;
+
+    const wipLimits: Record<string, number> = {};
+    if (settings.wipLimits && typeof settings.wipLimits === 'object') {
+      Object.entries(settings.wipLimits as Record<string, unknown>).forEach(([key, limit]) => {
+        if (typeof limit === 'number' && Number.isInteger(limit) && limit > 0) {
+          wipLimits[key] = limit;
+        }
+      });
+    }
+    columns[groupBy] = { order: sanitizeStringArray(settings.order), wipLimits };
+  });
+  return Object.keys(columns).length > 0 ? columns : undefined;
+};
+
+const sanitizeNode = (raw: any, fieldSchema: CustomFieldDefinition[]): ListNode => {
   if (!raw || typeof raw !== 'object') {
     throw new Error('Invalid node format');
   }
@@ -112,6 +443,17 @@ const sanitizeNode = (raw: any): ListNode => {
   const id = typeof raw.id === 'string' ? raw.id : generateId();
   const level = clampLevel(typeof raw.level === 'number' ? raw.level : 0);
 
+  const sandboxProps: Record<string, any> =
+    raw.sandboxProps && typeof raw.sandboxProps === 'object' ? { ...raw.sandboxProps } : {};
+  const tags = sanitizeTags(raw.tags);
+
+  // Custom field values must match the session schema
+  const fieldValues = sanitizeFieldValues(sandboxProps[FIELD_VALUES_KEY], fieldSchema);
+  delete sandboxProps[FIELD_VALUES_KEY];
+  if (Object.keys(fieldValues).length > 0) {
+    sandboxProps[FIELD_VALUES_KEY] = fieldValues;
+  }
+
   return {
     id,
     parentId: typeof raw.parentId === 'string' ? raw.parentId : null,
@@ -129,10 +471,10 @@ const sanitizeNode = (raw: any): ListNode => {
     isPinned: typeof raw.isPinned === 'boolean' ? raw.isPinned : undefined,
     isHighlighted:
       typeof raw.isHighlighted === 'boolean' ? raw.isHighlighted : undefined,
-    sandboxProps:
-      raw.sandboxProps && typeof raw.sandboxProps === 'object'
-        ? (raw.sandboxProps as Record<string, any>)
-        : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    startDate: sanitizeDateKey(raw.startDate),
+    dueDate: sanitizeDateKey(raw.dueDate),
+    sandboxProps: Object.keys(sandboxProps).length > 0 ? sandboxProps : undefined,
     createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : now,
     updatedAt:
       typeof raw.updatedAt === 'number'
@@ -143,7 +485,10 @@ const sanitizeNode = (raw: any): ListNode => {
   };
 };
 
-const sanitizeNodesMap = (value: unknown): Record<ListNodeId, ListNode> => {
+const sanitizeNodesMap = (
+  value: unknown,
+  fieldSchema: CustomFieldDefinition[]
+): Record<ListNodeId, ListNode> => {
   if (value === undefined || value === null) return {};
   if (typeof value !== 'object') {
     throw new Error('Nodes must be an object');
@@ -151,13 +496,71 @@ const sanitizeNodesMap = (value: unknown): Record<ListNodeId, ListNode> => {
 
   const nodes: Record<ListNodeId, ListNode> = {};
   Object.entries(value as Record<string, any>).forEach(([key, nodeValue]) => {
-    const node = sanitizeNode({ id: key, ...nodeValue });
+    const node = sanitizeNode({ id: key, ...nodeValue }, fieldSchema);
     nodes[node.id] = node;
   });
 
   return nodes;
 };
 
+/**
+ * Clone detached subtrees (pasted or imported) for insertion at `level`,
+ * validated like imported data and fitted to MAX_DEPTH
+ */
+const prepareSubtrees = (
+  tree: ImportedTree,
+  parentId: ListNodeId | null,
+  level: number,
+  fieldSchema: CustomFieldDefinition[],
+  overflowMode: Exclude<DepthOverflowMode, 'reject'>
+) => {
+  const source = sanitizeNodesMap(tree.nodes, fieldSchema);
+  Object.values(source).forEach((node) => {
+    node.childrenIds = node.childrenIds.filter((id) => source[id]);
+  });
+
+  const newNodes: Record<ListNodeId, ListNode> = {};
+  const ids: ListNodeId[] = [];
+  let overflow = 0;
+  tree.rootIds
+    .filter((id) => source[id])
+    .forEach((rootId) => {
+      const clone = cloneSubtree(rootId, source, parentId);
+      Object.assign(newNodes, clone.newNodes);
+      const fitted = fitSubtreeToDepth(
+        clone.node.id,
+        newNodes,
+        level,
+        APP_CONFIG.MAX_DEPTH - 1,
+        overflowMode
+      );
+      fitted.ids.forEach((id) => {
+        newNodes[id].parentId = parentId;
+      });
+      ids.push(...fitted.ids);
+      overflow += fitted.overflow;
+    });
+
+  return { newNodes, ids, overflow };
+};
+
+const insertSubtrees = (
+  draft: AppState,
+  newNodes: Record<ListNodeId, ListNode>,
+  ids: ListNodeId[],
+  parentId: ListNodeId | null
+) => {
+  Object.assign(draft.nodes, newNodes);
+  if (parentId) {
+    draft.nodes[parentId].childrenIds.push(...ids);
+    draft.nodes[parentId].isCollapsed = false;
+  } else {
+    draft.rootNodeIds.push(...ids);
+  }
+  draft.currentSession.selectedNodeIds = ids;
+  runRules(draft, [...Object.keys(newNodes), parentId]);
+};
+
 const sanitizeSession = (
   value: unknown,
   nodes: Record<ListNodeId, ListNode>
@@ -194,6 +597,21 @@ const sanitizeSession = (
     focusPath: sanitizeStringArray((value as any).focusPath),
     theme: sanitizeTheme((value as any).theme),
     shortcutsProfile: sanitizeShortcuts((value as any).shortcutsProfile),
+    customShortcutsProfiles: sanitizeCustomShortcuts((value as any).customShortcutsProfiles),
+    fieldSchema: sanitizeFieldSchema((value as any).fieldSchema),
+    boardGroupBy: isBoardGroupBy((value as any).boardGroupBy)
+      ? (value as any).boardGroupBy
+      : undefined,
+    boardColumns: sanitizeBoardColumns((value as any).boardColumns),
+    boardSwimlanes:
+      typeof (value as any).boardSwimlanes === 'boolean'
+        ? (value as any).boardSwimlanes
+        : undefined,
+    timelineZoom: ['day', 'week', 'month'].includes((value as any).timelineZoom)
+      ? (value as any).timelineZoom
+      : undefined,
+    ownsTree: (value as any).ownsTree === true ? true : undefined,
+    order: typeof (value as any).order === 'number' ? (value as any).order : undefined,
     historyEnabled:
       typeof (value as any).historyEnabled === 'boolean'
         ? (value as any).historyEnabled
@@ -209,6 +627,45 @@ const sanitizeSession = (
   };
 };
 
+// Saved workspaces keep every session; exported files only the current one
+const sanitizeSessions = (
+  value: unknown,
+  nodes: Record<ListNodeId, ListNode>
+): Record<string, SandboxSession> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const sessions: Record<string, SandboxSession> = {};
+  Object.values(value as Record<string, unknown>).forEach((sessionValue) => {
+    if (!sessionValue || typeof sessionValue !== 'object') return;
+    const session = sanitizeSession(sessionValue, nodes);
+    sessions[session.id] = session;
+  });
+  return sessions;
+};
+
+// Parked trees are checked against the schemas of the sessions that work on them
+const sanitizeSessionTrees = (
+  value: unknown,
+  sessions: Record<string, SandboxSession>
+): Record<string, SessionTree> => {
+  if (!value || typeof value !== 'object') return {};
+  const trees: Record<string, SessionTree> = {};
+  Object.entries(value as Record<string, any>).forEach(([key, treeValue]) => {
+    if (!treeValue || typeof treeValue !== 'object') return;
+    const fieldSchema = Object.values(sessions)
+      .filter((session) => getSessionTreeKey(session) === key)
+      .reduce<CustomFieldDefinition[]>(
+        (schema, session) => mergeFieldSchemas(schema, session.fieldSchema),
+        []
+      );
+    const nodes = sanitizeNodesMap(treeValue.nodes, fieldSchema);
+    trees[key] = {
+      nodes,
+      rootNodeIds: sanitizeStringArray(treeValue.rootNodeIds).filter((id) => !!nodes[id]),
+    };
+  });
+  return trees;
+};
+
 const sanitizeTemplates = (value: unknown): Record<string, Template> => {
   if (!value || typeof value !== 'object') return {};
   const templates: Record<string, Template> = {};
@@ -227,6 +684,7 @@ const sanitizeTemplates = (value: unknown): Record<string, Template> => {
           : undefined,
       rootNodeId: templateValue.rootNodeId,
       tags: sanitizeStringArray(templateValue.tags),
+      treeKey: typeof templateValue.treeKey === 'string' ? templateValue.treeKey : undefined,
       createdAt:
         typeof templateValue.createdAt === 'number' ? templateValue.createdAt : now,
     };
@@ -234,7 +692,10 @@ const sanitizeTemplates = (value: unknown): Record<string, Template> => {
   return templates;
 };
 
-const sanitizeSnapshots = (value: unknown): Record<string, Snapshot> => {
+const sanitizeSnapshots = (
+  value: unknown,
+  fieldSchema: CustomFieldDefinition[]
+): Record<string, Snapshot> => {
   if (!value || typeof value !== 'object') return {};
   const snapshots: Record<string, Snapshot> = {};
 
@@ -246,7 +707,7 @@ const sanitizeSnapshots = (value: unknown): Record<string, Snapshot> => {
 
     if (typeof id !== 'string' || typeof sessionId !== 'string') return;
 
-    const nodes = sanitizeNodesMap((snapshotValue as any).nodes);
+    const nodes = sanitizeNodesMap((snapshotValue as any).nodes, fieldSchema);
     const rootNodeIds = sanitizeStringArray((snapshotValue as any).rootNodeIds).filter(
       (rid) => !!nodes[rid]
     );
@@ -262,6 +723,10 @@ const sanitizeSnapshots = (value: unknown): Record<string, Snapshot> => {
           ? (snapshotValue as any).description
           : undefined,
       sessionId,
+      treeKey:
+        typeof (snapshotValue as any).treeKey === 'string'
+          ? (snapshotValue as any).treeKey
+          : undefined,
       nodes,
       rootNodeIds,
       createdAt:
@@ -274,28 +739,183 @@ const sanitizeSnapshots = (value: unknown): Record<string, Snapshot> => {
   return snapshots;
 };
 
+/**
+ * Plugins are exported as installed ids plus settings - only built-ins can be
+ * restored, since plugin code isn't part of the file
+ */
+const sanitizePlugins = (value: unknown) => {
+  if (!value || typeof value !== 'object') return null;
+
+  const installed = sanitizeStringArray((value as any).installed)
+    .map((id) => getBuiltInPlugin(id))
+    .filter((plugin): plugin is SandboxPlugin => !!plugin);
+
+  const settings: Record<string, PluginSettings> = {};
+  const rawSettings = (value as any).settings;
+  if (rawSettings && typeof rawSettings === 'object') {
+    Object.entries(rawSettings as Record<string, unknown>).forEach(([id, pluginSettings]) => {
+      if (pluginSettings && typeof pluginSettings === 'object' && !Array.isArray(pluginSettings)) {
+        settings[id] = pluginSettings as PluginSettings;
+      }
+    });
+  }
+
+  return { installed, settings };
+};
+
 const parseImportData = (jsonData: string) => {
-  let parsed: any;
+  let raw: any;
   try {
-    parsed = JSON.parse(jsonData);
+    raw = JSON.parse(jsonData);
   } catch (error) {
     throw new Error('Invalid JSON format');
   }
 
-  if (!parsed || typeof parsed !== 'object') {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
     throw new Error('Imported data must be an object');
   }
 
-  const nodes = sanitizeNodesMap(parsed.nodes);
+  // Upgrade files from older versions; newer ones throw
+  const parsed = migratePayload(raw);
+
+  // Field values are validated against the schema of the imported session
+  const fieldSchema = sanitizeFieldSchema(parsed.session?.fieldSchema);
+  const nodes = sanitizeNodesMap(parsed.nodes, fieldSchema);
   if (parsed.rootNodeIds !== undefined && !Array.isArray(parsed.rootNodeIds)) {
     throw new Error('rootNodeIds must be an array');
   }
   const rootNodeIds = sanitizeStringArray(parsed.rootNodeIds).filter((id) => !!nodes[id]);
   const session = sanitizeSession(parsed.session, nodes);
+  const sessions = sanitizeSessions(parsed.sessions, nodes);
+  const sessionTrees = sessions ? sanitizeSessionTrees(parsed.sessionTrees, sessions) : {};
   const templates = sanitizeTemplates(parsed.templates);
-  const snapshots = sanitizeSnapshots(parsed.snapshots);
+  const snapshots = sanitizeSnapshots(parsed.snapshots, fieldSchema);
+
+  const plugins = sanitizePlugins(parsed.plugins);
+
+  return {
+    nodes,
+    rootNodeIds,
+    session,
+    sessions,
+    sessionTrees,
+    templates,
+    snapshots,
+    plugins,
+  };
+};
+
+type ParsedImport = ReturnType<typeof parseImportData>;
+
+const toImportedTree = (parsed: ParsedImport): ImportedTree => ({
+  rootIds: parsed.rootNodeIds,
+  nodes: parsed.nodes,
+});
+
+/**
+ * Bring along what a non-destructive import adds besides nodes: unknown
+ * field definitions, templates and snapshots. Existing ids are left alone.
+ * Like sessions, these aren't part of history - undoing the import keeps them.
+ */
+const addImportExtras = (
+  draft: AppState,
+  parsed: ParsedImport,
+  fieldSchema: CustomFieldDefinition[]
+) => {
+  draft.currentSession.fieldSchema = fieldSchema;
+  const treeKey = getSessionTreeKey(draft.currentSession);
+  Object.values(parsed.templates).forEach((template) => {
+    if (!draft.templates[template.id]) draft.templates[template.id] = { ...template, treeKey };
+  });
+  Object.values(parsed.snapshots).forEach((snapshot) => {
+    if (!draft.snapshots[snapshot.id]) draft.snapshots[snapshot.id] = { ...snapshot, treeKey };
+  });
+};
+
+/**
+ * `current` with the templates or snapshots of one tree replaced by those
+ * of a file exported from that tree
+ */
+const replaceTreeItems = <T extends { id: string; treeKey?: string }>(
+  current: Record<string, T>,
+  incoming: Record<string, T>,
+  treeKey: string
+): Record<string, T> => {
+  const items: Record<string, T> = {};
+  Object.values(current).forEach((item) => {
+    if (!isInTree(item, treeKey)) items[item.id] = item;
+  });
+  Object.values(incoming).forEach((item) => {
+    items[item.id] = { ...item, treeKey };
+  });
+  return items;
+};
+
+// Exported files carry the templates or snapshots of the session's tree only
+const pickTreeItems = <T extends { id: string; treeKey?: string }>(
+  items: Record<string, T>,
+  treeKey: string
+): Record<string, T> =>
+  Object.fromEntries(
+    Object.values(items)
+      .filter((item) => isInTree(item, treeKey))
+      .map((item) => [item.id, item])
+  );
 
-  return { nodes, rootNodeIds, session, templates, snapshots };
+/**
+ * Write a merged tree over the one on screen. Only what the merge changed is
+ * touched, so the undo step stays small.
+ */
+const applyMergedTree = (draft: AppState, state: AppState, merged: ImportedTree) => {
+  const touched: ListNodeId[] = [];
+  Object.values(merged.nodes).forEach((node) => {
+    if (isSameNode(state.nodes[node.id], node)) return;
+    draft.nodes[node.id] = node;
+    touched.push(node.id);
+  });
+  if (JSON.stringify(state.rootNodeIds) !== JSON.stringify(merged.rootIds)) {
+    draft.rootNodeIds = merged.rootIds;
+  }
+  runRules(draft, touched);
+};
+
+/**
+ * Put `next` on screen, writing the outgoing session back to `sessions`.
+ * When the two work on different trees, the tree on screen is parked in
+ * `sessionTrees` and the other one takes its place.
+ */
+const activateSession = (draft: AppState, state: AppState, next: SandboxSession) => {
+  draft.sessions[state.currentSession.id] = state.currentSession;
+
+  let nodes = state.nodes;
+  const outgoingKey = getSessionTreeKey(state.currentSession);
+  const incomingKey = getSessionTreeKey(next);
+  if (outgoingKey !== incomingKey) {
+    const incoming = state.sessionTrees[incomingKey] ?? { nodes: {}, rootNodeIds: [] };
+    draft.sessionTrees[outgoingKey] = { nodes: state.nodes, rootNodeIds: state.rootNodeIds };
+    delete draft.sessionTrees[incomingKey];
+    draft.nodes = incoming.nodes;
+    draft.rootNodeIds = incoming.rootNodeIds;
+    nodes = incoming.nodes;
+    // Undo steps and the details panel belong to the tree that was on screen
+    draft.history = { past: [], future: [], isTrimmed: false };
+    draft.detailNodeId = null;
+  }
+
+  draft.currentSession = {
+    ...next,
+    selectedNodeIds: next.selectedNodeIds.filter((id) => !!nodes[id]),
+    focusedNodeId:
+      next.focusedNodeId && nodes[next.focusedNodeId] ? next.focusedNodeId : undefined,
+  };
+};
+
+// Number the sessions in the order of `ids`
+const setSessionOrder = (draft: AppState, ids: string[]) => {
+  ids.forEach((id, order) => {
+    if (draft.currentSession.id === id) draft.currentSession.order = order;
+    if (draft.sessions[id]) draft.sessions[id].order = order;
+  });
 };
 
 /**
@@ -313,6 +933,7 @@ interface StoreActions {
   toggleCollapse: (id: ListNodeId) => void;
   toggleDone: (id: ListNodeId) => void;
   togglePin: (id: ListNodeId) => void;
+  scheduleNode: (id: ListNodeId, dates: Pick<ListNode, 'startDate' | 'dueDate'>) => void;
   collapseAll: () => void;
   expandAll: () => void;
   collapseToLevel: (level: number) => void;
@@ -322,18 +943,51 @@ interface StoreActions {
   deselectNode: (id: ListNodeId) => void;
   clearSelection: () => void;
   selectAll: () => void;
+  selectRange: (id: ListNodeId) => void;
+
+  // Bulk operations - each is a single undo step
+  deleteNodes: (ids: ListNodeId[]) => void;
+  setNodesDone: (ids: ListNodeId[], isDone: boolean) => void;
+  moveNodes: (ids: ListNodeId[], newParentId: ListNodeId | null) => void;
+  indentNodes: (ids: ListNodeId[]) => void;
+  outdentNodes: (ids: ListNodeId[]) => void;
+  duplicateNodes: (ids: ListNodeId[]) => void;
+  tagNodes: (ids: ListNodeId[], tag: string) => void;
+  setNodesField: (ids: ListNodeId[], fieldId: string, value: unknown) => void;
+
+  // Clipboard and outline import
+  pasteNodes: (payload: ClipboardPayload, parentId: ListNodeId | null) => ListNodeId[];
+  importOutline: (
+    tree: ImportedTree,
+    parentId: ListNodeId | null,
+    overflowMode: DepthOverflowMode
+  ) => OutlineImportResult;
 
   // Focus
   setFocusNode: (id: ListNodeId | undefined) => void;
   zoomIn: (id: ListNodeId) => void;
   zoomOut: () => void;
 
+  // Rules - time-based ones over the whole tree, outside history
+  runTimeRules: () => void;
+
   // Session management
   updateSession: (updates: Partial<SandboxSession>) => void;
   setViewMode: (mode: ViewMode) => void;
   setRTL: (rtl: boolean) => void;
-  createSession: (name: string, description?: string) => void;
+  createSession: (name: string, description?: string, ownsTree?: boolean) => void;
+  // Saves the outgoing session and swaps trees when the two don't share one
   switchSession: (id: string) => void;
+  renameSession: (id: string, name: string, description?: string) => void;
+  // The last session can't be deleted; deleting the current one switches first
+  deleteSession: (id: string) => void;
+  duplicateSession: (id: string) => void;
+  moveSession: (id: string, position: number) => void;
+
+  // Plugins
+  registerPlugin: (plugin: SandboxPlugin) => void;
+  unregisterPlugin: (id: string) => void;
+  updatePluginSettings: (id: string, updates: PluginSettings) => void;
 
   // Filter
   setFilter: (config: FilterConfig) => void;
@@ -343,9 +997,16 @@ interface StoreActions {
   toggleCommandPalette: () => void;
   closeCommandPalette: () => void;
 
+  // Custom fields
+  setNodeField: (id: ListNodeId, fieldId: string, value: unknown) => void;
+  saveCustomField: (field: CustomFieldDefinition) => void;
+  deleteCustomField: (fieldId: string) => void;
+  openNodeDetails: (id: ListNodeId | null) => void;
+
   // Templates
   createTemplate: (nodeId: ListNodeId, name: string, description?: string) => void;
-  applyTemplate: (templateId: string, parentId: ListNodeId | null) => void;
+  // False if the template is gone or saved from another session's tree
+  applyTemplate: (templateId: string, parentId: ListNodeId | null) => boolean;
   deleteTemplate: (id: string) => void;
 
   // Snapshots
@@ -356,11 +1017,21 @@ interface StoreActions {
   // History
   undo: () => void;
   redo: () => void;
-  saveHistory: () => void;
+  jumpToHistory: (entryId: string | null) => void;
+
+  // Collaboration - show the tree built from collaborators' operations
+  applyRemoteTree: (tree: CollabTree) => void;
 
   // Import/Export
   exportData: () => string;
   importData: (jsonData: string) => void;
+  // Non-destructive imports - each is a single undo step
+  previewImport: (jsonData: string) => MergePreview;
+  appendImport: (jsonData: string) => number;
+  mergeImport: (jsonData: string, resolutions: Record<ListNodeId, ConflictResolution>) => void;
+  // Merge every session and tree of a saved workspace into this one, newer
+  // edits winning and nothing deleted - unsaved work after another tab saved
+  mergeWorkspace: (jsonData: string) => void;
   reset: () => void;
 }
 
@@ -383,8 +1054,12 @@ export const useStore = create<AppState & StoreActions>()(
       }
 
       const newNode = createNode({ ...data, level, parentId });
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `יצירת ${quoteTitle(newNode, rtl)}`
+        : `Create ${quoteTitle(newNode, rtl)}`;
 
-      set((draft) => {
+      commitWithHistory(set, get, label, (draft) => {
         draft.nodes[newNode.id] = newNode;
 
         if (parentId && draft.nodes[parentId]) {
@@ -393,21 +1068,54 @@ export const useStore = create<AppState & StoreActions>()(
         } else {
           draft.rootNodeIds.push(newNode.id);
         }
+
+        runRules(draft, [newNode.id, parentId]);
       });
 
-      get().saveHistory();
+      const created = get().nodes[newNode.id] ?? newNode;
+      invokePluginHook(get, 'onNodeCreate', (plugin, ctx) =>
+        plugin.onNodeCreate!(created, ctx)
+      );
       return newNode;
     },
 
     updateNode: (id, updates) => {
-      set((draft) => {
-        if (draft.nodes[id]) {
+      const prev = get().nodes[id];
+      if (!prev) return;
+
+      const rtl = get().currentSession.rtl;
+      // Consecutive title keystrokes on the same node become one undo step
+      const isTitleEdit = Object.keys(updates).every((key) => key === 'title');
+      const isTagEdit = Object.keys(updates).every((key) => key === 'tags');
+      const label = isTitleEdit
+        ? rtl
+          ? `שינוי שם ל-'${updates.title ?? ''}'`
+          : `Rename to '${updates.title ?? ''}'`
+        : isTagEdit
+        ? rtl
+          ? `עריכת תגיות של ${quoteTitle(prev, rtl)}`
+          : `Edit tags of ${quoteTitle(prev, rtl)}`
+        : rtl
+        ? `עריכת ${quoteTitle(prev, rtl)}`
+        : `Edit ${quoteTitle(prev, rtl)}`;
+      const tags = 'tags' in updates ? sanitizeTags(updates.tags) : null;
+
+      commitWithHistory(
+        set,
+        get,
+        label,
+        (draft) => {
           Object.assign(draft.nodes[id], {
             ...updates,
+            ...(tags ? { tags: tags.length > 0 ? tags : undefined } : {}),
             updatedAt: Date.now(),
           });
-        }
-      });
+          runRules(draft, [id]);
+        },
+        isTitleEdit ? `title:${id}` : undefined
+      );
+
+      notifyNodeUpdate(get, prev);
     },
 
     deleteNode: (id) => {
@@ -417,38 +1125,21 @@ export const useStore = create<AppState & StoreActions>()(
 
       // Get all descendants
       const toDelete = [id, ...getAllChildren(id, state.nodes).map((n) => n.id)];
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `מחיקת ${quoteTitle(node, rtl)}`
+        : `Delete ${quoteTitle(node, rtl)}`;
 
-      set((draft) => {
-        // Remove from parent's children
-        if (node.parentId && draft.nodes[node.parentId]) {
-          const parent = draft.nodes[node.parentId];
-          parent.childrenIds = parent.childrenIds.filter((cid) => cid !== id);
-        } else {
-          // Remove from root
-          draft.rootNodeIds = draft.rootNodeIds.filter((rid) => rid !== id);
-        }
-
-        // Delete all nodes
-        toDelete.forEach((nid) => {
-          delete draft.nodes[nid];
-        });
-
-        // Clear selection if deleted
-        draft.currentSession.selectedNodeIds =
-          draft.currentSession.selectedNodeIds.filter(
-            (sid) => !toDelete.includes(sid)
-          );
-
-        // Clear focus if deleted
-        if (
-          draft.currentSession.focusedNodeId &&
-          toDelete.includes(draft.currentSession.focusedNodeId)
-        ) {
-          draft.currentSession.focusedNodeId = undefined;
-        }
+      commitWithHistory(set, get, label, (draft) => {
+        removeSubtree(draft, id);
       });
 
-      get().saveHistory();
+      toDelete.forEach((nid) => {
+        const deleted = state.nodes[nid];
+        invokePluginHook(get, 'onNodeDelete', (plugin, ctx) =>
+          plugin.onNodeDelete!(deleted, ctx)
+        );
+      });
     },
 
     moveNode: (nodeId, newParentId, position) => {
@@ -462,49 +1153,27 @@ export const useStore = create<AppState & StoreActions>()(
       const node = state.nodes[nodeId];
       if (!node) return;
 
-      set((draft) => {
-        // Remove from old parent
-        if (node.parentId && draft.nodes[node.parentId]) {
-          const oldParent = draft.nodes[node.parentId];
-          oldParent.childrenIds = oldParent.childrenIds.filter(
-            (cid) => cid !== nodeId
-          );
-        } else {
-          draft.rootNodeIds = draft.rootNodeIds.filter((rid) => rid !== nodeId);
-        }
-
-        // Update node's parent and level
-        const newLevel = newParentId ? draft.nodes[newParentId].level + 1 : 0;
-        draft.nodes[nodeId].parentId = newParentId;
-        draft.nodes[nodeId].level = newLevel;
-
-        // Update all descendants' levels
-        const updateLevels = (id: ListNodeId, baseLevel: number) => {
-          const n = draft.nodes[id];
-          if (!n) return;
-          n.level = baseLevel;
-          n.childrenIds.forEach((cid) => updateLevels(cid, baseLevel + 1));
-        };
-        node.childrenIds.forEach((cid) => updateLevels(cid, newLevel + 1));
-
-        // Add to new parent
-        if (newParentId && draft.nodes[newParentId]) {
-          const newParent = draft.nodes[newParentId];
-          if (position !== undefined) {
-            newParent.childrenIds.splice(position, 0, nodeId);
-          } else {
-            newParent.childrenIds.push(nodeId);
-          }
-        } else {
-          if (position !== undefined) {
-            draft.rootNodeIds.splice(position, 0, nodeId);
-          } else {
-            draft.rootNodeIds.push(nodeId);
-          }
-        }
+      const rtl = state.currentSession.rtl;
+      const title = quoteTitle(node, rtl);
+      const newParent = newParentId ? state.nodes[newParentId] : undefined;
+      const label =
+        node.parentId === newParentId
+          ? rtl
+            ? `סידור מחדש של ${title}`
+            : `Reorder ${title}`
+          : newParent
+          ? rtl
+            ? `העברת ${title} אל תחת ${quoteTitle(newParent, rtl)}`
+            : `Move ${title} under ${quoteTitle(newParent, rtl)}`
+          : rtl
+          ? `העברת ${title} לרמה העליונה`
+          : `Move ${title} to top level`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        relocateNode(draft, nodeId, newParentId, position);
+        runRules(draft, [nodeId, node.parentId, newParentId]);
       });
-
-      get().saveHistory();
+      notifyNodeUpdate(get, node);
     },
 
     duplicateNode: (id) => {
@@ -517,8 +1186,12 @@ export const useStore = create<AppState & StoreActions>()(
         state.nodes,
         node.parentId
       );
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `שכפול ${quoteTitle(node, rtl)}`
+        : `Duplicate ${quoteTitle(node, rtl)}`;
 
-      set((draft) => {
+      commitWithHistory(set, get, label, (draft) => {
         // Add all new nodes
         Object.assign(draft.nodes, newNodes);
 
@@ -533,36 +1206,107 @@ export const useStore = create<AppState & StoreActions>()(
         }
       });
 
-      get().saveHistory();
+      notifyNodeChanges(get, state.nodes);
     },
 
     // Node operations
     toggleCollapse: (id) => {
-      set((draft) => {
-        if (draft.nodes[id]) {
-          draft.nodes[id].isCollapsed = !draft.nodes[id].isCollapsed;
-        }
+      const node = get().nodes[id];
+      if (!node) return;
+
+      const rtl = get().currentSession.rtl;
+      const title = quoteTitle(node, rtl);
+      const label = node.isCollapsed
+        ? rtl
+          ? `הרחבת ${title}`
+          : `Expand ${title}`
+        : rtl
+        ? `כיווץ ${title}`
+        : `Collapse ${title}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        draft.nodes[id].isCollapsed = !draft.nodes[id].isCollapsed;
       });
     },
 
     toggleDone: (id) => {
-      set((draft) => {
-        if (draft.nodes[id]) {
-          draft.nodes[id].isDone = !draft.nodes[id].isDone;
-        }
+      const prev = get().nodes[id];
+      if (!prev) return;
+
+      const rtl = get().currentSession.rtl;
+      const title = quoteTitle(prev, rtl);
+      const label = prev.isDone
+        ? rtl
+          ? `סימון ${title} כלא הושלם`
+          : `Mark ${title} not done`
+        : rtl
+        ? `סימון ${title} כהושלם`
+        : `Mark ${title} done`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        draft.nodes[id].isDone = !draft.nodes[id].isDone;
+        draft.nodes[id].updatedAt = Date.now();
+        runRules(draft, [id, draft.nodes[id].parentId]);
       });
+
+      notifyNodeUpdate(get, prev);
     },
 
     togglePin: (id) => {
-      set((draft) => {
-        if (draft.nodes[id]) {
-          draft.nodes[id].isPinned = !draft.nodes[id].isPinned;
-        }
+      const prev = get().nodes[id];
+      if (!prev) return;
+
+      const rtl = get().currentSession.rtl;
+      const title = quoteTitle(prev, rtl);
+      const label = prev.isPinned
+        ? rtl
+          ? `ביטול נעיצת ${title}`
+          : `Unpin ${title}`
+        : rtl
+        ? `נעיצת ${title}`
+        : `Pin ${title}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        draft.nodes[id].isPinned = !draft.nodes[id].isPinned;
+        draft.nodes[id].updatedAt = Date.now();
+      });
+
+      notifyNodeUpdate(get, prev);
+    },
+
+    scheduleNode: (id, dates) => {
+      const prev = get().nodes[id];
+      if (!prev) return;
+
+      let startDate = sanitizeDateKey(dates.startDate);
+      let dueDate = sanitizeDateKey(dates.dueDate);
+      if (startDate && dueDate && startDate > dueDate) {
+        [startDate, dueDate] = [dueDate, startDate];
+      }
+      if (startDate === prev.startDate && dueDate === prev.dueDate) return;
+
+      const rtl = get().currentSession.rtl;
+      const title = quoteTitle(prev, rtl);
+      const label =
+        startDate || dueDate
+          ? rtl
+            ? `תזמון ${title}`
+            : `Schedule ${title}`
+          : rtl
+          ? `ניקוי תאריכים של ${title}`
+          : `Clear dates of ${title}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        Object.assign(draft.nodes[id], { startDate, dueDate, updatedAt: Date.now() });
+        runRules(draft, [id]);
       });
+
+      notifyNodeUpdate(get, prev);
     },
 
     collapseAll: () => {
-      set((draft) => {
+      const label = get().currentSession.rtl ? 'כיווץ הכל' : 'Collapse all';
+      commitWithHistory(set, get, label, (draft) => {
         Object.values(draft.nodes).forEach((node) => {
           if (node.childrenIds.length > 0) {
             node.isCollapsed = true;
@@ -572,7 +1316,8 @@ export const useStore = create<AppState & StoreActions>()(
     },
 
     expandAll: () => {
-      set((draft) => {
+      const label = get().currentSession.rtl ? 'הרחבת הכל' : 'Expand all';
+      commitWithHistory(set, get, label, (draft) => {
         Object.values(draft.nodes).forEach((node) => {
           node.isCollapsed = false;
         });
@@ -580,7 +1325,10 @@ export const useStore = create<AppState & StoreActions>()(
     },
 
     collapseToLevel: (level) => {
-      set((draft) => {
+      const label = get().currentSession.rtl
+        ? `כיווץ לרמה ${level + 1}`
+        : `Collapse to level ${level + 1}`;
+      commitWithHistory(set, get, label, (draft) => {
         Object.values(draft.nodes).forEach((node) => {
           if (node.level >= level && node.childrenIds.length > 0) {
             node.isCollapsed = true;
@@ -623,6 +1371,359 @@ export const useStore = create<AppState & StoreActions>()(
       });
     },
 
+    selectRange: (id) => {
+      const { nodes, rootNodeIds, currentSession } = get();
+      const anchorId = currentSession.selectedNodeIds[0];
+      const order = getTreeOrder(rootNodeIds, nodes, true);
+      const from = anchorId ? order.indexOf(anchorId) : -1;
+      const to = order.indexOf(id);
+
+      if (from === -1 || to === -1) {
+        get().selectNode(id, false);
+        return;
+      }
+
+      // The anchor stays first so the next Shift+Click extends from it
+      const range =
+        from <= to ? order.slice(from, to + 1) : order.slice(to, from + 1).reverse();
+      set((draft) => {
+        draft.currentSession.selectedNodeIds = range;
+      });
+    },
+
+    // Bulk operations
+    deleteNodes: (ids) => {
+      const state = get();
+      const targets = getTopmostIds(ids, state.rootNodeIds, state.nodes);
+      if (targets.length === 0) return;
+
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `מחיקת ${countLabel(targets.length, rtl)}`
+        : `Delete ${countLabel(targets.length, rtl)}`;
+
+      const removed: ListNodeId[] = [];
+      commitWithHistory(set, get, label, (draft) => {
+        targets.forEach((id) => removed.push(...removeSubtree(draft, id)));
+      });
+
+      removed.forEach((nid) => {
+        const deleted = state.nodes[nid];
+        invokePluginHook(get, 'onNodeDelete', (plugin, ctx) =>
+          plugin.onNodeDelete!(deleted, ctx)
+        );
+      });
+    },
+
+    setNodesDone: (ids, isDone) => {
+      const state = get();
+      const targets = ids.filter(
+        (id) => state.nodes[id] && !!state.nodes[id].isDone !== isDone
+      );
+      if (targets.length === 0) return;
+
+      const rtl = state.currentSession.rtl;
+      const count = countLabel(targets.length, rtl);
+      const label = isDone
+        ? rtl
+          ? `סימון ${count} כהושלמו`
+          : `Mark ${count} done`
+        : rtl
+        ? `סימון ${count} כלא הושלמו`
+        : `Mark ${count} not done`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        targets.forEach((id) => {
+          draft.nodes[id].isDone = isDone;
+          draft.nodes[id].updatedAt = Date.now();
+        });
+        runRules(draft, [...targets, ...targets.map((id) => draft.nodes[id].parentId)]);
+      });
+
+      targets.forEach((id) => notifyNodeUpdate(get, state.nodes[id]));
+    },
+
+    moveNodes: (ids, newParentId) => {
+      const state = get();
+      const candidates = getTopmostIds(ids, state.rootNodeIds, state.nodes).filter(
+        (id) => state.nodes[id].parentId !== newParentId
+      );
+      const targets = candidates.filter((id) =>
+        canMoveNode(id, newParentId, state.nodes, APP_CONFIG.MAX_DEPTH)
+      );
+
+      const rtl = state.currentSession.rtl;
+      const skipped = candidates.length - targets.length;
+      if (skipped > 0) {
+        useToastStore
+          .getState()
+          .addToast(
+            rtl
+              ? `${countLabel(skipped, rtl)} לא הועברו - היעד בתוכם או עמוק מדי`
+              : `${countLabel(skipped, rtl)} not moved - the target is inside them or too deep`,
+            'error'
+          );
+      }
+      if (targets.length === 0) return;
+
+      const count = countLabel(targets.length, rtl);
+      const newParent = newParentId ? state.nodes[newParentId] : undefined;
+      const label = newParent
+        ? rtl
+          ? `העברת ${count} אל תחת ${quoteTitle(newParent, rtl)}`
+          : `Move ${count} under ${quoteTitle(newParent, rtl)}`
+        : rtl
+        ? `העברת ${count} לרמה העליונה`
+        : `Move ${count} to top level`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        targets.forEach((id) => relocateNode(draft, id, newParentId));
+        if (newParentId) draft.nodes[newParentId].isCollapsed = false;
+        runRules(draft, [
+          ...targets,
+          ...targets.map((id) => state.nodes[id].parentId),
+          newParentId,
+        ]);
+      });
+
+      targets.forEach((id) => notifyNodeUpdate(get, state.nodes[id]));
+    },
+
+    indentNodes: (ids) => {
+      const state = get();
+      const targets = getTopmostIds(ids, state.rootNodeIds, state.nodes);
+      if (targets.length === 0) return;
+
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `הזחת ${countLabel(targets.length, rtl)}`
+        : `Indent ${countLabel(targets.length, rtl)}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        // In display order, so consecutive siblings end up under the same node
+        targets.forEach((id) => {
+          const parentId = draft.nodes[id].parentId;
+          const siblings = parentId ? draft.nodes[parentId].childrenIds : draft.rootNodeIds;
+          const prevId = siblings[siblings.indexOf(id) - 1];
+          if (!prevId || !canMoveNode(id, prevId, draft.nodes, APP_CONFIG.MAX_DEPTH)) return;
+
+          relocateNode(draft, id, prevId);
+          runRules(draft, [id, parentId, prevId]);
+        });
+      });
+
+      targets.forEach((id) => notifyNodeUpdate(get, state.nodes[id]));
+    },
+
+    outdentNodes: (ids) => {
+      const state = get();
+      const targets = getTopmostIds(ids, state.rootNodeIds, state.nodes).filter(
+        (id) => state.nodes[id].parentId
+      );
+      if (targets.length === 0) return;
+
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `הוצאת ${countLabel(targets.length, rtl)} מההזחה`
+        : `Outdent ${countLabel(targets.length, rtl)}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        targets.forEach((id) => {
+          const parentId = draft.nodes[id].parentId!;
+          const grandparentId = draft.nodes[parentId]?.parentId ?? null;
+          relocateNode(draft, id, grandparentId);
+          runRules(draft, [id, parentId, grandparentId]);
+        });
+      });
+
+      targets.forEach((id) => notifyNodeUpdate(get, state.nodes[id]));
+    },
+
+    duplicateNodes: (ids) => {
+      const state = get();
+      const targets = getTopmostIds(ids, state.rootNodeIds, state.nodes);
+      if (targets.length === 0) return;
+
+      const clones = targets.map((id) => ({
+        originalId: id,
+        ...cloneSubtree(id, state.nodes, state.nodes[id].parentId),
+      }));
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `שכפול ${countLabel(targets.length, rtl)}`
+        : `Duplicate ${countLabel(targets.length, rtl)}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        clones.forEach(({ originalId, node, newNodes }) => {
+          Object.assign(draft.nodes, newNodes);
+          const siblings = node.parentId
+            ? draft.nodes[node.parentId].childrenIds
+            : draft.rootNodeIds;
+          siblings.splice(siblings.indexOf(originalId) + 1, 0, node.id);
+        });
+      });
+
+      notifyNodeChanges(get, state.nodes);
+    },
+
+    tagNodes: (ids, tag) => {
+      const state = get();
+      const normalized = normalizeTag(tag);
+      if (!normalized) return;
+
+      const targets = ids.filter(
+        (id) =>
+          state.nodes[id] &&
+          !(state.nodes[id].tags ?? []).some((t) => t.toLowerCase() === normalized.toLowerCase())
+      );
+      if (targets.length === 0) return;
+
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `תיוג ${countLabel(targets.length, rtl)} ב-#${normalized}`
+        : `Tag ${countLabel(targets.length, rtl)} with #${normalized}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        targets.forEach((id) => {
+          const node = draft.nodes[id];
+          node.tags = sanitizeTags([...(node.tags ?? []), normalized]);
+          node.updatedAt = Date.now();
+        });
+        runRules(draft, targets);
+      });
+
+      targets.forEach((id) => notifyNodeUpdate(get, state.nodes[id]));
+    },
+
+    setNodesField: (ids, fieldId, value) => {
+      const state = get();
+      const field = state.currentSession.fieldSchema.find((f) => f.id === fieldId);
+      const targets = ids.filter((id) => state.nodes[id]);
+      if (!field || targets.length === 0) return;
+
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `הגדרת '${field.name}' ב-${countLabel(targets.length, rtl)}`
+        : `Set '${field.name}' on ${countLabel(targets.length, rtl)}`;
+      const fieldValue = sanitizeFieldValue(field, value);
+
+      commitWithHistory(set, get, label, (draft) => {
+        targets.forEach((id) => {
+          const node = draft.nodes[id];
+          node.sandboxProps = withFieldValue(node, fieldId, fieldValue);
+          node.updatedAt = Date.now();
+        });
+        runRules(draft, targets);
+      });
+
+      targets.forEach((id) => notifyNodeUpdate(get, state.nodes[id]));
+    },
+
+    // Clipboard and outline import
+    pasteNodes: (payload, parentId) => {
+      const state = get();
+      const parent = parentId ? state.nodes[parentId] : undefined;
+      if (parentId && !parent) return [];
+
+      const rtl = state.currentSession.rtl;
+      const level = parent ? parent.level + 1 : 0;
+      if (level >= APP_CONFIG.MAX_DEPTH) {
+        useToastStore
+          .getState()
+          .addToast(
+            rtl
+              ? 'לא ניתן להדביק כאן - הגעת לעומק המקסימלי'
+              : 'Cannot paste here - maximum depth reached',
+            'error'
+          );
+        return [];
+      }
+
+      const { newNodes, ids, overflow } = prepareSubtrees(
+        payload,
+        parentId,
+        level,
+        state.currentSession.fieldSchema,
+        'flatten'
+      );
+      if (ids.length === 0) return [];
+
+      const count = Object.keys(newNodes).length;
+      const label =
+        count === 1
+          ? rtl
+            ? `הדבקת ${quoteTitle(newNodes[ids[0]], rtl)}`
+            : `Paste ${quoteTitle(newNodes[ids[0]], rtl)}`
+          : rtl
+          ? `הדבקת ${countLabel(count, rtl)}`
+          : `Paste ${countLabel(count, rtl)}`;
+
+      commitWithHistory(set, get, label, (draft) => {
+        insertSubtrees(draft, newNodes, ids, parentId);
+      });
+      notifyNodeChanges(get, state.nodes);
+
+      if (overflow > 0) {
+        useToastStore
+          .getState()
+          .addToast(
+            rtl
+              ? `${countLabel(overflow, rtl)} הועלו רמה כדי לא לחרוג מהעומק המקסימלי`
+              : `${countLabel(overflow, rtl)} moved up a level to stay within the maximum depth`,
+            'info'
+          );
+      }
+      return ids;
+    },
+
+    importOutline: (tree, parentId, overflowMode) => {
+      const state = get();
+      const parent = parentId ? state.nodes[parentId] : undefined;
+      const rtl = state.currentSession.rtl;
+      if (parentId && !parent) {
+        throw new Error(rtl ? 'פריט היעד לא נמצא' : 'Target item not found');
+      }
+
+      const level = parent ? parent.level + 1 : 0;
+      const available = APP_CONFIG.MAX_DEPTH - level;
+      const depth = getTreeDepth(tree);
+      if (available <= 0 || (overflowMode === 'reject' && depth > available)) {
+        throw new Error(
+          rtl
+            ? `המתאר בעומק ${depth} רמות, ורק ${Math.max(available, 0)} נכנסות כאן`
+            : `The outline is ${depth} levels deep but only ${Math.max(available, 0)} fit here`
+        );
+      }
+
+      const { newNodes, ids, overflow } = prepareSubtrees(
+        tree,
+        parentId,
+        level,
+        state.currentSession.fieldSchema,
+        overflowMode === 'truncate' ? 'truncate' : 'flatten'
+      );
+      const imported = Object.keys(newNodes).length;
+      if (imported === 0) return { imported, overflow };
+
+      const label = rtl
+        ? `ייבוא ${countLabel(imported, rtl)}`
+        : `Import ${countLabel(imported, rtl)}`;
+      commitWithHistory(set, get, label, (draft) => {
+        insertSubtrees(draft, newNodes, ids, parentId);
+      });
+      notifyNodeChanges(get, state.nodes);
+      return { imported, overflow };
+    },
+
+    // Rules
+    runTimeRules: () => {
+      const before = get().nodes;
+      set((draft) => {
+        applyTimeRules(draft.currentSession.rules, draft);
+      });
+      notifyNodeChanges(get, before);
+    },
+
     // Focus
     setFocusNode: (id) => {
       set((draft) => {
@@ -671,6 +1772,8 @@ export const useStore = create<AppState & StoreActions>()(
           updatedAt: Date.now(),
         });
       });
+
+      notifySessionChange(get);
     },
 
     setViewMode: (mode) => {
@@ -678,42 +1781,157 @@ export const useStore = create<AppState & StoreActions>()(
         draft.currentSession.viewMode = mode;
         draft.currentSession.updatedAt = Date.now();
       });
+
+      notifySessionChange(get);
     },
 
     setRTL: (rtl) => {
       set((draft) => {
         draft.currentSession.rtl = rtl;
       });
+
+      notifySessionChange(get);
     },
 
-    createSession: (name, description) => {
+    createSession: (name, description, ownsTree = false) => {
+      const state = get();
       const newSession: SandboxSession = {
         id: generateId(),
         name,
         description,
+        ownsTree: ownsTree || undefined,
         viewMode: APP_CONFIG.DEFAULT_VIEW_MODE,
         rtl: APP_CONFIG.DEFAULT_RTL,
         rules: [],
         selectedNodeIds: [],
         theme: DEFAULT_DARK_THEME,
         shortcutsProfile: DEFAULT_SHORTCUTS,
+        customShortcutsProfiles: {},
+        fieldSchema: [],
         historyEnabled: true,
         createdAt: Date.now(),
         updatedAt: Date.now(),
       };
 
+      const ids = getOrderedSessions(state.sessions, state.currentSession).map((s) => s.id);
+
       set((draft) => {
         draft.sessions[newSession.id] = newSession;
+        setSessionOrder(draft, [...ids, newSession.id]);
       });
     },
 
     switchSession: (id) => {
       const state = get();
       const session = state.sessions[id];
-      if (!session) return;
+      if (!session || id === state.currentSession.id) return;
+
+      set((draft) => {
+        activateSession(draft, state, session);
+      });
+
+      notifySessionChange(get);
+    },
+
+    renameSession: (id, name, description) => {
+      const updates = { name, description, updatedAt: Date.now() };
+      set((draft) => {
+        if (draft.currentSession.id === id) Object.assign(draft.currentSession, updates);
+        if (draft.sessions[id]) Object.assign(draft.sessions[id], updates);
+      });
+
+      if (get().currentSession.id === id) notifySessionChange(get);
+    },
+
+    deleteSession: (id) => {
+      const state = get();
+      const ordered = getOrderedSessions(state.sessions, state.currentSession);
+      const index = ordered.findIndex((session) => session.id === id);
+      if (index < 0 || ordered.length === 1) return;
+
+      if (id === state.currentSession.id) {
+        get().switchSession((ordered[index + 1] ?? ordered[index - 1]).id);
+      }
+
+      set((draft) => {
+        delete draft.sessions[id];
+        if (!ordered[index].ownsTree) return;
+        // Its tree goes, and with it what was saved from that tree
+        delete draft.sessionTrees[id];
+        Object.values(draft.templates).forEach((template) => {
+          if (template.treeKey === id) delete draft.templates[template.id];
+        });
+        Object.values(draft.snapshots).forEach((snapshot) => {
+          if (snapshot.treeKey === id) delete draft.snapshots[snapshot.id];
+        });
+      });
+    },
+
+    duplicateSession: (id) => {
+      const state = get();
+      const ordered = getOrderedSessions(state.sessions, state.currentSession);
+      const index = ordered.findIndex((session) => session.id === id);
+      if (index < 0) return;
+
+      const source = ordered[index];
+      const now = Date.now();
+      const copy: SandboxSession = {
+        ...source,
+        id: generateId(),
+        name: state.currentSession.rtl ? `${source.name} (עותק)` : `${source.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      // Trees are immutable, so the copy can share the source's until either is edited
+      const tree =
+        id === state.currentSession.id
+          ? { nodes: state.nodes, rootNodeIds: state.rootNodeIds }
+          : state.sessionTrees[id];
+      const ids = ordered.map((session) => session.id);
+      ids.splice(index + 1, 0, copy.id);
+
+      set((draft) => {
+        draft.sessions[copy.id] = copy;
+        if (source.ownsTree && tree) draft.sessionTrees[copy.id] = tree;
+        setSessionOrder(draft, ids);
+      });
+    },
+
+    moveSession: (id, position) => {
+      const state = get();
+      const ids = getOrderedSessions(state.sessions, state.currentSession).map((s) => s.id);
+      const from = ids.indexOf(id);
+      const to = Math.max(0, Math.min(position, ids.length - 1));
+      if (from < 0 || from === to) return;
+
+      ids.splice(from, 1);
+      ids.splice(to, 0, id);
+      set((draft) => {
+        setSessionOrder(draft, ids);
+      });
+    },
+
+    // Plugins
+    registerPlugin: (plugin) => {
+      set((draft) => {
+        const index = draft.plugins.findIndex((p) => p.id === plugin.id);
+        if (index >= 0) {
+          draft.plugins[index] = plugin;
+        } else {
+          draft.plugins.push(plugin);
+        }
+      });
+    },
 
+    unregisterPlugin: (id) => {
       set((draft) => {
-        draft.currentSession = { ...session };
+        draft.plugins = draft.plugins.filter((p) => p.id !== id);
+      });
+    },
+
+    updatePluginSettings: (id, updates) => {
+      set((draft) => {
+        draft.pluginSettings[id] = { ...draft.pluginSettings[id], ...updates };
       });
     },
 
@@ -743,6 +1961,79 @@ export const useStore = create<AppState & StoreActions>()(
       });
     },
 
+    // Custom fields
+    setNodeField: (id, fieldId, value) => {
+      const state = get();
+      const node = state.nodes[id];
+      const field = state.currentSession.fieldSchema.find((f) => f.id === fieldId);
+      if (!node || !field) return;
+
+      const rtl = state.currentSession.rtl;
+      const label = rtl
+        ? `הגדרת '${field.name}' ב${quoteTitle(node, rtl)}`
+        : `Set '${field.name}' on ${quoteTitle(node, rtl)}`;
+
+      commitWithHistory(
+        set,
+        get,
+        label,
+        (draft) => {
+          const draftNode = draft.nodes[id];
+          draftNode.sandboxProps = withFieldValue(
+            draftNode,
+            fieldId,
+            sanitizeFieldValue(field, value)
+          );
+          draftNode.updatedAt = Date.now();
+          runRules(draft, [id]);
+        },
+        `field:${id}:${fieldId}`
+      );
+
+      notifyNodeUpdate(get, node);
+    },
+
+    // Schema edits leave node values alone - values that no longer fit are
+    // ignored when read and dropped by sanitizeNode on the next load
+    saveCustomField: (field) => {
+      const [sanitized] = sanitizeFieldSchema([field]);
+      if (!sanitized) return;
+
+      set((draft) => {
+        const schema = draft.currentSession.fieldSchema;
+        const index = schema.findIndex((f) => f.id === sanitized.id);
+        if (index === -1) {
+          schema.push(sanitized);
+        } else {
+          schema[index] = sanitized;
+        }
+        draft.currentSession.updatedAt = Date.now();
+      });
+
+      notifySessionChange(get);
+    },
+
+    deleteCustomField: (fieldId) => {
+      set((draft) => {
+        draft.currentSession.fieldSchema = draft.currentSession.fieldSchema.filter(
+          (f) => f.id !== fieldId
+        );
+        if (draft.currentSession.boardGroupBy === `field:${fieldId}`) {
+          draft.currentSession.boardGroupBy = undefined;
+        }
+        delete draft.currentSession.boardColumns?.[`field:${fieldId}`];
+        draft.currentSession.updatedAt = Date.now();
+      });
+
+      notifySessionChange(get);
+    },
+
+    openNodeDetails: (id) => {
+      set((draft) => {
+        draft.detailNodeId = id;
+      });
+    },
+
     // Templates
     createTemplate: (nodeId, name, description) => {
       const state = get();
@@ -754,6 +2045,7 @@ export const useStore = create<AppState & StoreActions>()(
         name,
         description,
         rootNodeId: nodeId,
+        treeKey: getSessionTreeKey(state.currentSession),
         createdAt: Date.now(),
       };
 
@@ -765,15 +2057,25 @@ export const useStore = create<AppState & StoreActions>()(
     applyTemplate: (templateId, parentId) => {
       const state = get();
       const template = state.templates[templateId];
-      if (!template) return;
+      // Templates point into the tree they were saved from
+      if (
+        !template ||
+        !isInTree(template, getSessionTreeKey(state.currentSession)) ||
+        !state.nodes[template.rootNodeId]
+      ) {
+        return false;
+      }
 
       const { node: clonedNode, newNodes } = cloneSubtree(
         template.rootNodeId,
         state.nodes,
         parentId
       );
+      const label = state.currentSession.rtl
+        ? `החלת תבנית '${template.name}'`
+        : `Apply template '${template.name}'`;
 
-      set((draft) => {
+      commitWithHistory(set, get, label, (draft) => {
         Object.assign(draft.nodes, newNodes);
 
         if (parentId && draft.nodes[parentId]) {
@@ -783,7 +2085,8 @@ export const useStore = create<AppState & StoreActions>()(
         }
       });
 
-      get().saveHistory();
+      notifyNodeChanges(get, state.nodes);
+      return true;
     },
 
     deleteTemplate: (id) => {
@@ -801,6 +2104,7 @@ export const useStore = create<AppState & StoreActions>()(
         name,
         description,
         sessionId: state.currentSession.id,
+        treeKey: getSessionTreeKey(state.currentSession),
         nodes: { ...state.nodes },
         rootNodeIds: [...state.rootNodeIds],
         createdAt: Date.now(),
@@ -823,14 +2127,27 @@ export const useStore = create<AppState & StoreActions>()(
     restoreSnapshot: (id) => {
       const state = get();
       const snapshot = state.snapshots[id];
-      if (!snapshot) return;
-
-      set((draft) => {
-        draft.nodes = { ...snapshot.nodes };
-        draft.rootNodeIds = [...snapshot.rootNodeIds];
+      // A snapshot of another session's tree would replace this one
+      if (!snapshot || !isInTree(snapshot, getSessionTreeKey(state.currentSession))) return;
+
+      const label = state.currentSession.rtl
+        ? `שחזור צילום '${snapshot.name}'`
+        : `Restore snapshot '${snapshot.name}'`;
+
+      // Only touch the nodes that differ, so the undo step holds a diff rather
+      // than two copies of the tree
+      commitWithHistory(set, get, label, (draft) => {
+        Object.keys(state.nodes).forEach((nodeId) => {
+          if (!snapshot.nodes[nodeId]) delete draft.nodes[nodeId];
+        });
+        Object.values(snapshot.nodes).forEach((node) => {
+          const current = state.nodes[node.id];
+          if (current !== node && !isSameNode(current, node)) draft.nodes[node.id] = node;
+        });
+        if (JSON.stringify(state.rootNodeIds) !== JSON.stringify(snapshot.rootNodeIds)) {
+          draft.rootNodeIds = [...snapshot.rootNodeIds];
+        }
       });
-
-      get().saveHistory();
     },
 
     deleteSnapshot: (id) => {
@@ -840,81 +2157,106 @@ export const useStore = create<AppState & StoreActions>()(
     },
 
     // History
-    saveHistory: () => {
-      const state = get();
-      if (!state.currentSession.historyEnabled) return;
+    undo: () => {
+      const entry = get().history.past[get().history.past.length - 1];
+      if (!entry) return;
 
       set((draft) => {
-        draft.history.past.push({
-          nodes: { ...state.nodes },
-          rootNodeIds: [...state.rootNodeIds],
-        });
-
-        // Limit history size
-        if (draft.history.past.length > APP_CONFIG.MAX_HISTORY_ITEMS) {
-          draft.history.past.shift();
-        }
-
-        // Clear future on new action
-        draft.history.future = [];
+        applyPatches(draft, entry.inversePatches);
+        draft.history.past.pop();
+        draft.history.future.push(entry);
       });
     },
 
-    undo: () => {
-      const state = get();
-      if (state.history.past.length === 0) return;
-
-      const previous = state.history.past[state.history.past.length - 1];
+    redo: () => {
+      const entry = get().history.future[get().history.future.length - 1];
+      if (!entry) return;
 
       set((draft) => {
-        // Save current to future
-        draft.history.future.push({
-          nodes: { ...state.nodes },
-          rootNodeIds: [...state.rootNodeIds],
-        });
+        applyPatches(draft, entry.patches);
+        draft.history.future.pop();
+        draft.history.past.push(entry);
+      });
+    },
 
-        // Restore previous
-        draft.nodes = { ...previous.nodes };
-        draft.rootNodeIds = [...previous.rootNodeIds];
+    // Undo or redo until `entryId` is the latest applied entry; null rewinds everything
+    jumpToHistory: (entryId) => {
+      const { past, future } = get().history;
+      const pastIndex = entryId === null ? -1 : past.findIndex((e) => e.id === entryId);
+      const futureIndex = entryId === null ? -1 : future.findIndex((e) => e.id === entryId);
+      if (entryId !== null && pastIndex === -1 && futureIndex === -1) return;
 
-        // Remove from past
-        draft.history.past.pop();
+      set((draft) => {
+        if (futureIndex !== -1) {
+          // The future stack is reversed - its last entry is the next redo
+          const redone = future.slice(futureIndex).reverse();
+          redone.forEach((entry) => applyPatches(draft, entry.patches));
+          draft.history.past = [...past, ...redone];
+          draft.history.future = future.slice(0, futureIndex);
+        } else {
+          const undone = past.slice(pastIndex + 1).reverse();
+          undone.forEach((entry) => applyPatches(draft, entry.inversePatches));
+          draft.history.past = past.slice(0, pastIndex + 1);
+          draft.history.future = [...future, ...undone];
+        }
       });
     },
 
-    redo: () => {
+    // Not an undo step of ours; rules and plugin hooks already ran for the author
+    applyRemoteTree: (tree) => {
       const state = get();
-      if (state.history.future.length === 0) return;
+      const changedIds = new Set(
+        [...Object.keys(state.nodes), ...Object.keys(tree.nodes)].filter(
+          (id) => state.nodes[id] !== tree.nodes[id]
+        )
+      );
+      const rootsChanged = state.rootNodeIds !== tree.rootNodeIds;
+      if (changedIds.size === 0 && !rootsChanged) return;
 
-      const next = state.history.future[state.history.future.length - 1];
+      // Collaborators' values are checked like imported ones
+      const nodes = { ...tree.nodes };
+      changedIds.forEach((id) => {
+        if (nodes[id]) nodes[id] = sanitizeNode(nodes[id], state.currentSession.fieldSchema);
+      });
 
       set((draft) => {
-        // Save current to past
-        draft.history.past.push({
-          nodes: { ...state.nodes },
-          rootNodeIds: [...state.rootNodeIds],
-        });
-
-        // Restore next
-        draft.nodes = { ...next.nodes };
-        draft.rootNodeIds = [...next.rootNodeIds];
-
-        // Remove from future
-        draft.history.future.pop();
+        draft.nodes = nodes;
+        draft.rootNodeIds = tree.rootNodeIds;
+        const removed = Array.from(changedIds).filter((id) => !tree.nodes[id]);
+        if (removed.length > 0) {
+          draft.currentSession.selectedNodeIds = draft.currentSession.selectedNodeIds.filter(
+            (id) => !removed.includes(id)
+          );
+          if (removed.includes(draft.currentSession.focusedNodeId ?? '')) {
+            draft.currentSession.focusedNodeId = undefined;
+          }
+          if (removed.includes(draft.detailNodeId ?? '')) {
+            draft.detailNodeId = null;
+          }
+        }
+        dropConflictingHistory(draft.history, changedIds, rootsChanged);
       });
+
+      notifyNodeChanges(get, state.nodes);
     },
 
     // Import/Export
     exportData: () => {
       const state = get();
+      const treeKey = getSessionTreeKey(state.currentSession);
       try {
         return JSON.stringify(
           {
+            schemaVersion: APP_CONFIG.SCHEMA_VERSION,
             nodes: state.nodes,
             rootNodeIds: state.rootNodeIds,
             session: state.currentSession,
-            templates: state.templates,
-            snapshots: state.snapshots,
+            templates: pickTreeItems(state.templates, treeKey),
+            snapshots: pickTreeItems(state.snapshots, treeKey),
+            plugins: {
+              installed: state.plugins.map((plugin) => plugin.id),
+              settings: state.pluginSettings,
+            },
           },
           null,
           2
@@ -931,17 +2273,41 @@ export const useStore = create<AppState & StoreActions>()(
     },
 
     importData: (jsonData) => {
-      const rtl = get().currentSession.rtl;
+      const state = get();
+      const rtl = state.currentSession.rtl;
       try {
         const parsed = parseImportData(jsonData);
+        const treeKey = getSessionTreeKey(parsed.session);
         set((draft) => {
           draft.nodes = parsed.nodes;
           draft.rootNodeIds = parsed.rootNodeIds;
           draft.currentSession = parsed.session;
-          draft.templates = parsed.templates;
-          draft.snapshots = parsed.snapshots;
+          if (parsed.sessions) {
+            draft.sessions = parsed.sessions;
+            draft.sessionTrees = parsed.sessionTrees;
+          }
+          // The imported session's tree is the one on screen
+          delete draft.sessionTrees[getSessionTreeKey(parsed.session)];
+          if (parsed.sessions) {
+            draft.templates = parsed.templates;
+            draft.snapshots = parsed.snapshots;
+          } else {
+            // A file of one session brings what was saved from its tree only
+            draft.templates = replaceTreeItems(state.templates, parsed.templates, treeKey);
+            draft.snapshots = replaceTreeItems(state.snapshots, parsed.snapshots, treeKey);
+          }
+          if (parsed.plugins) {
+            // Keep plugins registered from code, restore built-ins from the file
+            draft.plugins = [
+              ...draft.plugins.filter((plugin) => !getBuiltInPlugin(plugin.id)),
+              ...parsed.plugins.installed,
+            ];
+            draft.pluginSettings = parsed.plugins.settings;
+          }
+          draft.detailNodeId = null;
+          // A loaded file starts a fresh timeline
+          draft.history = { past: [], future: [], isTrimmed: false };
         });
-        get().saveHistory();
       } catch (error) {
         console.error('Failed to import data:', error);
         const message =
@@ -958,6 +2324,133 @@ export const useStore = create<AppState & StoreActions>()(
       }
     },
 
+    previewImport: (jsonData) =>
+      previewMerge(get().nodes, toImportedTree(parseImportData(jsonData))),
+
+    appendImport: (jsonData) => {
+      const parsed = parseImportData(jsonData);
+      const state = get();
+      const rtl = state.currentSession.rtl;
+      const fieldSchema = mergeFieldSchemas(
+        state.currentSession.fieldSchema,
+        parsed.session.fieldSchema
+      );
+
+      // Fresh ids, so nothing in the file can collide with our nodes
+      const { newNodes, ids } = prepareSubtrees(
+        toImportedTree(parsed),
+        null,
+        0,
+        fieldSchema,
+        'flatten'
+      );
+      const count = Object.keys(newNodes).length;
+      const label = rtl ? `ייבוא ${countLabel(count, rtl)}` : `Import ${countLabel(count, rtl)}`;
+
+      set((draft) => addImportExtras(draft, parsed, fieldSchema));
+      commitWithHistory(set, get, label, (draft) => {
+        insertSubtrees(draft, newNodes, ids, null);
+      });
+      notifyNodeChanges(get, state.nodes);
+      return count;
+    },
+
+    mergeImport: (jsonData, resolutions) => {
+      const parsed = parseImportData(jsonData);
+      const state = get();
+      const rtl = state.currentSession.rtl;
+      const fieldSchema = mergeFieldSchemas(
+        state.currentSession.fieldSchema,
+        parsed.session.fieldSchema
+      );
+
+      const local = { rootIds: state.rootNodeIds, nodes: state.nodes };
+      const incoming = toImportedTree(parsed);
+      const preview = previewMerge(state.nodes, incoming);
+      const merged = mergeTrees(local, incoming, resolutions, APP_CONFIG.MAX_DEPTH - 1);
+      // File values were checked against the file's schema; ours wins on clashes
+      const nodes = sanitizeNodesMap(merged.nodes, fieldSchema);
+
+      const updated =
+        preview.changed.length +
+        preview.conflicts.filter((conflict) => resolutions[conflict.id] === 'incoming').length;
+      const label = rtl
+        ? `מיזוג ייבוא: ${preview.added.length} נוספו, ${updated} עודכנו`
+        : `Merge import: ${preview.added.length} added, ${updated} updated`;
+
+      set((draft) => addImportExtras(draft, parsed, fieldSchema));
+      commitWithHistory(set, get, label, (draft) => {
+        applyMergedTree(draft, state, { rootIds: merged.rootIds, nodes });
+      });
+
+      notifyNodeChanges(get, state.nodes);
+    },
+
+    mergeWorkspace: (jsonData) => {
+      const parsed = parseImportData(jsonData);
+      const state = get();
+      const treeKey = getSessionTreeKey(state.currentSession);
+      const sessions = parsed.sessions ?? { [parsed.session.id]: parsed.session };
+      // Every tree in the file, the one it had on screen included
+      const trees: Record<string, SessionTree> = {
+        ...parsed.sessionTrees,
+        [getSessionTreeKey(parsed.session)]: {
+          nodes: parsed.nodes,
+          rootNodeIds: parsed.rootNodeIds,
+        },
+      };
+      const mergeTree = (local: SessionTree, incoming: SessionTree) =>
+        mergeTrees(
+          { rootIds: local.rootNodeIds, nodes: local.nodes },
+          { rootIds: incoming.rootNodeIds, nodes: incoming.nodes },
+          {},
+          APP_CONFIG.MAX_DEPTH - 1
+        );
+
+      // Sessions and parked trees aren't part of history
+      set((draft) => {
+        Object.values(sessions).forEach((session) => {
+          const local =
+            draft.currentSession.id === session.id
+              ? draft.currentSession
+              : draft.sessions[session.id];
+          if (local) {
+            local.fieldSchema = mergeFieldSchemas(local.fieldSchema, session.fieldSchema);
+          } else {
+            draft.sessions[session.id] = session;
+          }
+        });
+        Object.entries(trees).forEach(([key, tree]) => {
+          if (key === treeKey) return;
+          const parked = state.sessionTrees[key];
+          if (!parked) {
+            draft.sessionTrees[key] = tree;
+            return;
+          }
+          const { nodes, rootIds } = mergeTree(parked, tree);
+          draft.sessionTrees[key] = { nodes, rootNodeIds: rootIds };
+        });
+        Object.values(parsed.templates).forEach((template) => {
+          if (!draft.templates[template.id]) draft.templates[template.id] = template;
+        });
+        Object.values(parsed.snapshots).forEach((snapshot) => {
+          if (!draft.snapshots[snapshot.id]) draft.snapshots[snapshot.id] = snapshot;
+        });
+      });
+
+      const incoming = trees[treeKey];
+      if (!incoming) return;
+      const merged = mergeTree({ nodes: state.nodes, rootNodeIds: state.rootNodeIds }, incoming);
+      const rtl = state.currentSession.rtl;
+      commitWithHistory(
+        set,
+        get,
+        rtl ? 'מיזוג שינויים שלא נשמרו' : 'Merge unsaved changes',
+        (draft) => applyMergedTree(draft, state, merged)
+      );
+      notifyNodeChanges(get, state.nodes);
+    },
+
     reset: () => {
       set(initialState);
     },
@@ -3,6 +3,8 @@
  * Following the specification for maximum flexibility with minimal constraints
  */
 
+import type { Patch } from 'immer';
+
 export type ListNodeId = string;
 
 /**
@@ -29,6 +31,13 @@ export interface ListNode {
   isPinned?: boolean; // Pinning
   isHighlighted?: boolean; // Temporary highlight
 
+  // Labels for filtering and grouping
+  tags?: string[];
+
+  // Schedule - `YYYY-MM-DD` day keys
+  startDate?: string;
+  dueDate?: string;
+
   // Sandbox props - open field for extensions
   sandboxProps?: Record<string, any>;
 
@@ -42,6 +51,24 @@ export interface ListNode {
  */
 export type ViewMode = 'outline' | 'board' | 'tree' | 'timeline' | 'minimal';
 
+/**
+ * Timeline axis scale
+ */
+export type TimelineZoom = 'day' | 'week' | 'month';
+
+/**
+ * The attribute a board splits its columns by
+ */
+export type BoardGroupBy = 'level' | 'done' | 'tag' | `field:${string}`;
+
+/**
+ * Column layout for one grouping - order and WIP limits by column key
+ */
+export interface BoardColumnSettings {
+  order: string[];
+  wipLimits: Record<string, number>;
+}
+
 /**
  * Theme configuration
  */
@@ -58,6 +85,28 @@ export interface SandboxTheme {
   };
 }
 
+/**
+ * Custom fields - a per-session schema whose values live in
+ * `ListNode.sandboxProps.fields`, keyed by field id
+ */
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'single-select'
+  | 'multi-select'
+  | 'checkbox'
+  | 'url';
+
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // Choices for single-select / multi-select
+}
+
+export type CustomFieldValue = string | number | boolean | string[];
+
 /**
  * Keyboard shortcuts profile
  */
@@ -79,6 +128,55 @@ export interface SandboxRule {
   config: Record<string, any>;
 }
 
+/**
+ * Built-in rule types understood by the rules runtime
+ */
+export type BuiltInRuleType =
+  | 'auto-collapse'
+  | 'auto-tag'
+  | 'color-by-status'
+  | 'auto-sort'
+  | 'time-based';
+
+export interface AutoCollapseRuleConfig {
+  trigger: 'done' | 'all-children-done';
+}
+
+export interface AutoTagRuleConfig {
+  keyword: string;
+  tag: string;
+  matchDescription: boolean;
+}
+
+export interface ColorByStatusRuleConfig {
+  doneColorSlot: number;
+  pendingColorSlot: number | null; // null = fall back to level color
+}
+
+export type NodeSortKey = 'title' | 'createdAt' | 'updatedAt' | `field:${string}`;
+
+export interface AutoSortRuleConfig {
+  sortBy: NodeSortKey;
+  order: 'asc' | 'desc';
+}
+
+export interface TimeBasedRuleConfig {
+  field: 'createdAt' | 'updatedAt';
+  olderThanDays: number;
+  action: 'highlight' | 'collapse' | 'pin';
+}
+
+/**
+ * Config schema per built-in rule type
+ */
+export interface RuleConfigMap {
+  'auto-collapse': AutoCollapseRuleConfig;
+  'auto-tag': AutoTagRuleConfig;
+  'color-by-status': ColorByStatusRuleConfig;
+  'auto-sort': AutoSortRuleConfig;
+  'time-based': TimeBasedRuleConfig;
+}
+
 /**
  * Session - Represents a working state over the tree
  */
@@ -86,6 +184,10 @@ export interface SandboxSession {
   id: string;
   name: string;
   description?: string;
+  // Work on a tree of its own instead of the one shared by the other sessions
+  ownsTree?: boolean;
+  // Position in the sessions list
+  order?: number;
 
   // View state
   viewMode: ViewMode;
@@ -102,6 +204,14 @@ export interface SandboxSession {
   // UI settings
   theme: SandboxTheme;
   shortcutsProfile: SandboxShortcutsProfile;
+  customShortcutsProfiles: Record<string, SandboxShortcutsProfile>;
+
+  // Custom fields
+  fieldSchema: CustomFieldDefinition[];
+  boardGroupBy?: BoardGroupBy;
+  boardColumns?: Record<string, BoardColumnSettings>; // keyed by grouping
+  boardSwimlanes?: boolean;
+  timelineZoom?: TimelineZoom;
 
   // History
   historyEnabled: boolean;
@@ -111,6 +221,14 @@ export interface SandboxSession {
   updatedAt: number;
 }
 
+/**
+ * Session tree - a tree that is not on screen, parked until its session is
+ */
+export interface SessionTree {
+  nodes: Record<ListNodeId, ListNode>;
+  rootNodeIds: ListNodeId[];
+}
+
 /**
  * Template - Saved subtree structure
  */
@@ -120,6 +238,8 @@ export interface Template {
   description?: string;
   rootNodeId: string;
   tags?: string[];
+  // Tree the template was saved from (see getSessionTreeKey); the shared tree if missing
+  treeKey?: string;
   createdAt: number;
 }
 
@@ -131,6 +251,8 @@ export interface Snapshot {
   name: string;
   description?: string;
   sessionId: string;
+  // Tree the snapshot was taken of (see getSessionTreeKey); the shared tree if missing
+  treeKey?: string;
   nodes: Record<ListNodeId, ListNode>;
   rootNodeIds: ListNodeId[];
   createdAt: number;
@@ -146,6 +268,21 @@ export interface FilterConfig {
   minChildren?: number;
   maxChildren?: number;
   tags?: string[];
+  tagMatch?: 'any' | 'all'; // Defaults to 'any'
+  fields?: FieldFilter[];
+}
+
+/**
+ * Custom field filter - `values` matches any of the listed choices, `text` is
+ * a substring match, `min`/`max` bound numbers and dates. With none of them
+ * the field just has to be set.
+ */
+export interface FieldFilter {
+  fieldId: string;
+  values?: Array<string | boolean>;
+  text?: string;
+  min?: number | string;
+  max?: number | string;
 }
 
 /**
@@ -169,6 +306,11 @@ export interface SandboxPlugin {
   renderToolbar?(ctx: SandboxContext): React.ReactNode;
 }
 
+/**
+ * Persisted per-plugin settings
+ */
+export type PluginSettings = Record<string, unknown>;
+
 /**
  * Context provided to plugins
  */
@@ -177,6 +319,7 @@ export interface SandboxContext {
   nodes: Record<ListNodeId, ListNode>;
   rootNodeIds: ListNodeId[];
   session: SandboxSession;
+  filterConfig: FilterConfig;
 
   // Actions
   updateNode: (id: ListNodeId, updates: Partial<ListNode>) => void;
@@ -186,6 +329,10 @@ export interface SandboxContext {
   // Session actions
   updateSession: (updates: Partial<SandboxSession>) => void;
 
+  // Plugin settings
+  getPluginSettings: (pluginId: string) => PluginSettings;
+  updatePluginSettings: (pluginId: string, updates: PluginSettings) => void;
+
   // Queries
   getNode: (id: ListNodeId) => ListNode | undefined;
   getChildren: (id: ListNodeId) => ListNode[];
@@ -193,6 +340,19 @@ export interface SandboxContext {
   getPath: (id: ListNodeId) => ListNode[];
 }
 
+/**
+ * Undo/redo entry - Immer patches over `nodes` / `rootNodeIds`, so each step
+ * only stores what changed
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  patches: Patch[];
+  inversePatches: Patch[];
+  coalesceKey?: string; // consecutive entries with the same key merge
+}
+
 /**
  * App state - the main store structure
  */
@@ -206,6 +366,9 @@ export interface AppState {
 
   // Sessions management
   sessions: Record<string, SandboxSession>;
+  // Trees not on screen: by session id for sessions that own one, and the
+  // shared tree while a session with its own is current
+  sessionTrees: Record<string, SessionTree>;
 
   // Templates
   templates: Record<string, Template>;
@@ -215,14 +378,17 @@ export interface AppState {
 
   // Plugins
   plugins: SandboxPlugin[];
+  pluginSettings: Record<string, PluginSettings>;
 
   // UI state
   filterConfig: FilterConfig;
   commandPaletteOpen: boolean;
+  detailNodeId: ListNodeId | null;
 
   // History for undo/redo
   history: {
-    past: Array<{ nodes: Record<ListNodeId, ListNode>; rootNodeIds: ListNodeId[] }>;
-    future: Array<{ nodes: Record<ListNodeId, ListNode>; rootNodeIds: ListNodeId[] }>;
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+    isTrimmed: boolean; // older entries were dropped, so undo stops short of the start
   };
 }
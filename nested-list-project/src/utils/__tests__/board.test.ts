@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCardColumns,
+  getColumnMoveUpdate,
+  getRootId,
+  moveColumn,
+  NO_VALUE_COLUMN,
+  orderColumns,
+} from '../board';
+import { CustomFieldDefinition, ListNode } from '../../types/core';
+
+const makeNode = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...data,
+});
+
+const stage: CustomFieldDefinition = {
+  id: 'stage',
+  name: 'Stage',
+  type: 'multi-select',
+  options: ['design', 'build', 'ship'],
+};
+
+describe('board', () => {
+  it('places cards in columns for each grouping', () => {
+    const node = makeNode('a', {
+      level: 2,
+      isDone: true,
+      tags: ['work', 'urgent'],
+      sandboxProps: { fields: { stage: ['design', 'build'] } },
+    });
+
+    expect(getCardColumns(node, 'level')).toEqual(['value:2']);
+    expect(getCardColumns(node, 'done')).toEqual(['value:done']);
+    expect(getCardColumns(node, 'tag')).toEqual(['value:work', 'value:urgent']);
+    expect(getCardColumns(node, 'field:stage', stage)).toEqual(['value:design', 'value:build']);
+    expect(getCardColumns(makeNode('b'), 'tag')).toEqual([NO_VALUE_COLUMN]);
+    expect(getCardColumns(makeNode('b'), 'field:stage', stage)).toEqual([NO_VALUE_COLUMN]);
+  });
+
+  it('turns a column change into a node update', () => {
+    const node = makeNode('a', {
+      tags: ['work'],
+      sandboxProps: { fields: { stage: ['design', 'build'] }, estimate: 3 },
+    });
+
+    expect(getColumnMoveUpdate(node, 'done', 'value:open', 'value:done')).toEqual({
+      isDone: true,
+    });
+    expect(getColumnMoveUpdate(node, 'tag', 'value:work', 'value:home')).toEqual({
+      tags: ['home'],
+    });
+    expect(getColumnMoveUpdate(node, 'tag', 'value:work', NO_VALUE_COLUMN)).toEqual({ tags: [] });
+    expect(
+      getColumnMoveUpdate(node, 'field:stage', 'value:design', 'value:ship', stage)
+    ).toEqual({ sandboxProps: { fields: { stage: ['build', 'ship'] }, estimate: 3 } });
+    expect(
+      getColumnMoveUpdate(
+        makeNode('b', { sandboxProps: { fields: { stage: ['ship'] } } }),
+        'field:stage',
+        'value:ship',
+        NO_VALUE_COLUMN,
+        stage
+      )
+    ).toEqual({ sandboxProps: undefined });
+    // Levels follow the tree, so they can't be changed from the board
+    expect(getColumnMoveUpdate(node, 'level', 'value:0', 'value:1')).toBeNull();
+  });
+
+  it('orders columns and finds swimlane roots', () => {
+    const columns = ['a', 'b', 'c', 'd'].map((key) => ({ key }));
+
+    expect(orderColumns(columns, ['c', 'a']).map((column) => column.key)).toEqual([
+      'c',
+      'a',
+      'b',
+      'd',
+    ]);
+    expect(moveColumn(['a', 'b', 'c'], 'b', -1)).toEqual(['b', 'a', 'c']);
+    expect(moveColumn(['a', 'b', 'c'], 'c', 1)).toEqual(['a', 'b', 'c']);
+
+    const nodes = {
+      root: makeNode('root', { childrenIds: ['child'] }),
+      child: makeNode('child', { parentId: 'root', childrenIds: ['leaf'] }),
+      leaf: makeNode('leaf', { parentId: 'child' }),
+    };
+    expect(getRootId(nodes, 'leaf')).toBe('root');
+    expect(getRootId(nodes, 'root')).toBe('root');
+  });
+});
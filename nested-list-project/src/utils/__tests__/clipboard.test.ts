@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildClipboardPayload, parseClipboardPayload, payloadToText } from '../clipboard';
+import { ListNode } from '../../types/core';
+
+const makeNode = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...data,
+});
+
+const nodes = {
+  a: makeNode('a', { childrenIds: ['a1'] }),
+  a1: makeNode('a1', { parentId: 'a', level: 1, isDone: true }),
+  b: makeNode('b'),
+};
+const rootNodeIds = ['a', 'b'];
+
+describe('clipboard', () => {
+  it('copies selected subtrees as a payload and a Markdown outline', () => {
+    const payload = buildClipboardPayload(['a1', 'a', 'b'], rootNodeIds, nodes);
+
+    expect(payload.rootIds).toEqual(['a', 'b']);
+    expect(Object.keys(payload.nodes).sort()).toEqual(['a', 'a1', 'b']);
+    expect(payloadToText(payload)).toBe('- [ ] a\n  - [x] a1\n- [ ] b');
+  });
+
+  it('keeps only the reachable, acyclic part of a pasted payload', () => {
+    const payload = parseClipboardPayload(
+      JSON.stringify({
+        rootIds: ['a', 'missing'],
+        nodes: {
+          a: { id: 'a', title: 'A', childrenIds: ['b', 'ghost'] },
+          b: { id: 'b', title: 'B', childrenIds: ['a'] },
+        },
+      })
+    );
+
+    expect(payload?.rootIds).toEqual(['a']);
+    expect(payload?.nodes.a.childrenIds).toEqual(['b']);
+    expect(payload?.nodes.b.childrenIds).toEqual([]);
+    expect(parseClipboardPayload('not json')).toBeNull();
+    expect(parseClipboardPayload('{"rootIds": [], "nodes": {}}')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareFieldValues,
+  matchesFieldFilter,
+  sanitizeFieldSchema,
+  sanitizeFieldValue,
+  sanitizeFieldValues,
+} from '../customFields';
+import { sortNodes } from '../nodeHelpers';
+import { CustomFieldDefinition, CustomFieldValue, ListNode } from '../../types/core';
+
+const makeNode = (id: string, fields?: Record<string, CustomFieldValue>): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  sandboxProps: fields ? { fields } : undefined,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const status: CustomFieldDefinition = {
+  id: 'status',
+  name: 'Status',
+  type: 'single-select',
+  options: ['todo', 'doing', 'done'],
+};
+const labels: CustomFieldDefinition = {
+  id: 'labels',
+  name: 'Labels',
+  type: 'multi-select',
+  options: ['a', 'b'],
+};
+
+describe('custom fields', () => {
+  it('drops malformed and duplicate field definitions', () => {
+    expect(
+      sanitizeFieldSchema([
+        { id: 'status', name: ' Status ', type: 'single-select', options: ['x', 'x', ' ', 3] },
+        { id: 'status', name: 'Again', type: 'text' },
+        { id: 'due', name: 'Due', type: 'date', options: ['ignored'] },
+        { id: 'bad', name: 'Bad', type: 'rating' },
+        { id: '', name: 'No id', type: 'text' },
+        'junk',
+      ])
+    ).toEqual([
+      { id: 'status', name: 'Status', type: 'single-select', options: ['x'] },
+      { id: 'due', name: 'Due', type: 'date' },
+    ]);
+    expect(sanitizeFieldSchema(undefined)).toEqual([]);
+  });
+
+  it('coerces values to their field type', () => {
+    const field = (type: CustomFieldDefinition['type']): CustomFieldDefinition => ({
+      id: type,
+      name: type,
+      type,
+    });
+
+    expect(sanitizeFieldValue(field('number'), '4.5')).toBe(4.5);
+    expect(sanitizeFieldValue(field('number'), 'abc')).toBeUndefined();
+    expect(sanitizeFieldValue(field('date'), '2024-03-01T10:00:00Z')).toBe('2024-03-01');
+    expect(sanitizeFieldValue(field('date'), '2024-02-31')).toBeUndefined();
+    expect(sanitizeFieldValue(field('checkbox'), 'false')).toBe(false);
+    expect(sanitizeFieldValue(field('url'), 'example.com/page')).toBe('https://example.com/page');
+    expect(sanitizeFieldValue(field('url'), 'javascript:alert(1)')).toBeUndefined();
+    expect(sanitizeFieldValue(status, 'doing')).toBe('doing');
+    expect(sanitizeFieldValue(status, 'blocked')).toBeUndefined();
+    expect(sanitizeFieldValue(labels, ['b', 'z', 'b'])).toEqual(['b']);
+    expect(sanitizeFieldValue(labels, [])).toBeUndefined();
+
+    expect(sanitizeFieldValues({ status: 'todo', labels: 'a', stale: 1 }, [status, labels])).toEqual(
+      { status: 'todo', labels: ['a'] }
+    );
+  });
+
+  it('matches field filters by value, text and range', () => {
+    const node = makeNode('a', { status: 'doing', estimate: 5, due: '2024-05-10', labels: ['a'] });
+    const unset = makeNode('b');
+
+    expect(matchesFieldFilter(node, { fieldId: 'status', values: ['todo', 'doing'] })).toBe(true);
+    expect(matchesFieldFilter(node, { fieldId: 'labels', values: ['b'] })).toBe(false);
+    expect(matchesFieldFilter(unset, { fieldId: 'flag', values: [false] })).toBe(true);
+    expect(matchesFieldFilter(node, { fieldId: 'status', text: 'DO' })).toBe(true);
+    expect(matchesFieldFilter(node, { fieldId: 'estimate', min: 3, max: 5 })).toBe(true);
+    expect(matchesFieldFilter(node, { fieldId: 'estimate', min: 6 })).toBe(false);
+    expect(matchesFieldFilter(node, { fieldId: 'due', max: '2024-05-01' })).toBe(false);
+    expect(matchesFieldFilter(unset, { fieldId: 'estimate' })).toBe(false);
+  });
+
+  it('sorts by field value with missing values last', () => {
+    expect(compareFieldValues(2, 10)).toBeLessThan(0);
+    expect(compareFieldValues(undefined, 1)).toBeGreaterThan(0);
+
+    const nodes = [
+      makeNode('none'),
+      makeNode('high', { estimate: 8 }),
+      makeNode('low', { estimate: 1 }),
+    ];
+
+    expect(sortNodes(nodes, 'field:estimate', 'asc').map((node) => node.id)).toEqual([
+      'low',
+      'high',
+      'none',
+    ]);
+    expect(sortNodes(nodes, 'field:estimate', 'desc').map((node) => node.id)).toEqual([
+      'high',
+      'low',
+      'none',
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getDropPosition, resolveDropTarget } from '../dragDrop';
+import { ListNode } from '../../types/core';
+
+const makeNode = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...data,
+});
+
+const nodes = {
+  a: makeNode('a', { childrenIds: ['a1', 'a2', 'a3'] }),
+  a1: makeNode('a1', { parentId: 'a', level: 1 }),
+  a2: makeNode('a2', { parentId: 'a', level: 1 }),
+  a3: makeNode('a3', { parentId: 'a', level: 1 }),
+  b: makeNode('b'),
+};
+const rootNodeIds = ['a', 'b'];
+
+describe('drag and drop', () => {
+  it('splits a row into before, inside and after zones', () => {
+    const rect = { top: 100, height: 40 };
+
+    expect(getDropPosition(rect, 105)).toBe('before');
+    expect(getDropPosition(rect, 120)).toBe('inside');
+    expect(getDropPosition(rect, 135)).toBe('after');
+    expect(getDropPosition(rect, 115, false)).toBe('before');
+    expect(getDropPosition(rect, 125, false)).toBe('after');
+  });
+
+  it('resolves sibling indexes with the dragged node taken out', () => {
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a1', 'a3', 'after')).toEqual({
+      parentId: 'a',
+      index: 2,
+    });
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a3', 'a1', 'before')).toEqual({
+      parentId: 'a',
+      index: 0,
+    });
+    expect(resolveDropTarget(nodes, rootNodeIds, 'b', 'a2', 'before')).toEqual({
+      parentId: 'a',
+      index: 1,
+    });
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a2', 'b', 'inside')).toEqual({
+      parentId: 'b',
+      index: 0,
+    });
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a2', 'a', 'before')).toEqual({
+      parentId: null,
+      index: 0,
+    });
+  });
+
+  it('rejects drops that are invalid or change nothing', () => {
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a', 'a', 'inside')).toBeNull();
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a', 'a1', 'inside')).toBeNull();
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a1', 'a2', 'before')).toBeNull();
+    expect(resolveDropTarget(nodes, rootNodeIds, 'a2', 'a1', 'after')).toBeNull();
+    // Too deep: a's two-level subtree doesn't fit under a level-4 node
+    const deep = {
+      ...nodes,
+      b: makeNode('b', { childrenIds: ['c'] }),
+      c: makeNode('c', { parentId: 'b', childrenIds: ['d'], level: 1 }),
+      d: makeNode('d', { parentId: 'c', childrenIds: ['e'], level: 2 }),
+      e: makeNode('e', { parentId: 'd', childrenIds: ['f'], level: 3 }),
+      f: makeNode('f', { parentId: 'e', level: 4 }),
+    };
+    expect(resolveDropTarget(deep, rootNodeIds, 'a', 'f', 'inside')).toBeNull();
+    expect(resolveDropTarget(deep, rootNodeIds, 'a1', 'f', 'inside')).toEqual({
+      parentId: 'f',
+      index: 0,
+    });
+  });
+});
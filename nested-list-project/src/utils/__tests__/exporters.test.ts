@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { exportToCSV, exportToMarkdown, exportToOPML, getExportScope } from '../exporters';
+import { parseOPML } from '../importers';
+import { CustomFieldDefinition, ListNode, ListNodeId } from '../../types/core';
+
+const makeNode = (overrides: Partial<ListNode> & { id: string }): ListNode => ({
+  parentId: null,
+  childrenIds: [],
+  title: overrides.id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+// Project
+//   ├─ Design, "v2" (done)
+//   └─ Build
+const nodes: Record<ListNodeId, ListNode> = {
+  project: makeNode({ id: 'project', title: 'Project', childrenIds: ['design', 'build'] }),
+  design: makeNode({
+    id: 'design',
+    parentId: 'project',
+    level: 1,
+    title: 'Design, "v2"',
+    description: 'Wireframes\nMockups',
+    isDone: true,
+  }),
+  build: makeNode({
+    id: 'build',
+    parentId: 'project',
+    level: 1,
+    title: 'Build',
+    sandboxProps: { fields: { owner: 'Dana', stacks: ['web', 'api'] } },
+  }),
+};
+
+const fieldSchema: CustomFieldDefinition[] = [
+  { id: 'owner', name: 'Owner', type: 'text' },
+  { id: 'stacks', name: 'Stacks', type: 'multi-select', options: ['web', 'api'] },
+];
+
+describe('exporters', () => {
+  it('should export CSV rows in tree order with escaping', () => {
+    const csv = exportToCSV(nodes, ['project']).split('\n');
+
+    expect(csv[0]).toBe('id,parentId,level,path,title,isDone,isPinned,createdAt,updatedAt');
+    expect(csv).toHaveLength(4);
+    expect(csv[1].startsWith('project,,0,Project,Project,false,')).toBe(true);
+    expect(
+      csv[2].startsWith('design,project,1,"Project / Design, ""v2""","Design, ""v2""",true,')
+    ).toBe(true);
+    expect(csv[3].startsWith('build,project,1,Project / Build,Build,false,')).toBe(true);
+  });
+
+  it('should include a description column on request', () => {
+    const csv = exportToCSV(nodes, ['project'], { includeDescriptions: true });
+
+    expect(csv.split('\n')[0]).toContain('title,description,isDone');
+    expect(csv).toContain('"Wireframes\nMockups"');
+  });
+
+  it('should add a column per custom field', () => {
+    const csv = exportToCSV(nodes, ['project'], { fieldSchema }).split('\n');
+
+    expect(csv[0].endsWith(',updatedAt,Owner,Stacks')).toBe(true);
+    expect(csv[1].endsWith('Z,,')).toBe(true);
+    expect(csv[3].endsWith('Z,Dana,web;api')).toBe(true);
+  });
+
+  it('should scope exports to the focused subtree and active filter', () => {
+    const scope = getExportScope(nodes, ['project'], 'project', { searchText: 'build' });
+    expect(scope.rootNodeIds).toEqual(['project']);
+    expect([...scope.includeIds!].sort()).toEqual(['build', 'project']);
+
+    const csv = exportToCSV(nodes, scope.rootNodeIds, { includeIds: scope.includeIds });
+    expect(csv.split('\n').map((row) => row.split(',')[0])).toEqual(['id', 'project', 'build']);
+    expect(exportToMarkdown(nodes, ['project'], { includeIds: scope.includeIds })).toBe(
+      '- [ ] Project\n  - [ ] Build'
+    );
+
+    // No filter and a stale focus id export everything
+    expect(getExportScope(nodes, ['project'], 'gone', {})).toEqual({
+      rootNodeIds: ['project'],
+      includeIds: null,
+    });
+  });
+
+  it('should export Markdown checklists with nesting', () => {
+    expect(exportToMarkdown(nodes, ['project'])).toBe(
+      ['- [ ] Project', '  - [x] Design, "v2"', '  - [ ] Build'].join('\n')
+    );
+
+    expect(exportToMarkdown(nodes, ['project'], { includeDescriptions: true })).toBe(
+      [
+        '- [ ] Project',
+        '  - [x] Design, "v2"',
+        '    Wireframes',
+        '    Mockups',
+        '  - [ ] Build',
+      ].join('\n')
+    );
+  });
+
+  it('should export OPML outlines that read back in', () => {
+    const opml = exportToOPML(nodes, ['project'], { includeDescriptions: true, title: 'Plan' });
+
+    expect(opml).toContain('<title>Plan</title>');
+    expect(opml).toContain(
+      '      <outline text="Design, &quot;v2&quot;" _complete="true" _note="Wireframes&#10;Mockups"/>'
+    );
+
+    const tree = parseOPML(opml);
+    const project = tree.nodes[tree.rootIds[0]];
+    const [design, build] = project.childrenIds.map((id) => tree.nodes[id]);
+    expect(project.title).toBe('Project');
+    expect(design).toMatchObject({
+      title: 'Design, "v2"',
+      description: 'Wireframes\nMockups',
+      isDone: true,
+    });
+    expect(build.title).toBe('Build');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { getFilteredNodeIds, hasActiveFilter, matchesFilter } from '../filters';
+import { ListNode } from '../../types/core';
+
+const node: ListNode = {
+  id: 'task',
+  parentId: null,
+  childrenIds: ['a', 'b'],
+  title: 'Write report',
+  description: 'Quarterly numbers',
+  level: 1,
+  isCollapsed: false,
+  isDone: false,
+  tags: ['work', 'urgent'],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('filters', () => {
+  it('treats an empty config as inactive', () => {
+    expect(hasActiveFilter({})).toBe(false);
+    expect(hasActiveFilter({ tags: [] })).toBe(false);
+    expect(hasActiveFilter({ tags: ['work'] })).toBe(true);
+  });
+
+  it('combines every configured criterion', () => {
+    expect(matchesFilter(node, { searchText: 'quarterly', levels: [1], isDone: false })).toBe(
+      true
+    );
+    expect(matchesFilter(node, { searchText: 'quarterly', levels: [0] })).toBe(false);
+    expect(matchesFilter(node, { minChildren: 3 })).toBe(false);
+    expect(matchesFilter(node, { maxChildren: 2 })).toBe(true);
+  });
+
+  it('honors tag match mode', () => {
+    expect(matchesFilter(node, { tags: ['work', 'home'] })).toBe(true);
+    expect(matchesFilter(node, { tags: ['work', 'home'], tagMatch: 'all' })).toBe(false);
+    expect(matchesFilter(node, { tags: ['work', 'urgent'], tagMatch: 'all' })).toBe(true);
+  });
+
+  it('keeps the ancestors of every match', () => {
+    const nodes = {
+      root: { ...node, id: 'root', level: 0, title: 'Root', tags: [], childrenIds: ['task'] },
+      task: { ...node, parentId: 'root', childrenIds: [] },
+      other: { ...node, id: 'other', level: 0, title: 'Other', description: '', childrenIds: [] },
+    };
+
+    expect(getFilteredNodeIds(nodes, {})).toBeNull();
+    expect([...getFilteredNodeIds(nodes, { searchText: 'report' })!].sort()).toEqual([
+      'root',
+      'task',
+    ]);
+  });
+});
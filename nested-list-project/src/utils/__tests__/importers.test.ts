@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectOutlineFormat,
+  fitSubtreeToDepth,
+  getTreeDepth,
+  ImportedTree,
+  parseCSV,
+  parseCSVTree,
+  parseMarkdownOutline,
+  parseOPML,
+} from '../importers';
+import { exportToCSV } from '../exporters';
+import { CustomFieldDefinition, ListNode } from '../../types/core';
+
+const makeNode = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...data,
+});
+
+// Titles of the tree as nested arrays, for readable assertions
+const shape = (tree: ImportedTree, ids = tree.rootIds): unknown[] =>
+  ids.map((id) => {
+    const node = tree.nodes[id];
+    return node.childrenIds.length > 0 ? [node.title, shape(tree, node.childrenIds)] : node.title;
+  });
+
+describe('importers', () => {
+  it('parses nested Markdown checklists', () => {
+    const tree = parseMarkdownOutline(
+      ['- [ ] Trip', '  - [x] Book flights', '    Window seat', '  - Pack', '- Budget'].join('\n')
+    );
+
+    expect(shape(tree)).toEqual([['Trip', ['Book flights', 'Pack']], 'Budget']);
+    const [trip] = tree.rootIds.map((id) => tree.nodes[id]);
+    const [flights, pack] = trip.childrenIds.map((id) => tree.nodes[id]);
+    expect(trip.isDone).toBe(false);
+    expect(flights).toMatchObject({ isDone: true, description: 'Window seat', level: 1 });
+    expect(pack.isDone).toBeUndefined();
+  });
+
+  it('reads mixed bullets, tabs and loose lines', () => {
+    const tree = parseMarkdownOutline(
+      'Groceries\n    - [x] Milk\n    * Bread\n\t\t1. Rye\n\nChores'
+    );
+
+    expect(shape(tree)).toEqual([['Groceries', ['Milk', ['Bread', ['Rye']]]], 'Chores']);
+    expect(parseMarkdownOutline('One\n  Two\nThree').rootIds).toHaveLength(2);
+  });
+
+  it('parses OPML outlines with notes and completion', () => {
+    const tree = parseOPML(
+      [
+        '<?xml version="1.0"?>',
+        '<opml version="2.0"><head><title>T</title></head><body>',
+        '<outline text="Plan" _note="Line 1&#10;Line 2">',
+        '<outline text="Done &amp; dusted" _complete="true"/>',
+        '</outline>',
+        '<outline title="Fallback"/>',
+        '</body></opml>',
+      ].join('\n')
+    );
+
+    expect(shape(tree)).toEqual([['Plan', ['Done & dusted']], 'Fallback']);
+    const plan = tree.nodes[tree.rootIds[0]];
+    expect(plan.description).toBe('Line 1\nLine 2');
+    expect(tree.nodes[plan.childrenIds[0]]).toMatchObject({ isDone: true, level: 1 });
+    expect(() => parseOPML('<html></html>')).toThrow('Invalid OPML file');
+  });
+
+  it('detects the outline format from the file name or content', () => {
+    expect(detectOutlineFormat('- a', 'list.opml')).toBe('opml');
+    expect(detectOutlineFormat('<?xml version="1.0"?>\n<opml version="2.0">')).toBe('opml');
+    expect(detectOutlineFormat('- a', 'list.md')).toBe('markdown');
+    expect(detectOutlineFormat('- a', 'report.csv')).toBe('csv');
+    expect(detectOutlineFormat('"id","Title",done\n1,a,false')).toBe('csv');
+    expect(detectOutlineFormat('Title, subtitle and more')).toBe('markdown');
+  });
+
+  it('splits CSV with quoted commas, quotes and line breaks', () => {
+    expect(parseCSV('a,"b, c","say ""hi"""\r\n"multi\nline",,x\n\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['multi\nline', '', 'x'],
+    ]);
+  });
+
+  it('rebuilds the hierarchy from parent id columns', () => {
+    const tree = parseCSVTree(
+      [
+        'id,parentId,title,done',
+        'c,b,Child,true',
+        'b,,Root,false',
+        'd,b,Sibling,',
+        // Loop B can't move under Loop A, which is already below it
+        'x,y,Loop A,',
+        'y,x,Loop B,',
+      ].join('\n')
+    );
+
+    expect(shape(tree)).toEqual([['Root', ['Child', 'Sibling']], ['Loop B', ['Loop A']]]);
+    const [child] = tree.nodes[tree.rootIds[0]].childrenIds.map((id) => tree.nodes[id]);
+    expect(child).toMatchObject({ isDone: true, level: 1 });
+  });
+
+  it('rebuilds the hierarchy from a path column', () => {
+    const tree = parseCSVTree(
+      ['path,description', 'Work / Report / Draft,First pass', 'Work,Job', 'Home'].join('\n')
+    );
+
+    expect(shape(tree)).toEqual([['Work', [['Report', ['Draft']]]], 'Home']);
+    // The row for Work fills the placeholder created for its child
+    expect(tree.nodes[tree.rootIds[0]].description).toBe('Job');
+    expect(() => parseCSVTree('id,level\n1,0')).toThrow('title or path');
+  });
+
+  it('reads back its own CSV export with custom fields', () => {
+    const fieldSchema: CustomFieldDefinition[] = [
+      { id: 'f1', name: 'Stacks', type: 'multi-select', options: ['web', 'api'] },
+    ];
+    const source = {
+      a: makeNode('a', { title: 'A / B', childrenIds: ['b'] }),
+      b: makeNode('b', {
+        parentId: 'a',
+        level: 1,
+        isPinned: true,
+        sandboxProps: { fields: { f1: ['web', 'api'] } },
+      }),
+    };
+
+    const tree = parseCSVTree(exportToCSV(source, ['a'], { fieldSchema }), fieldSchema);
+    expect(shape(tree)).toEqual([['A / B', ['b']]]);
+    const b = tree.nodes[tree.nodes[tree.rootIds[0]].childrenIds[0]];
+    expect(b).toMatchObject({ isPinned: true, sandboxProps: { fields: { f1: ['web', 'api'] } } });
+  });
+
+  it('flattens or truncates subtrees that pass the maximum depth', () => {
+    const makeChain = () => ({
+      r: makeNode('r', { childrenIds: ['c'] }),
+      c: makeNode('c', { parentId: 'r', childrenIds: ['g'] }),
+      g: makeNode('g', { parentId: 'c', childrenIds: ['gg'] }),
+      gg: makeNode('gg', { parentId: 'g' }),
+    });
+
+    const flattened = makeChain();
+    expect(fitSubtreeToDepth('r', flattened, 3, 4)).toEqual({ ids: ['r'], overflow: 2 });
+    expect(flattened.r.childrenIds).toEqual(['c', 'g', 'gg']);
+    expect(['c', 'g', 'gg'].map((id) => flattened[id as 'c'].level)).toEqual([4, 4, 4]);
+    expect(flattened.gg.parentId).toBe('r');
+
+    const truncated = makeChain();
+    expect(fitSubtreeToDepth('r', truncated, 3, 4, 'truncate')).toEqual({
+      ids: ['r'],
+      overflow: 2,
+    });
+    expect(truncated.c.childrenIds).toEqual([]);
+    expect(Object.keys(truncated)).toEqual(['r', 'c']);
+  });
+
+  it('measures the depth of an imported tree', () => {
+    expect(getTreeDepth(parseMarkdownOutline('- a\n  - b\n    - c\n- d'))).toBe(3);
+    expect(getTreeDepth({ rootIds: [], nodes: {} })).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileKeymap,
+  eventToStroke,
+  findConflicts,
+  matchKeySequence,
+  normalizeStroke,
+  parseBinding,
+} from '../keymap';
+import { DEFAULT_SHORTCUTS, VIM_SHORTCUTS } from '../../constants/shortcuts';
+
+const key = (key: string, mods: Partial<KeyboardEvent> = {}) => ({
+  key,
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...mods,
+});
+
+describe('keymap', () => {
+  it('should normalize profile strokes and keyboard events to the same form', () => {
+    expect(normalizeStroke('Control+Shift+z')).toBe('Control+Shift+z');
+    expect(eventToStroke(key('Z', { ctrlKey: true, shiftKey: true }))).toBe('Control+Shift+z');
+    expect(eventToStroke(key('k', { metaKey: true }))).toBe(normalizeStroke('Control+k'));
+    expect(eventToStroke(key('O', { shiftKey: true }))).toBe(normalizeStroke('Shift+o'));
+    expect(eventToStroke(key(' '))).toBe('Space');
+    expect(eventToStroke(key('Shift', { shiftKey: true }))).toBeNull();
+    expect(normalizeStroke('Shift+Click')).toBeNull();
+  });
+
+  it('should parse chords and alternatives', () => {
+    expect(parseBinding('dd')).toEqual([['d', 'd']]);
+    expect(parseBinding('ArrowUp')).toEqual([['ArrowUp']]);
+    expect(parseBinding('Control+k Control+s')).toEqual([['Control+k', 'Control+s']]);
+    expect(parseBinding('Delete | Backspace')).toEqual([['Delete'], ['Backspace']]);
+    expect(parseBinding('Alt+DoubleClick')).toEqual([]);
+  });
+
+  it('should wait on chord prefixes and fire on a full match', () => {
+    const keymap = compileKeymap(VIM_SHORTCUTS);
+
+    const first = matchKeySequence(keymap, [], 'z');
+    expect(first).toEqual({ action: null, pending: ['z'] });
+    expect(matchKeySequence(keymap, first.pending, 'a')).toEqual({
+      action: 'node.toggleCollapse',
+      pending: [],
+    });
+    expect(matchKeySequence(keymap, first.pending, 'z').action).toBe('view.focusMode');
+  });
+
+  it('should retry a stroke alone when it breaks a chord', () => {
+    const keymap = compileKeymap(VIM_SHORTCUTS);
+
+    expect(matchKeySequence(keymap, ['d'], 'j')).toEqual({
+      action: 'navigate.down',
+      pending: [],
+    });
+    expect(matchKeySequence(keymap, [], 'q')).toEqual({ action: null, pending: [] });
+  });
+
+  it('should resolve default profile bindings', () => {
+    const keymap = compileKeymap(DEFAULT_SHORTCUTS);
+
+    expect(matchKeySequence(keymap, [], 'Shift+Tab').action).toBe('node.outdent');
+    expect(matchKeySequence(keymap, [], 'Backspace').action).toBe('node.delete');
+    expect(matchKeySequence(keymap, [], 'Control+Backspace').action).toBeNull();
+  });
+
+  it('should ship profiles without clashing bindings', () => {
+    expect(findConflicts(DEFAULT_SHORTCUTS)).toEqual({});
+    expect(findConflicts(VIM_SHORTCUTS)).toEqual({});
+  });
+
+  it('should detect duplicate and shadowing bindings', () => {
+    const conflicts = findConflicts({
+      id: 'custom',
+      name: 'Custom',
+      shortcuts: { 'node.delete': 'd', 'node.duplicate': 'dd', undo: 'u' },
+    });
+    expect(conflicts).toEqual({
+      'node.delete': ['node.duplicate'],
+      'node.duplicate': ['node.delete'],
+    });
+  });
+});
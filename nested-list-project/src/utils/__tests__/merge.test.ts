@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { diffNodeFields, mergeFieldSchemas, mergeTrees, previewMerge } from '../merge';
+import { ListNode } from '../../types/core';
+
+const makeNode = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 0,
+  updatedAt: 1,
+  ...data,
+});
+
+// Ours: a > [a1, a2], b
+const local = {
+  rootIds: ['a', 'b'],
+  nodes: {
+    a: makeNode('a', { childrenIds: ['a1', 'a2'], isCollapsed: true }),
+    a1: makeNode('a1', { parentId: 'a', level: 1 }),
+    a2: makeNode('a2', { parentId: 'a', level: 1, title: 'Ours', updatedAt: 5 }),
+    b: makeNode('b'),
+  },
+};
+
+// Theirs: a > [a2, a1 (newer, renamed)], c > [c1], and a2 renamed earlier
+const incoming = {
+  rootIds: ['a', 'c'],
+  nodes: {
+    a: makeNode('a', { childrenIds: ['a2', 'a1'] }),
+    a1: makeNode('a1', { parentId: 'a', level: 1, title: 'Renamed', updatedAt: 9 }),
+    a2: makeNode('a2', { parentId: 'a', level: 1, title: 'Theirs', updatedAt: 3 }),
+    c: makeNode('c', { childrenIds: ['c1'] }),
+    c1: makeNode('c1', { parentId: 'c', level: 1 }),
+  },
+};
+
+describe('merge', () => {
+  it('sorts incoming nodes into added, changed, conflicting and unchanged', () => {
+    const preview = previewMerge(local.nodes, incoming);
+
+    expect(preview.added.map((node) => node.id)).toEqual(['c', 'c1']);
+    expect(preview.changed.map((change) => [change.id, change.fields])).toEqual([
+      ['a1', ['title']],
+    ]);
+    expect(preview.conflicts.map((change) => change.id)).toEqual(['a2']);
+    expect(preview.unchanged).toBe(1);
+  });
+
+  it('ignores structure, view state and blank values when comparing', () => {
+    const node = makeNode('x', { tags: [], isDone: false });
+    expect(diffNodeFields(node, makeNode('x', { childrenIds: ['y'], level: 2 }))).toEqual([]);
+    expect(diffNodeFields(node, makeNode('x', { isDone: true }))).toEqual(['isDone']);
+  });
+
+  it('keeps our version of conflicts unless resolved to the file', () => {
+    const kept = mergeTrees(local, incoming, {}, 5);
+    expect(kept.rootIds).toEqual(['a', 'b', 'c']);
+    expect(kept.nodes.a1.title).toBe('Renamed');
+    expect(kept.nodes.a2.title).toBe('Ours');
+    // a kept our version, so its children keep our order and it stays collapsed
+    expect(kept.nodes.a.childrenIds).toEqual(['a1', 'a2']);
+    expect(kept.nodes.a.isCollapsed).toBe(true);
+    expect(kept.nodes.c1).toMatchObject({ parentId: 'c', level: 1 });
+
+    const taken = mergeTrees(local, incoming, { a2: 'incoming' }, 5);
+    expect(taken.nodes.a2.title).toBe('Theirs');
+  });
+
+  it('moves nodes to the winning parent without closing a cycle', () => {
+    const moved = mergeTrees(
+      local,
+      {
+        rootIds: ['a1'],
+        nodes: {
+          // Newer file versions: b moves under a1, and a tries to move under a1
+          b: makeNode('b', { parentId: 'a1', updatedAt: 9 }),
+          a: makeNode('a', { parentId: 'a1', title: 'A', updatedAt: 9 }),
+          a1: makeNode('a1', { title: 'A1', childrenIds: ['b', 'a'], updatedAt: 9 }),
+        },
+      },
+      {},
+      5
+    );
+
+    // a can only move under a1 once a1 has left a's subtree
+    expect(moved.rootIds).toEqual(['a1']);
+    expect(moved.nodes.a1.childrenIds).toEqual(['b', 'a']);
+    expect(moved.nodes.a).toMatchObject({ parentId: 'a1', level: 1, childrenIds: ['a2'] });
+    expect(moved.nodes.a2.level).toBe(2);
+  });
+
+  it('adds field definitions we do not have yet', () => {
+    const ours = [{ id: 'f', name: 'Ours', type: 'text' as const }];
+    const theirs = [
+      { id: 'f', name: 'Theirs', type: 'number' as const },
+      { id: 'g', name: 'New', type: 'text' as const },
+    ];
+    expect(mergeFieldSchemas(ours, theirs).map((field) => field.name)).toEqual(['Ours', 'New']);
+  });
+});
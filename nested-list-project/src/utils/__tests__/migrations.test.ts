@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getSchemaVersion, migratePayload, MIGRATIONS } from '../migrations';
+import { APP_CONFIG } from '../../constants/config';
+
+describe('migrations', () => {
+  it('has one migration per schema version', () => {
+    expect(MIGRATIONS).toHaveLength(APP_CONFIG.SCHEMA_VERSION);
+  });
+
+  it('treats unversioned files as version 0 and rejects malformed versions', () => {
+    expect(getSchemaVersion({})).toBe(0);
+    expect(getSchemaVersion({ schemaVersion: 1 })).toBe(1);
+    expect(() => getSchemaVersion({ schemaVersion: '1' })).toThrow('Invalid schemaVersion');
+    expect(() => getSchemaVersion({ schemaVersion: -1 })).toThrow('Invalid schemaVersion');
+  });
+
+  it('moves legacy auto-tags into tags in the tree and in snapshots', () => {
+    const legacyNode = {
+      title: 'A',
+      tags: ['work'],
+      sandboxProps: { tags: ['bug'], estimate: 3 },
+    };
+    const migrated = migratePayload({
+      nodes: { a: legacyNode },
+      snapshots: { s: { id: 's', sessionId: 'x', nodes: { a: legacyNode } } },
+    });
+
+    expect(migrated.schemaVersion).toBe(APP_CONFIG.SCHEMA_VERSION);
+    expect(migrated.nodes.a).toEqual({
+      title: 'A',
+      tags: ['work', 'bug'],
+      sandboxProps: { estimate: 3 },
+    });
+    expect(migrated.snapshots.s.nodes.a.tags).toEqual(['work', 'bug']);
+  });
+
+  it('leaves current payloads alone and refuses newer ones', () => {
+    const current = {
+      schemaVersion: APP_CONFIG.SCHEMA_VERSION,
+      nodes: { a: { sandboxProps: { tags: 1 } } },
+    };
+    expect(migratePayload(current)).toEqual(current);
+
+    expect(() => migratePayload({ schemaVersion: APP_CONFIG.SCHEMA_VERSION + 1 })).toThrow(
+      /newer version of the app/
+    );
+  });
+
+  it('chains migrations up to the requested version', () => {
+    expect(migratePayload({ nodes: {} }, 0)).toEqual({ nodes: {}, schemaVersion: 0 });
+  });
+});
@@ -12,6 +12,8 @@ import {
   sortNodes,
   countNodes,
   cloneSubtree,
+  getTreeOrder,
+  getTopmostIds,
 } from '../nodeHelpers';
 import { ListNode, ListNodeId } from '../../types/core';
 
@@ -612,4 +614,30 @@ describe('nodeHelpers', () => {
       expect(firstChild.childrenIds).toHaveLength(2);
     });
   });
+
+  describe('getTreeOrder', () => {
+    it('should list nodes depth-first', () => {
+      expect(getTreeOrder(['root1', 'root2'], mockNodes)).toEqual([
+        'root1',
+        'child1',
+        'grandchild1',
+        'grandchild2',
+        'child2',
+        'root2',
+      ]);
+    });
+
+    it('should skip collapsed subtrees when only visible nodes are wanted', () => {
+      mockNodes.child1.isCollapsed = true;
+      expect(getTreeOrder(['root1'], mockNodes, true)).toEqual(['root1', 'child1', 'child2']);
+    });
+  });
+
+  describe('getTopmostIds', () => {
+    it('should drop nodes inside another selected node and sort by display order', () => {
+      expect(
+        getTopmostIds(['root2', 'grandchild1', 'child1', 'child2'], ['root1', 'root2'], mockNodes)
+      ).toEqual(['child1', 'child2', 'root2']);
+    });
+  });
 });
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyRules, applyTimeRules, getRuleConfig, RuleTree } from '../rules';
+import { DAY_MS, DEFAULT_RULE_CONFIGS } from '../../constants/rules';
+import { ListNode, SandboxRule } from '../../types/core';
+
+const makeNode = (overrides: Partial<ListNode> & { id: string }): ListNode => ({
+  parentId: null,
+  childrenIds: [],
+  title: overrides.id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 1000,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+const makeRule = (type: string, config: Record<string, any> = {}): SandboxRule => ({
+  id: `rule-${type}`,
+  type,
+  name: type,
+  enabled: true,
+  config,
+});
+
+describe('rules runtime', () => {
+  let tree: RuleTree;
+
+  beforeEach(() => {
+    // parent
+    //   ├─ banana (done)
+    //   └─ apple
+    tree = {
+      nodes: {
+        parent: makeNode({ id: 'parent', childrenIds: ['banana', 'apple'] }),
+        banana: makeNode({
+          id: 'banana',
+          parentId: 'parent',
+          level: 1,
+          isDone: true,
+          createdAt: 3000,
+        }),
+        apple: makeNode({ id: 'apple', parentId: 'parent', level: 1, createdAt: 2000 }),
+      },
+      rootNodeIds: ['parent'],
+    };
+  });
+
+  describe('getRuleConfig', () => {
+    it('should fill missing config fields from defaults', () => {
+      expect(getRuleConfig('auto-sort', { order: 'desc' })).toEqual({
+        ...DEFAULT_RULE_CONFIGS['auto-sort'],
+        order: 'desc',
+      });
+    });
+
+    it('should handle undefined config', () => {
+      expect(getRuleConfig('time-based', undefined)).toEqual(
+        DEFAULT_RULE_CONFIGS['time-based']
+      );
+    });
+  });
+
+  it('should skip disabled and unknown rules', () => {
+    const disabled = { ...makeRule('auto-collapse'), enabled: false };
+    tree.nodes.parent.isDone = true;
+
+    applyRules([disabled, makeRule('unknown-type')], tree, ['parent']);
+
+    expect(tree.nodes.parent.isCollapsed).toBe(false);
+  });
+
+  describe('auto-collapse', () => {
+    it('should collapse a done node with children', () => {
+      tree.nodes.parent.isDone = true;
+
+      applyRules([makeRule('auto-collapse', { trigger: 'done' })], tree, ['parent']);
+
+      expect(tree.nodes.parent.isCollapsed).toBe(true);
+    });
+
+    it('should collapse the parent once all children are done', () => {
+      const rule = makeRule('auto-collapse', { trigger: 'all-children-done' });
+
+      applyRules([rule], tree, ['banana']);
+      expect(tree.nodes.parent.isCollapsed).toBe(false);
+
+      tree.nodes.apple.isDone = true;
+      applyRules([rule], tree, ['apple']);
+      expect(tree.nodes.parent.isCollapsed).toBe(true);
+    });
+  });
+
+  describe('auto-tag', () => {
+    it('should tag nodes whose title contains the keyword', () => {
+      const rule = makeRule('auto-tag', { keyword: 'APP', tag: 'fruit' });
+
+      applyRules([rule], tree, ['apple', 'banana']);
+
+      expect(tree.nodes.apple.tags).toEqual(['fruit']);
+      expect(tree.nodes.banana.tags).toBeUndefined();
+    });
+
+    it('should not duplicate tags or run without a keyword', () => {
+      applyRules([makeRule('auto-tag', { keyword: 'apple', tag: 'fruit' })], tree, ['apple']);
+      applyRules([makeRule('auto-tag', { keyword: 'apple', tag: 'fruit' })], tree, ['apple']);
+      applyRules([makeRule('auto-tag', { keyword: '', tag: 'other' })], tree, ['apple']);
+
+      expect(tree.nodes.apple.tags).toEqual(['fruit']);
+    });
+
+    it('should match description only when enabled', () => {
+      tree.nodes.apple.description = 'urgent';
+
+      applyRules([makeRule('auto-tag', { keyword: 'urgent', tag: 'hot' })], tree, ['apple']);
+      expect(tree.nodes.apple.tags).toBeUndefined();
+
+      applyRules(
+        [makeRule('auto-tag', { keyword: 'urgent', tag: 'hot', matchDescription: true })],
+        tree,
+        ['apple']
+      );
+      expect(tree.nodes.apple.tags).toEqual(['hot']);
+    });
+  });
+
+  describe('color-by-status', () => {
+    it('should assign color slots by done state', () => {
+      const rule = makeRule('color-by-status', { doneColorSlot: 3, pendingColorSlot: 1 });
+
+      applyRules([rule], tree, ['apple', 'banana']);
+
+      expect(tree.nodes.banana.colorSlot).toBe(3);
+      expect(tree.nodes.apple.colorSlot).toBe(1);
+    });
+
+    it('should fall back to the level color for pending nodes', () => {
+      tree.nodes.apple.colorSlot = 4;
+
+      applyRules([makeRule('color-by-status')], tree, ['apple']);
+
+      expect(tree.nodes.apple.colorSlot).toBeUndefined();
+    });
+  });
+
+  describe('auto-sort', () => {
+    it('should sort the siblings of affected nodes', () => {
+      applyRules([makeRule('auto-sort', { sortBy: 'title', order: 'asc' })], tree, ['apple']);
+
+      expect(tree.nodes.parent.childrenIds).toEqual(['apple', 'banana']);
+    });
+
+    it('should sort root nodes', () => {
+      tree.nodes.zeta = makeNode({ id: 'zeta', createdAt: 500 });
+      tree.rootNodeIds.push('zeta');
+
+      applyRules(
+        [makeRule('auto-sort', { sortBy: 'createdAt', order: 'asc' })],
+        tree,
+        ['zeta']
+      );
+
+      expect(tree.rootNodeIds).toEqual(['zeta', 'parent']);
+    });
+  });
+
+  describe('time-based', () => {
+    it('should highlight stale nodes across the whole tree', () => {
+      const now = 1000 + 10 * DAY_MS;
+      tree.nodes.apple.updatedAt = now;
+
+      applyTimeRules(
+        [
+          makeRule('time-based', { field: 'updatedAt', olderThanDays: 7, action: 'highlight' }),
+          makeRule('auto-sort'),
+        ],
+        tree,
+        now
+      );
+
+      expect(tree.nodes.parent.isHighlighted).toBe(true);
+      expect(tree.nodes.banana.isHighlighted).toBe(true);
+      expect(tree.nodes.apple.isHighlighted).toBeUndefined();
+      expect(tree.nodes.parent.childrenIds).toEqual(['banana', 'apple']);
+    });
+
+    it('should only check the affected nodes after a mutation', () => {
+      const rule = makeRule('time-based', { olderThanDays: 1, action: 'highlight' });
+
+      applyRules([rule], tree, ['apple'], 1000 + 2 * DAY_MS);
+
+      expect(tree.nodes.apple.isHighlighted).toBe(true);
+      expect(tree.nodes.banana.isHighlighted).toBeUndefined();
+    });
+
+    it('should clear the highlight once an edit makes the node fresh', () => {
+      const rule = makeRule('time-based', { olderThanDays: 1, action: 'highlight' });
+      const now = 1000 + 2 * DAY_MS;
+      applyTimeRules([rule], tree, now);
+      expect(tree.nodes.apple.isHighlighted).toBe(true);
+
+      tree.nodes.apple.updatedAt = now;
+      applyRules([rule], tree, ['apple'], now);
+
+      expect(tree.nodes.apple.isHighlighted).toBe(false);
+      expect(tree.nodes.banana.isHighlighted).toBe(true);
+    });
+
+    it('should keep a highlight while any highlight rule finds the node stale', () => {
+      const now = 1000 + 2 * DAY_MS;
+      tree.nodes.apple.updatedAt = now;
+
+      applyRules(
+        [
+          makeRule('time-based', { field: 'updatedAt', olderThanDays: 1, action: 'highlight' }),
+          makeRule('time-based', { field: 'createdAt', olderThanDays: 1, action: 'highlight' }),
+        ],
+        tree,
+        ['apple'],
+        now
+      );
+
+      expect(tree.nodes.apple.isHighlighted).toBe(true);
+    });
+
+    it('should clear the highlights of a disabled or removed rule', () => {
+      const rule = makeRule('time-based', { olderThanDays: 1, action: 'highlight' });
+      const now = 1000 + 2 * DAY_MS;
+      applyTimeRules([rule], tree, now);
+
+      applyTimeRules([{ ...rule, enabled: false }], tree, now);
+      expect(tree.nodes.apple.isHighlighted).toBe(false);
+
+      applyTimeRules([rule], tree, now);
+      applyTimeRules([], tree, now);
+      expect(Object.values(tree.nodes).some((node) => node.isHighlighted)).toBe(false);
+    });
+
+    it('should pin stale nodes', () => {
+      applyTimeRules(
+        [makeRule('time-based', { field: 'createdAt', olderThanDays: 1, action: 'pin' })],
+        tree,
+        1000 + 2 * DAY_MS
+      );
+
+      expect(tree.nodes.apple.isPinned).toBe(true);
+    });
+  });
+});
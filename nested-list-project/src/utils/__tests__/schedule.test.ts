@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  computeScheduleSpans,
+  diffDays,
+  getAxisTicks,
+  isOverdue,
+  sanitizeDateKey,
+  shiftSchedule,
+} from '../schedule';
+import { ListNode } from '../../types/core';
+
+const makeNode = (id: string, data: Partial<ListNode> = {}): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...data,
+});
+
+describe('schedule', () => {
+  it('validates date keys and does day arithmetic across months', () => {
+    expect(sanitizeDateKey('2024-03-01T10:00:00Z')).toBe('2024-03-01');
+    expect(sanitizeDateKey('2024-02-30')).toBeUndefined();
+    expect(sanitizeDateKey('next week')).toBeUndefined();
+    expect(addDays('2024-02-28', 2)).toBe('2024-03-01');
+    expect(addDays('2024-01-01', -1)).toBe('2023-12-31');
+    expect(diffDays('2024-03-30', '2024-04-02')).toBe(3);
+  });
+
+  it('rolls a parent span up from its scheduled descendants', () => {
+    const nodes = {
+      root: makeNode('root', { childrenIds: ['a', 'b'] }),
+      a: makeNode('a', { parentId: 'root', childrenIds: ['a1'], startDate: '2024-05-10' }),
+      a1: makeNode('a1', { parentId: 'a', dueDate: '2024-05-20' }),
+      b: makeNode('b', { parentId: 'root', startDate: '2024-05-01', dueDate: '2024-05-03' }),
+      idle: makeNode('idle'),
+    };
+
+    const spans = computeScheduleSpans(nodes, ['root', 'idle']);
+
+    expect(spans.b).toEqual({ start: '2024-05-01', end: '2024-05-03', rolledUp: false });
+    expect(spans.a1).toEqual({ start: '2024-05-20', end: '2024-05-20', rolledUp: false });
+    expect(spans.a).toEqual({ start: '2024-05-10', end: '2024-05-20', rolledUp: true });
+    expect(spans.root).toEqual({ start: '2024-05-01', end: '2024-05-20', rolledUp: true });
+    expect(spans.idle).toBeUndefined();
+  });
+
+  it('moves and resizes spans without flipping them', () => {
+    const node = makeNode('a', { startDate: '2024-05-10', dueDate: '2024-05-12' });
+
+    expect(shiftSchedule(node, 'move', 3)).toEqual({
+      startDate: '2024-05-13',
+      dueDate: '2024-05-15',
+    });
+    expect(shiftSchedule(node, 'start', -2)).toEqual({
+      startDate: '2024-05-08',
+      dueDate: '2024-05-12',
+    });
+    expect(shiftSchedule(node, 'end', -5)).toEqual({
+      startDate: '2024-05-10',
+      dueDate: '2024-05-10',
+    });
+    // A due-only node keeps its shape when moved
+    expect(shiftSchedule(makeNode('b', { dueDate: '2024-05-10' }), 'move', 1)).toEqual({
+      startDate: undefined,
+      dueDate: '2024-05-11',
+    });
+  });
+
+  it('flags open nodes past their due date and builds axis ticks', () => {
+    expect(isOverdue(makeNode('a', { dueDate: '2024-05-01' }), '2024-05-02')).toBe(true);
+    expect(isOverdue(makeNode('a', { dueDate: '2024-05-02' }), '2024-05-02')).toBe(false);
+    expect(isOverdue(makeNode('a', { dueDate: '2024-05-01', isDone: true }), '2024-05-02')).toBe(
+      false
+    );
+
+    expect(getAxisTicks('2024-05-01', '2024-05-03', 'day')).toHaveLength(3);
+    expect(getAxisTicks('2024-05-01', '2024-05-31', 'week')).toEqual([
+      '2024-05-06',
+      '2024-05-13',
+      '2024-05-20',
+      '2024-05-27',
+    ]);
+    expect(getAxisTicks('2024-04-15', '2024-06-15', 'month')).toEqual(['2024-05-01', '2024-06-01']);
+  });
+});
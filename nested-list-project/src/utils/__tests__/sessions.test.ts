@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getOrderedSessions, getSessionTreeKey, SHARED_TREE_KEY } from '../sessions';
+import { SandboxSession } from '../../types/core';
+
+const makeSession = (id: string, data: Partial<SandboxSession> = {}) =>
+  ({ id, name: id, createdAt: 0, ...data }) as SandboxSession;
+
+describe('sessions', () => {
+  it('lists the current session in place of its saved copy, by order', () => {
+    const sessions = {
+      a: makeSession('a', { order: 1 }),
+      b: makeSession('b', { order: 0, name: 'stale' }),
+      old: makeSession('old', { createdAt: 5 }),
+      older: makeSession('older', { createdAt: 1 }),
+    };
+
+    const ordered = getOrderedSessions(sessions, makeSession('b', { order: 0 }));
+
+    expect(ordered.map((session) => session.name)).toEqual(['b', 'a', 'older', 'old']);
+  });
+
+  it('keys owned trees by session id', () => {
+    expect(getSessionTreeKey(makeSession('a', { ownsTree: true }))).toBe('a');
+    expect(getSessionTreeKey(makeSession('b'))).toBe(SHARED_TREE_KEY);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { collectTags, matchesTags, normalizeTag, sanitizeTags } from '../tags';
+import { ListNode } from '../../types/core';
+
+const makeNode = (id: string, tags?: string[]): ListNode => ({
+  id,
+  parentId: null,
+  childrenIds: [],
+  title: id,
+  level: 0,
+  isCollapsed: false,
+  tags,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('tags', () => {
+  it('normalizes and de-duplicates tags', () => {
+    expect(normalizeTag('  #urgent  ')).toBe('urgent');
+    expect(normalizeTag('#')).toBeNull();
+    expect(sanitizeTags(['Work', 'work', ' home ', 42, '', 'deep   focus'])).toEqual([
+      'Work',
+      'home',
+      'deep focus',
+    ]);
+    expect(sanitizeTags('work')).toEqual([]);
+  });
+
+  it('collects tags by frequency for autocomplete', () => {
+    const nodes = {
+      a: makeNode('a', ['work', 'urgent']),
+      b: makeNode('b', ['work']),
+      c: makeNode('c', ['home']),
+      d: makeNode('d'),
+    };
+
+    expect(collectTags(nodes)).toEqual(['work', 'home', 'urgent']);
+  });
+
+  it('matches any or all of the requested tags', () => {
+    const node = makeNode('a', ['Work', 'urgent']);
+
+    expect(matchesTags(node, [])).toBe(true);
+    expect(matchesTags(node, ['work', 'home'])).toBe(true);
+    expect(matchesTags(node, ['work', 'home'], 'all')).toBe(false);
+    expect(matchesTags(node, ['work', 'URGENT'], 'all')).toBe(true);
+    expect(matchesTags(makeNode('b'), ['work'])).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import { BoardGroupBy, CustomFieldDefinition, ListNode, ListNodeId } from '../types/core';
+import { getTypedFieldValue, withFieldValue } from './customFields';
+
+/**
+ * Board - which column a card sits in for each grouping, and the node
+ * update that moves it to another column
+ */
+
+// Cards without a tag / field value
+export const NO_VALUE_COLUMN = 'none';
+
+export const valueColumn = (value: string | number | boolean) => `value:${value}`;
+
+const columnValue = (key: string) => (key.startsWith('value:') ? key.slice('value:'.length) : null);
+
+export const isBoardGroupBy = (value: unknown): value is BoardGroupBy =>
+  typeof value === 'string' &&
+  (value === 'level' ||
+    value === 'done' ||
+    value === 'tag' ||
+    (value.startsWith('field:') && value.length > 'field:'.length));
+
+/**
+ * Column keys a card belongs to; tags and multi-select values put one card
+ * in several columns
+ */
+export const getCardColumns = (
+  node: ListNode,
+  groupBy: BoardGroupBy,
+  field?: CustomFieldDefinition
+): string[] => {
+  if (groupBy === 'level') return [valueColumn(node.level)];
+  if (groupBy === 'done') return [valueColumn(node.isDone ? 'done' : 'open')];
+  if (groupBy === 'tag') {
+    return node.tags && node.tags.length > 0 ? node.tags.map(valueColumn) : [NO_VALUE_COLUMN];
+  }
+
+  if (!field) return [];
+  const value = getTypedFieldValue(node, field);
+  if (field.type === 'checkbox') return [valueColumn(value === true)];
+  if (Array.isArray(value)) return value.map(valueColumn);
+  return value === undefined ? [NO_VALUE_COLUMN] : [valueColumn(String(value))];
+};
+
+/**
+ * The `updateNode` payload for dragging a card between columns; null when
+ * the grouping can't be changed in place (levels follow the tree structure)
+ */
+export const getColumnMoveUpdate = (
+  node: ListNode,
+  groupBy: BoardGroupBy,
+  from: string,
+  to: string,
+  field?: CustomFieldDefinition
+): Partial<ListNode> | null => {
+  if (from === to || groupBy === 'level') return null;
+
+  const fromValue = columnValue(from);
+  const toValue = columnValue(to);
+
+  if (groupBy === 'done') {
+    return toValue === null ? null : { isDone: toValue === 'done' };
+  }
+
+  if (groupBy === 'tag') {
+    const tags = (node.tags ?? []).filter((tag) => tag !== fromValue);
+    if (toValue !== null && !tags.some((tag) => tag.toLowerCase() === toValue.toLowerCase())) {
+      tags.push(toValue);
+    }
+    return { tags };
+  }
+
+  if (!field) return null;
+  let value: ListNode['sandboxProps'];
+  if (field.type === 'checkbox') {
+    value = withFieldValue(node, field.id, toValue === 'true');
+  } else if (field.type === 'multi-select') {
+    const current = getTypedFieldValue(node, field);
+    const selected = (Array.isArray(current) ? current : []).filter(
+      (option) => option !== fromValue
+    );
+    if (toValue !== null && !selected.includes(toValue)) selected.push(toValue);
+    value = withFieldValue(node, field.id, selected.length > 0 ? selected : undefined);
+  } else {
+    value = withFieldValue(node, field.id, toValue ?? undefined);
+  }
+  return { sandboxProps: value };
+};
+
+/**
+ * Apply a saved column order; columns it doesn't mention keep their default
+ * position after the ordered ones
+ */
+export const orderColumns = <T extends { key: string }>(
+  columns: T[],
+  order: string[] = []
+): T[] => {
+  const rank = (key: string) => {
+    const index = order.indexOf(key);
+    return index === -1 ? order.length : index;
+  };
+  return columns
+    .map((column, index) => ({ column, index }))
+    .sort((a, b) => rank(a.column.key) - rank(b.column.key) || a.index - b.index)
+    .map(({ column }) => column);
+};
+
+/**
+ * Swap a column with its neighbour in the displayed order
+ */
+export const moveColumn = (keys: string[], key: string, offset: -1 | 1): string[] => {
+  const index = keys.indexOf(key);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= keys.length) return keys;
+
+  const next = [...keys];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const getRootId = (nodes: Record<ListNodeId, ListNode>, id: ListNodeId): ListNodeId => {
+  let current = nodes[id];
+  while (current?.parentId && nodes[current.parentId]) {
+    current = nodes[current.parentId];
+  }
+  return current?.id ?? id;
+};
@@ -0,0 +1,68 @@
+import { ListNode, ListNodeId } from '../types/core';
+import { getAllChildren, getTopmostIds } from './nodeHelpers';
+import { exportToMarkdown } from './exporters';
+import { ImportedTree } from './importers';
+
+/**
+ * Clipboard - copied subtrees travel as an internal JSON payload next to an
+ * indented Markdown outline that other apps can read; text pasted from other
+ * apps goes through the Markdown importer
+ */
+
+export const CLIPBOARD_MIME = 'application/x-nested-list+json';
+
+export type ClipboardPayload = ImportedTree;
+
+/**
+ * The selected subtrees; nodes inside another selected node come along with it
+ */
+export const buildClipboardPayload = (
+  ids: ListNodeId[],
+  rootIds: ListNodeId[],
+  nodes: Record<ListNodeId, ListNode>
+): ClipboardPayload => {
+  const roots = getTopmostIds(ids, rootIds, nodes);
+  const payloadNodes: Record<ListNodeId, ListNode> = {};
+  roots.forEach((id) => {
+    [nodes[id], ...getAllChildren(id, nodes)].forEach((node) => {
+      payloadNodes[node.id] = node;
+    });
+  });
+  return { rootIds: roots, nodes: payloadNodes };
+};
+
+export const payloadToText = (payload: ClipboardPayload): string =>
+  exportToMarkdown(payload.nodes, payload.rootIds);
+
+/**
+ * Read an internal payload back; only nodes reachable from the roots are
+ * kept, so dangling ids and cycles can't reach the store
+ */
+export const parseClipboardPayload = (data: string): ClipboardPayload | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { rootIds, nodes } = raw as Record<string, unknown>;
+  if (!Array.isArray(rootIds) || !nodes || typeof nodes !== 'object') return null;
+
+  const source = nodes as Record<string, any>;
+  const payload: ClipboardPayload = { rootIds: [], nodes: {} };
+  const visit = (id: unknown): boolean => {
+    if (typeof id !== 'string' || payload.nodes[id]) return false;
+    const node = source[id];
+    if (!node || typeof node !== 'object') return false;
+
+    payload.nodes[id] = { ...node, id, childrenIds: [] };
+    const childrenIds = Array.isArray(node.childrenIds) ? node.childrenIds : [];
+    payload.nodes[id].childrenIds = childrenIds.filter(visit);
+    return true;
+  };
+  payload.rootIds = rootIds.filter(visit);
+
+  return payload.rootIds.length > 0 ? payload : null;
+};
@@ -0,0 +1,234 @@
+import {
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValue,
+  FieldFilter,
+  ListNode,
+} from '../types/core';
+import { sanitizeDateKey } from './schedule';
+
+/**
+ * Custom fields - schema validation and typed access to the values kept in
+ * `sandboxProps.fields`
+ */
+
+export const FIELD_VALUES_KEY = 'fields';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  'text',
+  'number',
+  'date',
+  'single-select',
+  'multi-select',
+  'checkbox',
+  'url',
+];
+
+export const isSelectField = (field: CustomFieldDefinition) =>
+  field.type === 'single-select' || field.type === 'multi-select';
+
+const sanitizeOptions = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const options = value
+    .filter((option): option is string => typeof option === 'string')
+    .map((option) => option.trim())
+    .filter(Boolean);
+  return Array.from(new Set(options));
+};
+
+/**
+ * Drop malformed definitions and duplicate ids; options only survive on select fields
+ */
+export const sanitizeFieldSchema = (value: unknown): CustomFieldDefinition[] => {
+  if (!Array.isArray(value)) return [];
+
+  const seen = new Set<string>();
+  const schema: CustomFieldDefinition[] = [];
+  value.forEach((raw) => {
+    if (!raw || typeof raw !== 'object') return;
+    const { id, name, type, options } = raw as Record<string, unknown>;
+    if (typeof id !== 'string' || !id || seen.has(id)) return;
+    if (typeof name !== 'string' || !name.trim()) return;
+    if (!CUSTOM_FIELD_TYPES.includes(type as CustomFieldType)) return;
+
+    seen.add(id);
+    const field: CustomFieldDefinition = { id, name: name.trim(), type: type as CustomFieldType };
+    if (isSelectField(field)) {
+      field.options = sanitizeOptions(options);
+    }
+    schema.push(field);
+  });
+  return schema;
+};
+
+const toUrlValue = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  if (!trimmed || /\s/.test(trimmed)) return undefined;
+
+  // Bare domains get a scheme so the link is clickable
+  const candidate = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(candidate);
+    return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? candidate : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Coerce a raw value to the field's type; undefined means "no valid value"
+ */
+export const sanitizeFieldValue = (
+  field: CustomFieldDefinition,
+  value: unknown
+): CustomFieldValue | undefined => {
+  switch (field.type) {
+    case 'text':
+      return typeof value === 'string' && value.trim() ? value : undefined;
+    case 'number': {
+      const number =
+        typeof value === 'number'
+          ? value
+          : typeof value === 'string' && value.trim()
+          ? Number(value)
+          : NaN;
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'date':
+      return sanitizeDateKey(value);
+    case 'checkbox':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'url':
+      return toUrlValue(value);
+    case 'single-select':
+      return typeof value === 'string' && (field.options ?? []).includes(value)
+        ? value
+        : undefined;
+    case 'multi-select': {
+      const selected = sanitizeOptions(typeof value === 'string' ? [value] : value).filter(
+        (option) => (field.options ?? []).includes(option)
+      );
+      return selected.length > 0 ? selected : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Keep only values for fields in the schema, each coerced to its type
+ */
+export const sanitizeFieldValues = (
+  value: unknown,
+  schema: CustomFieldDefinition[]
+): Record<string, CustomFieldValue> => {
+  const values: Record<string, CustomFieldValue> = {};
+  if (!value || typeof value !== 'object') return values;
+
+  schema.forEach((field) => {
+    const fieldValue = sanitizeFieldValue(field, (value as Record<string, unknown>)[field.id]);
+    if (fieldValue !== undefined) {
+      values[field.id] = fieldValue;
+    }
+  });
+  return values;
+};
+
+export const getFieldValues = (node: ListNode): Record<string, CustomFieldValue> => {
+  const values = node.sandboxProps?.[FIELD_VALUES_KEY];
+  return values && typeof values === 'object' ? values : {};
+};
+
+export const getFieldValue = (node: ListNode, fieldId: string): CustomFieldValue | undefined =>
+  getFieldValues(node)[fieldId];
+
+/**
+ * `sandboxProps` with one field value set, or removed when `value` is undefined
+ */
+export const withFieldValue = (
+  node: ListNode,
+  fieldId: string,
+  value: CustomFieldValue | undefined
+): ListNode['sandboxProps'] => {
+  const { [fieldId]: _previous, ...rest } = getFieldValues(node);
+  const values = value === undefined ? rest : { ...rest, [fieldId]: value };
+  const { [FIELD_VALUES_KEY]: _fields, ...sandboxProps } = node.sandboxProps ?? {};
+
+  if (Object.keys(values).length > 0) {
+    sandboxProps[FIELD_VALUES_KEY] = values;
+  }
+  return Object.keys(sandboxProps).length > 0 ? sandboxProps : undefined;
+};
+
+/**
+ * A node's value re-validated against the current schema, so values left
+ * behind by a schema edit read as unset
+ */
+export const getTypedFieldValue = (
+  node: ListNode,
+  field: CustomFieldDefinition
+): CustomFieldValue | undefined => sanitizeFieldValue(field, getFieldValue(node, field.id));
+
+/**
+ * Order values of the same field; missing values sort last
+ */
+export const compareFieldValues = (
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined
+): number => {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+
+  const text = (value: CustomFieldValue) =>
+    Array.isArray(value) ? value.join(', ') : String(value);
+  return text(a).localeCompare(text(b), 'he');
+};
+
+const isWithinBounds = (value: CustomFieldValue, filter: FieldFilter): boolean => {
+  if (filter.min === undefined && filter.max === undefined) return true;
+  if (typeof value !== 'number' && typeof value !== 'string') return false;
+  // Bounds compare in the value's own type - numbers numerically, dates as ISO strings
+  const bound = (limit: number | string) =>
+    typeof value === 'number' ? Number(limit) : String(limit);
+  if (filter.min !== undefined && value < bound(filter.min)) return false;
+  if (filter.max !== undefined && value > bound(filter.max)) return false;
+  return true;
+};
+
+export const matchesFieldFilter = (node: ListNode, filter: FieldFilter): boolean => {
+  const value = getFieldValue(node, filter.fieldId);
+
+  if (filter.values && filter.values.length > 0) {
+    // An unset checkbox counts as unchecked
+    if (filter.values.some((expected) => typeof expected === 'boolean')) {
+      return filter.values.includes(value === true);
+    }
+    const selected = Array.isArray(value) ? value : value === undefined ? [] : [String(value)];
+    return filter.values.some((expected) => selected.includes(String(expected)));
+  }
+
+  if (value === undefined) return false;
+  if (filter.text) {
+    const text = Array.isArray(value) ? value.join(' ') : String(value);
+    if (!text.toLowerCase().includes(filter.text.toLowerCase())) return false;
+  }
+  return isWithinBounds(value, filter);
+};
+
+export const formatFieldValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue,
+  rtl: boolean
+): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? (rtl ? 'כן' : 'Yes') : rtl ? 'לא' : 'No';
+  if (field.type === 'date' && typeof value === 'string') {
+    return new Date(`${value}T00:00:00`).toLocaleDateString(rtl ? 'he-IL' : 'en-US');
+  }
+  return String(value);
+};
@@ -0,0 +1,64 @@
+import { ListNode, ListNodeId } from '../types/core';
+import { canMoveNode } from './nodeHelpers';
+
+/**
+ * Drag and drop - where a node lands when dropped on another node's row
+ */
+
+export type DropPosition = 'before' | 'after' | 'inside';
+
+export interface DropTarget {
+  parentId: ListNodeId | null;
+  // Index among the new siblings once the dragged node has been taken out
+  index: number;
+}
+
+/**
+ * Top and bottom quarters of a row insert next to it, the middle nests inside
+ */
+export const getDropPosition = (
+  rect: { top: number; height: number },
+  clientY: number,
+  allowInside: boolean = true
+): DropPosition => {
+  const ratio = rect.height > 0 ? (clientY - rect.top) / rect.height : 0.5;
+  if (!allowInside) return ratio < 0.5 ? 'before' : 'after';
+  if (ratio < 0.25) return 'before';
+  if (ratio > 0.75) return 'after';
+  return 'inside';
+};
+
+/**
+ * The `moveNode` arguments for a drop, or null when the drop is invalid
+ * (self, own descendant, too deep) or would leave the node where it is
+ */
+export const resolveDropTarget = (
+  nodes: Record<ListNodeId, ListNode>,
+  rootNodeIds: ListNodeId[],
+  draggedId: ListNodeId,
+  targetId: ListNodeId,
+  position: DropPosition,
+  maxDepth: number = 6
+): DropTarget | null => {
+  const dragged = nodes[draggedId];
+  const target = nodes[targetId];
+  if (!dragged || !target || draggedId === targetId) return null;
+
+  const parentId = position === 'inside' ? targetId : target.parentId;
+  if (!canMoveNode(draggedId, parentId, nodes, maxDepth)) return null;
+
+  const siblings = (parentId ? nodes[parentId]?.childrenIds ?? [] : rootNodeIds).filter(
+    (siblingId) => siblingId !== draggedId
+  );
+  const index =
+    position === 'inside'
+      ? siblings.length
+      : siblings.indexOf(targetId) + (position === 'after' ? 1 : 0);
+
+  const currentSiblings = dragged.parentId
+    ? nodes[dragged.parentId]?.childrenIds ?? []
+    : rootNodeIds;
+  if (dragged.parentId === parentId && currentSiblings.indexOf(draggedId) === index) return null;
+
+  return { parentId, index };
+};
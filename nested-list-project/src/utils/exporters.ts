@@ -0,0 +1,202 @@
+import { CustomFieldDefinition, FilterConfig, ListNode, ListNodeId } from '../types/core';
+import { getFieldValue } from './customFields';
+import { getFilteredNodeIds } from './filters';
+import { getPath } from './nodeHelpers';
+
+/**
+ * Exporters - serialize the tree to formats other apps can read
+ */
+
+export interface TreeExportOptions {
+  includeDescriptions?: boolean;
+  // Only these nodes are written (see getExportScope); null or unset writes all
+  includeIds?: Set<ListNodeId> | null;
+}
+
+export interface CSVExportOptions extends TreeExportOptions {
+  // One column per field, headed by the field name
+  fieldSchema?: CustomFieldDefinition[];
+}
+
+// Joins ancestor titles in the CSV path column
+export const CSV_PATH_SEPARATOR = ' / ';
+// Joins multi-select values in a CSV cell
+export const CSV_LIST_SEPARATOR = ';';
+
+/**
+ * What's on screen: the focused subtree, narrowed to the nodes the active
+ * filter shows
+ */
+export const getExportScope = (
+  nodes: Record<ListNodeId, ListNode>,
+  rootNodeIds: ListNodeId[],
+  focusedNodeId: ListNodeId | undefined,
+  filterConfig: FilterConfig
+): { rootNodeIds: ListNodeId[]; includeIds: Set<ListNodeId> | null } => ({
+  rootNodeIds: focusedNodeId && nodes[focusedNodeId] ? [focusedNodeId] : rootNodeIds,
+  includeIds: getFilteredNodeIds(nodes, filterConfig),
+});
+
+/**
+ * Walk the tree depth-first in display order; nodes outside `includeIds` are
+ * skipped along with their subtrees
+ */
+export const walkTree = (
+  nodes: Record<ListNodeId, ListNode>,
+  rootNodeIds: ListNodeId[],
+  visit: (node: ListNode, depth: number) => void,
+  includeIds?: Set<ListNodeId> | null
+) => {
+  const walk = (id: ListNodeId, depth: number) => {
+    const node = nodes[id];
+    if (!node || (includeIds && !includeIds.has(id))) return;
+    visit(node, depth);
+    node.childrenIds.forEach((childId) => walk(childId, depth + 1));
+  };
+  rootNodeIds.forEach((id) => walk(id, 0));
+};
+
+const escapeCSVValue = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per node in tree order. The path column holds the full ancestor
+ * chain, so rows still read on their own after sorting in a spreadsheet.
+ */
+export const exportToCSV = (
+  nodes: Record<ListNodeId, ListNode>,
+  rootNodeIds: ListNodeId[],
+  options: CSVExportOptions = {}
+): string => {
+  const fieldSchema = options.fieldSchema ?? [];
+  const columns = ['id', 'parentId', 'level', 'path', 'title'];
+  if (options.includeDescriptions) columns.push('description');
+  columns.push('isDone', 'isPinned', 'createdAt', 'updatedAt');
+  columns.push(...fieldSchema.map((field) => field.name));
+
+  const rows = [columns.map(escapeCSVValue).join(',')];
+  walkTree(
+    nodes,
+    rootNodeIds,
+    (node) => {
+      const values: Array<string | number | boolean | undefined> = [
+        node.id,
+        node.parentId ?? '',
+        node.level,
+        getPath(node.id, nodes)
+          .map((ancestor) => ancestor.title)
+          .join(CSV_PATH_SEPARATOR),
+        node.title,
+      ];
+      if (options.includeDescriptions) values.push(node.description ?? '');
+      values.push(
+        !!node.isDone,
+        !!node.isPinned,
+        new Date(node.createdAt).toISOString(),
+        new Date(node.updatedAt).toISOString()
+      );
+      fieldSchema.forEach((field) => {
+        const value = getFieldValue(node, field.id);
+        values.push(Array.isArray(value) ? value.join(CSV_LIST_SEPARATOR) : value);
+      });
+      rows.push(values.map(escapeCSVValue).join(','));
+    },
+    options.includeIds
+  );
+
+  return rows.join('\n');
+};
+
+export const exportToMarkdown = (
+  nodes: Record<ListNodeId, ListNode>,
+  rootNodeIds: ListNodeId[],
+  options: TreeExportOptions = {}
+): string => {
+  const lines: string[] = [];
+  walkTree(
+    nodes,
+    rootNodeIds,
+    (node, depth) => {
+      const indent = '  '.repeat(depth);
+      lines.push(`${indent}- [${node.isDone ? 'x' : ' '}] ${node.title}`);
+      if (options.includeDescriptions && node.description) {
+        node.description
+          .split('\n')
+          .forEach((line) => lines.push(`${indent}  ${line}`));
+      }
+    },
+    options.includeIds
+  );
+
+  return lines.join('\n');
+};
+
+const escapeXMLAttribute = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+
+/**
+ * OPML 2.0 outline; done items carry `_complete="true"` and descriptions go
+ * in `_note`, the attributes other outliners read
+ */
+export const exportToOPML = (
+  nodes: Record<ListNodeId, ListNode>,
+  rootNodeIds: ListNodeId[],
+  options: TreeExportOptions & { title?: string } = {}
+): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXMLAttribute(options.title ?? 'Nested List')}</title>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  const isIncluded = (id: ListNodeId) =>
+    !!nodes[id] && (!options.includeIds || options.includeIds.has(id));
+
+  const write = (id: ListNodeId, depth: number) => {
+    const node = nodes[id];
+
+    const indent = '  '.repeat(depth + 2);
+    let attributes = `text="${escapeXMLAttribute(node.title)}"`;
+    if (node.isDone) attributes += ' _complete="true"';
+    if (options.includeDescriptions && node.description) {
+      attributes += ` _note="${escapeXMLAttribute(node.description)}"`;
+    }
+
+    const childrenIds = node.childrenIds.filter(isIncluded);
+    if (childrenIds.length === 0) {
+      lines.push(`${indent}<outline ${attributes}/>`);
+      return;
+    }
+    lines.push(`${indent}<outline ${attributes}>`);
+    childrenIds.forEach((childId) => write(childId, depth + 1));
+    lines.push(`${indent}</outline>`);
+  };
+  rootNodeIds.filter(isIncluded).forEach((id) => write(id, 0));
+
+  lines.push('  </body>', '</opml>');
+  return lines.join('\n');
+};
+
+/**
+ * Trigger a browser download for generated content
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
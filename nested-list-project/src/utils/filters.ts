@@ -0,0 +1,76 @@
+import { FilterConfig, ListNode, ListNodeId } from '../types/core';
+import { matchesTags } from './tags';
+import { matchesFieldFilter } from './customFields';
+
+/**
+ * Filters - evaluate a FilterConfig against individual nodes
+ */
+
+export const hasActiveFilter = (config: FilterConfig): boolean =>
+  !!config.searchText ||
+  (!!config.levels && config.levels.length > 0) ||
+  config.isDone !== undefined ||
+  config.minChildren !== undefined ||
+  config.maxChildren !== undefined ||
+  (!!config.tags && config.tags.length > 0) ||
+  (!!config.fields && config.fields.length > 0);
+
+export const matchesFilter = (node: ListNode, config: FilterConfig): boolean => {
+  // Search text filter
+  if (config.searchText) {
+    const query = config.searchText.toLowerCase();
+    const matchesTitle = node.title.toLowerCase().includes(query);
+    const matchesDesc = node.description?.toLowerCase().includes(query);
+    if (!matchesTitle && !matchesDesc) return false;
+  }
+
+  // Level filter
+  if (config.levels && config.levels.length > 0) {
+    if (!config.levels.includes(node.level)) return false;
+  }
+
+  // Done filter
+  if (config.isDone !== undefined) {
+    if (node.isDone !== config.isDone) return false;
+  }
+
+  // Children count filter
+  if (config.minChildren !== undefined && node.childrenIds.length < config.minChildren) {
+    return false;
+  }
+  if (config.maxChildren !== undefined && node.childrenIds.length > config.maxChildren) {
+    return false;
+  }
+
+  // Tag filter
+  if (config.tags && !matchesTags(node, config.tags, config.tagMatch)) return false;
+
+  // Custom field filters - every one must match
+  if (config.fields && !config.fields.every((filter) => matchesFieldFilter(node, filter))) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Nodes the filter shows: every match plus its ancestors, so matches keep
+ * their place in the tree. Null when no filter is active.
+ */
+export const getFilteredNodeIds = (
+  nodes: Record<ListNodeId, ListNode>,
+  config: FilterConfig
+): Set<ListNodeId> | null => {
+  if (!hasActiveFilter(config)) return null;
+
+  const filtered = new Set<ListNodeId>();
+  Object.values(nodes).forEach((node) => {
+    if (!matchesFilter(node, config)) return;
+    let current: ListNode | undefined = node;
+    while (current && !filtered.has(current.id)) {
+      filtered.add(current.id);
+      current = current.parentId ? nodes[current.parentId] : undefined;
+    }
+  });
+  return filtered;
+};
@@ -0,0 +1,408 @@
+import { CustomFieldDefinition, ListNode, ListNodeId } from '../types/core';
+import { FIELD_VALUES_KEY } from './customFields';
+import { CSV_LIST_SEPARATOR, CSV_PATH_SEPARATOR } from './exporters';
+import { createNode } from './nodeHelpers';
+
+/**
+ * Importers - read outlines from other apps into detached subtrees that the
+ * store inserts under a chosen node
+ */
+
+export interface ImportedTree {
+  rootIds: ListNodeId[];
+  nodes: Record<ListNodeId, ListNode>;
+}
+
+export type OutlineFormat = 'markdown' | 'opml' | 'csv';
+
+/**
+ * What to do with nodes that would land deeper than MAX_DEPTH: lift them to
+ * the deepest level, drop them, or refuse the whole import
+ */
+export type DepthOverflowMode = 'flatten' | 'truncate' | 'reject';
+
+export interface OutlineImportResult {
+  imported: number;
+  // Nodes flattened or dropped to stay within MAX_DEPTH
+  overflow: number;
+}
+
+export const DEPTH_OVERFLOW_MODES: DepthOverflowMode[] = ['flatten', 'truncate', 'reject'];
+
+const createTree = (): ImportedTree => ({ rootIds: [], nodes: {} });
+
+const addNode = (
+  tree: ImportedTree,
+  parentId: ListNodeId | null,
+  data: Partial<ListNode> & { level: number }
+): ListNode => {
+  const node = createNode({ ...data, parentId });
+  tree.nodes[node.id] = node;
+  if (parentId) {
+    tree.nodes[parentId].childrenIds.push(node.id);
+  } else {
+    tree.rootIds.push(node.id);
+  }
+  return node;
+};
+
+const BULLET_PATTERN = /^(?:[-*+•]|\d+[.)])\s+/;
+const CHECKBOX_PATTERN = /^\[([ xX])\]\s*/;
+
+/**
+ * Parse a nested Markdown list - `- [x]` items are done. Nesting follows
+ * relative indentation, so any indent width (or tabs) works. In a bulleted
+ * list, unbulleted lines indented under an item continue its description;
+ * text without bullets at all reads one node per line.
+ */
+export const parseMarkdownOutline = (text: string): ImportedTree => {
+  const tree = createTree();
+  const stack: { indent: number; id: ListNodeId }[] = [];
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const hasBullets = lines.some((line) => BULLET_PATTERN.test(line.trim()));
+
+  lines.forEach((line) => {
+    const indent = line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+    const content = line.trim();
+    const isItem = !hasBullets || BULLET_PATTERN.test(content);
+
+    const previous = stack[stack.length - 1];
+    if (!isItem && previous && indent > previous.indent) {
+      const node = tree.nodes[previous.id];
+      node.description = node.description ? `${node.description}\n${content}` : content;
+      return;
+    }
+
+    let title = content.replace(BULLET_PATTERN, '');
+    let isDone: boolean | undefined;
+    const checkbox = title.match(CHECKBOX_PATTERN);
+    if (checkbox) {
+      isDone = checkbox[1] !== ' ';
+      title = title.slice(checkbox[0].length);
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parentId = stack.length > 0 ? stack[stack.length - 1].id : null;
+    const node = addNode(tree, parentId, { title: title.trim(), isDone, level: stack.length });
+    stack.push({ indent, id: node.id });
+  });
+
+  return tree;
+};
+
+/**
+ * Parse OPML `<outline>` elements - `text` is the title, `_note` the
+ * description and `_complete="true"` marks done items
+ */
+export const parseOPML = (xml: string): ImportedTree => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const body = doc.querySelector('opml > body');
+  if (doc.querySelector('parsererror') || !body) {
+    throw new Error('Invalid OPML file');
+  }
+
+  const tree = createTree();
+  const visit = (element: Element, parentId: ListNodeId | null, level: number) => {
+    const note = element.getAttribute('_note');
+    const node = addNode(tree, parentId, {
+      title: element.getAttribute('text') ?? element.getAttribute('title') ?? '',
+      description: note || undefined,
+      isDone: element.getAttribute('_complete') === 'true' || undefined,
+      level,
+    });
+    Array.from(element.children)
+      .filter((child) => child.tagName === 'outline')
+      .forEach((child) => visit(child, node.id, level + 1));
+  };
+
+  Array.from(body.children)
+    .filter((child) => child.tagName === 'outline')
+    .forEach((child) => visit(child, null, 0));
+  return tree;
+};
+
+/**
+ * Split CSV text into rows of cells - quoted cells may hold commas, quotes
+ * (doubled) and line breaks
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+// Header aliases, compared lowercased without spaces, dashes or underscores
+const CSV_COLUMNS = {
+  id: ['id'],
+  parentId: ['parentid', 'parent'],
+  path: ['path'],
+  title: ['title', 'name'],
+  description: ['description', 'notes', 'note'],
+  isDone: ['isdone', 'done', 'completed'],
+  isPinned: ['ispinned', 'pinned'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_-]/g, '');
+
+const parseCSVBoolean = (value: string | undefined) =>
+  value ? ['true', 'yes', '1', 'x'].includes(value.trim().toLowerCase()) : undefined;
+
+/**
+ * Rebuild a tree from CSV rows such as exportToCSV writes. The hierarchy comes
+ * from the id / parentId columns when the file has parent ids, otherwise from
+ * the path column, where rows missing for an ancestor get a placeholder node.
+ * Columns named after a custom field fill that field.
+ */
+export const parseCSVTree = (
+  text: string,
+  fieldSchema: CustomFieldDefinition[] = []
+): ImportedTree => {
+  const [header, ...rows] = parseCSV(text);
+  const headers = (header ?? []).map(normalizeHeader);
+  const column = (aliases: string[]) => headers.findIndex((name) => aliases.includes(name));
+  const columns = {
+    id: column(CSV_COLUMNS.id),
+    parentId: column(CSV_COLUMNS.parentId),
+    path: column(CSV_COLUMNS.path),
+    title: column(CSV_COLUMNS.title),
+    description: column(CSV_COLUMNS.description),
+    isDone: column(CSV_COLUMNS.isDone),
+    isPinned: column(CSV_COLUMNS.isPinned),
+  };
+  if (columns.title < 0 && columns.path < 0) {
+    throw new Error('The CSV file needs a title or path column');
+  }
+
+  const fieldColumns = fieldSchema
+    .map((field) => ({ field, index: headers.indexOf(normalizeHeader(field.name)) }))
+    .filter(({ index }) => index >= 0);
+
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() ?? '' : '');
+  const splitPath = (row: string[]) =>
+    cell(row, columns.path)
+      .split(CSV_PATH_SEPARATOR)
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+
+  const rowData = (row: string[]): Partial<ListNode> => {
+    const fields: Record<string, unknown> = {};
+    fieldColumns.forEach(({ field, index }) => {
+      const value = cell(row, index);
+      if (!value) return;
+      fields[field.id] =
+        field.type === 'multi-select'
+          ? value.split(CSV_LIST_SEPARATOR).map((option) => option.trim())
+          : value;
+    });
+
+    return {
+      title: cell(row, columns.title) || (splitPath(row).pop() ?? ''),
+      description: cell(row, columns.description) || undefined,
+      isDone: parseCSVBoolean(cell(row, columns.isDone)),
+      isPinned: parseCSVBoolean(cell(row, columns.isPinned)) || undefined,
+      sandboxProps: Object.keys(fields).length > 0 ? { [FIELD_VALUES_KEY]: fields } : undefined,
+    };
+  };
+
+  const tree = createTree();
+  const attach = (node: ListNode, parentId: ListNodeId | null) => {
+    node.parentId = parentId;
+    if (parentId) {
+      tree.nodes[parentId].childrenIds.push(node.id);
+    } else {
+      tree.rootIds.push(node.id);
+    }
+  };
+
+  const hasParentIds =
+    columns.id >= 0 &&
+    columns.parentId >= 0 &&
+    rows.some((row) => cell(row, columns.parentId));
+
+  if (hasParentIds) {
+    const byRowId = new Map<string, ListNode>();
+    const created = rows.map((row) => {
+      const node = createNode({ ...rowData(row), level: 0 });
+      tree.nodes[node.id] = node;
+      const rowId = cell(row, columns.id);
+      if (rowId && !byRowId.has(rowId)) byRowId.set(rowId, node);
+      return node;
+    });
+
+    // A parent that is already below the row would close a cycle
+    const isAncestor = (ancestorId: ListNodeId, node: ListNode | undefined): boolean =>
+      !!node && (node.id === ancestorId || isAncestor(ancestorId, tree.nodes[node.parentId ?? '']));
+
+    rows.forEach((row, index) => {
+      const node = created[index];
+      const parent = byRowId.get(cell(row, columns.parentId));
+      attach(node, parent && !isAncestor(node.id, parent) ? parent.id : null);
+    });
+  } else {
+    // Path keys map to the node at that path; placeholders wait for their row
+    const byPath = new Map<string, ListNode>();
+    const placeholders = new Set<ListNodeId>();
+
+    rows.forEach((row) => {
+      const data = rowData(row);
+      const path = splitPath(row);
+      if (path.length === 0) path.push(data.title ?? '');
+
+      let parentId: ListNodeId | null = null;
+      path.slice(0, -1).forEach((segment, depth) => {
+        const key = path.slice(0, depth + 1).join('\n');
+        let ancestor = byPath.get(key);
+        if (!ancestor) {
+          ancestor = createNode({ title: segment, level: 0 });
+          tree.nodes[ancestor.id] = ancestor;
+          attach(ancestor, parentId);
+          byPath.set(key, ancestor);
+          placeholders.add(ancestor.id);
+        }
+        parentId = ancestor.id;
+      });
+
+      const key = path.join('\n');
+      const placeholder = byPath.get(key);
+      if (placeholder && placeholders.has(placeholder.id)) {
+        Object.assign(placeholder, data);
+        placeholders.delete(placeholder.id);
+        return;
+      }
+
+      const node = createNode({ ...data, level: 0 });
+      tree.nodes[node.id] = node;
+      attach(node, parentId);
+      byPath.set(key, node);
+    });
+  }
+
+  const setLevels = (id: ListNodeId, level: number) => {
+    tree.nodes[id].level = level;
+    tree.nodes[id].childrenIds.forEach((childId) => setLevels(childId, level + 1));
+  };
+  tree.rootIds.forEach((id) => setLevels(id, 0));
+  return tree;
+};
+
+/**
+ * Guess the format from the file name, falling back to the content
+ */
+export const detectOutlineFormat = (content: string, fileName = ''): OutlineFormat => {
+  if (/\.(opml|xml)$/i.test(fileName) || /^\s*(<\?xml[^>]*>\s*)?<opml[\s>]/i.test(content)) {
+    return 'opml';
+  }
+  if (/\.csv$/i.test(fileName)) return 'csv';
+
+  // A header row naming a title or path plus another known column
+  const firstLine = content.trimStart().split(/\r?\n/, 1)[0] ?? '';
+  const headers = firstLine.split(',').map((header) => normalizeHeader(header.replace(/"/g, '')));
+  const known = Object.values(CSV_COLUMNS).flat();
+  const hasTitle = headers.includes('title') || headers.includes('path');
+  return hasTitle && headers.filter((header) => known.includes(header)).length > 1
+    ? 'csv'
+    : 'markdown';
+};
+
+export const parseOutline = (
+  content: string,
+  format: OutlineFormat,
+  fieldSchema: CustomFieldDefinition[] = []
+): ImportedTree => {
+  if (format === 'opml') return parseOPML(content);
+  if (format === 'csv') return parseCSVTree(content, fieldSchema);
+  return parseMarkdownOutline(content);
+};
+
+/**
+ * Set levels for a subtree placed at `level` and deal with anything past
+ * `maxLevel`: flattened descendants of a node at the deepest level follow it
+ * as siblings, truncated ones are dropped. Returns the ids that take the
+ * subtree's slot in its parent and how many nodes overflowed. Mutates `nodes`.
+ */
+export const fitSubtreeToDepth = (
+  rootId: ListNodeId,
+  nodes: Record<ListNodeId, ListNode>,
+  level: number,
+  maxLevel: number,
+  mode: Exclude<DepthOverflowMode, 'reject'> = 'flatten'
+): { ids: ListNodeId[]; overflow: number } => {
+  let overflow = 0;
+
+  const drop = (id: ListNodeId) => {
+    overflow++;
+    nodes[id].childrenIds.forEach(drop);
+    delete nodes[id];
+  };
+
+  const fit = (id: ListNodeId, nodeLevel: number): ListNodeId[] => {
+    const node = nodes[id];
+    node.level = nodeLevel;
+
+    if (nodeLevel < maxLevel) {
+      node.childrenIds = node.childrenIds.flatMap((childId) => fit(childId, nodeLevel + 1));
+      node.childrenIds.forEach((childId) => {
+        nodes[childId].parentId = id;
+      });
+      return [id];
+    }
+
+    const childrenIds = node.childrenIds;
+    node.childrenIds = [];
+    if (mode === 'truncate') {
+      childrenIds.forEach(drop);
+      return [id];
+    }
+
+    overflow += childrenIds.length;
+    return [id, ...childrenIds.flatMap((childId) => fit(childId, nodeLevel))];
+  };
+
+  const ids = fit(rootId, level);
+  return { ids, overflow };
+};
+
+/**
+ * Levels below the subtree roots, counting the roots as 1
+ */
+export const getTreeDepth = (tree: ImportedTree): number => {
+  const depth = (id: ListNodeId): number =>
+    1 + Math.max(0, ...(tree.nodes[id]?.childrenIds ?? []).map(depth));
+  return Math.max(0, ...tree.rootIds.map(depth));
+};
@@ -0,0 +1,178 @@
+import { SandboxShortcutsProfile } from '../types/core';
+
+/**
+ * Keymap - resolves key strokes to action ids from a SandboxShortcutsProfile
+ */
+
+export type KeyStroke = string;
+
+export interface KeymapEntry {
+  action: string;
+  sequence: KeyStroke[];
+}
+
+export interface KeymapMatch {
+  action: string | null;
+  pending: KeyStroke[];
+}
+
+const MODIFIER_ORDER = ['Control', 'Alt', 'Shift'] as const;
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta']);
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  Esc: 'Escape',
+  Del: 'Delete',
+};
+
+// `Enter`, `ArrowUp`, `F2` - anything else multi-character is a chord of characters
+const NAMED_KEY_PATTERN = /^[A-Z][A-Za-z0-9]+$/;
+
+/**
+ * Canonical form: modifiers in fixed order, Meta folded into Control, and
+ * Shift folded into the character for plain printable keys (`Shift+o` → `O`)
+ */
+const canonicalStroke = (modifiers: Set<string>, rawKey: string): KeyStroke | null => {
+  const key = KEY_ALIASES[rawKey] ?? rawKey;
+  if (!key || MODIFIER_KEYS.has(key)) return null;
+
+  const mods = new Set(modifiers);
+  if (mods.delete('Meta')) mods.add('Control');
+
+  let finalKey = key;
+  if (key.length === 1) {
+    const hasCommandModifier = mods.has('Control') || mods.has('Alt');
+    if (hasCommandModifier) {
+      finalKey = key.toLowerCase();
+    } else if (mods.has('Shift')) {
+      mods.delete('Shift');
+      finalKey = key.toUpperCase();
+    }
+  }
+
+  return [...MODIFIER_ORDER.filter((mod) => mods.has(mod)), finalKey].join('+');
+};
+
+/**
+ * Normalize a single stroke from a profile; mouse gestures such as
+ * `Shift+Click` aren't keyboard strokes and resolve to null
+ */
+export const normalizeStroke = (stroke: string): KeyStroke | null => {
+  const parts = stroke.split('+');
+  // `Control++` binds the plus key itself
+  const key = parts[parts.length - 1] === '' && parts.length > 1 ? '+' : parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, key === '+' ? -2 : -1));
+  if (/Click$/.test(key)) return null;
+  return canonicalStroke(modifiers, key);
+};
+
+export const eventToStroke = (
+  e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>
+): KeyStroke | null => {
+  const modifiers = new Set<string>();
+  if (e.ctrlKey) modifiers.add('Control');
+  if (e.altKey) modifiers.add('Alt');
+  if (e.shiftKey) modifiers.add('Shift');
+  if (e.metaKey) modifiers.add('Meta');
+  return canonicalStroke(modifiers, e.key);
+};
+
+/**
+ * Parse a binding into its alternative key sequences
+ */
+export const parseBinding = (binding: string): KeyStroke[][] =>
+  binding
+    .split(' | ')
+    .map((alternative) =>
+      alternative
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean)
+        .flatMap((part) =>
+          part.length > 1 && !part.includes('+') && !NAMED_KEY_PATTERN.test(part)
+            ? part.split('')
+            : [part]
+        )
+        .map(normalizeStroke)
+    )
+    .filter(
+      (sequence): sequence is KeyStroke[] =>
+        sequence.length > 0 && sequence.every((stroke) => stroke !== null)
+    );
+
+const compiledProfiles = new WeakMap<SandboxShortcutsProfile, KeymapEntry[]>();
+
+export const compileKeymap = (profile: SandboxShortcutsProfile): KeymapEntry[] => {
+  const cached = compiledProfiles.get(profile);
+  if (cached) return cached;
+
+  const entries = Object.entries(profile.shortcuts).flatMap(([action, binding]) =>
+    typeof binding === 'string'
+      ? parseBinding(binding).map((sequence) => ({ action, sequence }))
+      : []
+  );
+  compiledProfiles.set(profile, entries);
+  return entries;
+};
+
+const startsWith = (sequence: KeyStroke[], prefix: KeyStroke[]) =>
+  prefix.every((stroke, index) => sequence[index] === stroke);
+
+const matchSequence = (keymap: KeymapEntry[], sequence: KeyStroke[]): KeymapMatch | null => {
+  const exact = keymap.find(
+    (entry) => entry.sequence.length === sequence.length && startsWith(entry.sequence, sequence)
+  );
+  if (exact) return { action: exact.action, pending: [] };
+
+  const isPrefix = keymap.some(
+    (entry) => entry.sequence.length > sequence.length && startsWith(entry.sequence, sequence)
+  );
+  return isPrefix ? { action: null, pending: sequence } : null;
+};
+
+/**
+ * Feed one stroke into the chord state. An exact match fires immediately,
+ * a chord prefix waits for more keys, and a dead end retries the stroke alone.
+ */
+export const matchKeySequence = (
+  keymap: KeymapEntry[],
+  pending: KeyStroke[],
+  stroke: KeyStroke
+): KeymapMatch => {
+  if (pending.length > 0) {
+    const continued = matchSequence(keymap, [...pending, stroke]);
+    if (continued) return continued;
+  }
+  return matchSequence(keymap, [stroke]) ?? { action: null, pending: [] };
+};
+
+export const formatSequence = (sequence: KeyStroke[]) => sequence.join(' ');
+
+/**
+ * Actions whose bindings collide - the same sequence, or one being a prefix
+ * of another (the shorter one fires first, so the longer is unreachable)
+ */
+export const findConflicts = (profile: SandboxShortcutsProfile): Record<string, string[]> => {
+  const keymap = compileKeymap(profile);
+  const conflicts: Record<string, string[]> = {};
+
+  const addConflict = (action: string, other: string) => {
+    conflicts[action] = conflicts[action] ?? [];
+    if (!conflicts[action].includes(other)) conflicts[action].push(other);
+  };
+
+  keymap.forEach((entry, index) => {
+    keymap.slice(index + 1).forEach((other) => {
+      if (other.action === entry.action) return;
+      const [shorter, longer] =
+        entry.sequence.length <= other.sequence.length
+          ? [entry.sequence, other.sequence]
+          : [other.sequence, entry.sequence];
+      if (startsWith(longer, shorter)) {
+        addConflict(entry.action, other.action);
+        addConflict(other.action, entry.action);
+      }
+    });
+  });
+
+  return conflicts;
+};
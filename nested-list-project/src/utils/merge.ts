@@ -0,0 +1,200 @@
+import { CustomFieldDefinition, ListNode, ListNodeId } from '../types/core';
+import { fitSubtreeToDepth, ImportedTree } from './importers';
+
+/**
+ * Merge import - combine an imported tree with the current one by node id.
+ * Nodes only in the file are added, nodes only in the tree are kept, and
+ * nodes in both take whichever version wins.
+ */
+
+export type ImportMode = 'replace' | 'append' | 'merge';
+
+export type ConflictResolution = 'local' | 'incoming';
+
+export interface NodeChange {
+  id: ListNodeId;
+  local: ListNode;
+  incoming: ListNode;
+  // Node properties that differ between the two versions
+  fields: string[];
+}
+
+/**
+ * Nodes in both trees that differ are "changed" when the file's version is
+ * newer, so it is taken as is. When ours was edited at the same time or later
+ * they are conflicts, which keep our version unless resolved otherwise.
+ */
+export interface MergePreview {
+  added: ListNode[];
+  changed: NodeChange[];
+  conflicts: NodeChange[];
+  unchanged: number;
+}
+
+// Structure and view state are rebuilt by the merge, not compared
+const IGNORED_FIELDS = new Set([
+  'id',
+  'childrenIds',
+  'level',
+  'isCollapsed',
+  'createdAt',
+  'updatedAt',
+]);
+
+// JSON with sorted keys, so equal objects compare equal
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  ) ?? 'undefined';
+
+// `false`, `[]` and `{}` mean the same as a missing property
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === false ||
+  (Array.isArray(value) && value.length === 0) ||
+  (!!value && typeof value === 'object' && Object.keys(value).length === 0);
+
+export const isSameNode = (a: ListNode | undefined, b: ListNode | undefined) =>
+  canonical(a) === canonical(b);
+
+export const diffNodeFields = (local: ListNode, incoming: ListNode): string[] => {
+  const keys = new Set([...Object.keys(local), ...Object.keys(incoming)]);
+  return Array.from(keys).filter((key) => {
+    if (IGNORED_FIELDS.has(key)) return false;
+    const localValue = local[key as keyof ListNode];
+    const incomingValue = incoming[key as keyof ListNode];
+    if (isBlank(localValue) && isBlank(incomingValue)) return false;
+    return canonical(localValue) !== canonical(incomingValue);
+  });
+};
+
+export const previewMerge = (
+  localNodes: Record<ListNodeId, ListNode>,
+  incoming: ImportedTree
+): MergePreview => {
+  const preview: MergePreview = { added: [], changed: [], conflicts: [], unchanged: 0 };
+
+  Object.values(incoming.nodes).forEach((node) => {
+    const local = localNodes[node.id];
+    if (!local) {
+      preview.added.push(node);
+      return;
+    }
+
+    const fields = diffNodeFields(local, node);
+    if (fields.length === 0) {
+      preview.unchanged++;
+    } else if (node.updatedAt > local.updatedAt) {
+      preview.changed.push({ id: node.id, local, incoming: node, fields });
+    } else {
+      preview.conflicts.push({ id: node.id, local, incoming: node, fields });
+    }
+  });
+
+  return preview;
+};
+
+/**
+ * Build the merged tree. Each node sits under the parent its winning version
+ * names, when that parent exists and the move doesn't close a cycle, and
+ * children keep the winning parent's order. Levels are recomputed and
+ * anything past `maxLevel` is flattened.
+ */
+export const mergeTrees = (
+  local: ImportedTree,
+  incoming: ImportedTree,
+  resolutions: Record<ListNodeId, ConflictResolution>,
+  maxLevel: number
+): ImportedTree => {
+  const preview = previewMerge(local.nodes, incoming);
+  const useIncoming = new Set<ListNodeId>([
+    ...preview.added.map((node) => node.id),
+    ...preview.changed.map((change) => change.id),
+    ...preview.conflicts
+      .filter((conflict) => resolutions[conflict.id] === 'incoming')
+      .map((conflict) => conflict.id),
+  ]);
+
+  const nodes: Record<ListNodeId, ListNode> = {};
+  const ids = Array.from(new Set([...Object.keys(local.nodes), ...Object.keys(incoming.nodes)]));
+  ids.forEach((id) => {
+    const winner = useIncoming.has(id) ? incoming.nodes[id] : local.nodes[id];
+    nodes[id] = { ...winner, childrenIds: [] };
+    // Keep our expand/collapse state for nodes we already have
+    if (local.nodes[id]) nodes[id].isCollapsed = local.nodes[id].isCollapsed;
+  });
+
+  const isAncestor = (ancestorId: ListNodeId, id: ListNodeId | null): boolean => {
+    for (let current = id; current; current = nodes[current]?.parentId ?? null) {
+      if (current === ancestorId) return true;
+    }
+    return false;
+  };
+
+  // Start from our structure, then move nodes whose file version wins. A
+  // move into the node's own subtree waits for other moves to clear the way,
+  // and is dropped if they never do.
+  const parentOf = (version: ListNode | undefined) =>
+    version?.parentId && nodes[version.parentId] ? version.parentId : null;
+  ids.forEach((id) => {
+    nodes[id].parentId = parentOf(local.nodes[id]);
+  });
+  let pending = ids.filter((id) => useIncoming.has(id));
+  for (let moved = true; moved && pending.length > 0; ) {
+    moved = false;
+    pending = pending.filter((id) => {
+      const parentId = parentOf(incoming.nodes[id]);
+      if (parentId && isAncestor(id, parentId)) return true;
+      nodes[id].parentId = parentId;
+      moved = true;
+      return false;
+    });
+  }
+
+  const placed = new Map<ListNodeId | null, ListNodeId[]>();
+  ids.forEach((id) => {
+    const parentId = nodes[id].parentId;
+    if (!placed.has(parentId)) placed.set(parentId, []);
+    placed.get(parentId)!.push(id);
+  });
+
+  // Children in the winning parent's order, then the other version's, then the rest
+  const orderedChildren = (parentId: ListNodeId | null, preferred: ListNodeId[]) => {
+    const children = placed.get(parentId) ?? [];
+    return Array.from(
+      new Set([...preferred.filter((id) => nodes[id]?.parentId === parentId), ...children])
+    );
+  };
+
+  ids.forEach((id) => {
+    const versions = useIncoming.has(id)
+      ? [incoming.nodes[id], local.nodes[id]]
+      : [local.nodes[id], incoming.nodes[id]];
+    nodes[id].childrenIds = orderedChildren(
+      id,
+      versions.flatMap((version) => version?.childrenIds ?? [])
+    );
+  });
+  const rootIds = orderedChildren(null, [...local.rootIds, ...incoming.rootIds]).flatMap(
+    (id) => fitSubtreeToDepth(id, nodes, 0, maxLevel).ids
+  );
+  rootIds.forEach((id) => {
+    nodes[id].parentId = null;
+  });
+
+  return { rootIds, nodes };
+};
+
+/**
+ * Field definitions from the file that we don't have yet, so their values
+ * survive the import. Ours win on id clashes.
+ */
+export const mergeFieldSchemas = (
+  local: CustomFieldDefinition[],
+  incoming: CustomFieldDefinition[]
+): CustomFieldDefinition[] => [
+  ...local,
+  ...incoming.filter((field) => !local.some((existing) => existing.id === field.id)),
+];
@@ -0,0 +1,98 @@
+import { APP_CONFIG } from '../constants/config';
+
+/**
+ * Migrations - upgrade exported payloads written by older versions before
+ * they are sanitized. Files without `schemaVersion` predate versioning and
+ * count as version 0.
+ */
+
+type Payload = Record<string, any>;
+type Migration = (payload: Payload) => Payload;
+
+const mapNodes = (nodes: unknown, migrate: (node: any) => any) =>
+  nodes && typeof nodes === 'object'
+    ? Object.fromEntries(
+        Object.entries(nodes as Record<string, unknown>).map(([id, node]) => [
+          id,
+          node && typeof node === 'object' ? migrate(node) : node,
+        ])
+      )
+    : nodes;
+
+/**
+ * Apply a node migration to the tree and to every snapshot
+ */
+const migrateAllNodes = (payload: Payload, migrate: (node: any) => any): Payload => ({
+  ...payload,
+  nodes: mapNodes(payload.nodes, migrate),
+  snapshots:
+    payload.snapshots && typeof payload.snapshots === 'object'
+      ? Object.fromEntries(
+          Object.entries(payload.snapshots as Record<string, any>).map(([id, snapshot]) => [
+            id,
+            snapshot && typeof snapshot === 'object'
+              ? { ...snapshot, nodes: mapNodes(snapshot.nodes, migrate) }
+              : snapshot,
+          ])
+        )
+      : payload.snapshots,
+});
+
+// Auto-tag output used to live in sandboxProps.tags
+const moveLegacyTags = (node: any) => {
+  const sandboxProps = node.sandboxProps;
+  if (!sandboxProps || typeof sandboxProps !== 'object' || !('tags' in sandboxProps)) {
+    return node;
+  }
+
+  const { tags: legacyTags, ...rest } = sandboxProps;
+  return {
+    ...node,
+    tags: [
+      ...(Array.isArray(node.tags) ? node.tags : []),
+      ...(Array.isArray(legacyTags) ? legacyTags : []),
+    ],
+    sandboxProps: rest,
+  };
+};
+
+/**
+ * MIGRATIONS[n] upgrades a version n payload to version n + 1, so there is
+ * one entry per version below APP_CONFIG.SCHEMA_VERSION
+ */
+export const MIGRATIONS: Migration[] = [
+  // 0 -> 1: tags become a node property
+  (payload) => migrateAllNodes(payload, moveLegacyTags),
+];
+
+export const getSchemaVersion = (payload: Payload): number => {
+  const version = payload.schemaVersion;
+  if (version === undefined) return 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error('Invalid schemaVersion');
+  }
+  return version;
+};
+
+/**
+ * Run every migration between the payload's version and the current one.
+ * Files from a newer version are refused rather than half-read.
+ */
+export const migratePayload = (
+  payload: Payload,
+  targetVersion: number = APP_CONFIG.SCHEMA_VERSION
+): Payload => {
+  const version = getSchemaVersion(payload);
+  if (version > targetVersion) {
+    throw new Error(
+      `This file was saved by a newer version of the app (schema ${version}, ` +
+        `this version reads up to ${targetVersion}). Update the app to open it.`
+    );
+  }
+
+  let migrated = payload;
+  for (let current = version; current < targetVersion; current++) {
+    migrated = MIGRATIONS[current](migrated);
+  }
+  return { ...migrated, schemaVersion: targetVersion };
+};
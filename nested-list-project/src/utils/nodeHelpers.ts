@@ -1,4 +1,5 @@
-import { ListNode, ListNodeId } from '../types/core';
+import { ListNode, ListNodeId, NodeSortKey } from '../types/core';
+import { compareFieldValues, getFieldValue } from './customFields';
 
 /**
  * Utility functions for working with nodes
@@ -139,15 +140,22 @@ export const filterNodes = (
 
 export const sortNodes = (
   nodes: ListNode[],
-  sortBy: 'createdAt' | 'updatedAt' | 'title',
+  sortBy: NodeSortKey,
   order: 'asc' | 'desc' = 'asc'
 ): ListNode[] => {
   const sorted = [...nodes].sort((a, b) => {
     let comparison = 0;
-    if (sortBy === 'title') {
+    if (sortBy.startsWith('field:')) {
+      const fieldId = sortBy.slice('field:'.length);
+      const aValue = getFieldValue(a, fieldId);
+      const bValue = getFieldValue(b, fieldId);
+      comparison = compareFieldValues(aValue, bValue);
+      // Nodes without a value stay last in either order
+      if (aValue === undefined || bValue === undefined) return comparison;
+    } else if (sortBy === 'title') {
       comparison = a.title.localeCompare(b.title, 'he');
     } else {
-      comparison = a[sortBy] - b[sortBy];
+      comparison = a[sortBy as 'createdAt' | 'updatedAt'] - b[sortBy as 'createdAt' | 'updatedAt'];
     }
     return order === 'asc' ? comparison : -comparison;
   });
@@ -219,3 +227,40 @@ export const cloneSubtree = (
   const rootNode = cloneRecursive(nodeId, parentId);
   return { node: rootNode, newNodes };
 };
+
+/**
+ * Ids in display order (depth-first); `visibleOnly` skips collapsed subtrees
+ */
+export const getTreeOrder = (
+  rootIds: ListNodeId[],
+  nodes: Record<ListNodeId, ListNode>,
+  visibleOnly: boolean = false
+): ListNodeId[] => {
+  const order: ListNodeId[] = [];
+
+  const visit = (id: ListNodeId) => {
+    const node = nodes[id];
+    if (!node) return;
+    order.push(id);
+    if (visibleOnly && node.isCollapsed) return;
+    node.childrenIds.forEach(visit);
+  };
+
+  rootIds.forEach(visit);
+  return order;
+};
+
+/**
+ * The selected nodes that aren't inside another selected node, in display
+ * order - bulk operations act on these so a subtree is only handled once
+ */
+export const getTopmostIds = (
+  ids: ListNodeId[],
+  rootIds: ListNodeId[],
+  nodes: Record<ListNodeId, ListNode>
+): ListNodeId[] => {
+  const selected = new Set(ids);
+  return getTreeOrder(rootIds, nodes).filter(
+    (id) => selected.has(id) && !getPath(id, nodes).slice(0, -1).some((n) => selected.has(n.id))
+  );
+};
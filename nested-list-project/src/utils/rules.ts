@@ -0,0 +1,250 @@
+import {
+  AutoCollapseRuleConfig,
+  AutoSortRuleConfig,
+  AutoTagRuleConfig,
+  BuiltInRuleType,
+  ColorByStatusRuleConfig,
+  ListNode,
+  ListNodeId,
+  RuleConfigMap,
+  SandboxRule,
+  TimeBasedRuleConfig,
+} from '../types/core';
+import { DAY_MS, DEFAULT_RULE_CONFIGS } from '../constants/rules';
+import { sortNodes } from './nodeHelpers';
+import { normalizeTag } from './tags';
+
+/**
+ * Rules runtime - evaluates session rules against the tree.
+ * Evaluators mutate the tree in place so they can run inside an Immer draft.
+ */
+
+export interface RuleTree {
+  nodes: Record<ListNodeId, ListNode>;
+  rootNodeIds: ListNodeId[];
+}
+
+export const getRuleConfig = <T extends BuiltInRuleType>(
+  type: T,
+  config: Record<string, any> | undefined
+): RuleConfigMap[T] => ({
+  ...DEFAULT_RULE_CONFIGS[type],
+  ...(config || {}),
+});
+
+const withParents = (
+  ids: ListNodeId[],
+  nodes: Record<ListNodeId, ListNode>
+): ListNodeId[] => {
+  const result = new Set<ListNodeId>();
+  ids.forEach((id) => {
+    result.add(id);
+    const parentId = nodes[id]?.parentId;
+    if (parentId) result.add(parentId);
+  });
+  return [...result];
+};
+
+const applyAutoCollapse = (
+  config: AutoCollapseRuleConfig,
+  tree: RuleTree,
+  affectedIds: ListNodeId[]
+) => {
+  const candidates =
+    config.trigger === 'done' ? affectedIds : withParents(affectedIds, tree.nodes);
+
+  candidates.forEach((id) => {
+    const node = tree.nodes[id];
+    if (!node || node.childrenIds.length === 0 || node.isCollapsed) return;
+
+    const shouldCollapse =
+      config.trigger === 'done'
+        ? !!node.isDone
+        : node.childrenIds.every((cid) => tree.nodes[cid]?.isDone);
+
+    if (shouldCollapse) {
+      node.isCollapsed = true;
+    }
+  });
+};
+
+const applyAutoTag = (
+  config: AutoTagRuleConfig,
+  tree: RuleTree,
+  affectedIds: ListNodeId[]
+) => {
+  const keyword = config.keyword.trim().toLowerCase();
+  const tag = normalizeTag(config.tag);
+  if (!keyword || !tag) return;
+
+  affectedIds.forEach((id) => {
+    const node = tree.nodes[id];
+    if (!node) return;
+
+    const haystack = config.matchDescription
+      ? `${node.title} ${node.description ?? ''}`
+      : node.title;
+    if (!haystack.toLowerCase().includes(keyword)) return;
+
+    const tags = node.tags ?? [];
+    if (tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) return;
+
+    node.tags = [...tags, tag];
+  });
+};
+
+const applyColorByStatus = (
+  config: ColorByStatusRuleConfig,
+  tree: RuleTree,
+  affectedIds: ListNodeId[]
+) => {
+  affectedIds.forEach((id) => {
+    const node = tree.nodes[id];
+    if (!node) return;
+
+    const slot = node.isDone ? config.doneColorSlot : config.pendingColorSlot ?? undefined;
+    if (node.colorSlot !== slot) {
+      node.colorSlot = slot;
+    }
+  });
+};
+
+const applyAutoSort = (
+  config: AutoSortRuleConfig,
+  tree: RuleTree,
+  affectedIds: ListNodeId[]
+) => {
+  const visitedParents = new Set<ListNodeId | null>();
+
+  affectedIds.forEach((id) => {
+    const node = tree.nodes[id];
+    if (!node || visitedParents.has(node.parentId)) return;
+    visitedParents.add(node.parentId);
+
+    const parent = node.parentId ? tree.nodes[node.parentId] : null;
+    const siblingIds = parent ? parent.childrenIds : tree.rootNodeIds;
+    const siblings = siblingIds
+      .map((sid) => tree.nodes[sid])
+      .filter((n): n is ListNode => !!n);
+    const sortedIds = sortNodes(siblings, config.sortBy, config.order).map((n) => n.id);
+
+    if (
+      sortedIds.length === siblingIds.length &&
+      sortedIds.some((sid, index) => sid !== siblingIds[index])
+    ) {
+      siblingIds.splice(0, siblingIds.length, ...sortedIds);
+    }
+  });
+};
+
+const isStale = (config: TimeBasedRuleConfig, node: ListNode, now: number) =>
+  node[config.field] < now - config.olderThanDays * DAY_MS;
+
+const applyTimeBased = (
+  config: TimeBasedRuleConfig,
+  tree: RuleTree,
+  affectedIds: ListNodeId[],
+  now: number
+) => {
+  affectedIds.forEach((id) => {
+    const node = tree.nodes[id];
+    if (!node || !isStale(config, node, now)) return;
+
+    switch (config.action) {
+      // Highlights are synced once for all rules, see syncStaleHighlights
+      case 'highlight':
+        break;
+      case 'collapse':
+        if (node.childrenIds.length > 0 && !node.isCollapsed) {
+          node.isCollapsed = true;
+        }
+        break;
+      case 'pin':
+        if (!node.isPinned) {
+          node.isPinned = true;
+        }
+        break;
+    }
+  });
+};
+
+/**
+ * Highlights belong to the time-based rules: a node is highlighted while an
+ * enabled highlight rule finds it stale, and cleared once none does
+ */
+const syncStaleHighlights = (
+  rules: SandboxRule[],
+  tree: RuleTree,
+  affectedIds: ListNodeId[],
+  now: number
+) => {
+  const configs = rules
+    .filter((rule) => rule.enabled && rule.type === 'time-based')
+    .map((rule) => getRuleConfig('time-based', rule.config))
+    .filter((config) => config.action === 'highlight');
+
+  affectedIds.forEach((id) => {
+    const node = tree.nodes[id];
+    const shouldHighlight = configs.some((config) => isStale(config, node, now));
+    if (!!node.isHighlighted !== shouldHighlight) {
+      node.isHighlighted = shouldHighlight;
+    }
+  });
+};
+
+/**
+ * Evaluate enabled rules, in order, against the affected nodes.
+ * Unknown rule types are ignored.
+ */
+export const applyRules = (
+  rules: SandboxRule[],
+  tree: RuleTree,
+  affectedIds: ListNodeId[],
+  now: number = Date.now()
+): void => {
+  const ids = affectedIds.filter((id) => !!tree.nodes[id]);
+
+  rules.forEach((rule) => {
+    if (!rule.enabled) return;
+
+    switch (rule.type) {
+      case 'auto-collapse':
+        applyAutoCollapse(getRuleConfig('auto-collapse', rule.config), tree, ids);
+        break;
+      case 'auto-tag':
+        applyAutoTag(getRuleConfig('auto-tag', rule.config), tree, ids);
+        break;
+      case 'color-by-status':
+        applyColorByStatus(getRuleConfig('color-by-status', rule.config), tree, ids);
+        break;
+      case 'auto-sort':
+        applyAutoSort(getRuleConfig('auto-sort', rule.config), tree, ids);
+        break;
+      case 'time-based':
+        applyTimeBased(getRuleConfig('time-based', rule.config), tree, ids, now);
+        break;
+      default:
+        break;
+    }
+  });
+
+  syncStaleHighlights(rules, tree, ids, now);
+};
+
+/**
+ * Staleness changes without edits, so time-based rules also run over the
+ * whole tree - on load, on a timer and when the rules change, which clears
+ * the highlights of a rule that was disabled or removed
+ */
+export const applyTimeRules = (
+  rules: SandboxRule[],
+  tree: RuleTree,
+  now: number = Date.now()
+): void => {
+  applyRules(
+    rules.filter((rule) => rule.type === 'time-based'),
+    tree,
+    Object.keys(tree.nodes),
+    now
+  );
+};
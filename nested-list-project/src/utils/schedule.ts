@@ -0,0 +1,158 @@
+import { ListNode, ListNodeId, TimelineZoom } from '../types/core';
+
+/**
+ * Schedule - start/due dates as `YYYY-MM-DD` keys, the spans the timeline
+ * draws and the arithmetic behind dragging bars around
+ */
+
+export interface ScheduleSpan {
+  start: string;
+  end: string;
+  // Derived from scheduled descendants rather than the node's own dates
+  rolledUp: boolean;
+}
+
+export type ScheduleDragMode = 'move' | 'start' | 'end';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDateKey = (key: string) => new Date(`${key}T00:00:00Z`);
+
+/**
+ * Validate a date key; timestamps and full ISO strings are cut down to the day
+ */
+export const sanitizeDateKey = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value).toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const date = value.trim().slice(0, 10);
+  if (!DATE_PATTERN.test(date)) return undefined;
+  // Reject impossible dates such as 2024-02-31
+  const parsed = parseDateKey(date);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+    ? date
+    : undefined;
+};
+
+/**
+ * Today in the user's local calendar
+ */
+export const todayKey = (now: Date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const addDays = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export const diffDays = (from: string, to: string): number =>
+  Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY_MS);
+
+/**
+ * A node's own span; a single date makes a one-day span
+ */
+export const getOwnSpan = (node: ListNode): ScheduleSpan | null => {
+  const start = node.startDate ?? node.dueDate;
+  const end = node.dueDate ?? node.startDate;
+  if (!start || !end) return null;
+  return start <= end
+    ? { start, end, rolledUp: false }
+    : { start: end, end: start, rolledUp: false };
+};
+
+/**
+ * Spans for every scheduled node; a parent's span grows to cover all of its
+ * scheduled descendants
+ */
+export const computeScheduleSpans = (
+  nodes: Record<ListNodeId, ListNode>,
+  rootIds: ListNodeId[]
+): Record<ListNodeId, ScheduleSpan> => {
+  const spans: Record<ListNodeId, ScheduleSpan> = {};
+
+  const visit = (id: ListNodeId): ScheduleSpan | null => {
+    const node = nodes[id];
+    if (!node) return null;
+
+    let span = getOwnSpan(node);
+    node.childrenIds.forEach((childId) => {
+      const child = visit(childId);
+      if (!child) return;
+      span = span
+        ? {
+            start: child.start < span.start ? child.start : span.start,
+            end: child.end > span.end ? child.end : span.end,
+            rolledUp: true,
+          }
+        : { ...child, rolledUp: true };
+    });
+
+    if (span) spans[id] = span;
+    return span;
+  };
+
+  rootIds.forEach(visit);
+  return spans;
+};
+
+export const isOverdue = (node: ListNode, today: string = todayKey()): boolean =>
+  !node.isDone && !!node.dueDate && node.dueDate < today;
+
+/**
+ * New dates after dragging a bar by `days`; resizing never flips a span
+ */
+export const shiftSchedule = (
+  node: ListNode,
+  mode: ScheduleDragMode,
+  days: number
+): Pick<ListNode, 'startDate' | 'dueDate'> => {
+  const span = getOwnSpan(node);
+  if (!span || days === 0) return { startDate: node.startDate, dueDate: node.dueDate };
+
+  switch (mode) {
+    case 'move':
+      return {
+        startDate: node.startDate && addDays(node.startDate, days),
+        dueDate: node.dueDate && addDays(node.dueDate, days),
+      };
+    case 'start': {
+      const start = addDays(span.start, days);
+      return { startDate: start < span.end ? start : span.end, dueDate: span.end };
+    }
+    case 'end': {
+      const end = addDays(span.end, days);
+      return { startDate: span.start, dueDate: end > span.start ? end : span.start };
+    }
+  }
+};
+
+/**
+ * Gridline dates for the axis - every day, every Monday or every 1st of the month
+ */
+export const getAxisTicks = (start: string, end: string, zoom: TimelineZoom): string[] => {
+  const ticks: string[] = [];
+  for (let key = start; key <= end; key = addDays(key, 1)) {
+    const date = parseDateKey(key);
+    if (
+      zoom === 'day' ||
+      (zoom === 'week' && date.getUTCDay() === 1) ||
+      (zoom === 'month' && date.getUTCDate() === 1)
+    ) {
+      ticks.push(key);
+    }
+  }
+  return ticks;
+};
+
+export const formatDateKey = (
+  key: string,
+  rtl: boolean,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' }
+): string =>
+  parseDateKey(key).toLocaleDateString(rtl ? 'he-IL' : 'en-US', { ...options, timeZone: 'UTC' });
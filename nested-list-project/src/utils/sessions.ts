@@ -0,0 +1,32 @@
+import { SandboxSession } from '../types/core';
+
+/**
+ * Session helpers - which tree a session works on and the order sessions
+ * are listed in
+ */
+
+// Key in `sessionTrees` of the tree shared by sessions without their own
+export const SHARED_TREE_KEY = '__shared__';
+
+export const getSessionTreeKey = (session: SandboxSession) =>
+  session.ownsTree ? session.id : SHARED_TREE_KEY;
+
+/**
+ * Whether a template or snapshot belongs to the tree under `treeKey`. Ones
+ * from before sessions could own a tree belong to the shared tree.
+ */
+export const isInTree = (item: { treeKey?: string }, treeKey: string) =>
+  (item.treeKey ?? SHARED_TREE_KEY) === treeKey;
+
+/**
+ * Every session, the current one included, by `order`; sessions from before
+ * there was an order come last, oldest first
+ */
+export const getOrderedSessions = (
+  sessions: Record<string, SandboxSession>,
+  currentSession: SandboxSession
+): SandboxSession[] =>
+  Object.values({ ...sessions, [currentSession.id]: currentSession }).sort(
+    (a, b) =>
+      (a.order ?? Infinity) - (b.order ?? Infinity) || a.createdAt - b.createdAt
+  );
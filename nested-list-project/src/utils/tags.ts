@@ -0,0 +1,61 @@
+import { FilterConfig, ListNode, ListNodeId } from '../types/core';
+
+/**
+ * Tags - free-form labels on nodes, used for filtering and grouping
+ */
+
+export type TagMatchMode = NonNullable<FilterConfig['tagMatch']>;
+
+/**
+ * Trim, drop a leading `#` and collapse inner whitespace; empty tags are null
+ */
+export const normalizeTag = (tag: string): string | null => {
+  const normalized = tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+  return normalized || null;
+};
+
+/**
+ * Normalize a list of tags, dropping invalid entries and case-insensitive duplicates
+ */
+export const sanitizeTags = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  value.forEach((item) => {
+    if (typeof item !== 'string') return;
+    const tag = normalizeTag(item);
+    if (!tag || seen.has(tag.toLowerCase())) return;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  });
+  return tags;
+};
+
+/**
+ * Every tag in use, most frequent first - the source for autocomplete
+ */
+export const collectTags = (nodes: Record<ListNodeId, ListNode>): string[] => {
+  const counts = new Map<string, number>();
+  Object.values(nodes).forEach((node) => {
+    node.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([tag]) => tag);
+};
+
+/**
+ * `any` needs one of the tags, `all` needs every one; comparison ignores case
+ */
+export const matchesTags = (
+  node: ListNode,
+  tags: string[],
+  mode: TagMatchMode = 'any'
+): boolean => {
+  if (tags.length === 0) return true;
+  const nodeTags = new Set((node.tags ?? []).map((tag) => tag.toLowerCase()));
+  const hasTag = (tag: string) => nodeTags.has(tag.toLowerCase());
+  return mode === 'all' ? tags.every(hasTag) : tags.some(hasTag);
+};